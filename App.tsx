@@ -3,6 +3,7 @@ import { AuthProvider, useAuth } from './context/AuthContext';
 import { ProgressProvider, useProgress } from './context/ProgressContext';
 import { SettingsProvider } from './context/SettingsContext';
 import { AppNavigationProvider } from './context/AppNavigationContext';
+import { JourneyCatalogProvider } from './context/JourneyCatalogContext';
 import LoginView from './components/auth/LoginView';
 import JourneySelectionView from './components/topic/TopicSelectionView'; // Re-using file path
 import GameView from './components/lesson/LessonView'; // Re-using file path
@@ -13,6 +14,8 @@ import PrivateTutorPane from './components/shared/PrivateTutorPane';
 import './index.css';
 import VideoLoader from './components/shared/VideoLoader';
 import VideoPlayerView from './components/shared/VideoPlayerView';
+import AIStatusToast from './components/shared/AIStatusToast';
+import MaterialJobTray from './components/shared/MaterialJobTray';
 import { useState } from 'react';
 
 
@@ -66,9 +69,13 @@ const App: React.FC = () => {
     <AuthProvider>
         <SettingsProvider>
             <AppNavigationProvider>
-                <ProgressProvider>
-                    <AppContent />
-                </ProgressProvider>
+                <JourneyCatalogProvider>
+                    <ProgressProvider>
+                        <AppContent />
+                        <AIStatusToast />
+                        <MaterialJobTray />
+                    </ProgressProvider>
+                </JourneyCatalogProvider>
             </AppNavigationProvider>
         </SettingsProvider>
     </AuthProvider>
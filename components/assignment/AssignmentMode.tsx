@@ -7,7 +7,9 @@ import AssignmentSetup from './AssignmentSetup';
 import GuidedBuilder from './GuidedBuilder';
 import VoicePractice from './VoicePractice';
 import Deliverables from './Deliverables';
-import { GoogleGenAI } from '@google/genai';
+import { generateStructured } from '../../services/aiService';
+import { validateAssignmentSuggestions } from '../../services/outputValidators';
+import { getJourneyMaterialIds } from '../../services/contentMemoryService';
 
 export interface Assignment {
   id: string;
@@ -69,7 +71,7 @@ const AssignmentMode: React.FC<AssignmentModeProps> = ({
       goal: getGoalFromIntent(analysis.intent),
       level: analysis.difficulty as 'basic' | 'standard' | 'advanced',
       prompt: `Based on the material: ${analysis.summary}`,
-      sourceMaterialIds: [], // Would be populated from journey
+      sourceMaterialIds: journey ? getJourneyMaterialIds(journey) : [],
       createdAt: new Date(),
       status: 'setup',
       content: {},
@@ -176,9 +178,6 @@ const AssignmentMode: React.FC<AssignmentModeProps> = ({
   };
 
   const generateAISuggestions = async (assignment: Assignment, outline: any) => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || process.env.GEMINI_API_KEY || '' });
-    const model = ai.getGenerativeModel({ model: 'gemini-2.5-flash' });
-
     const prompt = `Generate a thesis statement and writing suggestions for this ${assignment.goal} assignment:
 
 Title: ${assignment.title}
@@ -196,14 +195,10 @@ Please provide:
 Return as JSON with keys: thesis, keyPoints, writingTips`;
 
     try {
-      const response = await model.generateContent({
+      return await generateStructured({
+        task: 'assignment.suggestions',
         contents: prompt,
-        config: {
-          responseMimeType: 'application/json',
-        },
-      });
-
-      return JSON.parse(response.text);
+      }, validateAssignmentSuggestions);
     } catch (error) {
       console.error('AI suggestions error:', error);
       return {
@@ -1,7 +1,8 @@
 // components/assignment/GuidedBuilder.tsx
 
 import React, { useState, useEffect } from 'react';
-import { GoogleGenAI } from '@google/genai';
+import { generateStructured } from '../../services/aiService';
+import { validateAssignmentOutline, validateThesisOptions } from '../../services/outputValidators';
 import { Assignment } from './AssignmentMode';
 
 interface GuidedBuilderProps {
@@ -30,9 +31,6 @@ const GuidedBuilder: React.FC<GuidedBuilderProps> = ({
   const generateOutline = async () => {
     setLoading(true);
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || process.env.GEMINI_API_KEY || '' });
-      const model = ai.getGenerativeModel({ model: 'gemini-2.5-flash' });
-
       const prompt = `Create a detailed outline for a ${assignment.goal} about "${assignment.title}".
 
 Goal: ${assignment.goal}
@@ -50,14 +48,10 @@ Return a JSON outline with:
 
 Make it appropriate for ${assignment.level} level.`;
 
-      const response = await model.generateContent({
+      const generatedOutline = await generateStructured({
+        task: 'assignment.outline',
         contents: prompt,
-        config: {
-          responseMimeType: 'application/json',
-        },
-      });
-
-      const generatedOutline = JSON.parse(response.text);
+      }, validateAssignmentOutline);
       setOutline(generatedOutline);
 
       // Generate thesis suggestions
@@ -65,14 +59,10 @@ Make it appropriate for ${assignment.level} level.`;
 
 Return as JSON: { "options": ["Thesis 1", "Thesis 2", "Thesis 3"] }`;
 
-      const thesisResponse = await model.generateContent({
+      const thesisData = await generateStructured({
+        task: 'assignment.thesis',
         contents: thesisPrompt,
-        config: {
-          responseMimeType: 'application/json',
-        },
-      });
-
-      const thesisData = JSON.parse(thesisResponse.text);
+      }, validateThesisOptions);
       setAiSuggestions({ thesisOptions: thesisData.options });
 
     } catch (error) {
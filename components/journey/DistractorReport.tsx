@@ -0,0 +1,90 @@
+// components/journey/DistractorReport.tsx
+
+import React, { useState } from 'react';
+import { DistractorReport as DistractorReportType } from '../../types';
+import { getDistractorReport } from '../../services/attemptLogService';
+import { soundService } from '../../services/soundService';
+
+interface DistractorReportProps {
+  journeyId: string;
+}
+
+const formatSeconds = (ms: number): string => `${(ms / 1000).toFixed(1)}s`;
+
+/**
+ * Which wrong options of a journey's multiple choice and cause and effect
+ * questions attract students on their first try, loaded when opened. For
+ * teachers and admins (see canViewAttemptReports).
+ */
+const DistractorReport: React.FC<DistractorReportProps> = ({ journeyId }) => {
+  const [open, setOpen] = useState(false);
+  const [reports, setReports] = useState<DistractorReportType[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleToggle = async () => {
+    soundService.playUIClick();
+    setOpen(!open);
+    if (open || reports) return;
+
+    setError(null);
+    try {
+      setReports(await getDistractorReport(journeyId));
+    } catch (err) {
+      console.error('[Attempts] Could not load the distractor report:', err);
+      setError('Could not load the answer report.');
+    }
+  };
+
+  return (
+    <div className="mt-2">
+      <button
+        onClick={handleToggle}
+        className="w-full px-3 py-2 rounded-lg bg-black/40 border border-brand-gold/20 text-left text-sm text-gray-300 hover:bg-black/60 hover:border-brand-gold transition"
+      >
+        📊 {open ? 'Hide answer report' : 'Answer report'}
+      </button>
+
+      {open && (
+        <div className="mt-1.5 p-3 rounded-lg bg-black/40 border border-brand-gold/20 text-sm text-gray-200 space-y-3">
+          {error && <p className="text-red-400">{error}</p>}
+          {!error && !reports && <p className="text-gray-400">Loading...</p>}
+          {reports && reports.length === 0 && (
+            <p className="text-gray-400">No multiple choice answers yet.</p>
+          )}
+          {reports?.map(report => (
+            <div key={report.statsId}>
+              <p className="font-bold">{report.questionText}</p>
+              <p className="text-xs text-gray-400">
+                {report.students} student{report.students === 1 ? '' : 's'} · {report.attempts} answer{report.attempts === 1 ? '' : 's'}
+                {report.averageFirstInteractionMs !== null && ` · first click after ${formatSeconds(report.averageFirstInteractionMs)} on average`}
+              </p>
+              <ul className="mt-1 space-y-1">
+                {report.options.map(option => {
+                  const share = report.students ? option.students / report.students : 0;
+                  return (
+                    <li key={option.option}>
+                      <div className="flex justify-between gap-2">
+                        <span className={option.isCorrect ? 'text-green-400' : ''}>
+                          {option.isCorrect ? '✓ ' : ''}{option.option}
+                        </span>
+                        <span className="text-gray-400">{Math.round(share * 100)}%</span>
+                      </div>
+                      <div className="h-1.5 rounded bg-white/10">
+                        <div
+                          className={`h-1.5 rounded ${option.isCorrect ? 'bg-green-500' : 'bg-brand-gold'}`}
+                          style={{ width: `${share * 100}%` }}
+                        />
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DistractorReport;
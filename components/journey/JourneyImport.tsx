@@ -0,0 +1,69 @@
+// components/journey/JourneyImport.tsx
+
+import React, { useRef, useState } from 'react';
+import { useAuth } from '../../context/AuthContext';
+import { useJourneyCatalog } from '../../context/JourneyCatalogContext';
+import { saveJourneyDefinition } from '../../services/journeyDefinitionService';
+import { soundService } from '../../services/soundService';
+
+/**
+ * Publishes a journey definition file (docs/JOURNEY_DEFINITIONS.md) to
+ * Firestore, where every student's catalog picks it up. For teachers and
+ * admins (see canAuthorJourneys).
+ */
+const JourneyImport: React.FC = () => {
+  const { user } = useAuth();
+  const { reloadJourneys } = useJourneyCatalog();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !user) return;
+
+    setIsSaving(true);
+    setMessage(null);
+    setError(null);
+    try {
+      let definition: unknown;
+      try {
+        definition = JSON.parse(await file.text());
+      } catch {
+        throw new Error(`${file.name} is not a JSON file.`);
+      }
+      const journey = await saveJourneyDefinition(definition, user.uid);
+      await reloadJourneys();
+      setMessage(`Published "${journey.name}".`);
+    } catch (err: any) {
+      console.error('[Journeys] Could not publish the journey:', err);
+      setError(err?.code === 'permission-denied'
+        ? 'This journey id belongs to another teacher. Choose a different id.'
+        : err?.message || 'Could not publish the journey.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="mb-6">
+      <input ref={inputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleFile} />
+      <button
+        onClick={() => {
+          soundService.playUIClick();
+          inputRef.current?.click();
+        }}
+        disabled={isSaving}
+        className="px-4 py-2 rounded-lg bg-black/40 border border-brand-gold/40 text-sm text-gray-200 hover:bg-black/60 hover:border-brand-gold transition disabled:opacity-50"
+      >
+        {isSaving ? 'Publishing...' : '📜 Publish a journey file'}
+      </button>
+      {message && <p className="mt-2 text-sm text-green-400">{message}</p>}
+      {error && <p className="mt-2 text-sm text-red-400 whitespace-pre-line">{error}</p>}
+    </div>
+  );
+};
+
+export default JourneyImport;
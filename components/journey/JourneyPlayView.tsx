@@ -2,9 +2,11 @@
 
 import React, { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '../../context/AuthContext';
-import { PersonalJourney, JourneyStep, Question } from '../../types';
-import { getJourney, saveJourneyProgress } from '../../services/contentMemoryService';
+import { PersonalJourney, JourneyStep } from '../../types';
+import { getJourney, getJourneyProgress, saveJourneyProgress } from '../../services/contentMemoryService';
 import { assetCache } from '../../services/assetCacheService';
+import { enrollAnsweredQuestions } from '../../services/spacedRepetitionService';
+import { QuestionAttemptInput, logQuestionAttempt } from '../../services/attemptLogService';
 import SceneCard from './SceneCard';
 import TaskCard from './TaskCard';
 import ProgressTracker from './ProgressTracker';
@@ -76,13 +78,13 @@ const JourneyPlayView: React.FC<JourneyPlayViewProps> = ({
       userId: user.uid,
       step: currentStepIndex,
       xpEarned: calculateXpForStep(currentStep!, result),
-      accuracy: result.accuracy || [1],
+      accuracy: result.accuracy || [],
       reviewedAt: new Date(),
       timeSpent: (Date.now() - sessionStartTime) / 1000,
       completed: false,
       firstTryAccuracy: result.firstTry ? 1 : 0,
       hintsUsed,
-      retries: Object.values(adaptiveRetries).reduce((sum, r) => sum + r, 0),
+      retries: Object.keys(adaptiveRetries).reduce((sum, key) => sum + adaptiveRetries[key], 0),
       confusionTags: result.confusionTags || [],
       completedAt: isLastStep ? new Date() : undefined,
     };
@@ -102,10 +104,14 @@ const JourneyPlayView: React.FC<JourneyPlayViewProps> = ({
   }, [journey, user, journeyId, currentStepIndex, isLastStep, sessionStartTime, hintsUsed, adaptiveRetries, onComplete]);
 
   const calculateXpForStep = (step: JourneyStep, result: any): number => {
-    let baseXp = step.xpValue || 10;
+    const scores: number[] = result.accuracy || [];
+    const averageScore = scores.length ? scores.reduce((sum, score) => sum + score, 0) / scores.length : 1;
+
+    // Partly right answers earn part of the step's XP
+    let baseXp = Math.round((step.xpValue || 10) * averageScore);
 
     // Bonus for accuracy and speed
-    if (result.accuracy && result.accuracy[0] === 1) {
+    if (scores.length && scores.every(score => score === 1)) {
       baseXp += 5; // Perfect accuracy bonus
     }
 
@@ -131,11 +137,19 @@ const JourneyPlayView: React.FC<JourneyPlayViewProps> = ({
     }));
   }, []);
 
-  const handleSpacedPractice = useCallback(async (difficultQuestions: Question[]) => {
-    // Add difficult questions to spaced practice queue
-    // This would integrate with a spaced repetition system
-    console.log('Adding to spaced practice:', difficultQuestions);
-  }, []);
+  const handleQuestionAnswered = useCallback((attempt: Omit<QuestionAttemptInput, 'source'>) => {
+    if (!user || !journey || !currentStep) return;
+    const source = { mode: 'study' as const, journeyId, stepId: currentStep.id, materialId: journey.sourceMaterialId };
+    enrollAnsweredQuestions(user.uid, [{
+      question: attempt.question,
+      correct: attempt.result.isCorrect,
+      timeMs: attempt.telemetry.answerMs,
+      hintsUsed: attempt.telemetry.hintsViewed,
+      source,
+    }]).catch(error => console.error('[Reviews] Could not enroll the question:', error));
+    logQuestionAttempt(user.uid, { ...attempt, source })
+      .catch(error => console.error('[Attempts] Could not log the answer:', error));
+  }, [user, journey, journeyId, currentStep]);
 
   const renderCurrentStep = () => {
     if (!currentStep) return null;
@@ -159,7 +173,7 @@ const JourneyPlayView: React.FC<JourneyPlayViewProps> = ({
             onComplete={handleStepComplete}
             onHintUsed={handleHintUsed}
             onAdaptiveRetry={handleAdaptiveRetry}
-            onSpacedPractice={handleSpacedPractice}
+            onQuestionAnswered={handleQuestionAnswered}
             onShowTutor={() => setShowTutor(true)}
           />
         );
@@ -4,6 +4,8 @@ import React, { useState, useEffect } from 'react';
 import { PersonalJourney, JourneyStep } from '../../types';
 import { assetCache } from '../../services/assetCacheService';
 import { useAuth } from '../../context/AuthContext';
+import SourceMomentLink from '../shared/SourceMomentLink';
+import SourceCitations from '../shared/SourceCitations';
 
 interface SceneCardProps {
   step: JourneyStep;
@@ -145,6 +147,9 @@ const SceneCard: React.FC<SceneCardProps> = ({
               <blockquote>{step.narratorLine}</blockquote>
             </div>
           )}
+
+          <SourceMomentLink moment={step.sourceMoment} className="mt-4" />
+          <SourceCitations citations={step.citations} className="mt-4" />
         </div>
       </div>
 
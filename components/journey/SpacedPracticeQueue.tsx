@@ -1,133 +1,107 @@
 // components/journey/SpacedPracticeQueue.tsx
 
 import React, { useState, useEffect } from 'react';
-import { Question } from '../../types';
-
-interface SpacedPracticeItem {
-  question: Question;
-  nextReview: Date;
-  difficulty: number; // 1-5, higher = harder
-  timesReviewed: number;
-  lastReviewed: Date | null;
-  id: string;
-}
+import { QuestionType, ReviewCard, ReviewRating } from '../../types';
+import {
+  activeCards,
+  buryReviewCard,
+  dueCards,
+  editReviewCardQuestion,
+  isBuried,
+  loadReviewDeck,
+  recordReview,
+  removeReviewCard,
+  setReviewCardSuspended,
+  subscribeToReviewDeck,
+} from '../../services/spacedRepetitionService';
 
 interface SpacedPracticeQueueProps {
   userId: string;
 }
 
+const RATINGS: { rating: ReviewRating; label: string }[] = [
+  { rating: 'again', label: 'Again' },
+  { rating: 'hard', label: 'Hard' },
+  { rating: 'good', label: 'Good' },
+  { rating: 'easy', label: 'Easy' },
+];
+
+const STATE_LABELS: Record<ReviewCard['state'], string> = {
+  new: 'New',
+  learning: 'Learning',
+  review: 'Review',
+  relearning: 'Relearning',
+};
+
+// Ease factor shown on the old 1-5 difficulty colors: lower ease, harder card
+const difficultyClass = (card: ReviewCard): string =>
+  `difficulty-${Math.max(1, Math.min(5, Math.round(3 + (2.5 - card.ease) * 4)))}`;
+
 const SpacedPracticeQueue: React.FC<SpacedPracticeQueueProps> = ({ userId }) => {
-  const [queue, setQueue] = useState<SpacedPracticeItem[]>([]);
-  const [dueItems, setDueItems] = useState<SpacedPracticeItem[]>([]);
+  // The whole deck, including removed cards, as the service keeps it
+  const [deck, setDeck] = useState<ReviewCard[]>([]);
+  const [now, setNow] = useState(Date.now());
   const [showQueue, setShowQueue] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Flashcards turned over, and the one being edited
+  const [revealedIds, setRevealedIds] = useState<string[]>([]);
+  const [editing, setEditing] = useState<{ cardId: string; front: string; back: string } | null>(null);
 
   useEffect(() => {
-    loadSpacedPracticeQueue();
+    let cancelled = false;
+    loadReviewDeck(userId)
+      .then(loaded => {
+        if (!cancelled) setDeck(loaded);
+      })
+      .catch(err => console.error('Failed to load spaced practice queue:', err));
+    // Questions enrolled while the student plays
+    const unsubscribe = subscribeToReviewDeck(userId, setDeck);
     // Check for due items every minute
-    const interval = setInterval(checkDueItems, 60000);
-    return () => clearInterval(interval);
+    const interval = setInterval(() => setNow(Date.now()), 60000);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      clearInterval(interval);
+    };
   }, [userId]);
 
-  const loadSpacedPracticeQueue = () => {
-    // In production, this would load from IndexedDB or Firestore
-    // For now, use localStorage as a placeholder
-    const saved = localStorage.getItem(`spaced_practice_${userId}`);
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved);
-        const items: SpacedPracticeItem[] = parsed.map((item: any) => ({
-          ...item,
-          nextReview: new Date(item.nextReview),
-          lastReviewed: item.lastReviewed ? new Date(item.lastReviewed) : null,
-        }));
-        setQueue(items);
-        checkDueItems(items);
-      } catch (error) {
-        console.error('Failed to load spaced practice queue:', error);
-      }
+  const queue = activeCards(deck);
+  const dueItems = dueCards(deck, now);
+  const nextReview = queue.find(card => !card.suspended);
+
+  const updateDeck = async (change: Promise<ReviewCard[]>) => {
+    try {
+      setError(null);
+      setDeck(await change);
+      setNow(Date.now());
+    } catch (err: any) {
+      console.error('Failed to update spaced practice queue:', err);
+      setError(err.message || 'Could not save your review. Try again.');
     }
   };
 
-  const saveSpacedPracticeQueue = (items: SpacedPracticeItem[]) => {
-    localStorage.setItem(`spaced_practice_${userId}`, JSON.stringify(items));
-    setQueue(items);
-    checkDueItems(items);
-  };
-
-  const checkDueItems = (items: SpacedPracticeItem[] = queue) => {
-    const now = new Date();
-    const due = items.filter(item => item.nextReview <= now);
-    setDueItems(due);
-  };
-
-  const addToQueue = (question: Question) => {
-    const newItem: SpacedPracticeItem = {
-      question,
-      nextReview: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 hours from now
-      difficulty: 3, // Default difficulty
-      timesReviewed: 0,
-      lastReviewed: null,
-      id: `sp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-    };
-
-    const updatedQueue = [...queue, newItem];
-    saveSpacedPracticeQueue(updatedQueue);
+  const reviewItem = (cardId: string, rating: ReviewRating) => {
+    setRevealedIds(ids => ids.filter(id => id !== cardId));
+    return updateDeck(recordReview(userId, deck, cardId, rating));
   };
 
-  const reviewItem = (itemId: string, performance: 'easy' | 'good' | 'hard') => {
-    const updatedQueue = queue.map(item => {
-      if (item.id === itemId) {
-        const newDifficulty = calculateNewDifficulty(item.difficulty, performance);
-        const nextReviewDate = calculateNextReview(item, performance);
-
-        return {
-          ...item,
-          difficulty: newDifficulty,
-          nextReview: nextReviewDate,
-          timesReviewed: item.timesReviewed + 1,
-          lastReviewed: new Date(),
-        };
-      }
-      return item;
-    });
-
-    saveSpacedPracticeQueue(updatedQueue);
-  };
-
-  const calculateNewDifficulty = (currentDifficulty: number, performance: 'easy' | 'good' | 'hard'): number => {
-    let adjustment = 0;
-    switch (performance) {
-      case 'easy':
-        adjustment = -0.5;
-        break;
-      case 'good':
-        adjustment = 0;
-        break;
-      case 'hard':
-        adjustment = 0.5;
-        break;
+  const saveEdit = (card: ReviewCard) => {
+    if (!editing || card.question.type !== QuestionType.FLASHCARD) return;
+    const front = editing.front.trim();
+    const back = editing.back.trim();
+    if (!front || !back) {
+      setError('Fill in both sides of the card.');
+      return;
     }
-
-    return Math.max(1, Math.min(5, currentDifficulty + adjustment));
+    setEditing(null);
+    return updateDeck(editReviewCardQuestion(userId, deck, card.id, { ...card.question, questionText: front, answer: back }));
   };
 
-  const calculateNextReview = (item: SpacedPracticeItem, performance: 'easy' | 'good' | 'hard'): Date => {
-    const baseIntervals = {
-      easy: 7 * 24 * 60 * 60 * 1000,   // 7 days
-      good: 24 * 60 * 60 * 1000,       // 1 day
-      hard: 4 * 60 * 60 * 1000,        // 4 hours
-    };
-
-    const interval = baseIntervals[performance];
-    const difficultyMultiplier = item.difficulty / 3; // Normalize around 1
+  const removeFromQueue = (cardId: string) => updateDeck(removeReviewCard(userId, deck, cardId));
 
-    return new Date(Date.now() + (interval * difficultyMultiplier));
-  };
+  const toggleSuspended = (card: ReviewCard) => updateDeck(setReviewCardSuspended(userId, deck, card.id, !card.suspended));
 
-  const removeFromQueue = (itemId: string) => {
-    const updatedQueue = queue.filter(item => item.id !== itemId);
-    saveSpacedPracticeQueue(updatedQueue);
-  };
+  const buryUntilTomorrow = (cardId: string) => updateDeck(buryReviewCard(userId, deck, cardId));
 
   if (dueItems.length === 0 && !showQueue) {
     return null;
@@ -154,6 +128,8 @@ const SpacedPracticeQueue: React.FC<SpacedPracticeQueueProps> = ({ userId }) =>
 
       {showQueue && (
         <div className="queue-content">
+          {error && <div className="queue-error">{error}</div>}
+
           <div className="queue-stats">
             <div className="stat-item">
               <span className="stat-label">Due Now:</span>
@@ -166,58 +142,113 @@ const SpacedPracticeQueue: React.FC<SpacedPracticeQueueProps> = ({ userId }) =>
             <div className="stat-item">
               <span className="stat-label">Next Review:</span>
               <span className="stat-value">
-                {queue.length > 0 ? formatTimeUntil(queue[0].nextReview) : 'None'}
+                {nextReview ? formatTimeUntil(new Date(nextReview.due)) : 'None'}
               </span>
             </div>
           </div>
 
           <div className="queue-items">
             {queue
-              .sort((a, b) => a.nextReview.getTime() - b.nextReview.getTime())
               .map(item => {
-                const isDue = item.nextReview <= new Date();
+                const isBuriedToday = isBuried(item, now);
+                const isDue = item.due <= now && !item.suspended && !isBuriedToday;
+                const journeyCount = new Set((item.sources || []).map(source => source.journeyId).filter(Boolean)).size;
+                const flashcard = item.question.type === QuestionType.FLASHCARD ? item.question : null;
+                const isRevealed = revealedIds.includes(item.id);
                 return (
-                  <div key={item.id} className={`queue-item ${isDue ? 'due' : 'upcoming'}`}>
+                  <div key={item.id} className={`queue-item ${isDue ? 'due' : 'upcoming'} ${item.suspended ? 'suspended' : ''}`}>
                     <div className="item-info">
-                      <div className="item-question">
-                        {item.question.questionText.length > 100
-                          ? item.question.questionText.substring(0, 100) + '...'
-                          : item.question.questionText
-                        }
-                      </div>
+                      {editing?.cardId === item.id ? (
+                        <div className="card-editor">
+                          <input
+                            value={editing.front}
+                            onChange={(e) => setEditing({ ...editing, front: e.target.value })}
+                            placeholder="Front"
+                          />
+                          <textarea
+                            value={editing.back}
+                            onChange={(e) => setEditing({ ...editing, back: e.target.value })}
+                            placeholder="Back"
+                            rows={2}
+                          />
+                          <div className="editor-actions">
+                            <button className="card-action" onClick={() => saveEdit(item)}>Save</button>
+                            <button className="card-action" onClick={() => setEditing(null)}>Cancel</button>
+                          </div>
+                        </div>
+                      ) : (
+                        <div className="item-question">
+                          {item.question.questionText.length > 100
+                            ? item.question.questionText.substring(0, 100) + '...'
+                            : item.question.questionText
+                          }
+                        </div>
+                      )}
+                      {flashcard && isRevealed && editing?.cardId !== item.id && (
+                        <div className="flashcard-back">
+                          {flashcard.imageUrl && <img src={flashcard.imageUrl} alt={flashcard.imagePrompt || flashcard.questionText} />}
+                          <span>{flashcard.answer}</span>
+                        </div>
+                      )}
                       <div className="item-meta">
-                        <span className={`difficulty difficulty-${Math.round(item.difficulty)}`}>
-                          Difficulty: {item.difficulty.toFixed(1)}
-                        </span>
-                        <span>Reviewed: {item.timesReviewed} times</span>
-                        <span className={isDue ? 'due-time' : 'next-time'}>
-                          {isDue ? 'Due now' : `Next: ${formatTimeUntil(item.nextReview)}`}
+                        <span className={`difficulty ${difficultyClass(item)}`}>
+                          Ease: {item.ease.toFixed(2)}
                         </span>
+                        <span>{STATE_LABELS[item.state]}</span>
+                        {item.lapses > 0 && <span>Forgotten: {item.lapses} times</span>}
+                        {journeyCount > 1 && <span>From {journeyCount} journeys</span>}
+                        {item.suspended ? (
+                          <span className="next-time">Suspended</span>
+                        ) : isBuriedToday ? (
+                          <span className="next-time">Buried until tomorrow</span>
+                        ) : (
+                          <span className={isDue ? 'due-time' : 'next-time'}>
+                            {isDue ? 'Due now' : `Next: ${formatTimeUntil(new Date(item.due))}`}
+                          </span>
+                        )}
                       </div>
                     </div>
 
-                    {isDue && (
+                    {isDue && flashcard && !isRevealed && (
                       <div className="item-actions">
-                        <button
-                          className="review-button easy"
-                          onClick={() => reviewItem(item.id, 'easy')}
-                        >
-                          Easy
+                        <button className="review-button good" onClick={() => setRevealedIds(ids => [...ids, item.id])}>
+                          Show answer
                         </button>
-                        <button
-                          className="review-button good"
-                          onClick={() => reviewItem(item.id, 'good')}
-                        >
-                          Good
+                      </div>
+                    )}
+
+                    {isDue && (!flashcard || isRevealed) && (
+                      <div className="item-actions">
+                        {RATINGS.map(({ rating, label }) => (
+                          <button
+                            key={rating}
+                            className={`review-button ${rating}`}
+                            onClick={() => reviewItem(item.id, rating)}
+                          >
+                            {label}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+
+                    <div className="card-actions">
+                      {isDue && (
+                        <button className="card-action" onClick={() => buryUntilTomorrow(item.id)} title="Skip until tomorrow">
+                          Bury
                         </button>
+                      )}
+                      <button className="card-action" onClick={() => toggleSuspended(item)} title="Stop or resume reviewing this question">
+                        {item.suspended ? 'Unsuspend' : 'Suspend'}
+                      </button>
+                      {flashcard && editing?.cardId !== item.id && (
                         <button
-                          className="review-button hard"
-                          onClick={() => reviewItem(item.id, 'hard')}
+                          className="card-action"
+                          onClick={() => setEditing({ cardId: item.id, front: flashcard.questionText, back: flashcard.answer })}
                         >
-                          Hard
+                          Edit
                         </button>
-                      </div>
-                    )}
+                      )}
+                    </div>
 
                     <button
                       className="remove-button"
@@ -235,7 +266,7 @@ const SpacedPracticeQueue: React.FC<SpacedPracticeQueueProps> = ({ userId }) =>
             <div className="empty-queue">
               <div className="empty-icon">📚</div>
               <p>No questions in spaced practice queue yet.</p>
-              <p>Difficult questions will be added here automatically.</p>
+              <p>Difficult questions are added here automatically, and flashcards you make from your materials.</p>
             </div>
           )}
         </div>
@@ -302,6 +333,16 @@ const SpacedPracticeQueue: React.FC<SpacedPracticeQueueProps> = ({ userId }) =>
           padding: 20px;
         }
 
+        .queue-error {
+          margin-bottom: 16px;
+          padding: 8px 12px;
+          background: #fef2f2;
+          border: 1px solid #fecaca;
+          border-radius: 6px;
+          color: #dc2626;
+          font-size: 0.9rem;
+        }
+
         .queue-stats {
           display: flex;
           gap: 24px;
@@ -353,6 +394,10 @@ const SpacedPracticeQueue: React.FC<SpacedPracticeQueueProps> = ({ userId }) =>
           background: #f9fafb;
         }
 
+        .queue-item.suspended {
+          opacity: 0.6;
+        }
+
         .item-info {
           flex: 1;
         }
@@ -409,6 +454,15 @@ const SpacedPracticeQueue: React.FC<SpacedPracticeQueueProps> = ({ userId }) =>
           transition: all 0.2s ease;
         }
 
+        .review-button.again {
+          background: #6b7280;
+          color: white;
+        }
+
+        .review-button.again:hover {
+          background: #4b5563;
+        }
+
         .review-button.easy {
           background: #10b981;
           color: white;
@@ -436,6 +490,65 @@ const SpacedPracticeQueue: React.FC<SpacedPracticeQueueProps> = ({ userId }) =>
           background: #dc2626;
         }
 
+        .card-editor {
+          display: flex;
+          flex-direction: column;
+          gap: 6px;
+          margin-bottom: 8px;
+        }
+
+        .card-editor input,
+        .card-editor textarea {
+          padding: 6px 8px;
+          border: 1px solid #d1d5db;
+          border-radius: 6px;
+          font: inherit;
+        }
+
+        .editor-actions {
+          display: flex;
+          gap: 6px;
+        }
+
+        .flashcard-back {
+          display: flex;
+          align-items: center;
+          gap: 12px;
+          margin-bottom: 8px;
+          padding: 8px 12px;
+          background: white;
+          border: 1px dashed #d1d5db;
+          border-radius: 6px;
+          color: #374151;
+        }
+
+        .flashcard-back img {
+          width: 64px;
+          height: 64px;
+          object-fit: cover;
+          border-radius: 6px;
+        }
+
+        .card-actions {
+          display: flex;
+          flex-direction: column;
+          gap: 6px;
+        }
+
+        .card-action {
+          padding: 4px 10px;
+          background: white;
+          border: 1px solid #d1d5db;
+          border-radius: 6px;
+          color: #374151;
+          font-size: 0.8rem;
+          cursor: pointer;
+        }
+
+        .card-action:hover {
+          background: #f3f4f6;
+        }
+
         .remove-button {
           background: #6b7280;
           color: white;
@@ -1,17 +1,21 @@
 // components/journey/TaskCard.tsx
 
 import React, { useState, useCallback } from 'react';
-import { PersonalJourney, JourneyStep, Question } from '../../types';
+import { useAuth } from '../../context/AuthContext';
+import { PersonalJourney, JourneyStep, Question, AnswerScore, AnswerTelemetry } from '../../types';
 import QuestionRenderer from '../lesson/QuestionRenderer';
-import { GoogleGenAI } from '@google/genai';
+import SourceCitations from '../shared/SourceCitations';
+import { generateStructured } from '../../services/aiService';
+import { validateHintResponse } from '../../services/outputValidators';
+import { QuestionAttemptInput } from '../../services/attemptLogService';
 
 interface TaskCardProps {
   step: JourneyStep;
   journey: PersonalJourney;
   onComplete: (result: any) => void;
   onHintUsed: () => void;
-  onAdaptiveRetry: (questionId: string) => void;
-  onSpacedPractice: (difficultQuestions: Question[]) => void;
+  onAdaptiveRetry: (stepId: string) => void;
+  onQuestionAnswered: (attempt: Omit<QuestionAttemptInput, 'source'>) => void; // Every answer, for spaced practice and the attempt log
   onShowTutor: () => void;
 }
 
@@ -21,13 +25,16 @@ const TaskCard: React.FC<TaskCardProps> = ({
   onComplete,
   onHintUsed,
   onAdaptiveRetry,
-  onSpacedPractice,
+  onQuestionAnswered,
   onShowTutor
 }) => {
+  const { user } = useAuth();
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [answers, setAnswers] = useState<any[]>([]);
   const [hintsUsed, setHintsUsed] = useState(0);
   const [startTime] = useState(Date.now());
+  // Hints used on the current question
+  const [questionHintsUsed, setQuestionHintsUsed] = useState(0);
   const [showHint, setShowHint] = useState(false);
   const [hintText, setHintText] = useState('');
 
@@ -37,25 +44,20 @@ const TaskCard: React.FC<TaskCardProps> = ({
 
   const generateHint = useCallback(async (question: Question) => {
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || process.env.GEMINI_API_KEY || '' });
-      const model = ai.getGenerativeModel({ model: 'gemini-2.5-flash' });
-
       const prompt = `Generate a helpful hint for this question without giving away the answer:
 
 Question: ${question.questionText}
 Type: ${question.type}
 
-Provide a brief hint that guides the student toward the answer.`;
+Provide a brief hint that guides the student toward the answer.
+Return JSON: { "hint": "your hint" }`;
 
-      const response = await model.generateContent({
+      const result = await generateStructured({
+        task: 'task.hint',
         contents: prompt,
-        config: {
-          responseMimeType: 'application/json',
-        },
-      });
-
-      const result = JSON.parse(response.text);
-      return result.hint || 'Think about the key concepts from the material.';
+        priority: 'interactive',
+      }, validateHintResponse);
+      return result.hint;
     } catch (error) {
       console.error('Hint generation failed:', error);
       return 'Review the material for clues about this topic.';
@@ -66,6 +68,7 @@ Provide a brief hint that guides the student toward the answer.`;
     if (!currentQuestion) return;
 
     setHintsUsed(prev => prev + 1);
+    setQuestionHintsUsed(prev => prev + 1);
     onHintUsed();
 
     if (!showHint) {
@@ -77,54 +80,55 @@ Provide a brief hint that guides the student toward the answer.`;
     }
   };
 
-  const handleAnswerSubmit = useCallback((answer: any, isCorrect: boolean) => {
+  const handleAnswerSubmit = useCallback((isCorrect: boolean, question: Question, score: AnswerScore, telemetry: AnswerTelemetry) => {
+    const timeSpent = telemetry.answerMs;
+    // The question's own hint button and the task's
+    const hintsViewed = telemetry.hintsViewed + questionHintsUsed;
     const newAnswers = [...answers];
     newAnswers[currentQuestionIndex] = {
-      answer,
       isCorrect,
-      timeSpent: Date.now() - startTime,
-      hintsUsed: hintsUsed,
+      score: score.score,
+      parts: score.parts,
+      response: score.response,
+      timeSpent,
+      hintsUsed: hintsViewed,
     };
     setAnswers(newAnswers);
+    onQuestionAnswered({ question, result: score, telemetry: { ...telemetry, hintsViewed } });
+
+    if (!isCorrect) {
+      onAdaptiveRetry(step.id);
+    }
+  }, [answers, currentQuestionIndex, questionHintsUsed, step.id, onAdaptiveRetry, onQuestionAnswered]);
 
+  const handleContinue = () => {
     // Reset hint state for next question
     setShowHint(false);
     setHintText('');
+    setQuestionHintsUsed(0);
 
-    if (isCorrect || isLastQuestion) {
-      // Move to next question or complete
-      if (isLastQuestion) {
-        handleTaskComplete(newAnswers);
-      } else {
-        setCurrentQuestionIndex(prev => prev + 1);
-      }
+    if (isLastQuestion) {
+      handleTaskComplete(answers);
     } else {
-      // Adaptive retry - show similar but different question
-      handleAdaptiveRetry(currentQuestion.id);
-      // For now, just allow them to try again
-      // In production, this would generate a new similar question
+      setCurrentQuestionIndex(prev => prev + 1);
     }
-  }, [answers, currentQuestionIndex, isLastQuestion, hintsUsed, startTime, onAdaptiveRetry]);
+  };
 
   const handleTaskComplete = (finalAnswers: any[]) => {
     const totalTime = Date.now() - startTime;
-    const correctAnswers = finalAnswers.filter(a => a.isCorrect).length;
-    const accuracy = correctAnswers / finalAnswers.length;
+    // Partial credit: 4 of 5 pairs counts 0.8, not 0
+    const accuracy = finalAnswers.map(a => a?.score ?? (a?.isCorrect ? 1 : 0));
     const totalHintsUsed = finalAnswers.reduce((sum, a) => sum + (a.hintsUsed || 0), 0);
 
-    // Identify difficult questions for spaced practice
+    // Already enrolled in spaced practice as each was answered
     const difficultQuestions = questions.filter((q, index) => {
       const answer = finalAnswers[index];
       return !answer?.isCorrect || (answer?.hintsUsed || 0) > 1;
     });
 
-    if (difficultQuestions.length > 0) {
-      onSpacedPractice(difficultQuestions);
-    }
-
     const result = {
       answers: finalAnswers,
-      accuracy: [accuracy],
+      accuracy,
       totalTime,
       hintsUsed: totalHintsUsed,
       firstTry: hintsUsed === 0,
@@ -174,10 +178,16 @@ Provide a brief hint that guides the student toward the answer.`;
 
       <div className="task-content">
         <QuestionRenderer
+          key={currentQuestionIndex}
           question={currentQuestion}
           onAnswer={handleAnswerSubmit}
-          showExplanation={false} // We'll show explanation after answer
+          onContinue={handleContinue}
+          user={user!}
         />
+        {/* After a wrong answer, point back to the passage the question is about */}
+        {answers[currentQuestionIndex]?.isCorrect === false && (
+          <SourceCitations citations={currentQuestion.citations} className="mt-4" />
+        )}
       </div>
 
       <div className="task-footer">
@@ -1,9 +1,8 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useProgress } from '../../context/ProgressContext';
 import { startJourney, advanceStory } from '../../services/geminiService';
-import { JOURNEYS } from '../../constants';
-import { Choice, Outcome, Question, User } from '../../types';
+import { AnswerScore, AnswerTelemetry, Choice, Outcome, Question, User, StoryRun } from '../../types';
 import Loader from '../shared/Loader';
 import Header from '../shared/Header';
 import AITutor from '../shared/ChickTutor';
@@ -11,27 +10,93 @@ import { soundService } from '../../services/soundService';
 import { ttsService } from '../../services/ttsService';
 import { stopAudio } from '../../services/audioService';
 import AudioControls from '../shared/AudioControls';
+import AccuracyBadge from '../shared/AccuracyBadge';
+import SourceMomentLink from '../shared/SourceMomentLink';
+import SourceCitations from '../shared/SourceCitations';
 import QuestionRenderer from './QuestionRenderer';
 import { useAuth } from '../../context/AuthContext';
+import { useJourneyCatalog } from '../../context/JourneyCatalogContext';
+import { TriggeredEvent, getResourceLimits, resolveTurn } from '../../services/resourceRules';
+import { getResourceLabels } from '../../services/journeyDefinitionService';
+import StoryMap from './StoryMap';
+import {
+    createStoryRun,
+    recordChoice,
+    recordQuizResult,
+    jumpToNode,
+    saveStoryRun,
+    loadStoryRun,
+} from '../../services/storyGraphService';
+import { enrollAnsweredQuestions } from '../../services/spacedRepetitionService';
+import { logQuestionAttempt } from '../../services/attemptLogService';
+
+const WRONG_ANSWER_PENALTY = { health: -20, food: -5, money: -5, influence: -5 };
 
 type GameView = 'scene' | 'outcome' | 'question' | 'gameover';
 
 const GameView: React.FC = () => {
     const { user } = useAuth();
-    const { gameState, updateGameState, applyResourceChanges, endJourney } = useProgress();
+    const { gameState, updateGameState, applyResourceChanges, endJourney, jumpToScene } = useProgress();
+    const { getJourney, isLoading: isCatalogLoading } = useJourneyCatalog();
     const [isLoading, setIsLoading] = useState(true);
     const [isChoosing, setIsChoosing] = useState(false);
     const [outcome, setOutcome] = useState<Outcome | null>(null);
     const [view, setView] = useState<GameView>('scene');
     const [isWelcomeVisible, setIsWelcomeVisible] = useState(false);
 
+    // Story graph of this run: scenes, the choices between them and their results
+    const [storyRun, setStoryRun] = useState<StoryRun | null>(null);
+    const storyRunRef = useRef<StoryRun | null>(null);
+    const lastEdgeIdRef = useRef<string | null>(null);
+    const [isStoryMapOpen, setIsStoryMapOpen] = useState(false);
+    const [turnEvents, setTurnEvents] = useState<TriggeredEvent[]>([]);
+
     const [scenarioAudio, setScenarioAudio] = useState<string | null>(null);
     const [outcomeAudio, setOutcomeAudio] = useState<string | null>(null);
     const [mentorAudio, setMentorAudio] = useState<string | null>(null);
     const [gameOverAudio, setGameOverAudio] = useState<string | null>(null);
     const [welcomeAudio, setWelcomeAudio] = useState<string | null>(null);
 
-    const journey = JOURNEYS.find(j => j.id === gameState.currentJourneyId);
+    const journey = getJourney(gameState.currentJourneyId);
+    const resourceLabels = getResourceLabels(journey);
+
+    const updateStoryRun = useCallback((run: StoryRun) => {
+        storyRunRef.current = run;
+        setStoryRun(run);
+        if (user) {
+            saveStoryRun(user.uid, run).catch(error =>
+                console.error('[Story] Failed to save story run:', error)
+            );
+        }
+    }, [user]);
+
+    // Runs saved before the story map existed have no run id yet
+    useEffect(() => {
+        if (gameState.currentJourneyId && !gameState.storyRunId) {
+            updateGameState({ storyRunId: `run_${gameState.currentJourneyId}_${Date.now().toString(36)}` });
+        }
+    }, [gameState.currentJourneyId, gameState.storyRunId, updateGameState]);
+
+    // Load the story run (when continuing a saved game) or start one at the first scene
+    useEffect(() => {
+        const runId = gameState.storyRunId;
+        if (!runId || !journey || !user || !gameState.currentScene) return;
+        if (storyRunRef.current?.runId === runId) return;
+
+        let cancelled = false;
+        const scene = gameState.currentScene;
+        const resources = gameState.resources;
+        loadStoryRun(user.uid, runId)
+            .catch(error => {
+                console.warn('[Story] Could not load story run:', error);
+                return null;
+            })
+            .then(saved => {
+                if (cancelled || storyRunRef.current?.runId === runId) return;
+                updateStoryRun(saved || createStoryRun(runId, journey.id, scene, resources));
+            });
+        return () => { cancelled = true; };
+    }, [gameState.storyRunId, gameState.currentScene, gameState.resources, journey, user, updateStoryRun]);
 
     // Stop audio when the component unmounts
     useEffect(() => {
@@ -65,6 +130,8 @@ const GameView: React.FC = () => {
 
 
     useEffect(() => {
+        // An authored journey may still be on its way from the catalog
+        if (!journey && isCatalogLoading) return;
         if (!journey || !user) {
             endJourney();
             return;
@@ -87,7 +154,7 @@ const GameView: React.FC = () => {
             }
         };
         fetchFirstScene();
-    }, [journey, gameState.currentScene, updateGameState, endJourney, user]);
+    }, [journey, isCatalogLoading, gameState.currentScene, updateGameState, endJourney, user]);
 
     const handleChoice = async (choice: Choice) => {
         if (!journey || !gameState.currentScene || isChoosing || !user) return;
@@ -99,22 +166,46 @@ const GameView: React.FC = () => {
         setMentorAudio(null);
         setGameOverAudio(null);
         try {
-            const result = await advanceStory(journey.name, gameState.currentScene, choice, gameState.resources, user.uid);
-            
-            applyResourceChanges(result.resourceChanges);
+            const result = await advanceStory(journey, gameState.currentScene, choice, gameState.resources, user.uid);
+
+            const choicesMade = (gameState.choicesMade || 0) + 1;
+            const turn = resolveTurn(journey, { ...gameState, choicesMade }, result.resourceChanges);
+            if (turn.adjustments.length > 0) {
+                console.warn('[Rules] Adjusted the storyteller\'s resource changes:', turn.adjustments);
+            }
+            const isGameOver = result.isGameOver || turn.end.isGameOver;
+            if (storyRunRef.current) {
+                const recorded = recordChoice(
+                    storyRunRef.current,
+                    gameState.currentScene,
+                    gameState.resources,
+                    choice,
+                    result,
+                    turn.resources,
+                    isGameOver,
+                    gameState.firedEventIds || [],
+                    turn.firedEventIds
+                );
+                lastEdgeIdRef.current = recorded.edgeId;
+                updateStoryRun(recorded.run);
+            }
+
+            applyResourceChanges(turn.appliedChanges);
+            setTurnEvents(turn.events);
             setOutcome(result);
 
             ttsService.requestTts(result.outcomeText, user.uid).then(setOutcomeAudio);
             ttsService.requestTts(result.mentorInsight, user.uid).then(setMentorAudio);
 
-            if (result.isGameOver || gameState.resources.health <= 0) {
-                const reason = result.isGameOver ? result.gameOverReason : "Your health reached zero, your journey ends here.";
-                updateGameState({ isGameOver: true, gameOverReason: reason });
+            if (isGameOver) {
+                const reason = result.isGameOver ? result.gameOverReason : turn.end.reason;
+                updateGameState({ isGameOver: true, gameOverReason: reason, hasWon: !result.isGameOver && turn.end.hasWon, choicesMade, firedEventIds: turn.firedEventIds });
                 if (reason) {
                     ttsService.requestTts(reason, user.uid).then(setGameOverAudio);
                 }
                 setView('gameover');
             } else {
+                updateGameState({ choicesMade, firedEventIds: turn.firedEventIds });
                 setView('outcome');
             }
         } catch (e) {
@@ -130,9 +221,31 @@ const GameView: React.FC = () => {
         setView('question');
     };
     
-    const handleQuestionAnswered = (isCorrect: boolean) => {
+    const handleQuestionAnswered = (isCorrect: boolean, question: Question, result: AnswerScore, telemetry: AnswerTelemetry) => {
         if (!isCorrect) {
-            applyResourceChanges({ health: -20, food: -5, money: -5, influence: -5 });
+            applyResourceChanges(WRONG_ANSWER_PENALTY);
+        }
+        if (storyRunRef.current && lastEdgeIdRef.current && outcome?.question) {
+            updateStoryRun(recordQuizResult(
+                storyRunRef.current,
+                lastEdgeIdRef.current,
+                outcome.question,
+                isCorrect,
+                isCorrect ? undefined : WRONG_ANSWER_PENALTY,
+                getResourceLimits(journey)
+            ));
+        }
+        if (user && journey) {
+            const source = { mode: 'classic' as const, journeyId: journey.id, stepId: storyRunRef.current?.currentNodeId };
+            enrollAnsweredQuestions(user.uid, [{
+                question,
+                correct: isCorrect,
+                timeMs: telemetry.answerMs,
+                hintsUsed: telemetry.hintsViewed,
+                source,
+            }]).catch(error => console.error('[Reviews] Could not enroll the question:', error));
+            logQuestionAttempt(user.uid, { question, result, telemetry, source })
+                .catch(error => console.error('[Attempts] Could not log the answer:', error));
         }
     };
 
@@ -145,6 +258,22 @@ const GameView: React.FC = () => {
         setView('scene');
     };
     
+    const handleJumpToNode = (nodeId: string) => {
+        if (!storyRun) return;
+        const run = jumpToNode(storyRun, nodeId);
+        const node = run.nodes[nodeId];
+        if (!node) return;
+
+        stopAudio();
+        soundService.playUIClick();
+        lastEdgeIdRef.current = null;
+        updateStoryRun(run);
+        jumpToScene(node.scene, node.resources, node.depth, node.firedEventIds);
+        setOutcome(null);
+        setView('scene');
+        setIsStoryMapOpen(false);
+    };
+
     const handleEndJourney = () => {
         stopAudio();
         endJourney();
@@ -162,7 +291,18 @@ const GameView: React.FC = () => {
 
     return (
         <div className="min-h-screen bg-brand-bg p-4 sm:p-6 font-sans">
-            <Header onEndJourney={handleEndJourney}/>
+            <Header onEndJourney={handleEndJourney} onOpenStoryMap={storyRun ? () => setIsStoryMapOpen(true) : undefined}/>
+
+            {isStoryMapOpen && storyRun && (
+                <StoryMap
+                    run={storyRun}
+                    journeyName={journey.name}
+                    userId={user.uid}
+                    resourceLabels={resourceLabels}
+                    onJumpToNode={handleJumpToNode}
+                    onClose={() => setIsStoryMapOpen(false)}
+                />
+            )}
             
             {isWelcomeVisible && (
                 <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center animate-fade-in-up">
@@ -193,7 +333,12 @@ const GameView: React.FC = () => {
                         {view === 'scene' && (
                             <>
                                 <div className="flex justify-between items-start gap-4 mb-8">
-                                    <p className="text-lg text-brand-text leading-relaxed whitespace-pre-line flex-grow">{gameState.currentScene.scenario}</p>
+                                    <div className="flex-grow">
+                                        <p className="text-lg text-brand-text leading-relaxed whitespace-pre-line">{gameState.currentScene.scenario}</p>
+                                        <AccuracyBadge report={gameState.currentScene.accuracy} className="mt-2" />
+                                        <SourceMomentLink moment={gameState.currentScene.sourceMoment} className="mt-2" />
+                                        <SourceCitations citations={gameState.currentScene.citations} className="mt-2" />
+                                    </div>
                                     <div className="flex-shrink-0">
                                         <AudioControls audioData={scenarioAudio} />
                                     </div>
@@ -218,10 +363,26 @@ const GameView: React.FC = () => {
                                     </div>
                                 </div>
 
+                                {turnEvents.length > 0 && (
+                                    <div className="mb-6 space-y-2">
+                                        {turnEvents.map(event => (
+                                            <div key={event.id} className="flex flex-wrap items-center gap-2 p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-brand-text">
+                                                <span className="font-bold">⚠️ {event.message}</span>
+                                                {(Object.keys(event.effects) as Array<keyof typeof resourceLabels>).map(key => (
+                                                    <span key={key} className={event.effects[key]! > 0 ? 'text-green-700' : 'text-red-700'}>
+                                                        {resourceLabels[key].icon} {event.effects[key]! > 0 ? '+' : ''}{event.effects[key]}
+                                                    </span>
+                                                ))}
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+
                                 <div className="bg-brand-bg p-4 rounded-lg mb-8">
                                 <div className="flex items-center justify-between gap-4">
                                         <div className="flex-grow">
                                             <AITutor message={outcome.mentorInsight} mood="wise" size="large" />
+                                            <AccuracyBadge report={outcome.mentorInsightAccuracy} className="mt-2" />
                                         </div>
                                         <div className="flex-shrink-0">
                                             <AudioControls audioData={mentorAudio} />
@@ -248,7 +409,7 @@ const GameView: React.FC = () => {
                  ) : (
                     <div className="animate-fade-in-up text-center flex flex-col items-center">
                         <div className="bg-brand-bg p-8 rounded-lg shadow-2xl border-4 border-brand-frame max-w-2xl w-full animate-parchment-unroll origin-top overflow-hidden" style={{'--tw-shadow-color': '#433A3F55'} as React.CSSProperties}>
-                            <h2 className="text-4xl sm:text-5xl font-cinzel text-brand-primary mb-4 border-b-2 border-brand-accent pb-4">The End of Your Tale</h2>
+                            <h2 className="text-4xl sm:text-5xl font-cinzel text-brand-primary mb-4 border-b-2 border-brand-accent pb-4">{gameState.hasWon ? 'Victory!' : 'The End of Your Tale'}</h2>
                             <div className="flex justify-center items-start gap-4 my-6">
                                 <p className="text-lg text-brand-text leading-relaxed italic text-left flex-grow">{gameState.gameOverReason}</p>
                                 <div className="flex-shrink-0">
@@ -259,10 +420,9 @@ const GameView: React.FC = () => {
                             <div className="bg-brand-accent/30 p-4 rounded-md mb-6 border border-brand-accent/50">
                                 <h4 className="font-bold text-brand-primary text-xl mb-3">Final Status</h4>
                                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center font-sans">
-                                    <div className="flex flex-col items-center"><span className="text-3xl">❤️</span><span className="font-bold text-lg">{gameState.resources.health}</span></div>
-                                    <div className="flex flex-col items-center"><span className="text-3xl">🍞</span><span className="font-bold text-lg">{gameState.resources.food}</span></div>
-                                    <div className="flex flex-col items-center"><span className="text-3xl">💰</span><span className="font-bold text-lg">{gameState.resources.money}</span></div>
-                                    <div className="flex flex-col items-center"><span className="text-3xl">👥</span><span className="font-bold text-lg">{gameState.resources.influence}</span></div>
+                                    {(Object.keys(resourceLabels) as Array<keyof typeof resourceLabels>).map(key => (
+                                        <div key={key} className="flex flex-col items-center" title={resourceLabels[key].name}><span className="text-3xl">{resourceLabels[key].icon}</span><span className="font-bold text-lg">{gameState.resources[key]}</span></div>
+                                    ))}
                                 </div>
                             </div>
                             
@@ -276,6 +436,11 @@ const GameView: React.FC = () => {
                                     </div>
                                 </div>
                             </div>
+                            {storyRun && (
+                                <button onClick={() => { soundService.playUIClick(); setIsStoryMapOpen(true); }} className="w-full mb-3 bg-brand-bg text-brand-primary font-bold py-3 rounded-lg border-2 border-brand-primary hover:bg-brand-accent transition">
+                                    🗺️ Story Map: try another path
+                                </button>
+                            )}
                             <button onClick={handleEndJourney} className="w-full bg-brand-secondary text-white font-bold py-3 rounded-lg hover:bg-opacity-80 transition">
                                 Return to Journeys
                             </button>
@@ -1,5 +1,5 @@
-import React from 'react';
-import { Question, QuestionType, User } from '../../types';
+import React, { useEffect, useRef } from 'react';
+import { AnswerScore, AnswerTelemetry, Question, QuestionType, User } from '../../types';
 import { soundService } from '../../services/soundService';
 import MultipleChoiceQuestion from './questions/MultipleChoiceQuestion';
 import TrueFalseQuestion from './questions/TrueFalseQuestion';
@@ -9,48 +9,83 @@ import ImageRecognitionQuestion from './questions/ImageRecognitionQuestion';
 import FillInTheBlankQuestion from './questions/FillInTheBlankQuestion';
 import CauseAndEffectQuestion from './questions/CauseAndEffectQuestion';
 import ShortExplanationQuestion from './questions/ShortExplanationQuestion';
+import FlashcardQuestion from './questions/FlashcardQuestion';
 
 
 interface QuestionRendererProps {
   question: Question;
-  onAnswer: (isCorrect: boolean, question: Question) => void;
+  onAnswer: (isCorrect: boolean, question: Question, result: AnswerScore, telemetry: AnswerTelemetry) => void;
   onContinue: () => void;
   user: User;
 }
 
 const QuestionRenderer: React.FC<QuestionRendererProps> = ({ question, onAnswer, onContinue, user }) => {
-  const handleAnswer = (isCorrect: boolean) => {
-    if (isCorrect) {
+  // When the question was shown and first clicked or typed in, and the hints viewed, for the attempt log
+  const shownAtRef = useRef(Date.now());
+  const firstInteractionAtRef = useRef<number | null>(null);
+  const hintsViewedRef = useRef(0);
+
+  useEffect(() => {
+    shownAtRef.current = Date.now();
+    firstInteractionAtRef.current = null;
+    hintsViewedRef.current = 0;
+  }, [question]);
+
+  const handleInteraction = () => {
+    if (firstInteractionAtRef.current === null) firstInteractionAtRef.current = Date.now();
+  };
+
+  const handleHintViewed = () => {
+    hintsViewedRef.current += 1;
+  };
+
+  const handleAnswer = (result: AnswerScore) => {
+    if (result.isCorrect) {
       soundService.playCorrect();
     } else {
       soundService.playIncorrect();
     }
-    onAnswer(isCorrect, question);
+    const answeredAt = Date.now();
+    onAnswer(result.isCorrect, question, result, {
+      firstInteractionMs: firstInteractionAtRef.current === null ? null : firstInteractionAtRef.current - shownAtRef.current,
+      answerMs: answeredAt - shownAtRef.current,
+      hintsViewed: hintsViewedRef.current,
+    });
   };
   
   // FIX: Render components inside the switch statement to allow TypeScript to correctly narrow the 'question' type for each case.
-  const props = { onAnswer: handleAnswer, onContinue, user };
-
-  switch (question.type) {
-    case QuestionType.MULTIPLE_CHOICE:
-      return <MultipleChoiceQuestion question={question} {...props} />;
-    case QuestionType.TRUE_FALSE:
-      return <TrueFalseQuestion question={question} {...props} />;
-    case QuestionType.MATCHING:
-        return <MatchingQuestion question={question} {...props} />;
-    case QuestionType.ORDERING:
-        return <OrderingQuestion question={question} {...props} />;
-    case QuestionType.IMAGE_RECOGNITION:
-        return <ImageRecognitionQuestion question={question} {...props} />;
-    case QuestionType.FILL_IN_THE_BLANK:
-        return <FillInTheBlankQuestion question={question} {...props} />;
-    case QuestionType.CAUSE_AND_EFFECT:
-        return <CauseAndEffectQuestion question={question} {...props} />;
-    case QuestionType.SHORT_EXPLANATION:
-        return <ShortExplanationQuestion question={question} {...props} />;
-    default:
-      return <div>Unsupported question type</div>;
-  }
+  const props = { onAnswer: handleAnswer, onContinue, onHintViewed: handleHintViewed, user };
+
+  const renderQuestion = () => {
+    switch (question.type) {
+      case QuestionType.MULTIPLE_CHOICE:
+        return <MultipleChoiceQuestion question={question} {...props} />;
+      case QuestionType.TRUE_FALSE:
+        return <TrueFalseQuestion question={question} {...props} />;
+      case QuestionType.MATCHING:
+          return <MatchingQuestion question={question} {...props} />;
+      case QuestionType.ORDERING:
+          return <OrderingQuestion question={question} {...props} />;
+      case QuestionType.IMAGE_RECOGNITION:
+          return <ImageRecognitionQuestion question={question} {...props} />;
+      case QuestionType.FILL_IN_THE_BLANK:
+          return <FillInTheBlankQuestion question={question} {...props} />;
+      case QuestionType.CAUSE_AND_EFFECT:
+          return <CauseAndEffectQuestion question={question} {...props} />;
+      case QuestionType.SHORT_EXPLANATION:
+          return <ShortExplanationQuestion question={question} {...props} />;
+      case QuestionType.FLASHCARD:
+          return <FlashcardQuestion question={question} {...props} />;
+      default:
+        return <div>Unsupported question type</div>;
+    }
+  };
+
+  return (
+    <div onPointerDownCapture={handleInteraction} onKeyDownCapture={handleInteraction}>
+      {renderQuestion()}
+    </div>
+  );
 };
 
 export default QuestionRenderer;
\ No newline at end of file
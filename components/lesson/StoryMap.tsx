@@ -0,0 +1,264 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ResourceLabel, Resources, StoryEdge, StoryRun } from '../../types';
+import { compareRuns, loadStoryRuns } from '../../services/storyGraphService';
+import { soundService } from '../../services/soundService';
+import Loader from '../shared/Loader';
+
+type ResourceLabels = Record<keyof Resources, ResourceLabel>;
+
+interface StoryMapProps {
+    run: StoryRun;
+    journeyName: string;
+    userId: string;
+    resourceLabels: ResourceLabels;
+    onJumpToNode: (nodeId: string) => void;
+    onClose: () => void;
+}
+
+const truncate = (text: string, maxLength: number) =>
+    text.length > maxLength ? `${text.slice(0, maxLength).trim()}…` : text;
+
+const ResourceDeltas: React.FC<{ deltas: Partial<Resources>; labels: ResourceLabels }> = ({ deltas, labels }) => {
+    const entries = (Object.keys(deltas) as Array<keyof Resources>).filter(key => deltas[key]);
+    if (entries.length === 0) return null;
+    return (
+        <span className="text-xs font-sans">
+            {entries.map(key => (
+                <span key={key} title={labels[key].name} className={`mr-2 ${deltas[key]! > 0 ? 'text-green-700' : 'text-red-700'}`}>
+                    {labels[key].icon} {deltas[key]! > 0 ? '+' : ''}{deltas[key]}
+                </span>
+            ))}
+        </span>
+    );
+};
+
+const ResourceSummary: React.FC<{ resources?: Resources; labels: ResourceLabels }> = ({ resources, labels }) => {
+    if (!resources) return null;
+    return (
+        <div className="flex flex-wrap gap-3 text-sm font-bold text-brand-primary">
+            {(Object.keys(labels) as Array<keyof Resources>).map(key => (
+                <span key={key} title={labels[key].name}>{labels[key].icon} {resources[key]}</span>
+            ))}
+        </div>
+    );
+};
+
+const formatRunLabel = (run: StoryRun, index: number, total: number) =>
+    `Run ${total - index} · ${new Date(run.startedAt).toLocaleDateString()} · ${run.pathEdgeIds.length} choices${run.isGameOver ? ' · ended' : ''}`;
+
+/**
+ * Tree of every scene and choice recorded for a run. Scenes on the current
+ * branch are highlighted; clicking any other scene jumps back to it.
+ */
+const StoryTree: React.FC<{ run: StoryRun; labels: ResourceLabels; onJumpToNode: (nodeId: string) => void }> = ({ run, labels, onJumpToNode }) => {
+    const pathEdgeIds = new Set(run.pathEdgeIds);
+    const rendered = new Set<string>();
+
+    const renderNode = (nodeId: string): React.ReactNode => {
+        const node = run.nodes[nodeId];
+        if (!node) return null;
+        rendered.add(nodeId);
+
+        const isCurrent = nodeId === run.currentNodeId;
+        const outgoing = run.edges.filter(edge => edge.fromNodeId === nodeId);
+
+        return (
+            <div>
+                <button
+                    onClick={() => !isCurrent && onJumpToNode(nodeId)}
+                    disabled={isCurrent}
+                    title={isCurrent ? 'You are here' : 'Jump back to this scene'}
+                    className={`w-full text-left p-3 rounded-lg border-2 transition ${
+                        isCurrent
+                            ? 'border-brand-primary bg-brand-accent cursor-default'
+                            : 'border-brand-accent bg-brand-bg hover:bg-brand-accent/50'
+                    }`}
+                >
+                    <span className="text-sm text-brand-text">{truncate(node.scene.scenario, 120)}</span>
+                    {isCurrent && <span className="ml-2 text-xs font-bold text-brand-primary font-sans">📍 You are here</span>}
+                </button>
+                {outgoing.length > 0 && (
+                    <div className="ml-4 pl-4 border-l-2 border-brand-accent space-y-3 mt-2">
+                        {outgoing.map(edge => renderEdge(edge, pathEdgeIds.has(edge.edgeId)))}
+                    </div>
+                )}
+            </div>
+        );
+    };
+
+    const renderEdge = (edge: StoryEdge, isOnPath: boolean): React.ReactNode => {
+        // The same scene can be reached by more than one choice; draw it only once
+        const alreadyRendered = edge.toNodeId !== null && rendered.has(edge.toNodeId);
+        return (
+            <div key={edge.edgeId}>
+                <div className={`text-sm mb-2 ${isOnPath ? 'text-brand-primary font-bold' : 'text-gray-500'}`}>
+                    <span>→ {edge.choice.text}</span>
+                    <div className="flex flex-wrap items-center gap-2 mt-1 font-normal">
+                        <ResourceDeltas deltas={edge.resourceDeltas} labels={labels} />
+                        {edge.quizResult && (
+                            <span className={`text-xs font-sans ${edge.quizResult.isCorrect ? 'text-green-700' : 'text-red-700'}`}>
+                                {edge.quizResult.isCorrect ? '✓ Quiz' : '✗ Quiz'}
+                            </span>
+                        )}
+                    </div>
+                </div>
+                {edge.toNodeId === null ? (
+                    <p className="text-sm italic text-brand-secondary">🏁 {truncate(edge.outcome.gameOverReason || 'The journey ended here.', 120)}</p>
+                ) : alreadyRendered ? (
+                    <p className="text-xs italic text-gray-500">↺ Leads to a scene shown above</p>
+                ) : (
+                    renderNode(edge.toNodeId)
+                )}
+            </div>
+        );
+    };
+
+    return <div className="space-y-3">{renderNode(run.rootNodeId)}</div>;
+};
+
+/**
+ * Side-by-side view of two runs of the same journey
+ */
+const RunComparisonView: React.FC<{ runs: StoryRun[]; currentRunId: string; labels: ResourceLabels }> = ({ runs, currentRunId, labels }) => {
+    const [runAId, setRunAId] = useState(currentRunId);
+    const [runBId, setRunBId] = useState(runs.find(r => r.runId !== currentRunId)?.runId || '');
+
+    const runA = runs.find(r => r.runId === runAId);
+    const runB = runs.find(r => r.runId === runBId);
+    const comparison = useMemo(() => (runA && runB ? compareRuns(runA, runB) : null), [runA, runB]);
+
+    if (runs.length < 2) {
+        return <p className="text-brand-text italic">Play this journey again to compare two runs.</p>;
+    }
+
+    const renderSelect = (value: string, onChange: (runId: string) => void) => (
+        <select
+            value={value}
+            onChange={e => onChange(e.target.value)}
+            className="w-full p-2 rounded-lg border border-brand-accent bg-brand-bg text-sm font-sans"
+        >
+            {runs.map((r, index) => (
+                <option key={r.runId} value={r.runId}>{formatRunLabel(r, index, runs.length)}</option>
+            ))}
+        </select>
+    );
+
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+                {renderSelect(runAId, setRunAId)}
+                {renderSelect(runBId, setRunBId)}
+            </div>
+
+            {comparison && (
+                <>
+                    <p className="text-sm text-brand-text font-sans">
+                        {comparison.divergesAt === null
+                            ? 'These runs made the same choices.'
+                            : `The runs split at choice ${comparison.divergesAt + 1}.`}
+                    </p>
+                    <div className="space-y-2">
+                        {comparison.steps.map((step, index) => (
+                            <div
+                                key={step.step}
+                                className={`grid grid-cols-[2rem_1fr_1fr] gap-3 p-2 rounded-lg text-sm ${
+                                    index === comparison.divergesAt ? 'bg-brand-accent border-2 border-brand-primary' : step.sameChoice ? 'bg-brand-bg' : ''
+                                }`}
+                            >
+                                <span className="font-bold text-brand-primary font-sans">{step.step}</span>
+                                {[step.a, step.b].map((edge, side) => (
+                                    <div key={side}>
+                                        {edge ? (
+                                            <>
+                                                <p className="text-brand-text">{edge.choice.text}</p>
+                                                <ResourceDeltas deltas={edge.resourceDeltas} labels={labels} />
+                                                {edge.quizResult && (
+                                                    <span className={`text-xs font-sans ${edge.quizResult.isCorrect ? 'text-green-700' : 'text-red-700'}`}>
+                                                        {edge.quizResult.isCorrect ? '✓' : '✗'}
+                                                    </span>
+                                                )}
+                                            </>
+                                        ) : (
+                                            <p className="text-gray-400 italic">—</p>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        ))}
+                    </div>
+                    <div className="grid grid-cols-2 gap-4 pt-3 border-t border-brand-accent">
+                        <ResourceSummary resources={comparison.finalResources.a} labels={labels} />
+                        <ResourceSummary resources={comparison.finalResources.b} labels={labels} />
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+const StoryMap: React.FC<StoryMapProps> = ({ run, journeyName, userId, resourceLabels, onJumpToNode, onClose }) => {
+    const [mode, setMode] = useState<'map' | 'compare'>('map');
+    const [runs, setRuns] = useState<StoryRun[] | null>(null);
+    const [loadError, setLoadError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (mode !== 'compare' || runs) return;
+        loadStoryRuns(userId, run.journeyId)
+            .then(loaded => {
+                // The current run may not have reached Firestore yet
+                setRuns([run, ...loaded.filter(r => r.runId !== run.runId)]);
+            })
+            .catch(error => {
+                console.error('[Story] Failed to load runs:', error);
+                setLoadError('Could not load your previous runs.');
+            });
+    }, [mode, runs, userId, run]);
+
+    const switchMode = (newMode: 'map' | 'compare') => {
+        soundService.playUIClick();
+        setMode(newMode);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center animate-fade-in-up" onClick={onClose}>
+            <div
+                className="bg-white p-6 rounded-lg shadow-xl max-w-3xl w-full m-4 max-h-[85vh] flex flex-col border-2 border-brand-frame"
+                onClick={e => e.stopPropagation()}
+            >
+                <div className="flex justify-between items-center mb-4 border-b-2 border-brand-accent pb-3">
+                    <h2 className="text-2xl font-cinzel text-brand-primary">🗺️ Story Map · {journeyName}</h2>
+                    <button onClick={onClose} aria-label="Close" className="text-gray-500 hover:text-brand-primary text-xl">✕</button>
+                </div>
+
+                <div className="flex gap-2 mb-4 font-sans">
+                    <button
+                        onClick={() => switchMode('map')}
+                        className={`px-4 py-2 rounded-lg font-bold text-sm transition ${mode === 'map' ? 'bg-brand-primary text-white' : 'bg-brand-bg text-brand-primary hover:bg-brand-accent'}`}
+                    >
+                        This Run
+                    </button>
+                    <button
+                        onClick={() => switchMode('compare')}
+                        className={`px-4 py-2 rounded-lg font-bold text-sm transition ${mode === 'compare' ? 'bg-brand-primary text-white' : 'bg-brand-bg text-brand-primary hover:bg-brand-accent'}`}
+                    >
+                        Compare Runs
+                    </button>
+                </div>
+
+                <div className="overflow-y-auto flex-grow pr-2">
+                    {mode === 'map' ? (
+                        <StoryTree run={run} labels={resourceLabels} onJumpToNode={onJumpToNode} />
+                    ) : loadError ? (
+                        <p className="text-red-700">{loadError}</p>
+                    ) : runs ? (
+                        <RunComparisonView runs={runs} currentRunId={run.runId} labels={resourceLabels} />
+                    ) : (
+                        <Loader message="Gathering your past journeys..." />
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default StoryMap;
@@ -1,11 +1,13 @@
 import React, { useState, useEffect } from 'react';
 // FIX: Import User type.
-import { CauseAndEffectQuestion as CaeType, User } from '../../../types';
+import { CauseAndEffectQuestion as CaeType, AnswerScore, User } from '../../../types';
+import { scoreSingleAnswer } from '../../../services/answerScoring';
 import { getHint } from '../../../services/geminiService';
 import { ttsService } from '../../../services/ttsService';
 import { soundService } from '../../../services/soundService';
 import AITutor from '../../shared/ChickTutor';
 import AudioControls from '../../shared/AudioControls';
+import AccuracyBadge from '../../shared/AccuracyBadge';
 import { stopAudio } from '../../../services/audioService';
 
 const LoadingSpinner = () => (
@@ -17,13 +19,14 @@ const LoadingSpinner = () => (
 
 interface CaeProps {
   question: CaeType;
-  onAnswer: (isCorrect: boolean) => void;
+  onAnswer: (result: AnswerScore) => void;
   onContinue: () => void;
+  onHintViewed: () => void;
   // FIX: Add user prop to the interface.
   user: User;
 }
 
-const CauseAndEffectQuestion: React.FC<CaeProps> = ({ question, onAnswer, onContinue, user }) => {
+const CauseAndEffectQuestion: React.FC<CaeProps> = ({ question, onAnswer, onContinue, onHintViewed, user }) => {
   const [selectedOption, setSelectedOption] = useState<string | null>(null);
   const [submitted, setSubmitted] = useState(false);
   const [isCorrect, setIsCorrect] = useState(false);
@@ -56,7 +59,7 @@ const CauseAndEffectQuestion: React.FC<CaeProps> = ({ question, onAnswer, onCont
     const correct = selectedOption === question.correctAnswer;
     setIsCorrect(correct);
     setSubmitted(true);
-    onAnswer(correct);
+    onAnswer(scoreSingleAnswer(selectedOption, correct));
   };
 
   const handleGetHint = async () => {
@@ -67,6 +70,7 @@ const CauseAndEffectQuestion: React.FC<CaeProps> = ({ question, onAnswer, onCont
     // FIX: Pass user.uid to getHint.
     const hintText = await getHint(question, user.uid);
     setHint(hintText);
+    onHintViewed();
     // FIX: Pass user.uid to ttsService.
     const audio = await ttsService.requestTts(hintText, user.uid);
     setHintAudio(audio);
@@ -137,6 +141,7 @@ const CauseAndEffectQuestion: React.FC<CaeProps> = ({ question, onAnswer, onCont
             <div className={`mt-4 p-4 rounded-lg text-white ${isCorrect ? 'bg-green-500' : 'bg-red-500'}`}>
                 <p className="font-bold">{isCorrect ? "Correct!" : "Not quite."}</p>
                 <p>{question.explanation}</p>
+                <AccuracyBadge report={question.accuracy} className="mt-2" />
             </div>
             <button
                 onClick={onContinue}
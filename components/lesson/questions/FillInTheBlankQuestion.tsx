@@ -1,11 +1,13 @@
 import React, { useState, useEffect } from 'react';
 // FIX: Import User type.
-import { FillInTheBlankQuestion as FitbType, User } from '../../../types';
+import { FillInTheBlankQuestion as FitbType, AnswerScore, User } from '../../../types';
+import { scoreFillInTheBlank } from '../../../services/answerScoring';
 import { getHint } from '../../../services/geminiService';
 import { ttsService } from '../../../services/ttsService';
 import { soundService } from '../../../services/soundService';
 import AITutor from '../../shared/ChickTutor';
 import AudioControls from '../../shared/AudioControls';
+import AccuracyBadge from '../../shared/AccuracyBadge';
 import { stopAudio } from '../../../services/audioService';
 
 const LoadingSpinner = () => (
@@ -17,13 +19,14 @@ const LoadingSpinner = () => (
 
 interface FitbProps {
   question: FitbType;
-  onAnswer: (isCorrect: boolean) => void;
+  onAnswer: (result: AnswerScore) => void;
   onContinue: () => void;
+  onHintViewed: () => void;
   // FIX: Add user prop to the interface.
   user: User;
 }
 
-const FillInTheBlankQuestion: React.FC<FitbProps> = ({ question, onAnswer, onContinue, user }) => {
+const FillInTheBlankQuestion: React.FC<FitbProps> = ({ question, onAnswer, onContinue, onHintViewed, user }) => {
   const [userInput, setUserInput] = useState('');
   const [submitted, setSubmitted] = useState(false);
   const [isCorrect, setIsCorrect] = useState(false);
@@ -49,10 +52,10 @@ const FillInTheBlankQuestion: React.FC<FitbProps> = ({ question, onAnswer, onCon
     e.preventDefault();
     if (userInput.trim() === '') return;
     
-    const correct = userInput.trim().toLowerCase() === question.correctAnswer.trim().toLowerCase();
-    setIsCorrect(correct);
+    const result = scoreFillInTheBlank(question, userInput);
+    setIsCorrect(result.isCorrect);
     setSubmitted(true);
-    onAnswer(correct);
+    onAnswer(result);
   };
 
   const handleGetHint = async () => {
@@ -63,6 +66,7 @@ const FillInTheBlankQuestion: React.FC<FitbProps> = ({ question, onAnswer, onCon
     // FIX: Pass user.uid to getHint.
     const hintText = await getHint(question, user.uid);
     setHint(hintText);
+    onHintViewed();
     // FIX: Pass user.uid to ttsService.
     const audio = await ttsService.requestTts(hintText, user.uid);
     setHintAudio(audio);
@@ -118,6 +122,7 @@ const FillInTheBlankQuestion: React.FC<FitbProps> = ({ question, onAnswer, onCon
                 <div className={`mt-4 p-4 rounded-lg text-white ${isCorrect ? 'bg-green-500' : 'bg-red-500'}`}>
                     <p className="font-bold">{isCorrect ? "Correct!" : "Not quite."}</p>
                     <p>{question.explanation}</p>
+                    <AccuracyBadge report={question.accuracy} className="mt-2" />
                 </div>
                 <button
                     onClick={onContinue}
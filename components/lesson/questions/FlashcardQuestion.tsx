@@ -0,0 +1,112 @@
+import React, { useState, useEffect } from 'react';
+import { FlashcardQuestion as FlashcardType, AnswerScore, User } from '../../../types';
+import { scoreSingleAnswer } from '../../../services/answerScoring';
+import { ttsService } from '../../../services/ttsService';
+import { soundService } from '../../../services/soundService';
+import AudioControls from '../../shared/AudioControls';
+import SourceCitations from '../../shared/SourceCitations';
+import { stopAudio } from '../../../services/audioService';
+
+const KIND_LABELS: Record<FlashcardType['kind'], string> = {
+  term: 'Term',
+  date: 'Date',
+  person: 'Person',
+};
+
+interface FlashcardProps {
+  question: FlashcardType;
+  onAnswer: (result: AnswerScore) => void;
+  onContinue: () => void;
+  user: User;
+}
+
+/**
+ * The front of the card until the student turns it over, then whether they
+ * knew the back
+ */
+const FlashcardQuestion: React.FC<FlashcardProps> = ({ question, onAnswer, onContinue, user }) => {
+  const [revealed, setRevealed] = useState(false);
+  const [knewIt, setKnewIt] = useState<boolean | null>(null);
+  const [questionAudio, setQuestionAudio] = useState<string | null>(null);
+
+  useEffect(() => {
+    const getAudio = async () => {
+        const data = await ttsService.requestTts(question.questionText, user.uid);
+        setQuestionAudio(data);
+    };
+    getAudio();
+
+    return () => {
+        stopAudio();
+    };
+  }, [question.questionText, user.uid]);
+
+  const handleReveal = () => {
+    soundService.playUIClick();
+    setRevealed(true);
+  };
+
+  const handleRate = (correct: boolean) => {
+    if (knewIt !== null) return;
+    setKnewIt(correct);
+    onAnswer(scoreSingleAnswer(correct, correct));
+  };
+
+  return (
+    <div className="p-6 bg-white rounded-lg shadow-md">
+      <div className="flex justify-between items-start mb-4">
+        <div className="flex-grow pr-4">
+          <span className="text-xs font-bold uppercase text-gray-500">{KIND_LABELS[question.kind]}</span>
+          <h3 className="text-xl font-bold">{question.questionText}</h3>
+        </div>
+        <AudioControls audioData={questionAudio} />
+      </div>
+
+      {!revealed ? (
+        <button
+          onClick={handleReveal}
+          className="w-full p-4 rounded-lg border-2 font-bold text-lg bg-white hover:bg-gray-100 transition"
+        >
+          Show answer
+        </button>
+      ) : (
+        <>
+          <div className="p-4 rounded-lg bg-gray-50 border-2">
+            {question.imageUrl && (
+              <img src={question.imageUrl} alt={question.imagePrompt || question.questionText} className="w-full h-48 object-contain rounded-lg mb-4 bg-gray-100" />
+            )}
+            <p className="text-lg">{question.answer}</p>
+            {question.explanation && <p className="mt-2 text-sm text-gray-600">{question.explanation}</p>}
+            <SourceCitations citations={question.citations} className="mt-2" />
+          </div>
+
+          {knewIt === null ? (
+            <div className="flex gap-4 mt-4">
+              <button
+                onClick={() => handleRate(false)}
+                className="w-full p-4 rounded-lg border-2 font-bold text-lg bg-white hover:bg-gray-100 transition"
+              >
+                I didn't know it
+              </button>
+              <button
+                onClick={() => handleRate(true)}
+                className="w-full p-4 rounded-lg border-2 font-bold text-lg bg-white hover:bg-gray-100 transition"
+              >
+                I knew it
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={onContinue}
+              className="mt-4 w-full bg-brand-primary text-white font-bold py-3 rounded-lg hover:bg-opacity-80 transition"
+            >
+              Continue
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FlashcardQuestion;
@@ -1,12 +1,14 @@
 import React, { useState, useEffect } from 'react';
 // FIX: Import User type.
-import { ImageRecognitionQuestion as IrqType, User } from '../../../types';
+import { ImageRecognitionQuestion as IrqType, AnswerScore, User } from '../../../types';
+import { scoreSingleAnswer } from '../../../services/answerScoring';
 import Loader from '../../shared/Loader';
 import { getHint } from '../../../services/geminiService';
 import { ttsService } from '../../../services/ttsService';
 import { soundService } from '../../../services/soundService';
 import AITutor from '../../shared/ChickTutor';
 import AudioControls from '../../shared/AudioControls';
+import AccuracyBadge from '../../shared/AccuracyBadge';
 import { stopAudio } from '../../../services/audioService';
 
 const LoadingSpinner = () => (
@@ -18,13 +20,14 @@ const LoadingSpinner = () => (
 
 interface IrqProps {
   question: IrqType;
-  onAnswer: (isCorrect: boolean) => void;
+  onAnswer: (result: AnswerScore) => void;
   onContinue: () => void;
+  onHintViewed: () => void;
   // FIX: Add user prop to the interface.
   user: User;
 }
 
-const ImageRecognitionQuestion: React.FC<IrqProps> = ({ question, onAnswer, onContinue, user }) => {
+const ImageRecognitionQuestion: React.FC<IrqProps> = ({ question, onAnswer, onContinue, onHintViewed, user }) => {
   const [selectedOption, setSelectedOption] = useState<string | null>(null);
   const [submitted, setSubmitted] = useState(false);
   const [isCorrect, setIsCorrect] = useState(false);
@@ -57,7 +60,7 @@ const ImageRecognitionQuestion: React.FC<IrqProps> = ({ question, onAnswer, onCo
     const correct = selectedOption === question.correctAnswer;
     setIsCorrect(correct);
     setSubmitted(true);
-    onAnswer(correct);
+    onAnswer(scoreSingleAnswer(selectedOption, correct));
   };
 
   const handleGetHint = async () => {
@@ -68,6 +71,7 @@ const ImageRecognitionQuestion: React.FC<IrqProps> = ({ question, onAnswer, onCo
     // FIX: Pass user.uid to getHint.
     const hintText = await getHint(question, user.uid);
     setHint(hintText);
+    onHintViewed();
     // FIX: Pass user.uid to ttsService.
     const audio = await ttsService.requestTts(hintText, user.uid);
     setHintAudio(audio);
@@ -145,6 +149,7 @@ const ImageRecognitionQuestion: React.FC<IrqProps> = ({ question, onAnswer, onCo
             <div className={`mt-4 p-4 rounded-lg text-white ${isCorrect ? 'bg-green-500' : 'bg-red-500'}`}>
                 <p className="font-bold">{isCorrect ? "Correct!" : "Not quite."}</p>
                 <p>{question.explanation}</p>
+                <AccuracyBadge report={question.accuracy} className="mt-2" />
             </div>
             <button
                 onClick={onContinue}
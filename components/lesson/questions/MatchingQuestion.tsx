@@ -1,11 +1,13 @@
 import React, { useState, useEffect } from 'react';
 // FIX: Import User type.
-import { MatchingQuestion as MqType, MatchingItem, User } from '../../../types';
+import { MatchingQuestion as MqType, MatchingItem, AnswerScore, User } from '../../../types';
+import { scoreMatching } from '../../../services/answerScoring';
 import { getHint } from '../../../services/geminiService';
 import { ttsService } from '../../../services/ttsService';
 import { soundService } from '../../../services/soundService';
 import AITutor from '../../shared/ChickTutor';
 import AudioControls from '../../shared/AudioControls';
+import AccuracyBadge from '../../shared/AccuracyBadge';
 import { stopAudio } from '../../../services/audioService';
 
 const LoadingSpinner = () => (
@@ -17,17 +19,18 @@ const LoadingSpinner = () => (
 
 interface MqProps {
   question: MqType;
-  onAnswer: (isCorrect: boolean) => void;
+  onAnswer: (result: AnswerScore) => void;
   onContinue: () => void;
+  onHintViewed: () => void;
   // FIX: Add user prop to the interface.
   user: User;
 }
 
-const MatchingQuestion: React.FC<MqProps> = ({ question, onAnswer, onContinue, user }) => {
+const MatchingQuestion: React.FC<MqProps> = ({ question, onAnswer, onContinue, onHintViewed, user }) => {
     const [matches, setMatches] = useState<{ [key: string]: string | null }>({});
     const [selectedPrompt, setSelectedPrompt] = useState<MatchingItem | null>(null);
     const [submitted, setSubmitted] = useState(false);
-    const [isCorrect, setIsCorrect] = useState(false);
+    const [result, setResult] = useState<AnswerScore | null>(null);
     const [hint, setHint] = useState<string | null>(null);
     const [hintAudio, setHintAudio] = useState<string | null>(null);
     const [isHintLoading, setIsHintLoading] = useState(false);
@@ -63,16 +66,10 @@ const MatchingQuestion: React.FC<MqProps> = ({ question, onAnswer, onContinue, u
     };
 
     const handleSubmit = () => {
-        let correctCount = 0;
-        (question.correctPairs || []).forEach(pair => {
-            if (matches[pair.promptId] === pair.answerId) {
-                correctCount++;
-            }
-        });
-        const correct = correctCount === (question.correctPairs || []).length;
-        setIsCorrect(correct);
+        const scored = scoreMatching(question, matches);
+        setResult(scored);
         setSubmitted(true);
-        onAnswer(correct);
+        onAnswer(scored);
     };
 
     const handleGetHint = async () => {
@@ -83,6 +80,7 @@ const MatchingQuestion: React.FC<MqProps> = ({ question, onAnswer, onContinue, u
         // FIX: Pass user.uid to getHint.
         const hintText = await getHint(question, user.uid);
         setHint(hintText);
+        onHintViewed();
         // FIX: Pass user.uid to ttsService.
         const audio = await ttsService.requestTts(hintText, user.uid);
         setHintAudio(audio);
@@ -90,6 +88,8 @@ const MatchingQuestion: React.FC<MqProps> = ({ question, onAnswer, onContinue, u
     };
 
     const allMatched = Object.keys(matches).length === prompts.length && prompts.length > 0;
+    const isCorrect = !!result?.isCorrect;
+    const correctPairs = result ? result.parts.filter(part => part.correct).length : 0;
 
     return (
         <div className="p-6 bg-white rounded-lg shadow-md">
@@ -162,9 +162,12 @@ const MatchingQuestion: React.FC<MqProps> = ({ question, onAnswer, onContinue, u
                 </div>
             ) : (
                 <>
-                    <div className={`mt-4 p-4 rounded-lg text-white ${isCorrect ? 'bg-green-500' : 'bg-red-500'}`}>
-                        <p className="font-bold">{isCorrect ? "Correct!" : "Not quite."}</p>
+                    <div className={`mt-4 p-4 rounded-lg text-white ${isCorrect ? 'bg-green-500' : correctPairs > 0 ? 'bg-yellow-500' : 'bg-red-500'}`}>
+                        <p className="font-bold">
+                            {isCorrect ? "Correct!" : correctPairs > 0 ? `Partly right: ${correctPairs} of ${result!.parts.length} pairs.` : "Not quite."}
+                        </p>
                         <p>{question.explanation}</p>
+                        <AccuracyBadge report={question.accuracy} className="mt-2" />
                     </div>
                     <button
                         onClick={onContinue}
@@ -1,10 +1,12 @@
 import React, { useState, useEffect } from 'react';
-import { MultipleChoiceQuestion as McqType, User } from '../../../types';
+import { MultipleChoiceQuestion as McqType, AnswerScore, User } from '../../../types';
+import { scoreSingleAnswer } from '../../../services/answerScoring';
 import { getHint } from '../../../services/geminiService';
 import { ttsService } from '../../../services/ttsService';
 import { soundService } from '../../../services/soundService';
 import AITutor from '../../shared/ChickTutor';
 import AudioControls from '../../shared/AudioControls';
+import AccuracyBadge from '../../shared/AccuracyBadge';
 import { stopAudio } from '../../../services/audioService';
 
 const LoadingSpinner = () => (
@@ -16,12 +18,13 @@ const LoadingSpinner = () => (
 
 interface McqProps {
   question: McqType;
-  onAnswer: (isCorrect: boolean) => void;
+  onAnswer: (result: AnswerScore) => void;
   onContinue: () => void;
+  onHintViewed: () => void;
   user: User;
 }
 
-const MultipleChoiceQuestion: React.FC<McqProps> = ({ question, onAnswer, onContinue, user }) => {
+const MultipleChoiceQuestion: React.FC<McqProps> = ({ question, onAnswer, onContinue, onHintViewed, user }) => {
   const [selectedOption, setSelectedOption] = useState<string | null>(null);
   const [submitted, setSubmitted] = useState(false);
   const [isCorrect, setIsCorrect] = useState(false);
@@ -53,7 +56,7 @@ const MultipleChoiceQuestion: React.FC<McqProps> = ({ question, onAnswer, onCont
     const correct = selectedOption === question.correctAnswer;
     setIsCorrect(correct);
     setSubmitted(true);
-    onAnswer(correct);
+    onAnswer(scoreSingleAnswer(selectedOption, correct));
   };
 
   const handleGetHint = async () => {
@@ -63,6 +66,7 @@ const MultipleChoiceQuestion: React.FC<McqProps> = ({ question, onAnswer, onCont
     setHintAudio(null);
     const hintText = await getHint(question, user.uid);
     setHint(hintText);
+    onHintViewed();
     const audio = await ttsService.requestTts(hintText, user.uid);
     setHintAudio(audio);
     setIsHintLoading(false);
@@ -132,6 +136,7 @@ const MultipleChoiceQuestion: React.FC<McqProps> = ({ question, onAnswer, onCont
             <div className={`mt-4 p-4 rounded-lg text-white ${isCorrect ? 'bg-green-500' : 'bg-red-500'}`}>
                 <p className="font-bold">{isCorrect ? "Correct!" : "Not quite."}</p>
                 <p>{question.explanation}</p>
+                <AccuracyBadge report={question.accuracy} className="mt-2" />
             </div>
             <button
                 onClick={onContinue}
@@ -1,11 +1,13 @@
 import React, { useState, useEffect } from 'react';
 // FIX: Import User type.
-import { OrderingQuestion as OqType, OrderingItem, User } from '../../../types';
+import { OrderingQuestion as OqType, OrderingItem, AnswerScore, User } from '../../../types';
+import { scoreOrdering } from '../../../services/answerScoring';
 import { getHint } from '../../../services/geminiService';
 import { ttsService } from '../../../services/ttsService';
 import { soundService } from '../../../services/soundService';
 import AITutor from '../../shared/ChickTutor';
 import AudioControls from '../../shared/AudioControls';
+import AccuracyBadge from '../../shared/AccuracyBadge';
 import { stopAudio } from '../../../services/audioService';
 
 const LoadingSpinner = () => (
@@ -17,17 +19,18 @@ const LoadingSpinner = () => (
 
 interface OqProps {
   question: OqType;
-  onAnswer: (isCorrect: boolean) => void;
+  onAnswer: (result: AnswerScore) => void;
   onContinue: () => void;
+  onHintViewed: () => void;
   // FIX: Add user prop to the interface.
   user: User;
 }
 
-const OrderingQuestion: React.FC<OqProps> = ({ question, onAnswer, onContinue, user }) => {
+const OrderingQuestion: React.FC<OqProps> = ({ question, onAnswer, onContinue, onHintViewed, user }) => {
   const [items, setItems] = useState<OrderingItem[]>(() => [...(question.items || [])].sort(() => Math.random() - 0.5));
   const [draggedItem, setDraggedItem] = useState<OrderingItem | null>(null);
   const [submitted, setSubmitted] = useState(false);
-  const [isCorrect, setIsCorrect] = useState(false);
+  const [result, setResult] = useState<AnswerScore | null>(null);
   const [hint, setHint] = useState<string | null>(null);
   const [hintAudio, setHintAudio] = useState<string | null>(null);
   const [isHintLoading, setIsHintLoading] = useState(false);
@@ -73,12 +76,14 @@ const OrderingQuestion: React.FC<OqProps> = ({ question, onAnswer, onContinue, u
   };
 
   const handleSubmit = () => {
-    const currentOrder = items.map(item => item.id);
-    const correct = JSON.stringify(currentOrder) === JSON.stringify(correctOrder);
-    setIsCorrect(correct);
+    const scored = scoreOrdering(question, items.map(item => item.id));
+    setResult(scored);
     setSubmitted(true);
-    onAnswer(correct);
+    onAnswer(scored);
   };
+
+  const isCorrect = !!result?.isCorrect;
+  const correctItems = result ? result.parts.filter(part => part.correct).length : 0;
   
   const handleGetHint = async () => {
     soundService.playUIClick();
@@ -88,6 +93,7 @@ const OrderingQuestion: React.FC<OqProps> = ({ question, onAnswer, onContinue, u
     // FIX: Pass user.uid to getHint.
     const hintText = await getHint(question, user.uid);
     setHint(hintText);
+    onHintViewed();
     // FIX: Pass user.uid to ttsService.
     const audio = await ttsService.requestTts(hintText, user.uid);
     setHintAudio(audio);
@@ -147,9 +153,12 @@ const OrderingQuestion: React.FC<OqProps> = ({ question, onAnswer, onContinue, u
         </div>
       ) : (
         <>
-            <div className={`mt-4 p-4 rounded-lg text-white ${isCorrect ? 'bg-green-500' : 'bg-red-500'}`}>
-                <p className="font-bold">{isCorrect ? "Correct!" : "Excellent ordering!"}</p>
+            <div className={`mt-4 p-4 rounded-lg text-white ${isCorrect ? 'bg-green-500' : correctItems > 0 ? 'bg-yellow-500' : 'bg-red-500'}`}>
+                <p className="font-bold">
+                  {isCorrect ? "Correct!" : correctItems > 0 ? `Partly right: ${correctItems} of ${result!.parts.length} in the right order.` : "Not quite."}
+                </p>
                 <p>{question.explanation}</p>
+                <AccuracyBadge report={question.accuracy} className="mt-2" />
             </div>
             <button
                 onClick={onContinue}
@@ -1,12 +1,14 @@
 import React, { useState, useEffect } from 'react';
 // FIX: Import User type.
-import { ShortExplanationQuestion as SeType, User } from '../../../types';
+import { ShortExplanationQuestion as SeType, AnswerScore, User } from '../../../types';
+import { scoreShortExplanation } from '../../../services/answerScoring';
 import { getHint, evaluateShortAnswer } from '../../../services/geminiService';
 import { ttsService } from '../../../services/ttsService';
 import { soundService } from '../../../services/soundService';
 import AITutor from '../../shared/ChickTutor';
 import Loader from '../../shared/Loader';
 import AudioControls from '../../shared/AudioControls';
+import AccuracyBadge from '../../shared/AccuracyBadge';
 import { stopAudio } from '../../../services/audioService';
 
 const LoadingSpinner = () => (
@@ -18,16 +20,17 @@ const LoadingSpinner = () => (
 
 interface SeProps {
   question: SeType;
-  onAnswer: (isCorrect: boolean) => void;
+  onAnswer: (result: AnswerScore) => void;
   onContinue: () => void;
+  onHintViewed: () => void;
   // FIX: Add user prop to the interface.
   user: User;
 }
 
-const ShortExplanationQuestion: React.FC<SeProps> = ({ question, onAnswer, onContinue, user }) => {
+const ShortExplanationQuestion: React.FC<SeProps> = ({ question, onAnswer, onContinue, onHintViewed, user }) => {
   const [userInput, setUserInput] = useState('');
   const [submitted, setSubmitted] = useState(false);
-  const [isCorrect, setIsCorrect] = useState(false);
+  const [result, setResult] = useState<AnswerScore | null>(null);
   const [feedback, setFeedback] = useState('');
   const [isEvaluating, setIsEvaluating] = useState(false);
   const [hint, setHint] = useState<string | null>(null);
@@ -53,11 +56,12 @@ const ShortExplanationQuestion: React.FC<SeProps> = ({ question, onAnswer, onCon
     if (userInput.trim() === '') return;
     
     setIsEvaluating(true);
-    const result = await evaluateShortAnswer(question.questionText, userInput, question.keyConcepts);
-    setIsCorrect(result.isCorrect);
-    setFeedback(result.feedback);
+    const evaluation = await evaluateShortAnswer(question.questionText, userInput, question.keyConcepts);
+    const scored = scoreShortExplanation(question, userInput, evaluation.coveredConcepts);
+    setResult(scored);
+    setFeedback(evaluation.feedback);
     setSubmitted(true);
-    onAnswer(result.isCorrect);
+    onAnswer(scored);
     setIsEvaluating(false);
   };
 
@@ -69,6 +73,7 @@ const ShortExplanationQuestion: React.FC<SeProps> = ({ question, onAnswer, onCon
     // FIX: Pass user.uid to getHint.
     const hintText = await getHint(question, user.uid);
     setHint(hintText);
+    onHintViewed();
     // FIX: Pass user.uid to ttsService.
     const audio = await ttsService.requestTts(hintText, user.uid);
     setHintAudio(audio);
@@ -124,9 +129,15 @@ const ShortExplanationQuestion: React.FC<SeProps> = ({ question, onAnswer, onCon
             </div>
         ) : (
             <>
-                <div className={`mt-4 p-4 rounded-lg text-white ${isCorrect ? 'bg-green-500' : 'bg-red-500'}`}>
+                <div className={`mt-4 p-4 rounded-lg text-white ${result?.isCorrect ? 'bg-green-500' : result?.score ? 'bg-yellow-500' : 'bg-red-500'}`}>
                     <p className="font-bold">{feedback}</p>
+                    {result && !result.isCorrect && result.score > 0 && (
+                        <p className="mt-2">
+                            You explained {result.parts.filter(part => part.correct).length} of {result.parts.length} key ideas.
+                        </p>
+                    )}
                     <p className="mt-2 opacity-90">{question.explanation}</p>
+                    <AccuracyBadge report={question.accuracy} className="mt-2" />
                 </div>
                 <button
                     onClick={onContinue}
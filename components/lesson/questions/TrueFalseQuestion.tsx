@@ -1,11 +1,13 @@
 import React, { useState, useEffect } from 'react';
 // FIX: Import User type.
-import { TrueFalseQuestion as TfqType, User } from '../../../types';
+import { TrueFalseQuestion as TfqType, AnswerScore, User } from '../../../types';
+import { scoreSingleAnswer } from '../../../services/answerScoring';
 import { getHint } from '../../../services/geminiService';
 import { ttsService } from '../../../services/ttsService';
 import { soundService } from '../../../services/soundService';
 import AITutor from '../../shared/ChickTutor';
 import AudioControls from '../../shared/AudioControls';
+import AccuracyBadge from '../../shared/AccuracyBadge';
 import { stopAudio } from '../../../services/audioService';
 
 const LoadingSpinner = () => (
@@ -17,13 +19,14 @@ const LoadingSpinner = () => (
 
 interface TfqProps {
   question: TfqType;
-  onAnswer: (isCorrect: boolean) => void;
+  onAnswer: (result: AnswerScore) => void;
   onContinue: () => void;
+  onHintViewed: () => void;
   // FIX: Add user prop to the interface.
   user: User;
 }
 
-const TrueFalseQuestion: React.FC<TfqProps> = ({ question, onAnswer, onContinue, user }) => {
+const TrueFalseQuestion: React.FC<TfqProps> = ({ question, onAnswer, onContinue, onHintViewed, user }) => {
   const [selectedAnswer, setSelectedAnswer] = useState<boolean | null>(null);
   const [submitted, setSubmitted] = useState(false);
   const [isCorrect, setIsCorrect] = useState(false);
@@ -52,7 +55,7 @@ const TrueFalseQuestion: React.FC<TfqProps> = ({ question, onAnswer, onContinue,
     const correct = answer === question.correctAnswer;
     setIsCorrect(correct);
     setSubmitted(true);
-    onAnswer(correct);
+    onAnswer(scoreSingleAnswer(answer, correct));
   }
 
   const handleGetHint = async () => {
@@ -63,6 +66,7 @@ const TrueFalseQuestion: React.FC<TfqProps> = ({ question, onAnswer, onContinue,
     // FIX: Pass user.uid to getHint.
     const hintText = await getHint(question, user.uid);
     setHint(hintText);
+    onHintViewed();
     // FIX: Pass user.uid to ttsService.
     const audio = await ttsService.requestTts(hintText, user.uid);
     setHintAudio(audio);
@@ -115,6 +119,7 @@ const TrueFalseQuestion: React.FC<TfqProps> = ({ question, onAnswer, onContinue,
             <div className={`mt-4 p-4 rounded-lg text-white ${isCorrect ? 'bg-green-500' : 'bg-red-500'}`}>
                 <p className="font-bold">{isCorrect ? "Correct!" : "Not quite."}</p>
                 <p>{question.explanation}</p>
+                <AccuracyBadge report={question.accuracy} className="mt-2" />
             </div>
             <button
                 onClick={onContinue}
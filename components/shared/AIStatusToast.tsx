@@ -0,0 +1,49 @@
+import React, { useEffect, useState } from 'react';
+import { aiGovernor, AIGovernorStatus } from '../../services/aiGovernor';
+
+/**
+ * Small floating status shown while AI calls are being throttled or retried,
+ * so a slow response reads as "waiting on the AI" rather than a frozen app.
+ */
+const AIStatusToast: React.FC = () => {
+    const [status, setStatus] = useState<AIGovernorStatus>(() => aiGovernor.getStatus());
+    const [now, setNow] = useState(Date.now());
+
+    useEffect(() => {
+        return aiGovernor.subscribe(event => setStatus(event.status));
+    }, []);
+
+    const isRateLimited = status.retrying > 0 && status.rateLimitedUntil !== null;
+    const isUnavailable = status.openCircuits.length > 0;
+
+    // Tick the countdown only while something is being shown
+    useEffect(() => {
+        if (!isRateLimited) return;
+        const interval = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, [isRateLimited]);
+
+    if (!isRateLimited && !isUnavailable) {
+        return null;
+    }
+
+    const secondsLeft = isRateLimited ? Math.max(0, Math.ceil((status.rateLimitedUntil - now) / 1000)) : 0;
+    const message = isRateLimited
+        ? secondsLeft > 0
+            ? `The AI is busy. Retrying in ${secondsLeft}s…`
+            : 'The AI is busy. Retrying…'
+        : 'The AI is unavailable right now. Some features may use offline content.';
+
+    return (
+        <div
+            role="status"
+            aria-live="polite"
+            className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-2 px-4 py-2 rounded-full shadow-lg bg-white border-2 border-brand-orange text-brand-purple text-sm font-semibold"
+        >
+            <span className={isRateLimited ? 'animate-spin' : ''}>{isRateLimited ? '⏳' : '⚠️'}</span>
+            <span>{message}</span>
+        </div>
+    );
+};
+
+export default AIStatusToast;
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { AccuracyConfidence, AccuracyReport, ClaimVerdict } from '../../types';
+
+const CONFIDENCE_STYLES: Record<AccuracyConfidence, { icon: string; label: string; className: string }> = {
+    verified: { icon: '✅', label: 'Fact-checked', className: 'bg-green-50 text-green-800 border-green-300' },
+    likely: { icon: '☑️', label: 'Likely accurate', className: 'bg-blue-50 text-blue-800 border-blue-300' },
+    unverified: { icon: '❔', label: 'Not verified', className: 'bg-gray-50 text-gray-700 border-gray-300' },
+    disputed: { icon: '⚠️', label: 'Disputed', className: 'bg-yellow-50 text-yellow-800 border-yellow-300' },
+};
+
+const VERDICT_ICONS: Record<ClaimVerdict, string> = {
+    supported: '✓',
+    consistent: '≈',
+    contradicted: '✗',
+    uncertain: '?',
+};
+
+const REFERENCE_NAMES: Record<AccuracyReport['checkedAgainst'], string> = {
+    source: 'your study material',
+    factSheet: "this journey's fact sheet",
+    general: 'well-established history',
+};
+
+/**
+ * Confidence marker for fact-checked text. Clicking it lists the claims that
+ * were checked and what the checker found.
+ */
+const AccuracyBadge: React.FC<{ report?: AccuracyReport; className?: string }> = ({ report, className = '' }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    if (!report) return null;
+
+    const style = report.corrected
+        ? { icon: '✏️', label: 'Corrected', className: CONFIDENCE_STYLES.likely.className }
+        : CONFIDENCE_STYLES[report.confidence];
+    const summary = report.corrected
+        ? `A claim that disagreed with ${REFERENCE_NAMES[report.checkedAgainst]} was corrected.`
+        : report.confidence === 'unverified' && report.claims.length === 0
+            ? 'This text could not be fact-checked.'
+            : `Checked against ${REFERENCE_NAMES[report.checkedAgainst]}.`;
+
+    return (
+        <div className={`text-xs font-sans ${className}`}>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                aria-expanded={isOpen}
+                title={summary}
+                className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full border font-semibold ${style.className}`}
+            >
+                <span>{style.icon}</span>
+                <span>{style.label}</span>
+            </button>
+            {isOpen && (
+                <div className="mt-2 p-2 rounded-lg bg-white border border-brand-accent text-brand-text space-y-1">
+                    <p className="italic">{summary}</p>
+                    {report.claims.map((claim, index) => (
+                        <p key={index}>
+                            <span className="font-bold mr-1">{VERDICT_ICONS[claim.verdict]}</span>
+                            {claim.claim}
+                            {claim.note && <span className="text-gray-500"> ({claim.note})</span>}
+                        </p>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default AccuracyBadge;
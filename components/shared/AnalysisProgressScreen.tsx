@@ -1,6 +1,7 @@
 // components/shared/AnalysisProgressScreen.tsx
 
 import React from 'react';
+import { UploadProgress } from '../../services/fileUploadService';
 
 interface AnalysisStep {
   id: string;
@@ -10,65 +11,60 @@ interface AnalysisStep {
   status: 'pending' | 'active' | 'completed' | 'error';
 }
 
+// In the order the material goes through them
+const STEP_DEFINITIONS: Omit<AnalysisStep, 'status'>[] = [
+  { id: 'upload', label: 'Upload', icon: '📤', description: 'Sending your file' },
+  { id: 'ocr', label: 'OCR Processing', icon: '👁️', description: 'Extracting text from your document' },
+  { id: 'topic-mapping', label: 'Topic Mapping', icon: '🗺️', description: 'Identifying main topics and themes' },
+  { id: 'concepts', label: 'Concepts', icon: '💡', description: 'Analyzing key concepts and ideas' },
+  { id: 'quiz-seeds', label: 'Quiz Seeds', icon: '❓', description: 'Generating quiz questions and tasks' },
+  { id: 'lesson-plan', label: 'Lesson Plan', icon: '📚', description: 'Building your personalized journey' },
+];
+
+const formatBytes = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+const UPLOAD_STATE_LABELS: Record<UploadProgress['state'], string> = {
+  running: 'Uploading',
+  paused: 'Paused',
+  stalled: 'Waiting for the connection',
+  retrying: 'Connection lost, trying again',
+};
+
 interface AnalysisProgressScreenProps {
   isVisible: boolean;
   currentStep?: string;
+  detail?: string; // What the current step is doing right now
+  uploadProgress?: UploadProgress | null;
   error?: string;
   onCancel?: () => void;
+  onHide?: () => void; // Closes the screen while the work goes on
+  onPauseUpload?: () => void;
+  onResumeUpload?: () => void;
 }
 
 const AnalysisProgressScreen: React.FC<AnalysisProgressScreenProps> = ({
   isVisible,
   currentStep = 'ocr',
+  detail,
+  uploadProgress,
   error,
-  onCancel
+  onCancel,
+  onHide,
+  onPauseUpload,
+  onResumeUpload
 }) => {
   if (!isVisible) return null;
 
-  const steps: AnalysisStep[] = [
-    {
-      id: 'ocr',
-      label: 'OCR Processing',
-      icon: '👁️',
-      description: 'Extracting text from your document',
-      status: currentStep === 'ocr' ? 'active' :
-              ['topic-mapping', 'concepts', 'quiz-seeds', 'lesson-plan'].includes(currentStep) ? 'completed' : 'pending'
-    },
-    {
-      id: 'topic-mapping',
-      label: 'Topic Mapping',
-      icon: '🗺️',
-      description: 'Identifying main topics and themes',
-      status: currentStep === 'topic-mapping' ? 'active' :
-              ['concepts', 'quiz-seeds', 'lesson-plan'].includes(currentStep) ? 'completed' :
-              currentStep === 'ocr' ? 'pending' : 'pending'
-    },
-    {
-      id: 'concepts',
-      label: 'Concepts',
-      icon: '💡',
-      description: 'Analyzing key concepts and ideas',
-      status: currentStep === 'concepts' ? 'active' :
-              ['quiz-seeds', 'lesson-plan'].includes(currentStep) ? 'completed' :
-              ['ocr', 'topic-mapping'].includes(currentStep) ? 'pending' : 'pending'
-    },
-    {
-      id: 'quiz-seeds',
-      label: 'Quiz Seeds',
-      icon: '❓',
-      description: 'Generating quiz questions and tasks',
-      status: currentStep === 'quiz-seeds' ? 'active' :
-              currentStep === 'lesson-plan' ? 'completed' :
-              ['ocr', 'topic-mapping', 'concepts'].includes(currentStep) ? 'pending' : 'pending'
-    },
-    {
-      id: 'lesson-plan',
-      label: 'Lesson Plan',
-      icon: '📚',
-      description: 'Building your personalized journey',
-      status: currentStep === 'lesson-plan' ? 'active' : 'pending'
-    }
-  ];
+  const currentIndex = STEP_DEFINITIONS.findIndex(step => step.id === currentStep);
+  const steps: AnalysisStep[] = STEP_DEFINITIONS.map((step, index) => ({
+    ...step,
+    status: index === currentIndex ? (error ? 'error' : 'active') : index < currentIndex ? 'completed' : 'pending',
+  }));
+
+  const uploadPercent = uploadProgress && uploadProgress.totalBytes > 0
+    ? Math.round((uploadProgress.bytesTransferred / uploadProgress.totalBytes) * 100)
+    : 0;
 
   const getStepStatusClass = (status: string) => {
     switch (status) {
@@ -103,7 +99,27 @@ const AnalysisProgressScreen: React.FC<AnalysisProgressScreenProps> = ({
 
                 <div className="step-details">
                   <h3 className="step-title">{step.label}</h3>
-                  <p className="step-description">{step.description}</p>
+                  <p className="step-description">
+                    {step.status === 'active' && detail ? detail : step.description}
+                  </p>
+                  {step.id === 'upload' && step.status === 'active' && uploadProgress && (
+                    <div className="upload-progress">
+                      <div className="upload-bar">
+                        <div className="upload-bar-fill" style={{ width: `${uploadPercent}%` }} />
+                      </div>
+                      <div className="upload-meta">
+                        <span>
+                          {UPLOAD_STATE_LABELS[uploadProgress.state]}
+                          {uploadProgress.attempt > 1 ? ` (attempt ${uploadProgress.attempt})` : ''}
+                          {' · '}
+                          {formatBytes(uploadProgress.bytesTransferred)} of {formatBytes(uploadProgress.totalBytes)}
+                        </span>
+                        {uploadProgress.state === 'paused'
+                          ? onResumeUpload && <button className="upload-control" onClick={onResumeUpload}>▶ Resume</button>
+                          : onPauseUpload && <button className="upload-control" onClick={onPauseUpload}>⏸ Pause</button>}
+                      </div>
+                    </div>
+                  )}
                 </div>
 
                 <div className="step-status">
@@ -127,6 +143,11 @@ const AnalysisProgressScreen: React.FC<AnalysisProgressScreenProps> = ({
               Cancel
             </button>
           )}
+          {onHide && (
+            <button className="hide-button" onClick={onHide}>
+              Keep working in the background
+            </button>
+          )}
           <div className="progress-hint">
             This usually takes 30-60 seconds depending on your material
           </div>
@@ -239,6 +260,42 @@ const AnalysisProgressScreen: React.FC<AnalysisProgressScreenProps> = ({
           margin: 0;
         }
 
+        .upload-progress {
+          margin-top: 8px;
+        }
+
+        .upload-bar {
+          height: 6px;
+          background: #e5e7eb;
+          border-radius: 3px;
+          overflow: hidden;
+        }
+
+        .upload-bar-fill {
+          height: 100%;
+          background: #3b82f6;
+          transition: width 0.3s ease;
+        }
+
+        .upload-meta {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          gap: 8px;
+          margin-top: 4px;
+          font-size: 0.75rem;
+          color: #6b7280;
+        }
+
+        .upload-control {
+          padding: 2px 8px;
+          background: white;
+          border: 1px solid #d1d5db;
+          border-radius: 4px;
+          cursor: pointer;
+          font-size: 0.75rem;
+        }
+
         .step-status {
           width: 20px;
           height: 20px;
@@ -321,6 +378,18 @@ const AnalysisProgressScreen: React.FC<AnalysisProgressScreenProps> = ({
           background: #dc2626;
         }
 
+        .hide-button {
+          padding: 8px 16px;
+          background: white;
+          color: #374151;
+          border: 1px solid #d1d5db;
+          border-radius: 6px;
+          cursor: pointer;
+          font-size: 0.9rem;
+          font-weight: 500;
+          margin: 0 0 16px 8px;
+        }
+
         .progress-hint {
           font-size: 0.8rem;
           color: #6b7280;
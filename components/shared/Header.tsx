@@ -1,10 +1,14 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useProgress } from '../../context/ProgressContext';
+import { useJourneyCatalog } from '../../context/JourneyCatalogContext';
+import { getResourceLabels } from '../../services/journeyDefinitionService';
+import { computeDerivedStats, getResourceLimits } from '../../services/resourceRules';
 import { soundService } from '../../services/soundService';
 import { Resources } from '../../types';
 
 interface HeaderProps {
     onEndJourney: () => void;
+    onOpenStoryMap?: () => void;
 }
 
 // Helper hook to get the previous value of a prop or state
@@ -22,11 +26,11 @@ const HeartIcon: React.FC<{ filled: boolean }> = ({ filled }) => (
     <span className={`text-2xl ${filled ? 'text-red-500' : 'text-gray-300'}`}>❤️</span>
 );
 
-const HeartsDisplay: React.FC<{ health: number }> = ({ health }) => {
+const HeartsDisplay: React.FC<{ health: number; maxHealth: number; label: string }> = ({ health, maxHealth, label }) => {
     const totalHearts = 5;
-    const filledHearts = Math.ceil((health / 100) * totalHearts);
+    const filledHearts = Math.ceil((health / maxHealth) * totalHearts);
     return (
-        <div className="flex items-center" title={`Health: ${health}%`}>
+        <div className="flex items-center" title={`${label}: ${health}/${maxHealth}`}>
             {Array.from({ length: totalHearts }).map((_, i) => (
                 <HeartIcon key={i} filled={i < filledHearts} />
             ))}
@@ -53,9 +57,14 @@ const XPBar: React.FC = () => {
     );
 }
 
-const Header: React.FC<HeaderProps> = ({ onEndJourney }) => {
+const Header: React.FC<HeaderProps> = ({ onEndJourney, onOpenStoryMap }) => {
   const { gameState } = useProgress();
+  const { getJourney } = useJourneyCatalog();
   const { resources } = gameState;
+  const journey = getJourney(gameState.currentJourneyId);
+  const labels = getResourceLabels(journey);
+  const limits = getResourceLimits(journey);
+  const derivedStats = computeDerivedStats(resources, journey);
 
   const [changedResources, setChangedResources] = useState<Partial<Record<keyof Resources, boolean>>>({});
   const prevResources = usePrevious(resources);
@@ -97,20 +106,28 @@ const Header: React.FC<HeaderProps> = ({ onEndJourney }) => {
     <header className="bg-white/80 backdrop-blur-sm p-3 rounded-xl shadow-md flex justify-between items-center max-w-3xl mx-auto border border-brand-accent">
       <div className="flex items-center gap-3 sm:gap-4">
         <div className={changedResources.health ? 'animate-pulse-resource' : ''}>
-          <HeartsDisplay health={resources.health} />
+          <HeartsDisplay health={resources.health} maxHealth={limits.health.max} label={labels.health.name} />
         </div>
         <div className={changedResources.food ? 'animate-pulse-resource' : ''}>
-          <ResourceItem icon={'🍞'} value={resources.food} label="Food" />
+          <ResourceItem icon={labels.food.icon} value={resources.food} label={labels.food.name} />
         </div>
         <div className={changedResources.money ? 'animate-pulse-resource' : ''}>
-          <ResourceItem icon={'💰'} value={resources.money} label="Money" />
+          <ResourceItem icon={labels.money.icon} value={resources.money} label={labels.money.name} />
         </div>
         <div className={changedResources.influence ? 'animate-pulse-resource' : ''}>
-          <ResourceItem icon={'👥'} value={resources.influence} label="Influence" />
+          <ResourceItem icon={labels.influence.icon} value={resources.influence} label={labels.influence.name} />
         </div>
+        {(journey?.resourceRules?.derivedStats || []).map(stat => (
+          <ResourceItem key={stat.id} icon={stat.icon} value={derivedStats[stat.id]} label={stat.name} />
+        ))}
       </div>
       <div className="flex items-center gap-4">
         <XPBar />
+        {onOpenStoryMap && (
+            <button onClick={() => { soundService.playUIClick(); onOpenStoryMap(); }} title="Story Map" aria-label="Story Map" className="bg-brand-bg text-brand-primary px-3 py-2 rounded-lg font-bold border border-brand-accent hover:bg-brand-accent transition text-sm">
+                🗺️
+            </button>
+        )}
         <button onClick={handleEnd} className="bg-brand-secondary text-white px-3 py-2 rounded-lg font-bold hover:bg-opacity-80 transition text-sm">
             End Journey
         </button>
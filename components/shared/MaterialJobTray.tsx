@@ -0,0 +1,131 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useAuth } from '../../context/AuthContext';
+import {
+    cancelMaterialJob,
+    dismissMaterialJob,
+    resumeMaterialJobs,
+    retryMaterialJob,
+    subscribeToMaterialJobs,
+    MaterialJob,
+} from '../../services/materialJobService';
+
+const STATUS_ICONS: Record<MaterialJob['status'], string> = {
+    queued: '🕒',
+    running: '⏳',
+    failed: '❌',
+    cancelled: '⏹️',
+    done: '✅',
+};
+
+const jobMessage = (job: MaterialJob): string => {
+    switch (job.status) {
+        case 'queued': return 'Waiting for the job before it';
+        case 'running': return job.detail || 'Working...';
+        case 'failed': return job.error || 'Something went wrong';
+        case 'cancelled': return 'Cancelled';
+        case 'done': return 'Your journey is ready';
+    }
+};
+
+/**
+ * The student's upload jobs, from whichever tab they are on: what is queued
+ * and running, and cancel, retry and dismiss for each job. Also picks up the
+ * jobs a previous session left unfinished.
+ */
+const MaterialJobTray: React.FC = () => {
+    const { user } = useAuth();
+    const [jobs, setJobs] = useState<MaterialJob[]>([]);
+    const [isOpen, setIsOpen] = useState(true);
+    // The job a retry needs its files chosen again for
+    const [retryJob, setRetryJob] = useState<MaterialJob | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        if (!user) return;
+        resumeMaterialJobs(user.uid).catch(error => console.error('[Jobs] Could not resume jobs:', error));
+        return subscribeToMaterialJobs(user.uid, setJobs);
+    }, [user]);
+
+    if (!user || jobs.length === 0) {
+        return null;
+    }
+
+    const activeCount = jobs.filter(job => job.status === 'queued' || job.status === 'running').length;
+
+    const retry = (job: MaterialJob) => {
+        // The files themselves are not stored until their upload finishes
+        if (job.kind !== 'text' && job.stage === 'upload') {
+            setRetryJob(job);
+            // After the input has switched to a scan's multiple pages
+            setTimeout(() => fileInputRef.current?.click());
+            return;
+        }
+        retryMaterialJob(user.uid, job.id).catch(error => console.error('[Jobs] Could not retry the job:', error));
+    };
+
+    const handleRetryFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+        // A scan's pages in the order they were picked
+        const selected = e.target.files ? Array.from<File>(e.target.files) : [];
+        e.target.value = '';
+        if (selected.length === 0 || !retryJob) return;
+        retryMaterialJob(user.uid, retryJob.id, selected).catch(error => console.error('[Jobs] Could not retry the job:', error));
+        setRetryJob(null);
+    };
+
+    return (
+        <div className="fixed bottom-4 right-4 z-40 w-80 max-w-[calc(100vw-2rem)] rounded-xl shadow-lg bg-white border-2 border-brand-accent text-brand-text text-sm">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                aria-expanded={isOpen}
+                className="w-full flex items-center justify-between px-4 py-2 font-semibold text-brand-purple"
+            >
+                <span>📚 {activeCount > 0 ? `Processing ${activeCount} upload${activeCount > 1 ? 's' : ''}` : 'Your uploads'}</span>
+                <span>{isOpen ? '▾' : '▴'}</span>
+            </button>
+            {isOpen && (
+                <ul className="max-h-72 overflow-y-auto border-t border-brand-accent divide-y">
+                    {jobs.map(job => (
+                        <li key={job.id} className="px-4 py-2">
+                            <div className="flex items-center gap-2">
+                                <span className={job.status === 'running' ? 'animate-pulse' : ''}>{STATUS_ICONS[job.status]}</span>
+                                <span className="flex-1 truncate font-semibold">{job.fileName}</span>
+                                {(job.status === 'queued' || job.status === 'running') && (
+                                    <button onClick={() => cancelMaterialJob(user.uid, job.id)} className="text-xs text-red-600 hover:underline">
+                                        Cancel
+                                    </button>
+                                )}
+                                {(job.status === 'failed' || job.status === 'cancelled') && (
+                                    <button onClick={() => retry(job)} className="text-xs text-brand-purple hover:underline">
+                                        Retry
+                                    </button>
+                                )}
+                                {job.status !== 'queued' && job.status !== 'running' && (
+                                    <button
+                                        onClick={() => dismissMaterialJob(user.uid, job.id)}
+                                        aria-label="Dismiss"
+                                        className="text-xs text-gray-400 hover:text-gray-600"
+                                    >
+                                        ✕
+                                    </button>
+                                )}
+                            </div>
+                            <p className={`mt-0.5 text-xs ${job.status === 'failed' ? 'text-red-600' : 'text-gray-500'}`}>
+                                {jobMessage(job)}
+                            </p>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            <input
+                ref={fileInputRef}
+                type="file"
+                accept={retryJob?.kind === 'scan' ? 'image/*' : '.pdf,.docx,.txt,.jpg,.jpeg,.png,.gif,.mp3,.wav'}
+                multiple={retryJob?.kind === 'scan'}
+                onChange={handleRetryFiles}
+                className="hidden"
+            />
+        </div>
+    );
+};
+
+export default MaterialJobTray;
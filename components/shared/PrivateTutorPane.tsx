@@ -2,7 +2,10 @@
 
 import React, { useState, useEffect } from 'react';
 import { useAppNavigation } from '../../context/AppNavigationContext';
+import { useAuth } from '../../context/AuthContext';
 import { getTutorResponse, generateHint, generateCreativeChallenge, explainWithStory } from '../../services/privateTutorService';
+import { SourceCitation } from '../../types';
+import SourceCitations from './SourceCitations';
 
 type TutorMode = 'explain' | 'practice' | 'fix-answer' | 'ask-why';
 
@@ -12,6 +15,7 @@ interface TutorMessage {
   content: string;
   timestamp: Date;
   mode?: TutorMode;
+  citations?: SourceCitation[]; // Passages of the student's materials the answer used
 }
 
 interface PrivateTutorPaneProps {
@@ -34,6 +38,9 @@ const PrivateTutorPane: React.FC<PrivateTutorPaneProps> = ({
   const [inputText, setInputText] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [personality, setPersonality] = useState('spark');
+  const { user } = useAuth();
+  // Retrieval searches this user's materials
+  const userId = user?.uid || 'anonymous';
 
   // Initialize with a welcome message
   useEffect(() => {
@@ -65,45 +72,47 @@ const PrivateTutorPane: React.FC<PrivateTutorPaneProps> = ({
 
     try {
       let tutorResponse = '';
+      let citations: SourceCitation[] = [];
+      const askTutor = async (question: string, context: Parameters<typeof getTutorResponse>[1]) => {
+        const answer = await getTutorResponse(question, context, userId, personality);
+        citations = answer.citations;
+        return answer.content;
+      };
 
       // Different handling based on mode
       switch (activeMode) {
         case 'explain':
           if (inputText.toLowerCase().includes('story') || inputText.toLowerCase().includes('example')) {
-            tutorResponse = await explainWithStory(inputText, currentTopic || 'general topic', 'user123');
+            tutorResponse = await explainWithStory(inputText, currentTopic || 'general topic', userId);
           } else {
-            tutorResponse = await getTutorResponse(inputText, {
+            tutorResponse = await askTutor(inputText, {
               materialId,
               currentTopic,
               difficulty: 'intermediate'
-            }, 'user123', personality);
+            });
           }
           break;
 
         case 'practice':
-          tutorResponse = await generateCreativeChallenge(currentTopic || 'general topic', 'intermediate', 'user123');
+          tutorResponse = await generateCreativeChallenge(currentTopic || 'general topic', 'intermediate', userId);
           break;
 
         case 'fix-answer':
-          tutorResponse = await getTutorResponse(
+          tutorResponse = await askTutor(
             `Please help me fix this answer: "${inputText}"`,
-            { materialId, currentTopic },
-            'user123',
-            personality
+            { materialId, currentTopic }
           );
           break;
 
         case 'ask-why':
-          tutorResponse = await getTutorResponse(
+          tutorResponse = await askTutor(
             `Why did this happen: ${inputText}`,
-            { materialId, currentTopic },
-            'user123',
-            personality
+            { materialId, currentTopic }
           );
           break;
 
         default:
-          tutorResponse = await getTutorResponse(inputText, { materialId, currentTopic }, 'user123', personality);
+          tutorResponse = await askTutor(inputText, { materialId, currentTopic });
       }
 
       const tutorMessage: TutorMessage = {
@@ -112,6 +121,7 @@ const PrivateTutorPane: React.FC<PrivateTutorPaneProps> = ({
         content: tutorResponse,
         timestamp: new Date(),
         mode: activeMode,
+        ...(citations.length ? { citations } : {}),
       };
 
       setMessages(prev => [...prev, tutorMessage]);
@@ -231,6 +241,17 @@ const PrivateTutorPane: React.FC<PrivateTutorPaneProps> = ({
             <div key={message.id} className={`message ${message.role}`}>
               <div className="message-content">
                 {message.content}
+                {message.citations && (
+                  <div className="message-sources">
+                    {message.citations.map((citation, index) => (
+                      <div key={index} className="message-source">
+                        [{index + 1}] {citation.materialTitle}
+                        {citation.pageNumber !== undefined && `, page ${citation.pageNumber}`}
+                      </div>
+                    ))}
+                    <SourceCitations citations={message.citations} className="mt-1" />
+                  </div>
+                )}
               </div>
               <div className="message-time">
                 {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
@@ -478,6 +499,17 @@ const PrivateTutorPane: React.FC<PrivateTutorPaneProps> = ({
           border: 1px dashed #d1d5db;
         }
 
+        .message-sources {
+          margin-top: 8px;
+          padding-top: 8px;
+          border-top: 1px solid #e5e7eb;
+        }
+
+        .message-source {
+          font-size: 0.75rem;
+          color: #6b7280;
+        }
+
         .message-time {
           font-size: 0.7rem;
           color: #9ca3af;
@@ -0,0 +1,105 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SourceCitation } from '../../types';
+import { useAuth } from '../../context/AuthContext';
+import { getStudyMaterial } from '../../services/contentMemoryService';
+import { getMaterialText, hasMaterialText } from '../../services/materialTextService';
+
+// Characters of the material shown around a cited passage
+const CONTEXT_CHARS = 600;
+
+const citationLabel = (citation: SourceCitation): string =>
+    [
+        citation.materialTitle || '',
+        citation.pageNumber !== undefined ? `Page ${citation.pageNumber}` : '',
+        citation.section || '',
+    ].filter(Boolean).join(' · ') || 'Your notes';
+
+const Passage: React.FC<{ citation: SourceCitation; text?: string | null }> = ({ citation, text }) => {
+    const markRef = useRef<HTMLElement>(null);
+
+    useEffect(() => {
+        markRef.current?.scrollIntoView({ block: 'center' });
+    }, [text]);
+
+    // Without the material, or if it changed since the citation was made, show the stored quote
+    const inRange = !!text && citation.endOffset <= text.length && citation.startOffset < citation.endOffset;
+    if (!inRange) {
+        return <p className="p-2 rounded bg-yellow-50 italic">“{citation.quote}”</p>;
+    }
+
+    const start = Math.max(0, citation.startOffset - CONTEXT_CHARS);
+    const end = Math.min(text.length, citation.endOffset + CONTEXT_CHARS);
+    return (
+        <div className="max-h-64 overflow-y-auto p-2 rounded bg-gray-50 whitespace-pre-line leading-relaxed">
+            {start > 0 && '…'}
+            {text.slice(start, citation.startOffset)}
+            <mark ref={markRef} className="bg-yellow-200 rounded px-0.5">{text.slice(citation.startOffset, citation.endOffset)}</mark>
+            {text.slice(citation.endOffset, end)}
+            {end < text.length && '…'}
+        </div>
+    );
+};
+
+/**
+ * "Show me in my notes": the passages of the student's materials that a step,
+ * question or tutor answer was built from, highlighted in the surrounding text
+ */
+const SourceCitations: React.FC<{ citations?: SourceCitation[]; className?: string }> = ({ citations, className = '' }) => {
+    const { user } = useAuth();
+    const [isOpen, setIsOpen] = useState(false);
+    // Text by material id; null when the material could not be loaded
+    const [materialTexts, setMaterialTexts] = useState<Record<string, string | null>>({});
+    const [loading, setLoading] = useState(false);
+    const materialIds = (citations || []).map(citation => citation.materialId).filter((id, index, all) => all.indexOf(id) === index);
+    const missingIds = materialIds.filter(id => !(id in materialTexts));
+
+    useEffect(() => {
+        if (!isOpen || !user || missingIds.length === 0) return;
+        let cancelled = false;
+        setLoading(true);
+        Promise.all(missingIds.map(async id => {
+            try {
+                const material = await getStudyMaterial(user.uid, id);
+                return [id, material && hasMaterialText(material) ? (await getMaterialText(material)).text : null] as const;
+            } catch (error) {
+                console.warn('[Citations] Could not load the study material:', error);
+                return [id, null] as const;
+            }
+        })).then(loaded => {
+            if (cancelled) return;
+            setMaterialTexts(previous => ({ ...previous, ...Object.fromEntries(loaded) }));
+            setLoading(false);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [isOpen, user, missingIds.join('|')]);
+
+    if (!citations?.length) return null;
+
+    return (
+        <div className={`text-sm font-sans ${className}`}>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                aria-expanded={isOpen}
+                className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full border text-xs font-semibold bg-amber-50 text-amber-800 border-amber-300"
+            >
+                <span>📖</span>
+                <span>{isOpen ? 'Hide my notes' : 'Show me in my notes'}</span>
+            </button>
+            {isOpen && (
+                <div className="mt-2 p-3 rounded-lg bg-white border border-brand-accent text-brand-text space-y-3">
+                    {loading && <p className="italic text-gray-500">Opening your notes...</p>}
+                    {!loading && citations.map((citation, index) => (
+                        <div key={index}>
+                            <p className="text-xs font-bold text-gray-500 mb-1">{citationLabel(citation)}</p>
+                            <Passage citation={citation} text={materialTexts[citation.materialId]} />
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SourceCitations;
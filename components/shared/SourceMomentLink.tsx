@@ -0,0 +1,39 @@
+import React, { useState } from 'react';
+import { SourceMoment } from '../../types';
+import { formatTimestamp } from '../../services/transcriptionService';
+
+/**
+ * Link from content built out of a recorded lecture back to the moment it
+ * came from. Opens a player that plays just that part of the recording.
+ */
+const SourceMomentLink: React.FC<{ moment?: SourceMoment; className?: string }> = ({ moment, className = '' }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    if (!moment?.mediaUrl) return null;
+
+    const range = `${formatTimestamp(moment.startSeconds)}–${formatTimestamp(moment.endSeconds)}`;
+
+    return (
+        <div className={`text-xs font-sans ${className}`}>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                aria-expanded={isOpen}
+                className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full border font-semibold bg-purple-50 text-purple-800 border-purple-300"
+            >
+                <span>🎧</span>
+                <span>From the recording at {range}</span>
+            </button>
+            {isOpen && (
+                // A media fragment plays only the matched part of the recording
+                <audio
+                    controls
+                    autoPlay
+                    preload="none"
+                    src={`${moment.mediaUrl}#t=${Math.floor(moment.startSeconds)},${Math.ceil(moment.endSeconds)}`}
+                    className="mt-2 w-full"
+                />
+            )}
+        </div>
+    );
+};
+
+export default SourceMomentLink;
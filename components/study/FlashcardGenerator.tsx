@@ -0,0 +1,349 @@
+// components/study/FlashcardGenerator.tsx
+
+import React, { useState, useEffect, useRef } from 'react';
+import { useAuth } from '../../context/AuthContext';
+import { FlashcardKind, FlashcardQuestion, StudyMaterial } from '../../types';
+import {
+  addFlashcardsToDeck,
+  emptyFlashcard,
+  generateFlashcards,
+  illustrateFlashcard,
+} from '../../services/flashcardService';
+import { loadReviewDeck } from '../../services/spacedRepetitionService';
+import { materialTitle } from '../../services/materialIndexService';
+
+interface FlashcardGeneratorProps {
+  material: StudyMaterial;
+  onClose: () => void;
+}
+
+// A card being edited, with a key that survives reordering and removal
+interface DraftCard {
+  key: number;
+  card: FlashcardQuestion;
+}
+
+const KIND_OPTIONS: { kind: FlashcardKind; label: string; front: string; back: string }[] = [
+  { kind: 'term', label: 'Term', front: 'Term', back: 'Definition' },
+  { kind: 'date', label: 'Date', front: 'Date', back: 'Event' },
+  { kind: 'person', label: 'Person', front: 'Person', back: 'Who they were' },
+];
+
+/**
+ * Flashcards generated from one material, for the student to edit, add to
+ * or trim before they go into the spaced-practice deck
+ */
+const FlashcardGenerator: React.FC<FlashcardGeneratorProps> = ({ material, onClose }) => {
+  const { user } = useAuth();
+  const [drafts, setDrafts] = useState<DraftCard[]>([]);
+  const [status, setStatus] = useState<string | null>('Making flashcards...');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [added, setAdded] = useState<number | null>(null);
+  const [merged, setMerged] = useState<FlashcardQuestion[]>([]);
+  const nextKey = useRef(0);
+
+  useEffect(() => {
+    if (!user) return;
+    const controller = new AbortController();
+
+    const run = async () => {
+      try {
+        const cards = await generateFlashcards(material, user.uid, controller.signal);
+        const generated = cards.map(card => ({ key: nextKey.current++, card }));
+        setDrafts(generated);
+
+        // Pictures one at a time, shown as they arrive
+        const toIllustrate = generated.filter(draft => draft.card.imagePrompt && !draft.card.imageUrl);
+        for (let index = 0; index < toIllustrate.length; index++) {
+          if (controller.signal.aborted) return;
+          const draft = toIllustrate[index];
+          setStatus(`Drawing pictures (${index + 1} of ${toIllustrate.length})...`);
+          try {
+            const illustrated = await illustrateFlashcard(draft.card, user.uid);
+            setDrafts(current => current.map(other => (
+              // Unless the student already changed the card
+              other.key === draft.key && other.card === draft.card ? { ...other, card: illustrated } : other
+            )));
+          } catch (err) {
+            console.warn('[Flashcards] Could not draw a picture:', err);
+          }
+        }
+      } catch (err: any) {
+        if (controller.signal.aborted) return;
+        console.error('[Flashcards] Generation failed:', err);
+        setError(err.message || 'Could not make flashcards from this material.');
+      } finally {
+        if (!controller.signal.aborted) setStatus(null);
+      }
+    };
+    run();
+
+    return () => controller.abort();
+  }, [user, material.uploadId]);
+
+  const updateCard = (key: number, changes: Partial<FlashcardQuestion>) => {
+    setDrafts(current => current.map(draft => (draft.key === key ? { ...draft, card: { ...draft.card, ...changes } } : draft)));
+  };
+
+  const removeCard = (key: number) => {
+    setDrafts(current => current.filter(draft => draft.key !== key));
+  };
+
+  const addCard = () => {
+    setDrafts(current => [...current, { key: nextKey.current++, card: emptyFlashcard() }]);
+  };
+
+  const handleAddToDeck = async () => {
+    if (!user) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const cards = drafts.map(draft => draft.card);
+      const deck = await loadReviewDeck(user.uid);
+      const result = await addFlashcardsToDeck(user.uid, deck, material, cards);
+      setMerged(result.merged);
+      setAdded(result.added);
+    } catch (err: any) {
+      console.error('[Flashcards] Could not add the cards:', err);
+      setError(err.message || 'Could not add the cards. Try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!user) return null;
+
+  const busy = saving || !!status;
+
+  return (
+    <div className="flashcard-generator">
+      <div className="generator-header">
+        <h3>🃏 Flashcards: {materialTitle(material)}</h3>
+        <button className="close-button" onClick={onClose} title="Close">×</button>
+      </div>
+
+      {error && <div className="generator-error">{error}</div>}
+      {status && <div className="generator-status">{status}</div>}
+
+      {added !== null ? (
+        <div className="generator-done">
+          <p>Added {added} card{added === 1 ? '' : 's'} to your spaced practice. They are ready to review now.</p>
+          {merged.length > 0 && (
+            <>
+              <p>
+                {merged.length === 1 ? 'This card was' : 'These cards were'} already in your deck or repeated
+                another card, so {merged.length === 1 ? 'it was' : 'they were'} merged into the existing card:
+              </p>
+              <ul className="merged-cards">
+                {merged.map((card, index) => <li key={index}>{card.questionText} / {card.answer}</li>)}
+              </ul>
+            </>
+          )}
+          <button onClick={onClose}>Done</button>
+        </div>
+      ) : (
+        <>
+          <div className="card-list">
+            {drafts.map(({ key, card }) => {
+              const labels = KIND_OPTIONS.find(option => option.kind === card.kind) || KIND_OPTIONS[0];
+              return (
+                <div key={key} className="draft-card">
+                  <div className="draft-fields">
+                    <select
+                      value={card.kind}
+                      onChange={(e) => updateCard(key, { kind: e.target.value as FlashcardKind })}
+                      disabled={saving}
+                    >
+                      {KIND_OPTIONS.map(option => <option key={option.kind} value={option.kind}>{option.label}</option>)}
+                    </select>
+                    <input
+                      value={card.questionText}
+                      onChange={(e) => updateCard(key, { questionText: e.target.value })}
+                      placeholder={labels.front}
+                      disabled={saving}
+                    />
+                    <textarea
+                      value={card.answer}
+                      onChange={(e) => updateCard(key, { answer: e.target.value })}
+                      placeholder={labels.back}
+                      rows={2}
+                      disabled={saving}
+                    />
+                  </div>
+                  {card.imageUrl && (
+                    <div className="draft-image">
+                      <img src={card.imageUrl} alt={card.imagePrompt || card.questionText} />
+                      <button
+                        onClick={() => updateCard(key, { imageUrl: undefined, imagePrompt: undefined })}
+                        disabled={saving}
+                      >
+                        Remove picture
+                      </button>
+                    </div>
+                  )}
+                  <button className="remove-card" onClick={() => removeCard(key)} title="Remove card" disabled={saving}>×</button>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="generator-actions">
+            <button onClick={addCard} disabled={saving}>+ Add a card</button>
+            <button className="primary" onClick={handleAddToDeck} disabled={busy || drafts.length === 0}>
+              {saving ? 'Adding...' : `Add ${drafts.length} card${drafts.length === 1 ? '' : 's'} to spaced practice`}
+            </button>
+          </div>
+        </>
+      )}
+
+      <style jsx>{`
+        .flashcard-generator {
+          margin-top: 16px;
+          padding: 16px;
+          border: 1px solid #e5e7eb;
+          border-radius: 12px;
+          background: #f9fafb;
+        }
+
+        .generator-header {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+        }
+
+        .generator-header h3 {
+          margin: 0;
+          font-size: 1.1rem;
+          color: #1f2937;
+        }
+
+        .close-button {
+          background: none;
+          border: none;
+          font-size: 1.4rem;
+          cursor: pointer;
+          color: #6b7280;
+        }
+
+        .generator-error {
+          margin-top: 12px;
+          padding: 8px 12px;
+          background: #fef2f2;
+          border: 1px solid #fecaca;
+          border-radius: 6px;
+          color: #dc2626;
+          font-size: 0.9rem;
+        }
+
+        .generator-status {
+          margin-top: 12px;
+          color: #6b7280;
+          font-size: 0.9rem;
+        }
+
+        .generator-done {
+          margin-top: 12px;
+          color: #166534;
+        }
+
+        .merged-cards {
+          margin: 4px 0 0 20px;
+          color: #374151;
+          font-size: 0.9rem;
+        }
+
+        .card-list {
+          display: flex;
+          flex-direction: column;
+          gap: 12px;
+          margin-top: 12px;
+        }
+
+        .draft-card {
+          display: flex;
+          gap: 12px;
+          align-items: flex-start;
+          padding: 12px;
+          background: white;
+          border: 1px solid #e5e7eb;
+          border-radius: 8px;
+        }
+
+        .draft-fields {
+          flex: 1;
+          display: flex;
+          flex-direction: column;
+          gap: 6px;
+        }
+
+        .draft-fields select {
+          align-self: flex-start;
+        }
+
+        .draft-fields input,
+        .draft-fields textarea,
+        .draft-fields select {
+          padding: 6px 8px;
+          border: 1px solid #d1d5db;
+          border-radius: 6px;
+          font: inherit;
+        }
+
+        .draft-image {
+          display: flex;
+          flex-direction: column;
+          align-items: center;
+          gap: 4px;
+          font-size: 0.8rem;
+        }
+
+        .draft-image img {
+          width: 96px;
+          height: 96px;
+          object-fit: cover;
+          border-radius: 6px;
+        }
+
+        .remove-card {
+          background: #6b7280;
+          color: white;
+          border: none;
+          width: 24px;
+          height: 24px;
+          border-radius: 50%;
+          cursor: pointer;
+          flex-shrink: 0;
+        }
+
+        .generator-actions {
+          display: flex;
+          justify-content: space-between;
+          margin-top: 12px;
+        }
+
+        .generator-actions button,
+        .generator-done button {
+          padding: 8px 14px;
+          border: 1px solid #d1d5db;
+          border-radius: 8px;
+          background: white;
+          cursor: pointer;
+        }
+
+        .generator-actions .primary {
+          background: #2563eb;
+          border-color: #2563eb;
+          color: white;
+        }
+
+        .generator-actions button:disabled {
+          opacity: 0.6;
+          cursor: default;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default FlashcardGenerator;
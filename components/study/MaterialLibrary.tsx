@@ -0,0 +1,621 @@
+// components/study/MaterialLibrary.tsx
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../../context/AuthContext';
+import { MaterialFolder, StudyMaterial } from '../../types';
+import {
+  getMaterialFolders,
+  createMaterialFolder,
+  renameMaterialFolder,
+  deleteMaterialFolder,
+  getMaterialsPage,
+  searchLibrary,
+  setMaterialTags,
+  moveMaterials,
+  deleteMaterials,
+  rebuildJourneys,
+  MaterialCursor,
+  MaterialFilter,
+} from '../../services/materialLibraryService';
+import { materialTitle } from '../../services/materialIndexService';
+import FlashcardGenerator from './FlashcardGenerator';
+import SpacedPracticeQueue from '../journey/SpacedPracticeQueue';
+
+// The folder list's own entries next to the student's folders
+const ALL_FOLDERS = 'all';
+const UNFILED = 'unfiled';
+
+const unique = (values: (string | undefined)[]): string[] =>
+  values.filter((value, index, all): value is string => !!value && all.indexOf(value) === index).sort();
+
+const MaterialLibrary: React.FC = () => {
+  const { user } = useAuth();
+  const [folders, setFolders] = useState<MaterialFolder[]>([]);
+  const [folderKey, setFolderKey] = useState<string>(ALL_FOLDERS);
+  const [filter, setFilter] = useState<Omit<MaterialFilter, 'folderId'>>({});
+  const [searchText, setSearchText] = useState('');
+  const [activeSearch, setActiveSearch] = useState('');
+  const [materials, setMaterials] = useState<StudyMaterial[]>([]);
+  const [snippets, setSnippets] = useState<Record<string, string>>({});
+  const [cursor, setCursor] = useState<MaterialCursor | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [newFolderName, setNewFolderName] = useState('');
+  const [tagDrafts, setTagDrafts] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [working, setWorking] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // The material whose flashcards are being made
+  const [flashcardMaterialId, setFlashcardMaterialId] = useState<string | null>(null);
+
+  const folderFilter: MaterialFilter = {
+    ...filter,
+    ...(folderKey === ALL_FOLDERS ? {} : { folderId: folderKey === UNFILED ? null : folderKey }),
+  };
+
+  const loadMaterials = useCallback(async (more: boolean) => {
+    if (!user) return;
+    setLoading(true);
+    setError(null);
+    try {
+      if (activeSearch) {
+        const results = await searchLibrary(user.uid, activeSearch, folderFilter);
+        setMaterials(results.map(result => result.material));
+        setSnippets(Object.fromEntries(results.map(result => [result.material.uploadId, result.snippet])));
+        setHasMore(false);
+      } else {
+        const page = await getMaterialsPage(user.uid, folderFilter, more ? cursor : null);
+        setMaterials(previous => (more ? [...previous, ...page.materials] : page.materials));
+        setSnippets({});
+        setCursor(page.cursor);
+        setHasMore(page.hasMore);
+      }
+    } catch (err: any) {
+      console.error('Library error:', err);
+      setError(err.message || 'Failed to load your materials');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, activeSearch, JSON.stringify(folderFilter), cursor]);
+
+  useEffect(() => {
+    if (!user) return;
+    getMaterialFolders(user.uid).then(setFolders).catch(err => console.error('Folders error:', err));
+  }, [user]);
+
+  // A new folder, filter or search starts over from the first page
+  useEffect(() => {
+    setSelectedIds([]);
+    loadMaterials(false);
+  }, [user, activeSearch, JSON.stringify(folderFilter)]);
+
+  const updateFilter = (changes: Partial<MaterialFilter>) => {
+    setFilter(previous => {
+      const next = { ...previous, ...changes };
+      (Object.keys(next) as (keyof MaterialFilter)[]).forEach(key => {
+        if (!next[key]) delete next[key];
+      });
+      return next;
+    });
+  };
+
+  const runAction = async (label: string, action: () => Promise<void>) => {
+    setWorking(label);
+    setError(null);
+    try {
+      await action();
+    } catch (err: any) {
+      console.error('Library action error:', err);
+      setError(err.message || 'Something went wrong');
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const handleCreateFolder = () => runAction('Creating folder...', async () => {
+    const folder = await createMaterialFolder(user!.uid, newFolderName);
+    setFolders(previous => [...previous, folder].sort((a, b) => a.name.localeCompare(b.name)));
+    setNewFolderName('');
+  });
+
+  const handleRenameFolder = (folder: MaterialFolder) => {
+    const name = window.prompt('Rename folder', folder.name);
+    if (!name || name.trim() === folder.name) return;
+    runAction('Renaming folder...', async () => {
+      await renameMaterialFolder(user!.uid, folder.id, name);
+      setFolders(previous => previous.map(other => (other.id === folder.id ? { ...other, name: name.trim() } : other)));
+    });
+  };
+
+  const handleDeleteFolder = (folder: MaterialFolder) => {
+    if (!window.confirm(`Delete the folder "${folder.name}"? Its materials are kept.`)) return;
+    runAction('Deleting folder...', async () => {
+      await deleteMaterialFolder(user!.uid, folder.id);
+      setFolders(previous => previous.filter(other => other.id !== folder.id));
+      if (folderKey === folder.id) setFolderKey(ALL_FOLDERS);
+      else await loadMaterials(false);
+    });
+  };
+
+  const handleAddTag = (material: StudyMaterial) => {
+    const tag = (tagDrafts[material.uploadId] || '').trim();
+    if (!tag) return;
+    runAction('Saving tag...', async () => {
+      const userTags = await setMaterialTags(user!.uid, material.uploadId, [...(material.userTags || []), tag]);
+      setMaterials(previous => previous.map(other => (other.uploadId === material.uploadId ? { ...other, userTags } : other)));
+      setTagDrafts(previous => ({ ...previous, [material.uploadId]: '' }));
+    });
+  };
+
+  const handleRemoveTag = (material: StudyMaterial, tag: string) => runAction('Saving tag...', async () => {
+    const userTags = await setMaterialTags(user!.uid, material.uploadId, (material.userTags || []).filter(other => other !== tag));
+    setMaterials(previous => previous.map(other => (other.uploadId === material.uploadId ? { ...other, userTags } : other)));
+  });
+
+  const selectedMaterials = materials.filter(material => selectedIds.includes(material.uploadId));
+
+  const handleMove = (target: string) => {
+    if (!target) return;
+    const folderId = target === UNFILED ? null : target;
+    runAction('Moving materials...', async () => {
+      await moveMaterials(user!.uid, selectedIds, folderId);
+      setSelectedIds([]);
+      await loadMaterials(false);
+    });
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete ${selectedIds.length} material(s)? This cannot be undone.`)) return;
+    runAction('Deleting materials...', async () => {
+      await deleteMaterials(user!.uid, selectedMaterials);
+      setMaterials(previous => previous.filter(material => !selectedIds.includes(material.uploadId)));
+      setSelectedIds([]);
+    });
+  };
+
+  // The journeys are built in the background and show up in the jobs tray
+  const handleRebuild = () => runAction('Queueing journey rebuilds...', async () => {
+    const result = await rebuildJourneys(user!.uid, selectedMaterials);
+    if (result.failedMaterialIds.length) {
+      setError(`${result.failedMaterialIds.length} journey(s) could not be rebuilt. Try uploading those materials again.`);
+    }
+    setSelectedIds([]);
+  });
+
+  const toggleSelected = (materialId: string) => {
+    setSelectedIds(selected =>
+      selected.includes(materialId) ? selected.filter(id => id !== materialId) : [...selected, materialId]
+    );
+  };
+
+  if (!user) return null;
+
+  const busy = loading || !!working;
+  const subjects = unique([...materials.map(material => material.subject), filter.subject]);
+  const topics = unique([...materials.flatMap(material => material.tags || []), filter.topic]);
+  const userTags = unique([...materials.flatMap(material => material.userTags || []), filter.tag]);
+  const dateValue = (date?: Date) => (date ? date.toISOString().slice(0, 10) : '');
+
+  return (
+    <div className="material-library">
+      <h2>🗂️ My Materials</h2>
+
+      <div className="library-layout">
+        <aside className="folder-list">
+          {[{ key: ALL_FOLDERS, name: 'All materials' }, { key: UNFILED, name: 'Not in a folder' }].map(entry => (
+            <button
+              key={entry.key}
+              className={`folder-button ${folderKey === entry.key ? 'active' : ''}`}
+              onClick={() => setFolderKey(entry.key)}
+            >
+              {entry.name}
+            </button>
+          ))}
+          {folders.map(folder => (
+            <div key={folder.id} className="folder-row">
+              <button
+                className={`folder-button ${folderKey === folder.id ? 'active' : ''}`}
+                onClick={() => setFolderKey(folder.id)}
+              >
+                📁 {folder.name}
+              </button>
+              <button className="icon-button" title="Rename folder" onClick={() => handleRenameFolder(folder)} disabled={busy}>✏️</button>
+              <button className="icon-button" title="Delete folder" onClick={() => handleDeleteFolder(folder)} disabled={busy}>🗑️</button>
+            </div>
+          ))}
+          <div className="new-folder">
+            <input
+              value={newFolderName}
+              onChange={(e) => setNewFolderName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && newFolderName.trim() && handleCreateFolder()}
+              placeholder="New folder or unit"
+            />
+            <button onClick={handleCreateFolder} disabled={!newFolderName.trim() || busy}>+</button>
+          </div>
+        </aside>
+
+        <section className="material-list">
+          <form
+            className="search-row"
+            onSubmit={(e) => {
+              e.preventDefault();
+              setActiveSearch(searchText.trim());
+            }}
+          >
+            <input
+              value={searchText}
+              onChange={(e) => setSearchText(e.target.value)}
+              placeholder="Search inside your materials..."
+            />
+            <button type="submit" disabled={busy}>🔍 Search</button>
+            {activeSearch && (
+              <button
+                type="button"
+                onClick={() => {
+                  setSearchText('');
+                  setActiveSearch('');
+                }}
+              >
+                Clear
+              </button>
+            )}
+          </form>
+
+          <div className="filter-row">
+            <select value={filter.subject || ''} onChange={(e) => updateFilter({ subject: e.target.value })}>
+              <option value="">Any subject</option>
+              {subjects.map(subject => <option key={subject} value={subject}>{subject}</option>)}
+            </select>
+            <select
+              value={filter.difficulty || ''}
+              onChange={(e) => updateFilter({ difficulty: (e.target.value || undefined) as MaterialFilter['difficulty'] })}
+            >
+              <option value="">Any difficulty</option>
+              <option value="beginner">Beginner</option>
+              <option value="intermediate">Intermediate</option>
+              <option value="advanced">Advanced</option>
+            </select>
+            <select value={filter.topic || ''} onChange={(e) => updateFilter({ topic: e.target.value })}>
+              <option value="">Any topic</option>
+              {topics.map(topic => <option key={topic} value={topic}>{topic}</option>)}
+            </select>
+            <select value={filter.tag || ''} onChange={(e) => updateFilter({ tag: e.target.value })}>
+              <option value="">Any tag</option>
+              {userTags.map(tag => <option key={tag} value={tag}>#{tag}</option>)}
+            </select>
+            <label>
+              From
+              <input
+                type="date"
+                value={dateValue(filter.from)}
+                onChange={(e) => updateFilter({ from: e.target.value ? new Date(e.target.value) : undefined })}
+              />
+            </label>
+            <label>
+              To
+              <input
+                type="date"
+                value={dateValue(filter.to)}
+                // Through the end of the chosen day
+                onChange={(e) => updateFilter({ to: e.target.value ? new Date(`${e.target.value}T23:59:59`) : undefined })}
+              />
+            </label>
+          </div>
+
+          {selectedIds.length > 0 && (
+            <div className="bulk-bar">
+              <span>{selectedIds.length} selected</span>
+              <select value="" onChange={(e) => handleMove(e.target.value)} disabled={busy}>
+                <option value="">Move to...</option>
+                <option value={UNFILED}>Not in a folder</option>
+                {folders.map(folder => <option key={folder.id} value={folder.id}>{folder.name}</option>)}
+              </select>
+              <button onClick={handleRebuild} disabled={busy}>🔄 Rebuild journey</button>
+              <button className="danger" onClick={handleDelete} disabled={busy}>🗑️ Delete</button>
+              <button onClick={() => setSelectedIds([])} disabled={busy}>Clear selection</button>
+            </div>
+          )}
+
+          {error && <div className="library-error">{error}</div>}
+          {working && <div className="library-status">{working}</div>}
+
+          {materials.length === 0 && !loading && (
+            <p className="empty-library">
+              {activeSearch ? 'Nothing in your materials matches that search.' : 'No materials here yet.'}
+            </p>
+          )}
+
+          {materials.map(material => (
+            <div key={material.uploadId} className={`material-row ${selectedIds.includes(material.uploadId) ? 'selected' : ''}`}>
+              <input
+                type="checkbox"
+                checked={selectedIds.includes(material.uploadId)}
+                onChange={() => toggleSelected(material.uploadId)}
+                disabled={busy}
+              />
+              <div className="material-body">
+                <div className="material-title">{materialTitle(material)}</div>
+                <div className="material-meta">
+                  {[
+                    material.subject,
+                    material.difficulty,
+                    material.createdAt instanceof Date ? material.createdAt.toLocaleDateString() : '',
+                    folders.find(folder => folder.id === material.folderId)?.name,
+                  ].filter(Boolean).join(' · ')}
+                </div>
+                {snippets[material.uploadId] && <p className="material-snippet">“{snippets[material.uploadId]}”</p>}
+                <div className="material-tags">
+                  {(material.tags || []).slice(0, 5).map(tag => (
+                    <span key={tag} className="ai-tag">{tag}</span>
+                  ))}
+                  {(material.userTags || []).map(tag => (
+                    <span key={tag} className="user-tag">
+                      #{tag}
+                      <button title="Remove tag" onClick={() => handleRemoveTag(material, tag)} disabled={busy}>×</button>
+                    </span>
+                  ))}
+                  <input
+                    className="tag-input"
+                    value={tagDrafts[material.uploadId] || ''}
+                    onChange={(e) => setTagDrafts(previous => ({ ...previous, [material.uploadId]: e.target.value }))}
+                    onKeyDown={(e) => e.key === 'Enter' && handleAddTag(material)}
+                    placeholder="+ tag"
+                    disabled={busy}
+                  />
+                </div>
+                {flashcardMaterialId === material.uploadId && (
+                  <FlashcardGenerator material={material} onClose={() => setFlashcardMaterialId(null)} />
+                )}
+              </div>
+              {flashcardMaterialId !== material.uploadId && (
+                <button className="row-action" onClick={() => setFlashcardMaterialId(material.uploadId)} disabled={busy}>
+                  🃏 Flashcards
+                </button>
+              )}
+            </div>
+          ))}
+
+          {loading && <div className="library-status">Loading...</div>}
+          {hasMore && !loading && (
+            <button className="load-more" onClick={() => loadMaterials(true)}>Load more</button>
+          )}
+        </section>
+      </div>
+
+      <SpacedPracticeQueue userId={user.uid} />
+
+      <style jsx>{`
+        .material-library {
+          margin-top: 32px;
+          background: white;
+          border-radius: 16px;
+          padding: 24px;
+          box-shadow: 0 1px 3px rgba(0, 0, 0, 0.1);
+        }
+
+        .library-layout {
+          display: grid;
+          grid-template-columns: 220px 1fr;
+          gap: 24px;
+          margin-top: 16px;
+        }
+
+        .folder-list {
+          display: flex;
+          flex-direction: column;
+          gap: 4px;
+        }
+
+        .folder-row {
+          display: flex;
+          align-items: center;
+        }
+
+        .folder-button {
+          flex: 1;
+          text-align: left;
+          padding: 8px 12px;
+          border: none;
+          border-radius: 8px;
+          background: transparent;
+          cursor: pointer;
+          color: #1f2937;
+        }
+
+        .folder-button.active {
+          background: #eff6ff;
+          color: #1d4ed8;
+          font-weight: 600;
+        }
+
+        .icon-button {
+          border: none;
+          background: transparent;
+          cursor: pointer;
+          font-size: 0.8rem;
+          padding: 4px;
+        }
+
+        .new-folder {
+          display: flex;
+          gap: 4px;
+          margin-top: 8px;
+        }
+
+        .new-folder input {
+          flex: 1;
+          min-width: 0;
+          padding: 6px 8px;
+          border: 1px solid #d1d5db;
+          border-radius: 6px;
+        }
+
+        .search-row,
+        .filter-row,
+        .bulk-bar {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 8px;
+          margin-bottom: 12px;
+        }
+
+        .search-row input {
+          flex: 1;
+          padding: 8px 12px;
+          border: 1px solid #d1d5db;
+          border-radius: 8px;
+        }
+
+        .filter-row select,
+        .filter-row input {
+          padding: 6px 8px;
+          border: 1px solid #d1d5db;
+          border-radius: 6px;
+          font-size: 0.9rem;
+        }
+
+        .filter-row label {
+          display: flex;
+          align-items: center;
+          gap: 4px;
+          font-size: 0.9rem;
+          color: #6b7280;
+        }
+
+        .bulk-bar {
+          padding: 8px 12px;
+          background: #f0f9ff;
+          border-radius: 8px;
+        }
+
+        button {
+          padding: 6px 12px;
+          border: 1px solid #d1d5db;
+          border-radius: 6px;
+          background: white;
+          cursor: pointer;
+        }
+
+        button:disabled {
+          opacity: 0.5;
+          cursor: not-allowed;
+        }
+
+        .danger {
+          color: #b91c1c;
+          border-color: #fca5a5;
+        }
+
+        .library-error {
+          color: #b91c1c;
+          margin-bottom: 12px;
+        }
+
+        .library-status,
+        .empty-library {
+          color: #6b7280;
+          margin: 12px 0;
+        }
+
+        .material-row {
+          display: flex;
+          gap: 12px;
+          align-items: flex-start;
+          padding: 12px;
+          border: 1px solid #e5e7eb;
+          border-radius: 10px;
+          margin-bottom: 8px;
+        }
+
+        .material-row.selected {
+          border-color: #3b82f6;
+          background: #f8fbff;
+        }
+
+        .material-body {
+          flex: 1;
+          min-width: 0;
+        }
+
+        .material-title {
+          font-weight: 600;
+          color: #1f2937;
+        }
+
+        .row-action {
+          flex-shrink: 0;
+          font-size: 0.85rem;
+        }
+
+        .material-meta {
+          font-size: 0.85rem;
+          color: #6b7280;
+        }
+
+        .material-snippet {
+          margin: 6px 0;
+          font-size: 0.9rem;
+          font-style: italic;
+          color: #374151;
+        }
+
+        .material-tags {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 6px;
+          margin-top: 6px;
+        }
+
+        .ai-tag,
+        .user-tag {
+          font-size: 0.75rem;
+          padding: 2px 8px;
+          border-radius: 999px;
+        }
+
+        .ai-tag {
+          background: #f3f4f6;
+          color: #4b5563;
+        }
+
+        .user-tag {
+          display: inline-flex;
+          align-items: center;
+          gap: 2px;
+          background: #fef3c7;
+          color: #92400e;
+        }
+
+        .user-tag button {
+          border: none;
+          background: transparent;
+          padding: 0 2px;
+          color: inherit;
+        }
+
+        .tag-input {
+          width: 80px;
+          padding: 2px 6px;
+          font-size: 0.75rem;
+          border: 1px dashed #d1d5db;
+          border-radius: 999px;
+        }
+
+        .load-more {
+          display: block;
+          margin: 12px auto 0;
+        }
+
+        @media (max-width: 768px) {
+          .library-layout {
+            grid-template-columns: 1fr;
+          }
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default MaterialLibrary;
@@ -0,0 +1,177 @@
+// components/study/ScanSession.tsx
+
+import React, { useEffect, useRef, useState } from 'react';
+import { MAX_SCAN_PAGES } from '../../services/documentExtractionService';
+
+interface ScannedPage {
+  id: number;
+  file: File;
+  previewUrl: string;
+}
+
+interface ScanSessionProps {
+  disabled?: boolean;
+  onSubmit: (pages: File[]) => Promise<boolean | void>; // True when the scan was queued
+  onCancel: () => void;
+}
+
+const pageButtonStyle: React.CSSProperties = {
+  padding: '2px 8px',
+  backgroundColor: 'white',
+  border: '1px solid #ccc',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontSize: '12px',
+};
+
+/**
+ * Collects photos of a handout one page at a time. The student can reorder
+ * the pages and drop bad shots before the scan becomes one study material.
+ */
+const ScanSession: React.FC<ScanSessionProps> = ({ disabled, onSubmit, onCancel }) => {
+  const [pages, setPages] = useState<ScannedPage[]>([]);
+  const nextId = useRef(0);
+  const pagesRef = useRef(pages);
+  pagesRef.current = pages;
+
+  // Previews still shown when the session closes
+  useEffect(() => () => pagesRef.current.forEach(page => URL.revokeObjectURL(page.previewUrl)), []);
+
+  const addPages = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const added = (e.target.files ? Array.from<File>(e.target.files) : [])
+      .filter(file => file.type.startsWith('image/'))
+      .map(file => ({ id: nextId.current++, file, previewUrl: URL.createObjectURL(file) }));
+    e.target.value = '';
+    setPages(current => {
+      const kept = added.slice(0, Math.max(0, MAX_SCAN_PAGES - current.length));
+      added.slice(kept.length).forEach(page => URL.revokeObjectURL(page.previewUrl));
+      return [...current, ...kept];
+    });
+  };
+
+  const movePage = (index: number, offset: number) => {
+    setPages(current => {
+      const target = index + offset;
+      if (target < 0 || target >= current.length) return current;
+      const reordered = [...current];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      return reordered;
+    });
+  };
+
+  const removePage = (id: number) => {
+    setPages(current => {
+      const removed = current.find(page => page.id === id);
+      if (removed) URL.revokeObjectURL(removed.previewUrl);
+      return current.filter(page => page.id !== id);
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (await onSubmit(pages.map(page => page.file))) {
+      pages.forEach(page => URL.revokeObjectURL(page.previewUrl));
+      setPages([]);
+    }
+  };
+
+  return (
+    <div style={{ margin: '20px 0', padding: '15px', border: '1px solid #ccc', borderRadius: '8px' }}>
+      <div style={{ fontWeight: 'bold' }}>📷 Scan a handout</div>
+      <div style={{ marginTop: '5px', fontSize: '14px', color: '#666' }}>
+        Photograph each page, put them in order and remove any blurry shots. The pages become one study material.
+      </div>
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '10px', marginTop: '15px' }}>
+        {pages.map((page, index) => (
+          <div key={page.id} style={{ width: '120px', textAlign: 'center' }}>
+            <img
+              src={page.previewUrl}
+              alt={`Page ${index + 1}`}
+              style={{ width: '120px', height: '160px', objectFit: 'cover', borderRadius: '4px', border: '1px solid #ccc' }}
+            />
+            <div style={{ fontSize: '12px', fontWeight: 'bold', margin: '4px 0' }}>Page {index + 1}</div>
+            <div style={{ display: 'flex', justifyContent: 'center', gap: '4px' }}>
+              <button onClick={() => movePage(index, -1)} disabled={disabled || index === 0} style={pageButtonStyle} aria-label="Move page earlier">
+                ◀
+              </button>
+              <button onClick={() => removePage(page.id)} disabled={disabled} style={pageButtonStyle} aria-label="Remove page">
+                ✕
+              </button>
+              <button
+                onClick={() => movePage(index, 1)}
+                disabled={disabled || index === pages.length - 1}
+                style={pageButtonStyle}
+                aria-label="Move page later"
+              >
+                ▶
+              </button>
+            </div>
+          </div>
+        ))}
+
+        {pages.length < MAX_SCAN_PAGES && (
+          <label
+            style={{
+              width: '120px',
+              height: '160px',
+              display: 'flex',
+              flexDirection: 'column',
+              alignItems: 'center',
+              justifyContent: 'center',
+              border: '2px dashed #ccc',
+              borderRadius: '4px',
+              cursor: disabled ? 'default' : 'pointer',
+              color: '#666',
+              fontSize: '14px',
+            }}
+          >
+            <input
+              type="file"
+              accept="image/*"
+              capture="environment"
+              multiple
+              onChange={addPages}
+              disabled={disabled}
+              style={{ display: 'none' }}
+            />
+            <div style={{ fontSize: '24px' }}>＋</div>
+            <div>{pages.length === 0 ? 'Add first page' : 'Add page'}</div>
+          </label>
+        )}
+      </div>
+
+      <div style={{ marginTop: '15px', display: 'flex', gap: '10px' }}>
+        <button
+          onClick={handleSubmit}
+          disabled={disabled || pages.length === 0}
+          style={{
+            padding: '10px 20px',
+            backgroundColor: '#4CAF50',
+            color: 'white',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: 'pointer',
+          }}
+        >
+          Create Journey from {pages.length} Page{pages.length === 1 ? '' : 's'}
+        </button>
+        <button
+          onClick={onCancel}
+          disabled={disabled}
+          style={{
+            padding: '10px 20px',
+            backgroundColor: '#ccc',
+            color: 'black',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: 'pointer',
+          }}
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ScanSession;
@@ -1,12 +1,42 @@
 // components/study/StudyMaterialUpload.tsx
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import { useAuth } from '../../context/AuthContext';
-import { uploadFile, uploadTextContent, validateFile, FileType } from '../../services/fileUploadService';
-import { analyzeContent, extractTextFromImage, detectIntent } from '../../services/contentAnalyzerService';
-import { buildStudyJourney, generateJourneyScenes, generateStudyQuestions } from '../../services/dynamicJourneyBuilder';
-import { saveStudyMaterial } from '../../services/contentMemoryService';
-import { ContentAnalysis } from '../../services/contentAnalyzerService';
+import { analyzeContent } from '../../services/contentAnalyzerService';
+import {
+  buildMultiSourceJourney,
+  generateJourneyScenes,
+  generateStudyQuestions,
+  StudySource,
+} from '../../services/dynamicJourneyBuilder';
+import { getUserStudyMaterials } from '../../services/contentMemoryService';
+import { materialTitle } from '../../services/materialIndexService';
+import { getMaterialText, hasMaterialText } from '../../services/materialTextService';
+import {
+  enqueueFileJob,
+  enqueueTextJob,
+  enqueueScanJob,
+  cancelMaterialJob,
+  pauseMaterialJobUpload,
+  resumeMaterialJobUpload,
+  subscribeToMaterialJobs,
+  MaterialJob,
+  MaterialJobStage,
+} from '../../services/materialJobService';
+import { StudyMaterial } from '../../types';
+import AnalysisProgressScreen from '../shared/AnalysisProgressScreen';
+import ScanSession from './ScanSession';
+
+// The AnalysisProgressScreen step each job stage belongs to
+const PROGRESS_STEPS: Record<MaterialJobStage, string> = {
+  upload: 'upload',
+  extract: 'ocr',
+  analyze: 'topic-mapping',
+  save: 'concepts',
+  build: 'concepts',
+  questions: 'quiz-seeds',
+  scenes: 'lesson-plan',
+};
 
 interface StudyMaterialUploadProps {
   onJourneyCreated?: (journeyId: string) => void;
@@ -14,168 +44,152 @@ interface StudyMaterialUploadProps {
 
 const StudyMaterialUpload: React.FC<StudyMaterialUploadProps> = ({ onJourneyCreated }) => {
   const { user } = useAuth();
-  const [uploading, setUploading] = useState(false);
-  const [analyzing, setAnalyzing] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
   const [building, setBuilding] = useState(false);
   const [textInput, setTextInput] = useState('');
   const [useTextInput, setUseTextInput] = useState(false);
+  const [scanning, setScanning] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [progress, setProgress] = useState<string>('');
+  // Materials offered for combining into one journey; null until the list is opened
+  const [savedMaterials, setSavedMaterials] = useState<StudyMaterial[] | null>(null);
+  const [selectedMaterialIds, setSelectedMaterialIds] = useState<string[]>([]);
+  // The background job started here, followed until it ends
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [job, setJob] = useState<MaterialJob | null>(null);
+  // The progress screen was closed; the job goes on and shows in the job tray
+  const [progressHidden, setProgressHidden] = useState(false);
+
+  useEffect(() => {
+    if (!user || !jobId) return;
+    return subscribeToMaterialJobs(user.uid, jobs => setJob(jobs.find(candidate => candidate.id === jobId) || null));
+  }, [user, jobId]);
+
+  useEffect(() => {
+    if (!job || (job.status !== 'done' && job.status !== 'failed' && job.status !== 'cancelled')) return;
+    if (job.status === 'done') {
+      setProgress('Complete!');
+      if (onJourneyCreated && job.journeyId) {
+        onJourneyCreated(job.journeyId);
+      }
+    } else if (job.status === 'cancelled') {
+      setProgress('Cancelled.');
+    } else {
+      setProgress('');
+      setError(`${job.error || 'Failed to process your material'} You can retry it from the jobs list.`);
+    }
+    setJobId(null);
+    setJob(null);
+  }, [job, onJourneyCreated]);
 
-  const handleFileUpload = useCallback(async (file: File) => {
+  const startJob = useCallback(async (enqueue: (userId: string) => Promise<string>) => {
     if (!user) {
       setError('Please log in to upload materials');
       return;
     }
 
     setError(null);
-    setUploading(true);
-    setProgress('Uploading file...');
-
+    setProgress('');
+    setSubmitting(true);
     try {
-      // Validate file
-      const validation = validateFile(file);
-      if (!validation.valid) {
-        setError(validation.error || 'Invalid file');
-        return;
-      }
-
-      // Upload file
-      const uploadedFile = await uploadFile(file, user.uid);
-      setProgress('File uploaded! Analyzing content...');
-      setAnalyzing(true);
-
-      // Extract text based on file type
-      let contentText = '';
-      let fileType: FileType = uploadedFile.fileType;
-
-      if (fileType === 'image') {
-        setProgress('Extracting text from image...');
-        contentText = await extractTextFromImage(uploadedFile.downloadURL, user.uid);
-      } else if (fileType === 'audio') {
-        setError('Audio transcription not yet implemented. Please use text input.');
-        return;
-      } else if (fileType === 'pdf' || fileType === 'word') {
-        // For PDF/Word, we'd need to extract text server-side or use a library
-        // For now, prompt user to paste text
-        setError('PDF/Word text extraction not yet implemented. Please paste the text content.');
-        return;
-      } else {
-        // For text files, read content
-        const response = await fetch(uploadedFile.downloadURL);
-        contentText = await response.text();
-      }
-
-      if (!contentText || contentText.trim().length < 50) {
-        setError('Could not extract enough text from the file. Please try pasting the text directly.');
-        return;
-      }
-
-      // Analyze content
-      setProgress('Analyzing content with AI...');
-      const analysis = await analyzeContent(contentText, fileType, user.uid);
-
-      // Save study material
-      const material = await saveStudyMaterial({
-        userId: user.uid,
-        fileName: uploadedFile.fileName,
-        fileType: fileType,
-        downloadURL: uploadedFile.downloadURL,
-        analysis,
-        tags: analysis.topics,
-        difficulty: analysis.difficulty,
-        subject: analysis.subject,
-      });
-
-      // Build journey
-      setProgress('Building your learning journey...');
-      setBuilding(true);
-      const journey = await buildStudyJourney(contentText, analysis, user.uid, material.id);
-      
-      // Generate scenes and questions
-      setProgress('Creating interactive content...');
-      await generateJourneyScenes(journey, contentText, user.uid);
-      await generateStudyQuestions(journey, contentText, user.uid);
-
-      setProgress('Complete!');
-      if (onJourneyCreated) {
-        onJourneyCreated(journey.id);
-      }
-
-      // Reset form
-      setUploading(false);
-      setAnalyzing(false);
-      setBuilding(false);
-      setTextInput('');
+      setProgressHidden(false);
+      setJobId(await enqueue(user.uid));
+      return true;
     } catch (err: any) {
       console.error('Upload error:', err);
-      setError(err.message || 'Failed to process file');
-      setUploading(false);
-      setAnalyzing(false);
-      setBuilding(false);
+      setError(err.message || 'Failed to process your material');
+      return false;
+    } finally {
+      setSubmitting(false);
     }
-  }, [user, onJourneyCreated]);
+  }, [user]);
+
+  const handleFileUpload = useCallback((file: File) => {
+    startJob(userId => enqueueFileJob(userId, file));
+  }, [startJob]);
 
   const handleTextSubmit = useCallback(async () => {
-    if (!user || !textInput.trim()) {
+    if (!textInput.trim()) {
       setError('Please enter some text');
       return;
     }
+    if (await startJob(userId => enqueueTextJob(userId, textInput))) {
+      setTextInput('');
+      setUseTextInput(false);
+    }
+  }, [startJob, textInput]);
+
+  const handleScanSubmit = useCallback(async (pages: File[]) => {
+    const queued = await startJob(userId => enqueueScanJob(userId, pages));
+    if (queued) {
+      setScanning(false);
+    }
+    return queued;
+  }, [startJob]);
+
+  const toggleCombineList = useCallback(async () => {
+    if (savedMaterials) {
+      setSavedMaterials(null);
+      setSelectedMaterialIds([]);
+      return;
+    }
+    if (!user) return;
+    try {
+      // Materials saved before their text was stored cannot be combined
+      const materials = await getUserStudyMaterials(user.uid);
+      setSavedMaterials(materials.filter(hasMaterialText));
+    } catch (err: any) {
+      console.error('Loading materials error:', err);
+      setError(err.message || 'Failed to load your materials');
+    }
+  }, [user, savedMaterials]);
+
+  const toggleMaterial = (materialId: string) => {
+    setSelectedMaterialIds(selected =>
+      selected.includes(materialId) ? selected.filter(id => id !== materialId) : [...selected, materialId]
+    );
+  };
+
+  const handleCombine = useCallback(async () => {
+    if (!user || !savedMaterials || selectedMaterialIds.length < 2) return;
 
     setError(null);
-    setAnalyzing(true);
-    setProgress('Analyzing text content...');
+    setBuilding(true);
 
     try {
-      // Upload text
-      const uploadedFile = await uploadTextContent(textInput, user.uid);
-      
-      // Analyze content
-      setProgress('Analyzing content with AI...');
-      const analysis = await analyzeContent(textInput, 'text', user.uid);
-
-      // Detect intent
-      const intent = await detectIntent(textInput, user.uid);
-
-      // Save study material
-      const material = await saveStudyMaterial({
-        userId: user.uid,
-        fileName: uploadedFile.fileName,
-        fileType: 'text',
-        downloadURL: uploadedFile.downloadURL,
-        analysis,
-        tags: analysis.topics,
-        difficulty: analysis.difficulty,
-        subject: analysis.subject,
-      });
-
-      // Build journey
-      setProgress('Building your learning journey...');
-      setBuilding(true);
-      const journey = await buildStudyJourney(textInput, analysis, user.uid, material.id);
-      
-      // Generate scenes and questions
+      // In the order the student picked them
+      const sources: StudySource[] = [];
+      for (const materialId of selectedMaterialIds) {
+        const material = savedMaterials.find(candidate => candidate.uploadId === materialId);
+        if (!material) continue;
+        setProgress(`Reading "${materialTitle(material)}"...`);
+        const { text } = await getMaterialText(material);
+        const analysis = material.analysis || await analyzeContent(text, material.type, user.uid);
+        sources.push({ materialId, title: materialTitle(material), text, analysis });
+      }
+
+      setProgress('Combining your materials into one journey...');
+      const journey = await buildMultiSourceJourney(sources, user.uid);
+
+      // Each step is generated from the material its point comes from
       setProgress('Creating interactive content...');
-      await generateJourneyScenes(journey, textInput, user.uid);
-      await generateStudyQuestions(journey, textInput, user.uid);
+      await generateJourneyScenes(journey, sources[0].text, user.uid);
+      await generateStudyQuestions(journey, sources[0].text, user.uid);
 
       setProgress('Complete!');
       if (onJourneyCreated) {
         onJourneyCreated(journey.id);
       }
 
-      // Reset form
-      setAnalyzing(false);
       setBuilding(false);
-      setTextInput('');
-      setUseTextInput(false);
+      setSavedMaterials(null);
+      setSelectedMaterialIds([]);
     } catch (err: any) {
-      console.error('Text processing error:', err);
-      setError(err.message || 'Failed to process text');
-      setAnalyzing(false);
+      console.error('Combine error:', err);
+      setError(err.message || 'Failed to combine materials');
       setBuilding(false);
     }
-  }, [user, textInput, onJourneyCreated]);
+  }, [user, savedMaterials, selectedMaterialIds, onJourneyCreated]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -195,7 +209,7 @@ const StudyMaterialUpload: React.FC<StudyMaterialUploadProps> = ({ onJourneyCrea
   return (
     <div className="study-material-upload">
       <h2>📚 Upload Study Material</h2>
-      <p>Upload PDFs, images, text, or paste content directly</p>
+      <p>Upload PDFs, images, text, lecture recordings, or paste content directly</p>
 
       {error && (
         <div className="error-message" style={{ color: 'red', margin: '10px 0' }}>
@@ -209,7 +223,9 @@ const StudyMaterialUpload: React.FC<StudyMaterialUploadProps> = ({ onJourneyCrea
         </div>
       )}
 
-      {!useTextInput ? (
+      {scanning ? (
+        <ScanSession disabled={submitting} onSubmit={handleScanSubmit} onCancel={() => setScanning(false)} />
+      ) : !useTextInput ? (
         <div
           onDrop={handleDrop}
           onDragOver={(e) => e.preventDefault()}
@@ -226,9 +242,9 @@ const StudyMaterialUpload: React.FC<StudyMaterialUploadProps> = ({ onJourneyCrea
             type="file"
             id="file-upload"
             onChange={handleFileSelect}
-            accept=".pdf,.doc,.docx,.txt,.jpg,.jpeg,.png,.gif,.mp3,.wav"
+            accept=".pdf,.docx,.txt,.jpg,.jpeg,.png,.gif,.mp3,.wav"
             style={{ display: 'none' }}
-            disabled={uploading || analyzing || building}
+            disabled={submitting || building}
           />
           <label htmlFor="file-upload" style={{ cursor: 'pointer' }}>
             <div>📁 Drag & drop a file here</div>
@@ -236,7 +252,7 @@ const StudyMaterialUpload: React.FC<StudyMaterialUploadProps> = ({ onJourneyCrea
               or click to browse
             </div>
             <div style={{ marginTop: '10px', fontSize: '12px', color: '#999' }}>
-              Supports: PDF, Word, Images, Text files
+              Supports: PDF, Word, Images, Text files, Audio (MP3, WAV)
             </div>
           </label>
         </div>
@@ -254,12 +270,12 @@ const StudyMaterialUpload: React.FC<StudyMaterialUploadProps> = ({ onJourneyCrea
               border: '1px solid #ccc',
               fontFamily: 'inherit',
             }}
-            disabled={analyzing || building}
+            disabled={submitting || building}
           />
           <div style={{ marginTop: '10px', display: 'flex', gap: '10px' }}>
             <button
               onClick={handleTextSubmit}
-              disabled={!textInput.trim() || analyzing || building}
+              disabled={!textInput.trim() || submitting || building}
               style={{
                 padding: '10px 20px',
                 backgroundColor: '#4CAF50',
@@ -276,7 +292,7 @@ const StudyMaterialUpload: React.FC<StudyMaterialUploadProps> = ({ onJourneyCrea
                 setUseTextInput(false);
                 setTextInput('');
               }}
-              disabled={analyzing || building}
+              disabled={submitting || building}
               style={{
                 padding: '10px 20px',
                 backgroundColor: '#ccc',
@@ -294,8 +310,11 @@ const StudyMaterialUpload: React.FC<StudyMaterialUploadProps> = ({ onJourneyCrea
 
       <div style={{ marginTop: '20px', textAlign: 'center' }}>
         <button
-          onClick={() => setUseTextInput(!useTextInput)}
-          disabled={uploading || analyzing || building}
+          onClick={() => {
+            setUseTextInput(!useTextInput);
+            setScanning(false);
+          }}
+          disabled={submitting || building}
           style={{
             padding: '8px 16px',
             backgroundColor: 'transparent',
@@ -306,9 +325,94 @@ const StudyMaterialUpload: React.FC<StudyMaterialUploadProps> = ({ onJourneyCrea
         >
           {useTextInput ? '📁 Upload File Instead' : '📝 Paste Text Instead'}
         </button>
+        <button
+          onClick={() => setScanning(!scanning)}
+          disabled={submitting || building}
+          style={{
+            marginLeft: '10px',
+            padding: '8px 16px',
+            backgroundColor: 'transparent',
+            border: '1px solid #ccc',
+            borderRadius: '4px',
+            cursor: 'pointer',
+          }}
+        >
+          {scanning ? 'Close Scan' : '📷 Scan Pages'}
+        </button>
+        <button
+          onClick={toggleCombineList}
+          disabled={submitting || building}
+          style={{
+            marginLeft: '10px',
+            padding: '8px 16px',
+            backgroundColor: 'transparent',
+            border: '1px solid #ccc',
+            borderRadius: '4px',
+            cursor: 'pointer',
+          }}
+        >
+          {savedMaterials ? 'Close' : '🧩 Combine Materials'}
+        </button>
       </div>
 
-      {(uploading || analyzing || building) && (
+      {savedMaterials && (
+        <div style={{ marginTop: '20px', padding: '15px', border: '1px solid #ccc', borderRadius: '8px' }}>
+          <div style={{ fontWeight: 'bold' }}>Build one journey from several materials</div>
+          <div style={{ marginTop: '5px', fontSize: '14px', color: '#666' }}>
+            Overlapping content is merged, and where your materials disagree the journey explains which is right.
+          </div>
+          {savedMaterials.length < 2 ? (
+            <div style={{ marginTop: '10px', fontSize: '14px', color: '#999' }}>
+              Upload at least two materials to combine them.
+            </div>
+          ) : (
+            <>
+              <div style={{ marginTop: '10px', maxHeight: '240px', overflowY: 'auto' }}>
+                {savedMaterials.map(material => (
+                  <label key={material.uploadId} style={{ display: 'flex', alignItems: 'center', gap: '8px', padding: '4px 0', cursor: 'pointer' }}>
+                    <input
+                      type="checkbox"
+                      checked={selectedMaterialIds.includes(material.uploadId)}
+                      onChange={() => toggleMaterial(material.uploadId)}
+                      disabled={building}
+                    />
+                    <span>{materialTitle(material)}</span>
+                    <span style={{ fontSize: '12px', color: '#999' }}>{material.type}</span>
+                  </label>
+                ))}
+              </div>
+              <button
+                onClick={handleCombine}
+                disabled={selectedMaterialIds.length < 2 || building}
+                style={{
+                  marginTop: '10px',
+                  padding: '10px 20px',
+                  backgroundColor: '#4CAF50',
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '4px',
+                  cursor: 'pointer',
+                }}
+              >
+                Build One Journey ({selectedMaterialIds.length} selected)
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      <AnalysisProgressScreen
+        isVisible={!!job && !progressHidden}
+        currentStep={job ? PROGRESS_STEPS[job.stage] : undefined}
+        detail={job?.detail}
+        uploadProgress={job?.uploadProgress}
+        onCancel={() => user && jobId && cancelMaterialJob(user.uid, jobId)}
+        onHide={() => setProgressHidden(true)}
+        onPauseUpload={() => jobId && pauseMaterialJobUpload(jobId)}
+        onResumeUpload={() => jobId && resumeMaterialJobUpload(jobId)}
+      />
+
+      {(submitting || building) && (
         <div style={{ marginTop: '20px', textAlign: 'center' }}>
           <div className="spinner" style={{ display: 'inline-block' }}>
             ⏳ Processing...
@@ -1,15 +1,24 @@
 // components/tabs/JourneysTab.tsx
 
 import React from 'react';
+import { useAuth } from '../../context/AuthContext';
 import { useProgress } from '../../context/ProgressContext';
 import { useAppNavigation } from '../../context/AppNavigationContext';
-import { JOURNEYS } from '../../constants';
+import { useJourneyCatalog } from '../../context/JourneyCatalogContext';
+import { canAuthorJourneys, formatJourneyMeta } from '../../services/journeyDefinitionService';
 import { Journey } from '../../types';
 import { soundService } from '../../services/soundService';
+import SaveSlotList from '../topic/SaveSlotList';
+import DistractorReport from '../journey/DistractorReport';
+import JourneyImport from '../journey/JourneyImport';
+import { canViewAttemptReports } from '../../services/attemptLogService';
 
 const JourneysTab: React.FC = () => {
   const { journeys, startNewJourney, generateAndStartJourney } = useProgress();
   const { navigateToUpload } = useAppNavigation();
+  const { journeys: officialJourneys } = useJourneyCatalog();
+  const { user } = useAuth();
+  const showReports = canViewAttemptReports(user);
 
   const handleStartOfficialJourney = async (journey: Journey) => {
     soundService.playUIClick();
@@ -33,8 +42,9 @@ const JourneysTab: React.FC = () => {
       {/* Official Journeys */}
       <div className="journeys-section">
         <h2 className="section-title">Official Journeys</h2>
+        {canAuthorJourneys(user) && <JourneyImport />}
         <div className="journeys-grid">
-          {JOURNEYS.map((journey, index) => (
+          {officialJourneys.map((journey, index) => (
             <div
               key={journey.id}
               className="journey-card-official"
@@ -55,8 +65,13 @@ const JourneysTab: React.FC = () => {
                 <div className="journey-card-content">
                   <h3 className="journey-card-title">{journey.name}</h3>
                   <p className="journey-card-description">"{journey.description}"</p>
+                  {formatJourneyMeta(journey) && (
+                    <p className="journey-card-meta">{formatJourneyMeta(journey)}</p>
+                  )}
                 </div>
               </button>
+              <SaveSlotList journeyId={journey.id} />
+              {showReports && <DistractorReport journeyId={journey.id} />}
             </div>
           ))}
         </div>
@@ -92,6 +107,7 @@ const JourneysTab: React.FC = () => {
                 >
                   {progress.completed ? 'Review Journey' : 'Continue Journey'}
                 </button>
+                {showReports && <DistractorReport journeyId={journeyId} />}
               </div>
             ))}
           </div>
@@ -270,6 +286,12 @@ const JourneysTab: React.FC = () => {
           margin: 0;
         }
 
+        .journey-card-meta {
+          font-size: 0.75rem;
+          color: #b68b3a;
+          margin: 8px 0 0;
+        }
+
         .completed-badge {
           position: absolute;
           top: 12px;
@@ -2,9 +2,15 @@
 
 import React, { useState } from 'react';
 import StudyMaterialUpload from '../study/StudyMaterialUpload';
+import MaterialLibrary from '../study/MaterialLibrary';
 
 const UploadTab: React.FC = () => {
   const [assignmentMode, setAssignmentMode] = useState(false);
+  // Bumped after an upload so the library reloads with the new material
+  const [libraryVersion, setLibraryVersion] = useState(0);
+
+  // The file buttons all open StudyMaterialUpload's file picker
+  const openFilePicker = () => document.getElementById('file-upload')?.click();
 
   return (
     <div className="upload-tab">
@@ -15,13 +21,13 @@ const UploadTab: React.FC = () => {
 
       <div className="upload-hub">
         <div className="upload-buttons-grid">
-          <button className="upload-button pdf-button">
+          <button className="upload-button pdf-button" onClick={openFilePicker}>
             <div className="button-icon">📄</div>
             <div className="button-text">PDF</div>
             <div className="button-desc">Documents, worksheets, articles</div>
           </button>
 
-          <button className="upload-button image-button">
+          <button className="upload-button image-button" onClick={openFilePicker}>
             <div className="button-icon">🖼️</div>
             <div className="button-text">Image</div>
             <div className="button-desc">Photos, screenshots, diagrams</div>
@@ -33,7 +39,7 @@ const UploadTab: React.FC = () => {
             <div className="button-desc">Paste content directly</div>
           </button>
 
-          <button className="upload-button audio-button">
+          <button className="upload-button audio-button" onClick={openFilePicker}>
             <div className="button-icon">🎵</div>
             <div className="button-text">Audio</div>
             <div className="button-desc">Recordings, lectures</div>
@@ -64,9 +70,11 @@ const UploadTab: React.FC = () => {
       </div>
 
       <div className="upload-content">
-        <StudyMaterialUpload />
+        <StudyMaterialUpload onJourneyCreated={() => setLibraryVersion(version => version + 1)} />
       </div>
 
+      <MaterialLibrary key={libraryVersion} />
+
       <style jsx>{`
         .upload-tab {
           padding: 24px;
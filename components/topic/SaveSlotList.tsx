@@ -0,0 +1,60 @@
+import React from 'react';
+import { useProgress } from '../../context/ProgressContext';
+import { getSlotsForJourney } from '../../services/gameSaveService';
+import { soundService } from '../../services/soundService';
+
+interface SaveSlotListProps {
+    journeyId: string;
+}
+
+const formatSavedAt = (timestamp: number): string => {
+    const minutes = Math.floor((Date.now() - timestamp) / 60000);
+    if (minutes < 1) return 'just now';
+    if (minutes < 60) return `${minutes}m ago`;
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return `${hours}h ago`;
+    return new Date(timestamp).toLocaleDateString();
+};
+
+/**
+ * "Continue" entries for a journey card, one per saved run
+ */
+const SaveSlotList: React.FC<SaveSlotListProps> = ({ journeyId }) => {
+    const { saveSlots, continueJourney, deleteSaveSlot } = useProgress();
+    const slots = getSlotsForJourney(saveSlots, journeyId);
+
+    if (slots.length === 0) return null;
+
+    return (
+        <div className="mt-2 space-y-1.5">
+            {slots.map((slot, index) => (
+                <div key={slot.slotId} className="flex items-stretch gap-1.5">
+                    <button
+                        onClick={() => {
+                            soundService.playUIClick();
+                            continueJourney(slot.slotId);
+                        }}
+                        className="flex-grow flex items-center justify-between gap-2 px-3 py-2 rounded-lg bg-black/40 border border-brand-gold/40 text-left text-sm text-gray-200 hover:bg-black/60 hover:border-brand-gold transition"
+                    >
+                        <span className="font-bold text-brand-gold">
+                            {index === 0 ? '▶ Continue' : `▶ Run ${slots.length - index}`}
+                        </span>
+                        <span className="text-xs text-gray-400">
+                            Scene {slot.scenesPlayed} · ❤️ {slot.gameState.resources.health} · {formatSavedAt(slot.updatedAt)}
+                        </span>
+                    </button>
+                    <button
+                        onClick={() => deleteSaveSlot(slot.slotId)}
+                        aria-label="Delete save"
+                        title="Delete save"
+                        className="px-2 rounded-lg bg-black/40 border border-brand-gold/20 text-gray-400 hover:text-white hover:border-brand-gold transition"
+                    >
+                        ✕
+                    </button>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default SaveSlotList;
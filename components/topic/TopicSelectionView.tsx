@@ -1,10 +1,12 @@
 import React, { useState } from 'react';
-import { JOURNEYS } from '../../constants';
 import { Journey } from '../../types';
 import { soundService } from '../../services/soundService';
 import { useAuth } from '../../context/AuthContext';
 import { useProgress } from '../../context/ProgressContext';
+import { useJourneyCatalog } from '../../context/JourneyCatalogContext';
+import { formatJourneyMeta } from '../../services/journeyDefinitionService';
 import OnboardingGuide from '../shared/OnboardingGuide';
+import SaveSlotList from './SaveSlotList';
 
 interface ApiKeyModalProps {
     isOpen: boolean;
@@ -50,6 +52,7 @@ interface JourneySelectionViewProps {
 const JourneySelectionView: React.FC<JourneySelectionViewProps> = ({ onJourneySelect, onDirectStart, error, journeyWithError, clearError }) => {
   const { user, logout, isFirstTimeUser, dismissGuide } = useAuth();
   const { progress } = useProgress();
+  const { journeys } = useJourneyCatalog();
   const [isKeyModalOpen, setIsKeyModalOpen] = useState(false);
   const [selectedJourney, setSelectedJourney] = useState<Journey | null>(null);
 
@@ -123,7 +126,7 @@ const JourneySelectionView: React.FC<JourneySelectionViewProps> = ({ onJourneySe
         </div>
         
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8 mt-8">
-          {JOURNEYS.map((journey, index) => (
+          {journeys.map((journey, index) => (
             <div
               key={journey.id}
               className="p-1.5 rounded-2xl transition-all duration-300 group opacity-0 animate-fade-in-up bg-gradient-to-br from-brand-frame to-brand-frame/60 hover:shadow-[0_0_25px_#a17c5b44] hover:!from-brand-frame-highlight hover:!to-brand-frame"
@@ -151,9 +154,13 @@ const JourneySelectionView: React.FC<JourneySelectionViewProps> = ({ onJourneySe
                             <p className="text-sm font-sans font-normal text-gray-300 italic">
                             “{journey.description}”
                             </p>
+                            {formatJourneyMeta(journey) && (
+                                <p className="text-xs font-sans font-normal text-brand-gold mt-2">{formatJourneyMeta(journey)}</p>
+                            )}
                         </div>
                     </div>
                 </button>
+                <SaveSlotList journeyId={journey.id} />
             </div>
           ))}
         </div>
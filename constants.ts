@@ -1,4 +1,4 @@
-import { Journey, Resources } from './types';
+import { Journey, JourneyCondition, ResourceLabel, Resources } from './types';
 
 export const JOURNEYS: Journey[] = [
     {
@@ -7,6 +7,21 @@ export const JOURNEYS: Journey[] = [
         description: "Will you fight for liberty or survive the chaos?",
         cardImage: 'https://storage.googleapis.com/aistudio-v2-a-prod-0/projects/b70e5138-1644-42cf-8178-53e7f918b14a/files/6f2e022f-d891-4cf5-9831-274878a1e2f7',
         startingPrompt: "You are Jean-Pierre, a poor farmer living on the outskirts of Paris in 1789. The harvest was poor, and the King has raised taxes again to fund lavish parties. Your family is hungry, and your neighbors are whispering of revolution. A crowd is gathering in the village square, their voices rising in anger. Your wife, Marie, looks at you with worried eyes, clutching your young son's hand.",
+        era: "1789",
+        region: "France",
+        gradeLevel: { min: 5, max: 9 },
+        factSheet: [
+            "A poor harvest in 1788 drove bread prices in France to record highs in 1789.",
+            "Louis XVI was King of France; Marie Antoinette was Queen.",
+            "The Estates-General met at Versailles on 5 May 1789, for the first time since 1614.",
+            "The Third Estate declared itself the National Assembly on 17 June 1789 and swore the Tennis Court Oath on 20 June 1789.",
+            "Crowds in Paris stormed the Bastille on 14 July 1789.",
+            "The Great Fear spread through the French countryside in late July and early August 1789.",
+            "The National Assembly abolished feudal privileges on the night of 4 August 1789.",
+            "The Declaration of the Rights of Man and of the Citizen was adopted on 26 August 1789.",
+            "In the Women's March on Versailles (5-6 October 1789), Parisians brought the royal family back to Paris.",
+        ],
+        source: 'builtin',
     },
     {
         id: "viking-age",
@@ -14,6 +29,20 @@ export const JOURNEYS: Journey[] = [
         description: "Sail into the unknown — plunder or prosper?",
         cardImage: 'https://storage.googleapis.com/aistudio-v2-a-prod-0/projects/b70e5138-1644-42cf-8178-53e7f918b14a/files/94f5060e-6e42-498b-96d5-470007e0303c',
         startingPrompt: "You are Bjorn, a young Jarl in a small fjord village in Norway, 870 AD. The elders speak of raiding the western lands of England for silver and glory. Others suggest a risky but potentially profitable trading voyage to the south, to Miklagard. Your new longship, 'Sea Serpent', is ready. The crew looks to you for a decision.",
+        era: "870 AD",
+        region: "Norway and the North Sea",
+        gradeLevel: { min: 5, max: 9 },
+        factSheet: [
+            "The raid on the monastery of Lindisfarne in 793 is often taken as the start of the Viking Age.",
+            "The Great Heathen Army invaded England in 865.",
+            "Alfred the Great became King of Wessex in 871.",
+            "Harald Fairhair is traditionally said to have united Norway in the late 9th century.",
+            "Norse settlers began arriving in Iceland around 870.",
+            "Miklagard was the Norse name for Constantinople, capital of the Byzantine Empire.",
+            "Norse traders reached Constantinople by the rivers of Eastern Europe, such as the Dnieper.",
+            "A jarl was a Norse chieftain or nobleman; the thing was the assembly of free men.",
+        ],
+        source: 'builtin',
     },
     {
         id: "roman-empire",
@@ -21,6 +50,20 @@ export const JOURNEYS: Journey[] = [
         description: "Lead with honor… or fall to ambition.",
         cardImage: 'https://storage.googleapis.com/aistudio-v2-a-prod-0/projects/b70e5138-1644-42cf-8178-53e7f918b14a/files/42416f40-3b8c-48c0-843e-c6c94412f864',
         startingPrompt: "You are Gaius, a newly recruited legionary in Gaul, 52 BC. The land is in open rebellion under Vercingetorix. Your Centurion is a harsh but respected veteran. Rations are low, and the air is thick with tension. You are on patrol when you spot a Gallic scout in the woods. He hasn't seen you yet.",
+        era: "52 BC",
+        region: "Gaul",
+        gradeLevel: { min: 5, max: 9 },
+        factSheet: [
+            "In 52 BC Rome was still a Republic; the Empire began with Augustus in 27 BC.",
+            "Julius Caesar was proconsul in Gaul and fought the Gallic Wars from 58 to 50 BC.",
+            "Vercingetorix, a chieftain of the Arverni, led a Gallic revolt against Rome in 52 BC.",
+            "Caesar took the Gallic town of Avaricum by siege in 52 BC.",
+            "Caesar was defeated at Gergovia in 52 BC.",
+            "The siege of Alesia in 52 BC ended with the surrender of Vercingetorix.",
+            "A centurion commanded a century of about 80 legionaries.",
+            "Caesar described the war in his Commentaries on the Gallic War.",
+        ],
+        source: 'builtin',
     },
     {
         id: "ancient-egypt",
@@ -28,6 +71,20 @@ export const JOURNEYS: Journey[] = [
         description: "Unearth secrets written in sand and stone.",
         cardImage: 'https://storage.googleapis.com/aistudio-v2-a-prod-0/projects/b70e5138-1644-42cf-8178-53e7f918b14a/files/3b53f6ef-5913-40e1-a2c3-4f9016e788e3',
         startingPrompt: "You are Amenhotep, a gifted young scribe in the bustling city of Thebes, 1350 BC. The pharaoh Akhenaten has declared a new religion, causing unrest. You serve a powerful priest of the old gods who plots against the heretic king. He has given you a secret message to deliver, but the pharaoh's guards are everywhere.",
+        era: "1350 BC",
+        region: "Egypt",
+        gradeLevel: { min: 5, max: 9 },
+        factSheet: [
+            "Akhenaten, first called Amenhotep IV, was an 18th Dynasty pharaoh who reigned from about 1353 to 1336 BC.",
+            "Akhenaten promoted the worship of the Aten, the sun disc, above the traditional gods.",
+            "Akhenaten founded a new capital, Akhetaten, at the site now called Amarna.",
+            "Thebes was the center of the worship of Amun, whose priesthood lost power under Akhenaten.",
+            "Nefertiti was Akhenaten's Great Royal Wife.",
+            "The Amarna letters are clay tablets of diplomatic letters between Egypt and other kingdoms.",
+            "Scribes wrote on papyrus in hieroglyphic and hieratic scripts.",
+            "Tutankhamun, who ruled after Akhenaten, restored the worship of the traditional gods.",
+        ],
+        source: 'builtin',
     },
     {
         id: "spartan-trials",
@@ -35,12 +92,40 @@ export const JOURNEYS: Journey[] = [
         description: "Only the brave earn the name of a warrior.",
         cardImage: 'https://storage.googleapis.com/aistudio-v2-a-prod-0/projects/b70e5138-1644-42cf-8178-53e7f918b14a/files/84a2d8a0-2f9e-4632-bd88-1c4b9d0343a4',
         startingPrompt: "You are Lycomedes, a seven-year-old boy taken from your family to begin the Spartan Agoge, 480 BC. The training is merciless, designed to forge you into an unbreakable warrior. Your instructor has pitted you against an older, stronger boy for the last piece of bread. To fail is to starve.",
+        era: "480 BC",
+        region: "Sparta, Greece",
+        gradeLevel: { min: 5, max: 9 },
+        factSheet: [
+            "The agoge was Sparta's state training system for boys, which began at about age seven.",
+            "Sparta had two kings at the same time, and five ephors were elected every year.",
+            "Full Spartan citizens were called Spartiates; helots were the enslaved people who farmed their land.",
+            "In 480 BC Persia's King Xerxes I invaded Greece.",
+            "At the Battle of Thermopylae in 480 BC, King Leonidas I led 300 Spartans and their Greek allies against the Persian army.",
+            "The Greek fleet, led by the Athenian Themistocles, defeated the Persians at Salamis in 480 BC.",
+            "The Greeks defeated the Persian army at Plataea in 479 BC.",
+        ],
+        source: 'builtin',
+        resourceLabels: { influence: { name: 'Honor', icon: '🛡️' } },
     }
 ];
 
+export const MAX_SAVE_SLOTS_PER_JOURNEY = 3;
+
 export const INITIAL_RESOURCES: Resources = {
     health: 100,
     food: 50,
     money: 10,
     influence: 10,
-};
\ No newline at end of file
+};
+
+export const DEFAULT_RESOURCE_LABELS: Record<keyof Resources, ResourceLabel> = {
+    health: { name: 'Health', icon: '❤️' },
+    food: { name: 'Food', icon: '🍞' },
+    money: { name: 'Money', icon: '💰' },
+    influence: { name: 'Influence', icon: '👥' },
+};
+
+// Used when a journey defines no lose conditions of its own
+export const DEFAULT_LOSE_CONDITIONS: JourneyCondition[] = [
+    { resource: 'health', atMost: 0, message: 'Your health reached zero, your journey ends here.' },
+];
\ No newline at end of file
@@ -9,7 +9,7 @@ import {
     browserSessionPersistence
 } from 'firebase/auth';
 import { auth, provider } from '../services/firebase';
-import { User } from '../types';
+import { User, UserRole } from '../types';
 import Loader from '../components/shared/Loader';
 
 interface AuthContextType {
@@ -23,6 +23,17 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Teachers and admins are marked with a `role` custom claim, set server-side with the Admin SDK
+const getUserRole = async (firebaseUser: FirebaseUser): Promise<UserRole> => {
+  try {
+    const { claims } = await firebaseUser.getIdTokenResult();
+    return claims.role === 'teacher' || claims.role === 'admin' ? claims.role : 'student';
+  } catch (error) {
+    console.warn('Could not read the user role', error);
+    return 'student';
+  }
+};
+
 export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [isFirstTimeUser, setIsFirstTimeUser] = useState(false);
@@ -30,7 +41,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const [isAuthLoading, setIsAuthLoading] = useState(false); // For login action
 
   useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, (firebaseUser: FirebaseUser | null) => {
+    const unsubscribe = onAuthStateChanged(auth, async (firebaseUser: FirebaseUser | null) => {
       if (firebaseUser) {
         // Check if it's a new user by comparing creation time and last sign-in time
         const isNew = firebaseUser.metadata.creationTime === firebaseUser.metadata.lastSignInTime;
@@ -39,6 +50,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           uid: firebaseUser.uid,
           displayName: firebaseUser.displayName || 'Explorer',
           photoURL: firebaseUser.photoURL || `https://i.pravatar.cc/150?u=${firebaseUser.uid}`,
+          role: await getUserRole(firebaseUser),
         });
       } else {
         setUser(null);
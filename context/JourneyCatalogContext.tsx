@@ -0,0 +1,56 @@
+import React, { createContext, useState, useContext, ReactNode, useEffect, useCallback } from 'react';
+import { Journey } from '../types';
+import { JOURNEYS } from '../constants';
+import { loadJourneyCatalog } from '../services/journeyDefinitionService';
+import { useAuth } from './AuthContext';
+
+interface JourneyCatalogContextType {
+  journeys: Journey[]; // Built-in journeys plus every valid authored journey
+  isLoading: boolean;
+  getJourney: (journeyId: string | null) => Journey | undefined;
+  reloadJourneys: () => Promise<void>;
+}
+
+const JourneyCatalogContext = createContext<JourneyCatalogContextType | undefined>(undefined);
+
+export const JourneyCatalogProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+    const { user } = useAuth();
+    // The built-in journeys are available immediately; authored ones are added once loaded
+    const [journeys, setJourneys] = useState<Journey[]>(JOURNEYS);
+    const [isLoading, setIsLoading] = useState(false);
+
+    const reloadJourneys = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            setJourneys(await loadJourneyCatalog());
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    // Firestore definitions are only readable when signed in
+    useEffect(() => {
+        if (user) {
+            reloadJourneys();
+        }
+    }, [user?.uid, reloadJourneys]);
+
+    const getJourney = useCallback(
+        (journeyId: string | null) => journeys.find(journey => journey.id === journeyId),
+        [journeys]
+    );
+
+    return (
+        <JourneyCatalogContext.Provider value={{ journeys, isLoading, getJourney, reloadJourneys }}>
+            {children}
+        </JourneyCatalogContext.Provider>
+    );
+};
+
+export const useJourneyCatalog = () => {
+  const context = useContext(JourneyCatalogContext);
+  if (context === undefined) {
+    throw new Error('useJourneyCatalog must be used within a JourneyCatalogProvider');
+  }
+  return context;
+};
@@ -1,8 +1,19 @@
-import React, { createContext, useState, useContext, ReactNode, useCallback } from 'react';
-import { Progress, GameState, Resources, Scene, Journey } from '../types';
+import React, { createContext, useState, useContext, ReactNode, useCallback, useEffect, useRef } from 'react';
+import { Progress, GameState, Resources, Scene, Journey, SaveSlot } from '../types';
 import { INITIAL_RESOURCES } from '../constants';
 import { generateJourneyIntroVideo } from '../services/geminiService';
+import {
+  loadGameData,
+  saveGameProgress,
+  saveSlot,
+  deleteSlot,
+  markSlotDeleted,
+  createSaveSlot,
+} from '../services/gameSaveService';
+import { applyResourceDeltas, getResourceLimits } from '../services/resourceRules';
+import { getStartingResources } from '../services/journeyDefinitionService';
 import { useAuth } from './AuthContext';
+import { useJourneyCatalog } from './JourneyCatalogContext';
 
 interface ProgressContextType {
   progress: Progress;
@@ -12,6 +23,12 @@ interface ProgressContextType {
   applyResourceChanges: (changes: Partial<Resources>) => void;
   endJourney: () => void;
   resetProgress: () => void;
+  // Save slots (persisted per user in IndexedDB and Firestore)
+  saveSlots: SaveSlot[];
+  continueJourney: (slotId: string) => void;
+  deleteSaveSlot: (slotId: string) => void;
+  // Story map: return to an earlier scene of the current run
+  jumpToScene: (scene: Scene, resources: Resources, choicesMade: number, firedEventIds?: string[]) => void;
   // Video generation state and functions
   isVideoGenerating: boolean;
   generatedVideoUrl: string | null;
@@ -40,8 +57,18 @@ const initialGameState: GameState = {
 
 export const ProgressProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const { user } = useAuth();
+  const { getJourney } = useJourneyCatalog();
   const [progress, setProgress] = useState<Progress>(initialProgress);
   const [gameState, setGameState] = useState<GameState>(initialGameState);
+  const [saveSlots, setSaveSlots] = useState<SaveSlot[]>([]);
+
+  // The slot the current run is saved to, and bookkeeping for autosave
+  const activeSlotRef = useRef<SaveSlot | null>(null);
+  const saveSlotsRef = useRef<SaveSlot[]>([]);
+  const lastSavedSceneRef = useRef<Scene | null>(null);
+  const lastSavedProgressRef = useRef<string>('');
+  const [loadedUserId, setLoadedUserId] = useState<string | null>(null);
+  const userId = user?.uid;
 
   // State for video generation flow
   const [isVideoGenerating, setIsVideoGenerating] = useState(false);
@@ -49,16 +76,129 @@ export const ProgressProvider: React.FC<{ children: ReactNode }> = ({ children }
   const [videoGenerationError, setVideoGenerationError] = useState<string | null>(null);
   const [journeyForVideo, setJourneyForVideo] = useState<Journey | null>(null);
 
+  const updateSaveSlots = useCallback((slots: SaveSlot[]) => {
+    saveSlotsRef.current = slots;
+    setSaveSlots(slots);
+  }, []);
+
+  // Load saved progress and slots whenever the signed-in user changes
+  useEffect(() => {
+    activeSlotRef.current = null;
+    lastSavedSceneRef.current = null;
+    lastSavedProgressRef.current = '';
+    setLoadedUserId(null);
+    setProgress(initialProgress);
+    updateSaveSlots([]);
+    if (!userId) return;
+
+    let cancelled = false;
+    loadGameData(userId).then(({ progress: savedProgress, slots }) => {
+        if (cancelled) return;
+        if (savedProgress) {
+            lastSavedProgressRef.current = JSON.stringify(savedProgress);
+            setProgress(savedProgress);
+        }
+        updateSaveSlots(slots);
+        setLoadedUserId(userId);
+    }).catch(error => {
+        console.error('[Saves] Failed to load game data:', error);
+        if (!cancelled) setLoadedUserId(userId);
+    });
+    return () => { cancelled = true; };
+  }, [userId, updateSaveSlots]);
+
+  // Persist progress once it has been loaded for this user
+  useEffect(() => {
+    if (!userId || loadedUserId !== userId) return;
+    const serialized = JSON.stringify(progress);
+    if (serialized === lastSavedProgressRef.current) return;
+    lastSavedProgressRef.current = serialized;
+    saveGameProgress(userId, progress).catch(error =>
+        console.error('[Saves] Failed to save progress:', error)
+    );
+  }, [progress, userId, loadedUserId]);
+
+  // Autosave at the start of every scene. Saving only here (not mid-scene) means a
+  // resumed run never re-applies the resource changes of a choice already made.
+  useEffect(() => {
+    const activeSlot = activeSlotRef.current;
+    if (!userId || !activeSlot || !gameState.currentScene || gameState.isGameOver) return;
+    if (gameState.currentScene === lastSavedSceneRef.current) return;
+    lastSavedSceneRef.current = gameState.currentScene;
+
+    const updatedSlot: SaveSlot = {
+        ...activeSlot,
+        gameState,
+        scenesPlayed: activeSlot.scenesPlayed + 1,
+        updatedAt: Date.now(),
+    };
+    activeSlotRef.current = updatedSlot;
+    const slots = [updatedSlot, ...saveSlotsRef.current.filter(slot => slot.slotId !== updatedSlot.slotId)];
+    updateSaveSlots(slots);
+    saveSlot(userId, updatedSlot, slots).catch(error =>
+        console.error('[Saves] Failed to save game:', error)
+    );
+  }, [gameState, userId, updateSaveSlots]);
+
+  const removeSaveSlot = useCallback((slotId: string) => {
+    const slots = markSlotDeleted(saveSlotsRef.current, slotId);
+    updateSaveSlots(slots);
+    if (userId) {
+        deleteSlot(userId, slotId, slots).catch(error =>
+            console.error('[Saves] Failed to delete save:', error)
+        );
+    }
+  }, [userId, updateSaveSlots]);
+
+  // A finished run (game over) no longer has anything to continue
+  useEffect(() => {
+    if (gameState.isGameOver && activeSlotRef.current) {
+        removeSaveSlot(activeSlotRef.current.slotId);
+        activeSlotRef.current = null;
+    }
+  }, [gameState.isGameOver, removeSaveSlot]);
+
   const startNewJourney = useCallback((journeyId: string) => {
-    setGameState({
+    const journey = getJourney(journeyId);
+    const newGameState: GameState = {
         currentJourneyId: journeyId,
         currentScene: null, // This will be set by the GameView after fetching
-        resources: INITIAL_RESOURCES,
+        resources: journey ? getStartingResources(journey) : INITIAL_RESOURCES,
         isGameOver: false,
         gameOverReason: '',
-    });
+        storyRunId: `run_${journeyId}_${Date.now().toString(36)}`,
+    };
+    activeSlotRef.current = createSaveSlot(saveSlotsRef.current, journeyId, newGameState);
+    lastSavedSceneRef.current = null;
+    setGameState(newGameState);
+  }, [getJourney]);
+
+  const continueJourney = useCallback((slotId: string) => {
+    const slot = saveSlotsRef.current.find(s => s.slotId === slotId && !s.deletedAt);
+    if (!slot) return;
+    activeSlotRef.current = slot;
+    lastSavedSceneRef.current = slot.gameState.currentScene;
+    setGameState(slot.gameState);
   }, []);
 
+  const jumpToScene = useCallback((scene: Scene, resources: Resources, choicesMade: number, firedEventIds?: string[]) => {
+    // A run that had ended lost its slot, so jumping back into it needs a new one
+    if (!activeSlotRef.current && gameState.currentJourneyId) {
+        activeSlotRef.current = createSaveSlot(saveSlotsRef.current, gameState.currentJourneyId, gameState);
+    }
+    // Runs saved before nodes kept their fired events keep the current ones
+    setGameState(prev => ({
+        ...prev,
+        currentScene: scene,
+        resources,
+        choicesMade,
+        firedEventIds: firedEventIds ?? prev.firedEventIds,
+        isGameOver: false,
+        gameOverReason: '',
+        hasWon: false,
+    }));
+  }, [gameState]);
+
   const generateAndStartJourney = useCallback(async (journey: Journey) => {
     if (!user) {
         setVideoGenerationError("You must be logged in to generate a video intro.");
@@ -111,24 +251,18 @@ export const ProgressProvider: React.FC<{ children: ReactNode }> = ({ children }
   }, []);
 
   const applyResourceChanges = useCallback((changes: Partial<Resources>) => {
-      setGameState(prev => {
-          const newResources = { ...prev.resources };
-          for (const key in changes) {
-              const resource = key as keyof Resources;
-              const currentValue = newResources[resource] || 0;
-              const changeValue = changes[resource] || 0;
-              // Cap resources at 100, with a floor of 0
-              newResources[resource] = Math.max(0, Math.min(100, currentValue + changeValue));
-          }
-          return { ...prev, resources: newResources };
-      });
+      // Clamp to the journey's limits (0-100 by default)
+      setGameState(prev => ({
+          ...prev,
+          resources: applyResourceDeltas(prev.resources, changes, getResourceLimits(getJourney(prev.currentJourneyId))),
+      }));
       // Add XP for making a choice
       setProgress(prev => {
         const newXp = prev.xp + 25;
         const newLevel = Math.floor(newXp / 100) + 1;
         return {...prev, xp: newXp, level: newLevel };
       });
-  }, []);
+  }, [getJourney]);
 
   const endJourney = useCallback(() => {
     if(gameState.currentJourneyId) {
@@ -142,10 +276,13 @@ export const ProgressProvider: React.FC<{ children: ReactNode }> = ({ children }
             }
         }));
     }
+    // An unfinished run stays in its slot (saved at the start of the current scene)
+    activeSlotRef.current = null;
     setGameState(initialGameState);
   }, [gameState.currentJourneyId]);
 
   const resetProgress = useCallback(() => {
+    activeSlotRef.current = null;
     setProgress(initialProgress);
     setGameState(initialGameState);
   }, []);
@@ -159,6 +296,10 @@ export const ProgressProvider: React.FC<{ children: ReactNode }> = ({ children }
         applyResourceChanges, 
         endJourney, 
         resetProgress,
+        saveSlots,
+        continueJourney,
+        deleteSaveSlot: removeSaveSlot,
+        jumpToScene,
         isVideoGenerating,
         generatedVideoUrl,
         videoGenerationError,
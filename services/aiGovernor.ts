@@ -0,0 +1,495 @@
+// services/aiGovernor.ts
+
+/**
+ * AI Governor
+ *
+ * Single gate for every model call in the app (text, JSON, video and TTS).
+ * It owns rate limiting, concurrency, retries and the circuit breaker so the
+ * individual services don't each invent their own:
+ *
+ * - Per-model token buckets (requests per minute)
+ * - A global concurrency cap plus an optional per-model cap
+ * - Priorities: live gameplay ('interactive') runs before 'normal' work,
+ *   which runs before prefetching ('background')
+ * - Retries with exponential backoff on transient errors (429 / 503)
+ * - A per-model circuit breaker. Quota errors ("limit: 0") keep it open for
+ *   the rest of the session; otherwise it lets a trial call through once its
+ *   cooldown ends.
+ * - Events the UI can subscribe to (e.g. "rate limited, retrying in 8s")
+ */
+
+export type AIPriority = 'interactive' | 'normal' | 'background';
+
+export interface ModelLimits {
+  requestsPerMinute: number;
+  maxConcurrent?: number;
+}
+
+export type AIGovernorEventType =
+  | 'queued'
+  | 'started'
+  | 'retrying'
+  | 'succeeded'
+  | 'failed'
+  | 'circuit-open'
+  | 'circuit-half-open'
+  | 'circuit-closed';
+
+export interface AIGovernorStatus {
+  queued: number;
+  active: number;
+  retrying: number;
+  /** Earliest time (ms since epoch) any model is allowed to call again, if throttled */
+  rateLimitedUntil: number | null;
+  openCircuits: string[];
+}
+
+export interface AIGovernorEvent {
+  type: AIGovernorEventType;
+  model: string;
+  task?: string;
+  priority?: AIPriority;
+  attempt?: number;
+  retryInMs?: number;
+  error?: string;
+  status: AIGovernorStatus;
+}
+
+export type AIGovernorListener = (event: AIGovernorEvent) => void;
+
+export interface GovernedCall {
+  model: string;
+  task: string;
+  priority?: AIPriority;
+  signal?: AbortSignal;
+}
+
+/** Model key used for all speech synthesis, whichever TTS backend serves it */
+export const TTS_MODEL = 'tts';
+
+const MODEL_LIMITS: Record<string, ModelLimits> = {
+  'gemini-2.5-flash': { requestsPerMinute: 10 },
+  'veo-3.1-fast-generate-preview': { requestsPerMinute: 2, maxConcurrent: 1 },
+  'imagen-4.0-generate-001': { requestsPerMinute: 5, maxConcurrent: 1 },
+  // Matches the old TTS queue: one request at a time, ~10 per minute
+  [TTS_MODEL]: { requestsPerMinute: 10, maxConcurrent: 1 },
+};
+const DEFAULT_LIMITS: ModelLimits = { requestsPerMinute: 10 };
+
+const MAX_CONCURRENT = 4;
+const MAX_RETRIES = 3;
+const INITIAL_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 60000;
+const CIRCUIT_FAILURE_THRESHOLD = 5;
+const CIRCUIT_COOLDOWN_MS = 30000;
+
+const PRIORITY_ORDER: Record<AIPriority, number> = {
+  interactive: 0,
+  normal: 1,
+  background: 2,
+};
+
+interface ModelState {
+  limits: ModelLimits;
+  tokens: number;
+  lastRefill: number;
+  blockedUntil: number;
+  active: number;
+  consecutiveFailures: number;
+  circuit: 'closed' | 'open' | 'half-open';
+  circuitOpenUntil: number; // Infinity when permanently open
+  circuitTimer: ReturnType<typeof setTimeout> | null; // Fires when the cooldown ends
+}
+
+interface Job {
+  call: GovernedCall;
+  fn: () => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (reason?: any) => void;
+  attempt: number;
+  notBefore: number;
+  seq: number;
+}
+
+/**
+ * Errors worth retrying: rate limits and temporary unavailability
+ */
+export function isTransientAIError(error: any): boolean {
+  const message = (error?.toString() ?? '').toLowerCase();
+  return message.includes('429')
+    || message.includes('503')
+    || message.includes('resource_exhausted')
+    || message.includes('unavailable')
+    || message.includes('rate limit');
+}
+
+/**
+ * The error an aborted call rejects with
+ */
+export function abortError(signal: AbortSignal): Error {
+  return signal.reason instanceof Error ? signal.reason : new DOMException('The operation was aborted.', 'AbortError');
+}
+
+export const isAbortError = (error: any): boolean => error?.name === 'AbortError';
+
+/**
+ * Quota errors that won't clear up by waiting (free tier with no allowance)
+ */
+export function isQuotaExhaustedError(error: any): boolean {
+  const message = (error?.toString() ?? '').toLowerCase();
+  return message.includes('limit: 0');
+}
+
+/**
+ * Reads the server's suggested delay ("Please retry in 12.3s" / "retryDelay": "12s"), if any
+ */
+function getSuggestedRetryMs(error: any): number | null {
+  const message = error?.toString() ?? '';
+  const match = message.match(/retry in ([\d.]+)\s*s/i) || message.match(/"retryDelay"\s*:\s*"([\d.]+)s"/i);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : null;
+}
+
+class AIGovernor {
+  private models = new Map<string, ModelState>();
+  private queue: Job[] = [];
+  private listeners = new Set<AIGovernorListener>();
+  private active = 0;
+  private seq = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Overrides the limits for a model (e.g. on a paid tier)
+   */
+  configureModel(model: string, limits: ModelLimits): void {
+    const state = this.getModel(model);
+    state.limits = limits;
+    state.tokens = Math.min(state.tokens, limits.requestsPerMinute);
+    this.pump();
+  }
+
+  /**
+   * Runs a model call under the governor's limits. Resolves or rejects with
+   * the call's own result once it succeeds or retries are exhausted.
+   */
+  run<T>(call: GovernedCall, fn: () => Promise<T>): Promise<T> {
+    if (call.signal?.aborted) {
+      return Promise.reject(abortError(call.signal));
+    }
+    const state = this.getModel(call.model);
+    const circuitError = this.checkCircuit(call.model, state);
+    if (circuitError) {
+      return Promise.reject(circuitError);
+    }
+
+    let onAbort: (() => void) | undefined;
+    return new Promise<T>((resolve, reject) => {
+      const job: Job = {
+        call: { ...call, priority: call.priority || 'normal' },
+        fn,
+        resolve,
+        reject,
+        attempt: 1,
+        notBefore: 0,
+        seq: this.seq++,
+      };
+      // An aborted call still waiting (or waiting to retry) leaves the queue at once
+      onAbort = () => {
+        const index = this.queue.indexOf(job);
+        if (index === -1) return;
+        this.queue.splice(index, 1);
+        this.finish(job, abortError(call.signal!));
+        this.pump();
+      };
+      call.signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(job);
+      this.emit('queued', job.call);
+      this.pump();
+    }).finally(() => {
+      // Long-lived signals (e.g. a whole material job) would otherwise keep every call's listener
+      if (onAbort) call.signal?.removeEventListener('abort', onAbort);
+    });
+  }
+
+  /**
+   * Subscribes to governor events. Returns an unsubscribe function.
+   */
+  subscribe(listener: AIGovernorListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getStatus(): AIGovernorStatus {
+    const now = Date.now();
+    let rateLimitedUntil: number | null = null;
+    const openCircuits: string[] = [];
+
+    this.models.forEach((state, model) => {
+      if (state.blockedUntil > now) {
+        rateLimitedUntil = rateLimitedUntil === null ? state.blockedUntil : Math.min(rateLimitedUntil, state.blockedUntil);
+      }
+      if (this.isCircuitOpen(state, now)) {
+        openCircuits.push(model);
+      }
+    });
+
+    return {
+      queued: this.queue.length,
+      active: this.active,
+      retrying: this.queue.filter(job => job.attempt > 1).length,
+      rateLimitedUntil,
+      openCircuits,
+    };
+  }
+
+  /**
+   * Closes every circuit and clears throttling (e.g. after the user fixes billing)
+   */
+  reset(): void {
+    this.models.forEach((state, model) => {
+      const wasOpen = state.circuit !== 'closed';
+      this.clearCircuitTimer(state);
+      state.circuit = 'closed';
+      state.circuitOpenUntil = 0;
+      state.consecutiveFailures = 0;
+      state.blockedUntil = 0;
+      if (wasOpen) this.emit('circuit-closed', { model, task: '' });
+    });
+    this.pump();
+  }
+
+  private getModel(model: string): ModelState {
+    let state = this.models.get(model);
+    if (!state) {
+      const limits = MODEL_LIMITS[model] || DEFAULT_LIMITS;
+      state = {
+        limits,
+        tokens: limits.requestsPerMinute,
+        lastRefill: Date.now(),
+        blockedUntil: 0,
+        active: 0,
+        consecutiveFailures: 0,
+        circuit: 'closed',
+        circuitOpenUntil: 0,
+        circuitTimer: null,
+      };
+      this.models.set(model, state);
+    }
+    return state;
+  }
+
+  private refill(state: ModelState, now: number): void {
+    const perMs = state.limits.requestsPerMinute / 60000;
+    state.tokens = Math.min(state.limits.requestsPerMinute, state.tokens + (now - state.lastRefill) * perMs);
+    state.lastRefill = now;
+  }
+
+  /**
+   * Whether the model's circuit is open and still cooling down. Read-only, unlike checkCircuit.
+   */
+  private isCircuitOpen(state: ModelState, now: number): boolean {
+    return state.circuit === 'open' && now < state.circuitOpenUntil;
+  }
+
+  /**
+   * Returns an error if the model's circuit is open, moving it to half-open once the cooldown passes
+   */
+  private checkCircuit(model: string, state: ModelState): Error | null {
+    if (state.circuit !== 'open') return null;
+    if (Date.now() >= state.circuitOpenUntil) {
+      state.circuit = 'half-open';
+      return null;
+    }
+    return state.circuitOpenUntil === Infinity
+      ? new Error(`AI quota for ${model} is exhausted. Please check your plan and billing details.`)
+      : new Error(`AI model ${model} is temporarily unavailable. Please try again shortly.`);
+  }
+
+  /**
+   * How long until this job may start (0 = now)
+   */
+  private waitFor(job: Job, now: number): number {
+    const state = this.getModel(job.call.model);
+    if (state.limits.maxConcurrent && state.active >= state.limits.maxConcurrent) return Infinity;
+    // Half-open circuits let a single trial call through
+    if (state.circuit === 'half-open' && state.active > 0) return Infinity;
+
+    this.refill(state, now);
+    const perMs = state.limits.requestsPerMinute / 60000;
+    const tokenWait = state.tokens >= 1 ? 0 : Math.ceil((1 - state.tokens) / perMs);
+    return Math.max(job.notBefore - now, state.blockedUntil - now, tokenWait, 0);
+  }
+
+  private pump(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const now = Date.now();
+    this.queue.sort((a, b) =>
+      PRIORITY_ORDER[a.call.priority] - PRIORITY_ORDER[b.call.priority] || a.seq - b.seq
+    );
+
+    let nextWake = Infinity;
+    for (let i = 0; i < this.queue.length && this.active < MAX_CONCURRENT; ) {
+      const job = this.queue[i];
+      const state = this.getModel(job.call.model);
+
+      const circuitError = this.checkCircuit(job.call.model, state);
+      if (circuitError) {
+        this.queue.splice(i, 1);
+        this.finish(job, circuitError);
+        continue;
+      }
+
+      const wait = this.waitFor(job, now);
+      if (wait > 0) {
+        nextWake = Math.min(nextWake, wait);
+        i++;
+        continue;
+      }
+
+      this.queue.splice(i, 1);
+      state.tokens -= 1;
+      this.start(job, state);
+    }
+
+    if (nextWake !== Infinity && this.queue.length > 0) {
+      this.timer = setTimeout(() => this.pump(), nextWake);
+    }
+  }
+
+  private async start(job: Job, state: ModelState): Promise<void> {
+    this.active++;
+    state.active++;
+    this.emit('started', job.call, { attempt: job.attempt });
+
+    try {
+      const value = await job.fn();
+      this.active--;
+      state.active--;
+      this.recordSuccess(job.call.model, state);
+      job.resolve(value);
+      this.emit('succeeded', job.call, { attempt: job.attempt });
+    } catch (error: any) {
+      this.active--;
+      state.active--;
+      this.handleFailure(job, state, error);
+    }
+
+    this.pump();
+  }
+
+  private handleFailure(job: Job, state: ModelState, error: any): void {
+    const model = job.call.model;
+
+    if (isQuotaExhaustedError(error)) {
+      console.error(`[AI] Unrecoverable quota error for ${model}. Calls to this model are disabled for this session.`, error);
+      this.openCircuit(model, state, Infinity);
+      this.finish(job, error);
+      return;
+    }
+
+    if (job.call.signal?.aborted || !isTransientAIError(error)) {
+      this.finish(job, error);
+      return;
+    }
+
+    state.consecutiveFailures++;
+    if (state.circuit === 'half-open' || state.consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD) {
+      this.openCircuit(model, state, Date.now() + CIRCUIT_COOLDOWN_MS);
+      this.finish(job, error);
+      return;
+    }
+
+    if (job.attempt >= MAX_RETRIES) {
+      this.finish(job, error);
+      return;
+    }
+
+    const suggested = getSuggestedRetryMs(error);
+    const backoff = INITIAL_BACKOFF_MS * Math.pow(2, job.attempt - 1) + Math.random() * 1000;
+    const delay = Math.min(MAX_BACKOFF_MS, suggested ?? backoff);
+
+    // A rate limit applies to the whole model, not just this call
+    const retryAt = Date.now() + delay;
+    state.tokens = 0;
+    state.blockedUntil = Math.max(state.blockedUntil, retryAt);
+
+    console.warn(`[AI] ${job.call.task} hit a transient error on ${model}. Retrying in ${delay.toFixed(0)}ms... (Attempt ${job.attempt}/${MAX_RETRIES})`);
+
+    job.attempt++;
+    job.notBefore = retryAt;
+    this.queue.push(job);
+    this.emit('retrying', job.call, { attempt: job.attempt, retryInMs: delay, error: error?.message });
+  }
+
+  private recordSuccess(model: string, state: ModelState): void {
+    state.consecutiveFailures = 0;
+    if (state.circuit !== 'closed') {
+      this.clearCircuitTimer(state);
+      state.circuit = 'closed';
+      state.circuitOpenUntil = 0;
+      this.emit('circuit-closed', { model, task: '' });
+    }
+  }
+
+  private openCircuit(model: string, state: ModelState, until: number): void {
+    this.clearCircuitTimer(state);
+    state.circuit = 'open';
+    state.circuitOpenUntil = until;
+    state.consecutiveFailures = 0;
+    this.emit('circuit-open', { model, task: '' }, {
+      retryInMs: until === Infinity ? undefined : until - Date.now(),
+    });
+
+    // Nothing may call the model once the cooldown ends, so report the change then
+    if (until !== Infinity) {
+      state.circuitTimer = setTimeout(() => {
+        state.circuitTimer = null;
+        if (this.checkCircuit(model, state)) return;
+        this.emit('circuit-half-open', { model, task: '' });
+        this.pump();
+      }, until - Date.now());
+    }
+  }
+
+  private clearCircuitTimer(state: ModelState): void {
+    if (state.circuitTimer) {
+      clearTimeout(state.circuitTimer);
+      state.circuitTimer = null;
+    }
+  }
+
+  private finish(job: Job, error: any): void {
+    job.reject(error);
+    this.emit('failed', job.call, { attempt: job.attempt, error: error?.message });
+  }
+
+  private emit(
+    type: AIGovernorEventType,
+    call: GovernedCall,
+    details: Partial<Pick<AIGovernorEvent, 'attempt' | 'retryInMs' | 'error'>> = {}
+  ): void {
+    if (this.listeners.size === 0) return;
+    const event: AIGovernorEvent = {
+      type,
+      model: call.model,
+      task: call.task || undefined,
+      priority: call.priority,
+      ...details,
+      status: this.getStatus(),
+    };
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.warn('[AI] Governor listener failed:', error);
+      }
+    });
+  }
+}
+
+export const aiGovernor = new AIGovernor();
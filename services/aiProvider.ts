@@ -0,0 +1,89 @@
+// services/aiProvider.ts
+
+import type { AIPriority } from './aiGovernor';
+
+/**
+ * AI Provider contract
+ *
+ * Every generator in the app talks to a model through this interface (via
+ * aiService), never through an SDK client directly. Swapping the provider
+ * swaps the backend for the whole app.
+ */
+
+export const DEFAULT_TEXT_MODEL = 'gemini-2.5-flash';
+export const DEFAULT_VIDEO_MODEL = 'veo-3.1-fast-generate-preview';
+export const DEFAULT_IMAGE_MODEL = 'imagen-4.0-generate-001';
+
+/**
+ * A single piece of multimodal input
+ */
+export interface AIContentPart {
+  text?: string;
+  inlineData?: {
+    data: string; // base64
+    mimeType: string;
+  };
+}
+
+/**
+ * Request for text or JSON content
+ */
+export interface AIGenerateRequest {
+  task: string; // Stable generator name, e.g. 'journey.outcome'
+  contents: string | AIContentPart[];
+  model?: string;
+  responseMimeType?: 'application/json' | 'text/plain';
+  responseSchema?: object;
+  priority?: AIPriority; // Defaults to 'normal'; live gameplay uses 'interactive'
+  signal?: AbortSignal; // Aborting drops the call from the queue or stops it in flight
+}
+
+export interface AIGenerateResult {
+  text: string;
+}
+
+/**
+ * Request for a short generated video
+ */
+export interface AIVideoRequest {
+  task: string;
+  prompt: string;
+  model?: string;
+  priority?: AIPriority;
+}
+
+/**
+ * Request for a single generated image
+ */
+export interface AIImageRequest {
+  task: string;
+  prompt: string;
+  model?: string;
+  aspectRatio?: '1:1' | '4:3' | '16:9';
+  priority?: AIPriority;
+}
+
+export interface AIImageResult {
+  data: string; // base64
+  mimeType: string;
+}
+
+export interface AIProvider {
+  readonly name: string;
+  generateContent(request: AIGenerateRequest): Promise<AIGenerateResult>;
+  /**
+   * Generates a video and resolves with its download URI
+   */
+  generateVideo(request: AIVideoRequest): Promise<string>;
+  generateImage(request: AIImageRequest): Promise<AIImageResult>;
+}
+
+/**
+ * Flattens request contents into plain text (used for hashing and fixtures)
+ */
+export function contentsToText(contents: string | AIContentPart[]): string {
+  if (typeof contents === 'string') return contents;
+  return contents
+    .map(part => part.text ?? (part.inlineData ? `[${part.inlineData.mimeType}:${part.inlineData.data.length}]` : ''))
+    .join('\n');
+}
@@ -0,0 +1,70 @@
+// services/aiService.test.ts
+
+import { afterEach, describe, expect, it } from 'vitest';
+import { AIGenerateRequest, AIProvider, contentsToText } from './aiProvider';
+import { generateJson, generateStructured, generateText, setAIProvider } from './aiService';
+import { FixtureProvider } from './fixtureProvider';
+import { validateJourneyStructure } from './outputValidators';
+
+/**
+ * A provider that answers with the given texts in turn and keeps every request
+ */
+function scriptedProvider(...responses: string[]): AIProvider & { requests: AIGenerateRequest[] } {
+  const requests: AIGenerateRequest[] = [];
+  return {
+    name: 'scripted',
+    requests,
+    async generateContent(request) {
+      requests.push(request);
+      return { text: responses[Math.min(requests.length, responses.length) - 1] };
+    },
+    async generateVideo() {
+      throw new Error('No video');
+    },
+    async generateImage() {
+      throw new Error('No images');
+    },
+  };
+}
+
+afterEach(() => setAIProvider(null));
+
+describe('aiService', () => {
+  it('sends every call to the active provider', async () => {
+    setAIProvider(new FixtureProvider());
+    expect(await generateText({ task: 'tutor.hint', contents: 'Why 1789?' })).toBe('Look back at the causes you studied in the last step.');
+    expect(await generateJson({ task: 'journey.structure', contents: '' })).toMatchObject({ sceneCount: 3 });
+  });
+
+  it('asks for JSON for structured output', async () => {
+    const provider = scriptedProvider('{"sceneCount": 4, "structure": "Four scenes"}');
+    setAIProvider(provider);
+    await generateStructured({ task: 'journey.structure', contents: 'Plan a journey' }, validateJourneyStructure);
+    expect(provider.requests[0].responseMimeType).toBe('application/json');
+  });
+
+  describe('generateStructured', () => {
+    it('asks again with the validation errors until the output is valid', async () => {
+      const provider = scriptedProvider('not json', '[]', '{"sceneCount": 4, "structure": "Four scenes"}');
+      setAIProvider(provider);
+
+      const structure = await generateStructured({ task: 'journey.structure', contents: 'Plan a journey' }, validateJourneyStructure);
+
+      expect(structure).toEqual({ sceneCount: 4, structure: 'Four scenes' });
+      expect(provider.requests).toHaveLength(3);
+      expect(contentsToText(provider.requests[0].contents)).toBe('Plan a journey');
+      expect(contentsToText(provider.requests[1].contents)).toContain('- Response was not valid JSON');
+      expect(contentsToText(provider.requests[2].contents)).toMatch(/^Plan a journey\n\nYour previous response was rejected/);
+      expect(contentsToText(provider.requests[2].contents)).toContain('- JourneyStructure must be a JSON object');
+    });
+
+    it('gives up after three invalid responses', async () => {
+      const provider = scriptedProvider('[]');
+      setAIProvider(provider);
+
+      await expect(generateStructured({ task: 'journey.structure', contents: 'Plan a journey' }, validateJourneyStructure))
+        .rejects.toThrow('AI returned invalid journey.structure output: JourneyStructure must be a JSON object');
+      expect(provider.requests).toHaveLength(3);
+    });
+  });
+});
@@ -1,15 +1,167 @@
 /**
  * AI Service - Handles AI content generation
  * 
- * This service abstracts the AI provider (Gemini, OpenAI, etc.) and provides
- * a unified interface for generating different types of content.
+ * This service abstracts the AI provider (Gemini, offline fixtures, etc.) and provides
+ * a unified interface for generating different types of content. Every generator in
+ * the app goes through generateText / generateJson / generateStructured / generateVideo / generateImage below,
+ * and every provider call is scheduled by the AI governor (rate limits, retries, priorities).
  */
 
-import { GoogleGenAI, GenerateContentResponse, Modality } from '@google/genai';
+import {
+  AIProvider,
+  AIGenerateRequest,
+  AIGenerateResult,
+  AIImageRequest,
+  AIImageResult,
+  AIVideoRequest,
+  DEFAULT_IMAGE_MODEL,
+  DEFAULT_TEXT_MODEL,
+  DEFAULT_VIDEO_MODEL,
+} from './aiProvider';
+import { aiGovernor } from './aiGovernor';
+import { GeminiProvider } from './geminiProvider';
+import { FixtureProvider } from './fixtureProvider';
+import { Validator, parseModelJson } from './outputValidators';
 
-// Initialize AI client
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
-const model = 'gemini-2.5-flash';
+let activeProvider: AIProvider | null = null;
+
+/**
+ * Creates the provider selected by AI_PROVIDER ('gemini' | 'fixture').
+ * Fixtures are opt-in only: without an API key Gemini is still used, and its
+ * calls fail with a missing-key error.
+ */
+function createDefaultProvider(): AIProvider {
+  const apiKey = process.env.API_KEY || process.env.GEMINI_API_KEY || '';
+
+  if (process.env.AI_PROVIDER === 'fixture') {
+    console.warn('[AI] AI_PROVIDER=fixture. Using offline fixture provider.');
+    return new FixtureProvider();
+  }
+  if (!apiKey) {
+    console.warn('[AI] No GEMINI_API_KEY configured. Set AI_PROVIDER=fixture to work offline.');
+  }
+  return new GeminiProvider(apiKey);
+}
+
+/**
+ * Returns the active AI provider
+ */
+export function getAIProvider(): AIProvider {
+  if (!activeProvider) {
+    activeProvider = createDefaultProvider();
+  }
+  return activeProvider;
+}
+
+/**
+ * Replaces the active AI provider (pass null to restore the default)
+ */
+export function setAIProvider(provider: AIProvider | null): void {
+  activeProvider = provider;
+}
+
+/**
+ * Sends a single content request to the active provider through the governor
+ */
+function governedGenerate(request: AIGenerateRequest): Promise<AIGenerateResult> {
+  return aiGovernor.run(
+    { model: request.model || DEFAULT_TEXT_MODEL, task: request.task, priority: request.priority, signal: request.signal },
+    () => getAIProvider().generateContent(request)
+  );
+}
+
+/**
+ * Generates plain text
+ */
+export async function generateText(request: AIGenerateRequest): Promise<string> {
+  const result = await governedGenerate(request);
+  return result.text;
+}
+
+/**
+ * Generates JSON content and parses it
+ */
+export async function generateJson<T>(request: Omit<AIGenerateRequest, 'responseMimeType'>): Promise<T> {
+  const result = await governedGenerate({
+    ...request,
+    responseMimeType: 'application/json',
+  });
+  const parsed = parseModelJson(result.text);
+  if (parsed === undefined) {
+    throw new Error(`AI returned invalid JSON for ${request.task}`);
+  }
+  return parsed as T;
+}
+
+const MAX_STRUCTURED_ATTEMPTS = 3;
+
+/**
+ * Generates JSON content and validates it at runtime.
+ *
+ * Unparseable or invalid output is re-requested (with the validation errors fed
+ * back to the model) up to MAX_STRUCTURED_ATTEMPTS times. Throws if no attempt
+ * produces a valid value, so callers can fall back instead of casting.
+ */
+export async function generateStructured<T>(
+  request: Omit<AIGenerateRequest, 'responseMimeType'>,
+  validate: Validator<T>
+): Promise<T> {
+  let errors: string[] = [];
+
+  for (let attempt = 1; attempt <= MAX_STRUCTURED_ATTEMPTS; attempt++) {
+    const contents = attempt === 1 || typeof request.contents !== 'string'
+      ? request.contents
+      : `${request.contents}
+
+Your previous response was rejected for these reasons:
+${errors.map(e => `- ${e}`).join('\n')}
+Respond again with a single valid JSON value that fixes them.`;
+
+    const result = await governedGenerate({
+      ...request,
+      contents,
+      responseMimeType: 'application/json',
+    });
+
+    const parsed = parseModelJson(result.text);
+    if (parsed === undefined) {
+      errors = ['Response was not valid JSON'];
+    } else {
+      const validation = validate(parsed);
+      if (validation.ok) {
+        if (validation.repaired) {
+          console.warn(`[AI] Repaired malformed output for ${request.task}`);
+        }
+        return validation.value;
+      }
+      errors = validation.errors;
+    }
+
+    console.warn(`[AI] Invalid output for ${request.task} (attempt ${attempt}/${MAX_STRUCTURED_ATTEMPTS}):`, errors);
+  }
+
+  throw new Error(`AI returned invalid ${request.task} output: ${errors.join('; ')}`);
+}
+
+/**
+ * Generates a video and returns its download URI
+ */
+export async function generateVideo(request: AIVideoRequest): Promise<string> {
+  return aiGovernor.run(
+    { model: request.model || DEFAULT_VIDEO_MODEL, task: request.task, priority: request.priority },
+    () => getAIProvider().generateVideo(request)
+  );
+}
+
+/**
+ * Generates an image and returns its bytes as base64
+ */
+export async function generateImage(request: AIImageRequest): Promise<AIImageResult> {
+  return aiGovernor.run(
+    { model: request.model || DEFAULT_IMAGE_MODEL, task: request.task, priority: request.priority },
+    () => getAIProvider().generateImage(request)
+  );
+}
 
 /**
  * Response structure from AI generation
@@ -40,7 +192,7 @@ export async function generateAIResponse(
         return await generateExplanation(prompt, topic);
       
       case 'video':
-        return await generateVideo(prompt, topic, userId);
+        return await generateVideoResponse(prompt, topic, userId);
       
       case 'quiz':
         return await generateQuiz(prompt, topic);
@@ -49,11 +201,11 @@ export async function generateAIResponse(
         return await generateQuestion(prompt, topic);
       
       case 'image':
-        return await generateImage(prompt, topic);
+        return await generateImageResponse(prompt, topic);
       
       case 'text':
       default:
-        return await generateText(prompt, topic);
+        return await generateTextResponse(prompt, topic);
     }
   } catch (error) {
     console.error(`AI generation failed for ${type}:`, error);
@@ -71,33 +223,33 @@ Context: ${topic}
   
 Format your response as a well-structured explanation suitable for students learning about this topic.`;
 
-  const response = await ai.models.generateContent({
-    model: model,
+  const text = await generateText({
+    task: 'ai.explanation',
     contents: enhancedPrompt,
   });
 
   return {
-    text: response.text,
+    text,
   };
 }
 
 /**
  * Generate text content (general purpose)
  */
-async function generateText(prompt: string, topic: string): Promise<AIResponse> {
+async function generateTextResponse(prompt: string, topic: string): Promise<AIResponse> {
   const enhancedPrompt = `Context: ${topic}
 
 ${prompt}
 
 Provide a clear, informative response.`;
 
-  const response = await ai.models.generateContent({
-    model: model,
+  const text = await generateText({
+    task: 'ai.text',
     contents: enhancedPrompt,
   });
 
   return {
-    text: response.text,
+    text,
   };
 }
 
@@ -111,14 +263,14 @@ Topic: ${topic}
 
 Format as a multiple-choice question with one correct answer and 3 distractors.`;
 
-  const response = await ai.models.generateContent({
-    model: model,
+  const text = await generateText({
+    task: 'ai.quiz',
     contents: enhancedPrompt,
-    config: { responseMimeType: 'application/json' },
+    responseMimeType: 'application/json',
   });
 
   return {
-    text: response.text,
+    text,
   };
 }
 
@@ -128,20 +280,20 @@ Format as a multiple-choice question with one correct answer and 3 distractors.`
 async function generateQuestion(prompt: string, topic: string): Promise<AIResponse> {
   const enhancedPrompt = `Based on the topic "${topic}", generate a thoughtful question about: ${prompt}`;
 
-  const response = await ai.models.generateContent({
-    model: model,
+  const text = await generateText({
+    task: 'ai.question',
     contents: enhancedPrompt,
   });
 
   return {
-    text: response.text,
+    text,
   };
 }
 
 /**
  * Generate an image (placeholder - would use image generation API)
  */
-async function generateImage(prompt: string, topic: string): Promise<AIResponse> {
+async function generateImageResponse(prompt: string, topic: string): Promise<AIResponse> {
   // Placeholder - in production, this would call an image generation API
   // For now, return text describing the image that would be generated
   const enhancedPrompt = `Generate a detailed image description for: ${prompt}
@@ -150,15 +302,15 @@ Topic: ${topic}
   
 The image should be historically accurate and visually engaging.`;
 
-  const response = await ai.models.generateContent({
-    model: model,
+  const text = await generateText({
+    task: 'ai.image',
     contents: enhancedPrompt,
   });
 
   // In production, you would generate an actual image URL here
   // For now, we'll return the description as text
   return {
-    text: response.text,
+    text,
     imageUrl: undefined, // Would be set to actual image URL in production
   };
 }
@@ -167,26 +319,17 @@ The image should be historically accurate and visually engaging.`;
  * Generate a video (uses existing video generation from geminiService)
  * Note: This requires a userId, so we'll need to pass it through
  */
-async function generateVideo(prompt: string, topic: string, userId?: string): Promise<AIResponse> {
+async function generateVideoResponse(prompt: string, topic: string, userId?: string): Promise<AIResponse> {
   // Import the existing video generation function
   // For now, we'll use a simplified version
   try {
-    const genAI = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
     const videoPrompt = `Cinematic intro video. Theme: "${topic}". ${prompt}. Epic, realistic, historical, 4k.`;
     
     // This is a simplified version - in production, use the full generateJourneyIntroVideo from geminiService
-    let operation = await genAI.models.generateVideos({
-      model: 'veo-3.1-fast-generate-preview',
+    const downloadLink = await generateVideo({
+      task: 'ai.video',
       prompt: videoPrompt,
-      config: { numberOfVideos: 1, resolution: '720p', aspectRatio: '16:9' }
     });
-
-    while (!operation.done) {
-      await new Promise(resolve => setTimeout(resolve, 10000));
-      operation = await genAI.operations.getVideosOperation({ operation: operation });
-    }
-
-    const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
     
     return {
       text: `Video generated for: ${prompt}`,
@@ -0,0 +1,121 @@
+// services/answerScoring.test.ts
+
+import { describe, expect, it } from 'vitest';
+import {
+  FillInTheBlankQuestion,
+  MatchingQuestion,
+  OrderingQuestion,
+  QuestionType,
+  ShortExplanationQuestion,
+} from '../types';
+import {
+  scoreFillInTheBlank,
+  scoreFromParts,
+  scoreMatching,
+  scoreOrdering,
+  scoreShortExplanation,
+  scoreSingleAnswer,
+} from './answerScoring';
+
+const FILL_IN: FillInTheBlankQuestion = {
+  type: QuestionType.FILL_IN_THE_BLANK,
+  questionText: 'The Bastille was stormed on 14 July ____.',
+  explanation: '',
+  correctAnswer: '1789',
+};
+
+const MATCHING: MatchingQuestion = {
+  type: QuestionType.MATCHING,
+  questionText: 'Match each person to their role.',
+  explanation: '',
+  prompts: [
+    { id: 'p1', text: 'Louis XVI' },
+    { id: 'p2', text: 'Robespierre' },
+    { id: 'p3', text: 'Marie Antoinette' },
+  ],
+  answers: [
+    { id: 'a1', text: 'King of France' },
+    { id: 'a2', text: 'Jacobin leader' },
+    { id: 'a3', text: 'Queen of France' },
+  ],
+  correctPairs: [
+    { promptId: 'p1', answerId: 'a1' },
+    { promptId: 'p2', answerId: 'a2' },
+    { promptId: 'p3', answerId: 'a3' },
+  ],
+};
+
+const ORDERING: OrderingQuestion = {
+  type: QuestionType.ORDERING,
+  questionText: 'Put the events in order.',
+  explanation: '',
+  items: [
+    { id: 'estates', text: 'The Estates-General meets' },
+    { id: 'oath', text: 'The Tennis Court Oath' },
+    { id: 'bastille', text: 'The storming of the Bastille' },
+    { id: 'rights', text: 'The Declaration of the Rights of Man' },
+  ],
+  correctOrder: ['estates', 'oath', 'bastille', 'rights'],
+};
+
+const SHORT_EXPLANATION: ShortExplanationQuestion = {
+  type: QuestionType.SHORT_EXPLANATION,
+  questionText: 'Why did Louis XVI call the Estates-General?',
+  explanation: '',
+  keyConcepts: ['Debt', 'Taxes'],
+};
+
+describe('scoreFromParts', () => {
+  it('scores the share of parts that are right, and only full marks as correct', () => {
+    const result = scoreFromParts([{ id: 'a', correct: true }, { id: 'b', correct: false }], 'response');
+    expect(result.score).toBe(0.5);
+    expect(result.isCorrect).toBe(false);
+    expect(result.response).toBe('response');
+  });
+
+  it('scores questions with no parts as 0', () => {
+    expect(scoreFromParts([], null)).toMatchObject({ score: 0, isCorrect: false });
+  });
+});
+
+describe('scoreSingleAnswer', () => {
+  it('is all or nothing', () => {
+    expect(scoreSingleAnswer('1789', true)).toMatchObject({ score: 1, isCorrect: true });
+    expect(scoreSingleAnswer('1776', false)).toMatchObject({ score: 0, isCorrect: false });
+  });
+});
+
+describe('scoreFillInTheBlank', () => {
+  it('ignores case and surrounding or repeated spaces', () => {
+    expect(scoreFillInTheBlank({ ...FILL_IN, correctAnswer: 'Louis  XVI' }, '  louis xvi ').isCorrect).toBe(true);
+    expect(scoreFillInTheBlank(FILL_IN, '1790').isCorrect).toBe(false);
+  });
+});
+
+describe('scoreMatching', () => {
+  it('gives one part per pair', () => {
+    const result = scoreMatching(MATCHING, { p1: 'a1', p2: 'a3', p3: null });
+    expect(result.score).toBeCloseTo(1 / 3);
+    expect(result.parts.map(part => part.correct)).toEqual([true, false, false]);
+  });
+});
+
+describe('scoreOrdering', () => {
+  it('gives full marks to the correct order', () => {
+    expect(scoreOrdering(ORDERING, ['estates', 'oath', 'bastille', 'rights'])).toMatchObject({ score: 1, isCorrect: true });
+  });
+
+  it('costs one item, not every later one, when one item is out of place', () => {
+    const result = scoreOrdering(ORDERING, ['oath', 'bastille', 'rights', 'estates']);
+    expect(result.score).toBe(0.75);
+    expect(result.parts.find(part => part.id === 'estates')?.correct).toBe(false);
+  });
+});
+
+describe('scoreShortExplanation', () => {
+  it('gives one part per key concept the evaluator found', () => {
+    const result = scoreShortExplanation(SHORT_EXPLANATION, 'France was deep in debt.', ['debt']);
+    expect(result.score).toBe(0.5);
+    expect(result.parts).toEqual([{ id: 'Debt', correct: true }, { id: 'Taxes', correct: false }]);
+  });
+});
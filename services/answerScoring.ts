@@ -0,0 +1,106 @@
+// services/answerScoring.ts
+
+import {
+  AnswerPart,
+  AnswerScore,
+  FillInTheBlankQuestion,
+  MatchingQuestion,
+  OrderingQuestion,
+  ShortExplanationQuestion,
+} from '../types';
+
+/**
+ * Partial-credit scoring for every question type
+ *
+ * A question is split into the parts it is marked on: one for single-answer
+ * questions, one per pair for matching, one per item for ordering and one per
+ * key concept for short explanations. The score is the share of parts the
+ * student got right, so 4 of 5 pairs scores 0.8 rather than 0. Only full
+ * marks count as correct. Every scorer is pure; the components call them and
+ * report the result through QuestionRenderer.
+ */
+
+const normalize = (text: string): string => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * The score for a set of marked parts. Questions with no parts score 0.
+ */
+export function scoreFromParts(parts: AnswerPart[], response: unknown): AnswerScore {
+  const correctCount = parts.filter(part => part.correct).length;
+  const score = parts.length > 0 ? correctCount / parts.length : 0;
+  return { score, isCorrect: parts.length > 0 && correctCount === parts.length, parts, response };
+}
+
+/**
+ * Multiple choice, true/false, cause and effect, image recognition and
+ * flashcards: one part, right or wrong
+ */
+export function scoreSingleAnswer<T>(response: T, correct: boolean): AnswerScore {
+  return scoreFromParts([{ id: 'answer', correct }], response);
+}
+
+export function scoreFillInTheBlank(question: FillInTheBlankQuestion, response: string): AnswerScore {
+  return scoreSingleAnswer(response, normalize(response) === normalize(question.correctAnswer));
+}
+
+/**
+ * One part per pair; `matches` maps prompt ids to the chosen answer ids
+ */
+export function scoreMatching(question: MatchingQuestion, matches: Record<string, string | null>): AnswerScore {
+  const parts = (question.correctPairs || []).map(pair => ({
+    id: pair.promptId,
+    correct: matches[pair.promptId] === pair.answerId,
+  }));
+  return scoreFromParts(parts, matches);
+}
+
+/**
+ * One part per item. An item is right when it is in the longest run of items
+ * (not necessarily adjacent) that is in the correct relative order, so moving
+ * one item to the wrong place costs one item, not every item after it.
+ */
+export function scoreOrdering(question: OrderingQuestion, order: string[]): AnswerScore {
+  const correctOrder = question.correctOrder || [];
+  const inOrder = longestCommonSubsequence(order, correctOrder);
+  const parts = correctOrder.map(id => ({ id, correct: inOrder.has(id) }));
+  return scoreFromParts(parts, order);
+}
+
+/**
+ * One part per key concept, right when the evaluator found it explained
+ */
+export function scoreShortExplanation(
+  question: ShortExplanationQuestion,
+  response: string,
+  coveredConcepts: string[]
+): AnswerScore {
+  const covered = new Set(coveredConcepts.map(normalize));
+  const parts = (question.keyConcepts || []).map(concept => ({ id: concept, correct: covered.has(normalize(concept)) }));
+  return scoreFromParts(parts, response);
+}
+
+function longestCommonSubsequence(a: string[], b: string[]): Set<string> {
+  // lengths[i][j]: the longest common subsequence of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const common = new Set<string>();
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      common.add(a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return common;
+}
@@ -0,0 +1,238 @@
+// services/attemptLogService.ts
+
+import { db, toFirestoreData } from './firebase';
+import {
+  collection,
+  doc,
+  addDoc,
+  setDoc,
+  getDocs,
+  getCountFromServer,
+  writeBatch,
+  query,
+  where,
+  limit,
+  increment,
+  serverTimestamp,
+} from 'firebase/firestore';
+import {
+  AnswerScore,
+  AnswerTelemetry,
+  DistractorReport,
+  Question,
+  QuestionAttempt,
+  QuestionOptionStats,
+  QuestionStats,
+  QuestionType,
+  ReviewCardSource,
+  User,
+} from '../types';
+import { canonicalize, sha256Hex } from './cacheKey';
+import { reviewCardId } from './spacedRepetitionService';
+
+/**
+ * Attempt log: every answer to every question
+ *
+ * Progress documents only keep per-step aggregates. The log keeps each
+ * answer: what the student chose or wrote, how long before they first
+ * touched the question and before they answered, how many hints they
+ * viewed, and which attempt at the question it was.
+ *
+ * Attempts live in the top-level `question_attempts` collection, and only
+ * their author can read them (see firestore.rules). Reports never read
+ * attempts: each multiple choice and cause and effect answer also adds to
+ * its question's running totals in `question_stats` and to its option's in
+ * `question_option_stats`, which hold counts only (no user ids, no answers
+ * as typed) and which only teachers and admins can read. Firestore only lets
+ * each answer add one to the counts.
+ *
+ * Questions are identified by their reviewCardId, so the same question in
+ * different journeys is one question. A regenerated question can keep its
+ * text but get new options, so the totals are kept per set of options and
+ * correct answer, and options are identified by their text.
+ */
+
+const CHOICE_TYPES: QuestionType[] = [QuestionType.MULTIPLE_CHOICE, QuestionType.CAUSE_AND_EFFECT];
+// The most questions one journey report reads
+const MAX_REPORT_QUESTIONS = 200;
+// The most options one journey report reads
+const MAX_REPORT_OPTIONS = MAX_REPORT_QUESTIONS * 6;
+// Longer first interactions are counted as this long; firestore.rules rejects more
+const MAX_COUNTED_INTERACTION_MS = 10 * 60 * 1000;
+
+const attemptsCollection = collection(db, 'question_attempts');
+const statsCollection = collection(db, 'question_stats');
+const optionStatsCollection = collection(db, 'question_option_stats');
+
+// How many times each student has answered each question, counted in Firestore once per session
+const attemptCounts = new Map<string, number>();
+
+/**
+ * An answer as the question components report it, with where it was asked
+ */
+export interface QuestionAttemptInput {
+  question: Question;
+  result: AnswerScore;
+  telemetry: AnswerTelemetry;
+  source: ReviewCardSource;
+}
+
+/**
+ * Whether the user may see answer reports, which span every student
+ */
+export const canViewAttemptReports = (user: User | null): boolean =>
+  user?.role === 'teacher' || user?.role === 'admin';
+
+async function previousAttempts(userId: string, questionId: string): Promise<number> {
+  const key = `${userId}/${questionId}`;
+  if (!attemptCounts.has(key)) {
+    const snapshot = await getCountFromServer(query(
+      attemptsCollection,
+      where('userId', '==', userId),
+      where('questionId', '==', questionId)
+    ));
+    attemptCounts.set(key, snapshot.data().count);
+  }
+  return attemptCounts.get(key)!;
+}
+
+/**
+ * Logs one answer. Returns the attempt as saved.
+ */
+export async function logQuestionAttempt(userId: string, input: QuestionAttemptInput): Promise<QuestionAttempt> {
+  const { question, result, telemetry, source } = input;
+  const questionId = await reviewCardId(question);
+  const attemptNumber = (await previousAttempts(userId, questionId)) + 1;
+  attemptCounts.set(`${userId}/${questionId}`, attemptNumber);
+
+  const attempt: QuestionAttempt = {
+    userId,
+    questionId,
+    questionType: question.type,
+    questionText: question.questionText,
+    ...((question.type === QuestionType.MULTIPLE_CHOICE || question.type === QuestionType.CAUSE_AND_EFFECT)
+      ? { options: question.options, correctAnswer: question.correctAnswer }
+      : {}),
+    source,
+    response: result.response,
+    score: result.score,
+    isCorrect: result.isCorrect,
+    firstInteractionMs: telemetry.firstInteractionMs,
+    answerMs: telemetry.answerMs,
+    hintsViewed: telemetry.hintsViewed,
+    attemptNumber,
+    answeredAt: new Date(),
+  };
+
+  await addDoc(attemptsCollection, { ...toFirestoreData(attempt), answeredAt: serverTimestamp() });
+  if (source.journeyId && CHOICE_TYPES.includes(question.type)) {
+    await addToQuestionStats(source.journeyId, attempt);
+  }
+  return attempt;
+}
+
+/**
+ * The id of a choice question's totals in a journey: one set per set of
+ * options and correct answer, whatever order the options were shown in
+ */
+async function questionStatsId(journeyId: string, attempt: QuestionAttempt, options: string[]): Promise<string> {
+  const variant = await sha256Hex(canonicalize({ options, correctAnswer: attempt.correctAnswer || '' }));
+  return `${journeyId}_${attempt.questionId}_${variant.slice(0, 16)}`;
+}
+
+/**
+ * Adds a choice question's attempt to the journey's running totals
+ */
+async function addToQuestionStats(journeyId: string, attempt: QuestionAttempt): Promise<void> {
+  const options = [...(attempt.options || [])].sort();
+  const statsId = await questionStatsId(journeyId, attempt, options);
+  const chosen = options.indexOf(attempt.response as string);
+  const firstAttempt = attempt.attemptNumber === 1;
+  const firstInteractionMs = attempt.firstInteractionMs === null
+    ? null
+    : Math.min(Math.max(0, Math.round(attempt.firstInteractionMs)), MAX_COUNTED_INTERACTION_MS);
+
+  const batch = writeBatch(db);
+  batch.set(doc(statsCollection, statsId), {
+    statsId,
+    journeyId,
+    questionId: attempt.questionId,
+    questionType: attempt.questionType,
+    questionText: attempt.questionText,
+    options,
+    correctAnswer: attempt.correctAnswer || '',
+    attempts: increment(1),
+    students: increment(firstAttempt ? 1 : 0),
+    firstInteractionMsTotal: increment(firstInteractionMs ?? 0),
+    firstInteractionCount: increment(firstInteractionMs === null ? 0 : 1),
+    updatedAt: serverTimestamp(),
+  }, { merge: true });
+  if (chosen >= 0) {
+    batch.set(doc(optionStatsCollection, `${statsId}_${chosen}`), {
+      journeyId,
+      statsId,
+      option: options[chosen],
+      picks: increment(1),
+      firstPicks: increment(firstAttempt ? 1 : 0),
+      updatedAt: serverTimestamp(),
+    }, { merge: true });
+  }
+  await batch.commit();
+}
+
+/**
+ * Which options students pick on each multiple choice and cause and effect
+ * question. Questions whose wrong options draw the most students come first;
+ * within a question, the most picked options come first.
+ */
+export function analyzeDistractors(stats: QuestionStats[], optionStats: QuestionOptionStats[]): DistractorReport[] {
+  const optionCounts = new Map<string, QuestionOptionStats>();
+  optionStats.forEach(counts => optionCounts.set(`${counts.statsId}/${counts.option}`, counts));
+
+  const reports = stats
+    .filter(questionStats => CHOICE_TYPES.includes(questionStats.questionType) && questionStats.options?.length)
+    .map((questionStats): DistractorReport => {
+      const options = questionStats.options.map(option => {
+        const counts = optionCounts.get(`${questionStats.statsId}/${option}`);
+        return {
+          option,
+          isCorrect: option === questionStats.correctAnswer,
+          picks: counts?.picks || 0,
+          students: counts?.firstPicks || 0,
+        };
+      }).sort((a, b) => b.students - a.students || b.picks - a.picks);
+
+      return {
+        statsId: questionStats.statsId,
+        questionId: questionStats.questionId,
+        questionType: questionStats.questionType,
+        questionText: questionStats.questionText,
+        correctAnswer: questionStats.correctAnswer,
+        attempts: questionStats.attempts || 0,
+        students: questionStats.students || 0,
+        averageFirstInteractionMs: questionStats.firstInteractionCount
+          ? questionStats.firstInteractionMsTotal / questionStats.firstInteractionCount
+          : null,
+        options,
+      };
+    });
+
+  const topDistractor = (report: DistractorReport) =>
+    Math.max(0, ...report.options.filter(option => !option.isCorrect).map(option => option.students));
+  return reports.sort((a, b) => topDistractor(b) - topDistractor(a) || b.students - a.students);
+}
+
+/**
+ * The distractor report for a journey, across every student who played it.
+ * Teachers and admins only; Firestore rejects the read for anyone else.
+ */
+export async function getDistractorReport(journeyId: string): Promise<DistractorReport[]> {
+  const [statsSnapshot, optionsSnapshot] = await Promise.all([
+    getDocs(query(statsCollection, where('journeyId', '==', journeyId), limit(MAX_REPORT_QUESTIONS))),
+    getDocs(query(optionStatsCollection, where('journeyId', '==', journeyId), limit(MAX_REPORT_OPTIONS))),
+  ]);
+  return analyzeDistractors(
+    statsSnapshot.docs.map(statsDoc => statsDoc.data() as QuestionStats),
+    optionsSnapshot.docs.map(optionDoc => optionDoc.data() as QuestionOptionStats)
+  );
+}
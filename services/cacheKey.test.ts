@@ -0,0 +1,49 @@
+// services/cacheKey.test.ts
+
+import { describe, expect, it } from 'vitest';
+import { buildCacheKey, canonicalize, getSchemaVersion } from './cacheKey';
+
+const REQUEST = {
+  type: 'scene',
+  topic: 'french-revolution',
+  prompt: 'The storming of the Bastille',
+  provider: 'fixture',
+  model: 'gemini-2.5-flash',
+  keyParts: { difficulty: 'easy', personality: 'spark' },
+};
+
+describe('canonicalize', () => {
+  it('sorts object keys at every level', () => {
+    expect(canonicalize({ b: 1, a: { d: [2, { f: 3, e: 4 }], c: 'x' } }))
+      .toBe('{"a":{"c":"x","d":[2,{"e":4,"f":3}]},"b":1}');
+  });
+
+  it('drops undefined fields and writes undefined items as null', () => {
+    expect(canonicalize({ a: 1, b: undefined })).toBe('{"a":1}');
+    expect(canonicalize([1, undefined])).toBe('[1,null]');
+  });
+});
+
+describe('buildCacheKey', () => {
+  it('prefixes the hash with the content type', async () => {
+    expect(await buildCacheKey(REQUEST)).toMatch(/^scene_[0-9a-f]{64}$/);
+  });
+
+  it('gives equal requests the same key whatever their key order', async () => {
+    const reordered = { ...REQUEST, keyParts: { personality: 'spark', difficulty: 'easy', material: undefined } };
+    expect(await buildCacheKey(reordered)).toBe(await buildCacheKey(REQUEST));
+  });
+
+  it('keeps providers, models and extra inputs apart', async () => {
+    const key = await buildCacheKey(REQUEST);
+    expect(await buildCacheKey({ ...REQUEST, provider: 'gemini' })).not.toBe(key);
+    expect(await buildCacheKey({ ...REQUEST, model: 'gemini-2.5-pro' })).not.toBe(key);
+    expect(await buildCacheKey({ ...REQUEST, keyParts: { ...REQUEST.keyParts, difficulty: 'hard' } })).not.toBe(key);
+  });
+});
+
+describe('getSchemaVersion', () => {
+  it('defaults types without a version to 1', () => {
+    expect(getSchemaVersion('not-a-type')).toBe(1);
+  });
+});
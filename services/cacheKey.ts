@@ -0,0 +1,110 @@
+// services/cacheKey.ts
+
+import { CacheContentType } from '../types';
+
+/**
+ * Content-addressed cache keys
+ *
+ * A cache key is a hash of everything that changes a generator's output: the
+ * content type, topic, full prompt, AI provider, model, any extra inputs
+ * (personality, difficulty, material, voice, ...) and the schema version of
+ * the stored value. Output from the offline fixture provider therefore never
+ * answers a lookup made with Gemini. The key is used directly as the Firestore document ID in
+ * `content_cache`, so a lookup is a single read instead of a query.
+ */
+
+/**
+ * Bump a type's version when the shape of its cached value (or the prompt that
+ * produces it) changes. Old entries are then simply never looked up again.
+ */
+export const CACHE_SCHEMA_VERSIONS: Record<string, number> = {
+  scene: 1,
+  outcome: 1,
+  video: 1,
+  hint: 1,
+  feedback: 1,
+  tts: 1,
+  text: 1,
+  image: 1,
+  quiz: 1,
+  question: 1,
+};
+
+export type CacheKeyParts = Record<string, unknown>;
+
+export interface CacheKeyInput {
+  type: CacheContentType | string;
+  topic: string;
+  prompt: string;
+  provider?: string; // The AI provider's name, e.g. 'gemini' or 'fixture'
+  model?: string;
+  keyParts?: CacheKeyParts;
+}
+
+/**
+ * JSON with sorted object keys and undefined values dropped, so logically
+ * equal inputs always serialize to the same string
+ */
+export function canonicalize(value: unknown): string {
+  if (value === undefined) return 'null';
+  if (value === null || typeof value !== 'object') return JSON.stringify(value);
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalize(item)).join(',')}]`;
+  }
+  const entries = Object.keys(value as Record<string, unknown>)
+    .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${canonicalize((value as Record<string, unknown>)[key])}`);
+  return `{${entries.join(',')}}`;
+}
+
+/**
+ * 53-bit string hash (cyrb53), used when SubtleCrypto is unavailable
+ * (e.g. the dev server opened over plain http on a LAN address)
+ */
+function fallbackHash(value: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+}
+
+export async function sha256Hex(value: string): Promise<string> {
+  const subtle = typeof crypto !== 'undefined' ? crypto.subtle : undefined;
+  if (!subtle) return fallbackHash(value);
+
+  const digest = await subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Returns the schema version cached values of this type are written with
+ */
+export function getSchemaVersion(type: string): number {
+  return CACHE_SCHEMA_VERSIONS[type] ?? 1;
+}
+
+/**
+ * Builds the canonical cache key (and Firestore document ID) for a request.
+ * Format: `<type>_<sha256 hex>`.
+ */
+export async function buildCacheKey(input: CacheKeyInput): Promise<string> {
+  const canonical = canonicalize({
+    type: input.type,
+    topic: input.topic,
+    prompt: input.prompt,
+    provider: input.provider ?? null,
+    model: input.model ?? null,
+    parts: input.keyParts ?? {},
+    schemaVersion: getSchemaVersion(input.type),
+  });
+  return `${input.type}_${await sha256Hex(canonical)}`;
+}
@@ -0,0 +1,107 @@
+// services/cachePolicy.ts
+
+import { CacheContentType } from '../types';
+
+/**
+ * Expiry and versioning rules for `content_cache`
+ *
+ * - Every type has a base TTL. Popular entries (views, likes) live longer, up
+ *   to MAX_POPULARITY_BONUS extra TTLs.
+ * - Every entry records the `generatorVersion` of the code that produced it.
+ *   A caller bumps its version when it changes a prompt template or a response
+ *   schema, and older entries are treated as stale on read.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const CACHE_TTL_DAYS: Record<CacheContentType, number> = {
+  scene: 30,
+  outcome: 30,
+  question: 30,
+  quiz: 30,
+  hint: 30,
+  feedback: 14,
+  text: 14,
+  tts: 90,
+  image: 90,
+  video: 180,
+};
+
+export const DEFAULT_GENERATOR_VERSION = 1;
+
+/**
+ * The fields of a content_cache document the policy looks at (shared by
+ * getOrGenerate and fetchOrGenerateContent entries)
+ */
+export interface CacheEntryMeta {
+  type: string;
+  createdAt: any;
+  views?: number;
+  likedBy?: string[];
+  generatorVersion?: number;
+}
+
+const VIEWS_PER_BONUS = 25; // Every 25 views...
+const VIEW_BONUS = 0.5; // ...adds half a TTL
+const LIKE_BONUS = 0.25; // Each like adds a quarter TTL
+const MAX_POPULARITY_BONUS = 3;
+
+/**
+ * Reads a Firestore Timestamp, Date or epoch millis as millis
+ */
+export function toMillis(value: any): number | null {
+  if (!value) return null;
+  if (typeof value === 'number') return value;
+  if (typeof value.toMillis === 'function') return value.toMillis();
+  if (value instanceof Date) return value.getTime();
+  return null;
+}
+
+/**
+ * How many TTLs an entry gets, given how often it has been used and liked
+ */
+export function getPopularityMultiplier(views: number = 0, likes: number = 0): number {
+  const bonus = Math.floor(views / VIEWS_PER_BONUS) * VIEW_BONUS + likes * LIKE_BONUS;
+  return 1 + Math.min(MAX_POPULARITY_BONUS, bonus);
+}
+
+export function getTtlMs(type: CacheContentType | string): number {
+  return (CACHE_TTL_DAYS[type as CacheContentType] ?? 14) * DAY_MS;
+}
+
+/**
+ * Expiry time for an entry created at `createdAtMs` with the given popularity
+ */
+export function getExpiresAt(
+  type: CacheContentType | string,
+  createdAtMs: number,
+  views: number = 0,
+  likedBy: string[] = []
+): number {
+  return createdAtMs + getTtlMs(type) * getPopularityMultiplier(views, likedBy.length);
+}
+
+/**
+ * Returns why a cached entry must not be served, or null if it is fresh
+ */
+export function getStaleReason(
+  entry: CacheEntryMeta,
+  generatorVersion: number,
+  now: number = Date.now()
+): string | null {
+  if ((entry.generatorVersion ?? 0) !== generatorVersion) {
+    return `generator version ${entry.generatorVersion ?? 'none'} does not match ${generatorVersion}`;
+  }
+
+  const createdAt = toMillis(entry.createdAt);
+  if (createdAt === null) {
+    // serverTimestamp() not yet resolved on a very fresh local write
+    return null;
+  }
+
+  const expiresAt = getExpiresAt(entry.type, createdAt, entry.views, entry.likedBy);
+  if (expiresAt <= now) {
+    return `expired on ${new Date(expiresAt).toISOString()}`;
+  }
+  return null;
+}
@@ -4,17 +4,26 @@ import {
   query,
   where,
   limit,
+  getDoc,
   getDocs,
-  addDoc,
+  setDoc,
   updateDoc,
   doc,
   serverTimestamp,
   increment,
-  DocumentData,
-  QueryDocumentSnapshot,
+  writeBatch,
+  Timestamp,
+  DocumentReference,
+  DocumentSnapshot,
+  QueryConstraint,
 } from 'firebase/firestore';
 import { ref, uploadBytes, getDownloadURL, uploadString } from 'firebase/storage';
-import { CachedContent, CacheContentType } from '../types';
+import { CachedContent, CacheContentType, User } from '../types';
+import { Validator } from './outputValidators';
+import { buildCacheKey, getSchemaVersion, CacheKeyParts } from './cacheKey';
+import { DEFAULT_TEXT_MODEL } from './aiProvider';
+import { getAIProvider } from './aiService';
+import { DEFAULT_GENERATOR_VERSION, CacheEntryMeta, getExpiresAt, getStaleReason, getTtlMs, toMillis } from './cachePolicy';
 
 // Validate base64 string before processing
 function isValidBase64(str: string): boolean {
@@ -91,23 +100,53 @@ interface MediaOptions {
 interface GetOrGenerateOptions<T> {
     type: CacheContentType;
     topic: string;
-    prompt: string;
+    prompt: string; // The full input; only a hash of it is used for lookup
     userId: string;
+    model?: string; // Defaults to the default text model
+    keyParts?: CacheKeyParts; // Other inputs that change the output (personality, difficulty, voice, ...)
+    generatorVersion?: number; // Bump when the prompt template or response schema changes
     generatorFn: GeneratorFn<T>;
     mediaOptions?: MediaOptions;
+    validate?: Validator<T>; // Cached entries that fail validation are regenerated
 }
 
 const contentCacheRef = collection(db, 'content_cache');
 
+// Prompts are stored for debugging only; lookups use the content-addressed document ID
+const MAX_STORED_PROMPT_LENGTH = 2000;
+
+// Firestore allows at most 500 writes per batch
+const INVALIDATION_BATCH_SIZE = 500;
+
+/**
+ * Counts a cache hit and pushes out the entry's expiry as it gets more popular
+ */
+export async function recordHit(cachedRef: DocumentReference, cachedData: CacheEntryMeta): Promise<void> {
+    const createdAt = toMillis(cachedData.createdAt) ?? Date.now();
+    const expiresAt = getExpiresAt(cachedData.type, createdAt, (cachedData.views || 0) + 1, cachedData.likedBy);
+    await updateDoc(cachedRef, {
+        views: increment(1),
+        expiresAt: Timestamp.fromMillis(expiresAt),
+    });
+}
+
 export async function getOrGenerate<T extends (string | object)>(options: GetOrGenerateOptions<T>): Promise<T> {
-    const { type, topic, prompt, userId, generatorFn, mediaOptions } = options;
+    const { type, topic, prompt, userId, generatorFn, mediaOptions, validate, keyParts } = options;
+    const model = options.model || DEFAULT_TEXT_MODEL;
+    const generatorVersion = options.generatorVersion ?? DEFAULT_GENERATOR_VERSION;
+    const provider = getAIProvider().name;
+
+    // 1. Check if content already exists in Firestore (direct read by cache key)
+    const cacheKey = await buildCacheKey({ type, topic, prompt, provider, model, keyParts });
+    const cachedRef = doc(contentCacheRef, cacheKey);
+    const cachedDoc = await getDoc(cachedRef) as DocumentSnapshot<CachedContent<T>>;
 
-    // 1. Check if content already exists in Firestore
-    const q = query(contentCacheRef, where('prompt', '==', prompt), where('type', '==', type), limit(1));
-    const querySnapshot = await getDocs(q);
+    const staleReason = cachedDoc.exists() ? getStaleReason(cachedDoc.data(), generatorVersion) : null;
+    if (staleReason) {
+        console.log(`[Cache] STALE for type: ${type}, topic: ${topic} (${staleReason}). Regenerating...`);
+    }
 
-    if (!querySnapshot.empty) {
-        const cachedDoc = querySnapshot.docs[0] as QueryDocumentSnapshot<CachedContent<T>>;
+    if (cachedDoc.exists() && !staleReason) {
         const cachedData = cachedDoc.data();
         
         // For media options, prefer URL if available, otherwise use content
@@ -116,6 +155,14 @@ export async function getOrGenerate<T extends (string | object)>(options: GetOrG
         if (mediaOptions) {
             // Check URL first (for uploaded media), then content (for localhost base64)
             cachedValue = (cachedData.url || cachedData.content) as T;
+        } else if (validate) {
+            // Entries written before validation existed (or by older prompts) may be malformed
+            const validation = validate(cachedData.content);
+            if (validation.ok) {
+                cachedValue = validation.value;
+            } else {
+                console.warn(`[Cache] Cached ${type} data failed validation. Regenerating...`, validation.errors);
+            }
         } else {
             cachedValue = cachedData.content as T;
         }
@@ -150,9 +197,7 @@ export async function getOrGenerate<T extends (string | object)>(options: GetOrG
                     // Validate the converted base64
                     if (isValidBase64(base64Data)) {
                         // Increment views count
-                        await updateDoc(doc(contentCacheRef, cachedDoc.id), {
-                            views: increment(1)
-                        });
+                        await recordHit(cachedRef, cachedData);
                         
                         console.log(`[Cache] HIT for type: ${type}, topic: ${topic} (converted from URL)`);
                         return base64Data as T;
@@ -176,7 +221,7 @@ export async function getOrGenerate<T extends (string | object)>(options: GetOrG
                     
                     // Delete the corrupted cache entry
                     try {
-                        await updateDoc(doc(contentCacheRef, cachedDoc.id), {
+                        await updateDoc(cachedRef, {
                             // Mark as corrupted by clearing the content
                             content: null,
                             url: null,
@@ -187,9 +232,7 @@ export async function getOrGenerate<T extends (string | object)>(options: GetOrG
                     // Fall through to regeneration
                 } else {
                     // Increment views count asynchronously
-                    await updateDoc(doc(contentCacheRef, cachedDoc.id), {
-                        views: increment(1)
-                    });
+                    await recordHit(cachedRef, cachedData);
                     
                     console.log(`[Cache] HIT for type: ${type}, topic: ${topic}`);
                     // Return cleaned base64 data to ensure consistency
@@ -198,9 +241,7 @@ export async function getOrGenerate<T extends (string | object)>(options: GetOrG
             }
         } else {
             // Increment views count asynchronously
-            await updateDoc(doc(contentCacheRef, cachedDoc.id), {
-                views: increment(1)
-            });
+            await recordHit(cachedRef, cachedData);
             
             console.log(`[Cache] HIT for type: ${type}, topic: ${topic}`);
             return cachedValue;
@@ -211,6 +252,9 @@ export async function getOrGenerate<T extends (string | object)>(options: GetOrG
     // 2. If not found, generate with AI
     const generatedData = await generatorFn();
 
+    // content_cache and its media are shared by every user, so fixture output is never stored
+    if (provider === 'fixture') return generatedData;
+
     // Validate generated data before caching
     if (mediaOptions && mediaOptions.dataType === 'base64' && typeof generatedData === 'string') {
         // Don't cache empty or invalid base64 strings
@@ -343,19 +387,67 @@ export async function getOrGenerate<T extends (string | object)>(options: GetOrG
         contentToStore = { content: generatedData };
     }
 
-    // 4. Save to Firestore for future reuse
+    // 4. Save to Firestore for future reuse (overwrites any stale entry under the same key)
     const newCacheItem: Omit<CachedContent<T>, 'id'> = {
         type,
         topic,
-        prompt,
+        prompt: prompt.slice(0, MAX_STORED_PROMPT_LENGTH),
+        model,
+        schemaVersion: getSchemaVersion(type),
+        generatorVersion,
         ...contentToStore,
         createdAt: serverTimestamp(),
+        expiresAt: Timestamp.fromMillis(Date.now() + getTtlMs(type)),
         createdBy: userId,
         views: 1,
         likedBy: [],
     };
 
-    await addDoc(contentCacheRef, newCacheItem);
+    await setDoc(cachedRef, newCacheItem);
     
     return generatedData;
 }
+
+export interface CacheInvalidationFilter {
+    topic?: string;
+    type?: CacheContentType;
+    generatorVersionBelow?: number; // Only entries written by older generators
+}
+
+/**
+ * Deletes content_cache entries matching every given filter and returns how many were removed.
+ *
+ * Admins only (e.g. after fixing a bad prompt): firestore.rules only allow
+ * deletes on content_cache for the admin role. Every filter is part of the
+ * query (see firestore.indexes.json), and matches are read and deleted one
+ * batch at a time. Entries without a generatorVersion predate versioning; they
+ * are already stale on read and are replaced on their next lookup.
+ */
+export async function invalidateCache(user: User | null, filter: CacheInvalidationFilter): Promise<number> {
+    if (user?.role !== 'admin') {
+        throw new Error('Only admins can invalidate the content cache.');
+    }
+    const { topic, type, generatorVersionBelow } = filter;
+    if (topic === undefined && type === undefined && generatorVersionBelow === undefined) {
+        throw new Error('invalidateCache requires at least one of topic, type or generatorVersionBelow.');
+    }
+
+    const constraints: QueryConstraint[] = [];
+    if (topic !== undefined) constraints.push(where('topic', '==', topic));
+    if (type !== undefined) constraints.push(where('type', '==', type));
+    if (generatorVersionBelow !== undefined) constraints.push(where('generatorVersion', '<', generatorVersionBelow));
+
+    // Deleted entries drop out of the query, so each round reads the next batch
+    let removed = 0;
+    for (;;) {
+        const snapshot = await getDocs(query(contentCacheRef, ...constraints, limit(INVALIDATION_BATCH_SIZE)));
+        if (snapshot.empty) break;
+        const batch = writeBatch(db);
+        snapshot.docs.forEach(cachedDoc => batch.delete(cachedDoc.ref));
+        await batch.commit();
+        removed += snapshot.size;
+    }
+
+    console.log(`[Cache] Invalidated ${removed} entries`, filter);
+    return removed;
+}
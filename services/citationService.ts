@@ -0,0 +1,146 @@
+// services/citationService.ts
+
+import { SectionAnalysis, SourceCitation } from '../types';
+
+/**
+ * Source citations for content generated from study material
+ *
+ * Generated scenes and questions are matched back to the passage of the
+ * material they are about, by word overlap between the generated text and
+ * every run of a few consecutive sentences. Offsets point into the exact text
+ * that was analyzed, which is stored with the material (see
+ * materialTextService), so a passage can be highlighted in place.
+ */
+
+// A passage is this many consecutive sentences
+const PASSAGE_SENTENCES = 3;
+const MAX_CITATIONS = 2;
+// Fewer shared words than this is not a match
+const MIN_MATCHED_WORDS = 3;
+// A second passage is cited only if it matches almost as well as the first
+const SECOND_CITATION_RATIO = 0.6;
+const MAX_QUOTE_CHARS = 200;
+// Page markers and headings from document extraction are not passages
+const MARKER_LINE = /^\s*(\[Page \d+\]|#{1,6}\s.*)\s*$/;
+
+export interface CitationOptions {
+  // Only look here, e.g. the section a step was built from
+  range?: { startOffset: number; endOffset: number };
+  sections?: SectionAnalysis[];
+}
+
+/**
+ * The distinct words of a text that are long enough to mean something
+ */
+export const significantWords = (text: string): Set<string> =>
+  new Set(text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(word => word.length > 3));
+
+function sentenceSpans(text: string, from: number, to: number): { start: number; end: number }[] {
+  const spans: { start: number; end: number }[] = [];
+  const pattern = /[^.!?\n]+(?:[.!?]+|\n|$)/g;
+  pattern.lastIndex = from;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null && match.index < to) {
+    if (match[0].length === 0) {
+      pattern.lastIndex++;
+      continue;
+    }
+    const end = Math.min(to, match.index + match[0].length);
+    const sentence = text.slice(match.index, end);
+    if (sentence.trim() && !MARKER_LINE.test(sentence)) spans.push({ start: match.index, end });
+  }
+  return spans;
+}
+
+/**
+ * The page a position falls on, from the last "[Page N]" marker before it
+ */
+function pageAt(text: string, offset: number): number | undefined {
+  const marker = /\[Page (\d+)\]/g;
+  let page: number | undefined;
+  let match: RegExpExecArray | null;
+  while ((match = marker.exec(text)) !== null && match.index <= offset) {
+    page = Number(match[1]);
+  }
+  return page;
+}
+
+/**
+ * A citation of the span [start, end) of a material's text
+ */
+export function createCitation(
+  text: string,
+  start: number,
+  end: number,
+  materialId: string,
+  sections?: SectionAnalysis[]
+): SourceCitation {
+  // Trim surrounding whitespace so the highlight starts on the first word
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  const passage = text.slice(start, end).replace(/\s+/g, ' ');
+  const pageNumber = pageAt(text, start);
+  const section = sections?.find(candidate => start >= candidate.startOffset && start < candidate.endOffset);
+  return {
+    materialId,
+    startOffset: start,
+    endOffset: end,
+    ...(pageNumber !== undefined ? { pageNumber } : {}),
+    ...(section ? { section: section.title } : {}),
+    quote: passage.length > MAX_QUOTE_CHARS ? `${passage.slice(0, MAX_QUOTE_CHARS).trim()}…` : passage,
+  };
+}
+
+/**
+ * The passages of `sourceText` that a piece of generated text is based on,
+ * best match first. Returns an empty array when nothing matches well enough.
+ */
+export function findCitations(
+  sourceText: string,
+  generatedText: string,
+  materialId: string,
+  options: CitationOptions = {}
+): SourceCitation[] {
+  const words = significantWords(generatedText);
+  if (words.size === 0 || !sourceText) return [];
+
+  const from = Math.max(0, options.range?.startOffset ?? 0);
+  const to = Math.min(sourceText.length, options.range?.endOffset ?? sourceText.length);
+  const sentences = sentenceSpans(sourceText, from, to);
+  const sentenceWords = sentences.map(span => significantWords(sourceText.slice(span.start, span.end)));
+
+  const passages = sentences.map((_, index) => {
+    const window = new Set<string>();
+    // The passage runs from the first to the last sentence in the window that shares a word
+    let first = -1;
+    let last = -1;
+    sentenceWords.slice(index, index + PASSAGE_SENTENCES).forEach((set, offset) => {
+      let hits = false;
+      set.forEach(word => {
+        window.add(word);
+        hits = hits || words.has(word);
+      });
+      if (!hits) return;
+      if (first === -1) first = index + offset;
+      last = index + offset;
+    });
+    let score = 0;
+    words.forEach(word => {
+      if (window.has(word)) score++;
+    });
+    return first === -1
+      ? { start: 0, end: 0, score: 0 }
+      : { start: sentences[first].start, end: sentences[last].end, score };
+  });
+
+  const ranked = passages.filter(passage => passage.score >= MIN_MATCHED_WORDS).sort((a, b) => b.score - a.score);
+  const picked: typeof ranked = [];
+  for (const passage of ranked) {
+    if (picked.length >= MAX_CITATIONS) break;
+    if (picked.length > 0 && passage.score < picked[0].score * SECOND_CITATION_RATIO) break;
+    if (picked.some(other => passage.start < other.end && other.start < passage.end)) continue;
+    picked.push(passage);
+  }
+
+  return picked.map(passage => createCitation(sourceText, passage.start, passage.end, materialId, options.sections));
+}
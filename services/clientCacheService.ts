@@ -1,6 +1,6 @@
 // services/clientCacheService.ts
 
-import { StudyMaterial, PersonalJourney, JourneyProgress, TTSCache, ProgressAnalytics } from '../types';
+import { StudyMaterial, PersonalJourney, JourneyProgress, TTSCache, ProgressAnalytics, Progress, SaveSlot, StoryRun, ReviewCard } from '../types';
 
 interface CacheEntry<T> {
   key: string;
@@ -18,7 +18,7 @@ interface CacheConfig {
 class ClientCacheService {
   private db: IDBDatabase | null = null;
   private readonly dbName = 'HistoryJourneyCache';
-  private readonly dbVersion = 1;
+  private readonly dbVersion = 4;
 
   private readonly configs = {
     materials: { maxAge: 24 * 60 * 60 * 1000, maxEntries: 100 }, // 24 hours
@@ -26,6 +26,9 @@ class ClientCacheService {
     progress: { maxAge: 60 * 60 * 1000, maxEntries: 200 }, // 1 hour
     tts: { maxAge: 7 * 24 * 60 * 60 * 1000, maxEntries: 500 }, // 7 days
     analytics: { maxAge: 60 * 60 * 1000, maxEntries: 100 },
+    saves: { maxAge: 365 * 24 * 60 * 60 * 1000, maxEntries: 100 }, // 1 year - game saves are user data
+    stories: { maxAge: 90 * 24 * 60 * 60 * 1000, maxEntries: 50 }, // 90 days - Firestore keeps the full history
+    reviews: { maxAge: 365 * 24 * 60 * 60 * 1000, maxEntries: 20 }, // 1 year - one review deck per user
   };
 
   async init(): Promise<void> {
@@ -44,7 +47,7 @@ class ClientCacheService {
         const db = (event.target as IDBOpenDBRequest).result;
 
         // Create stores for each data type
-        const stores = ['materials', 'journeys', 'progress', 'tts', 'analytics'];
+        const stores = ['materials', 'journeys', 'progress', 'tts', 'analytics', 'saves', 'stories', 'reviews'];
 
         stores.forEach(storeName => {
           if (!db.objectStoreNames.contains(storeName)) {
@@ -232,6 +235,41 @@ class ClientCacheService {
     return this.get<JourneyProgress>('progress', `user_${userId}_progress_${journeyId}`);
   }
 
+  // Classic game saves (progress + save slots)
+  async setGameProgress(userId: string, progress: Progress): Promise<void> {
+    await this.set('saves', `user_${userId}_game_progress`, progress);
+  }
+
+  async getGameProgress(userId: string): Promise<Progress | null> {
+    return this.get<Progress>('saves', `user_${userId}_game_progress`);
+  }
+
+  async setSaveSlots(userId: string, slots: SaveSlot[]): Promise<void> {
+    await this.set('saves', `user_${userId}_save_slots`, slots);
+  }
+
+  async getSaveSlots(userId: string): Promise<SaveSlot[] | null> {
+    return this.get<SaveSlot[]>('saves', `user_${userId}_save_slots`);
+  }
+
+  // Story graph runs
+  async setStoryRun(userId: string, run: StoryRun): Promise<void> {
+    await this.set('stories', `user_${userId}_story_${run.runId}`, run);
+  }
+
+  async getStoryRun(userId: string, runId: string): Promise<StoryRun | null> {
+    return this.get<StoryRun>('stories', `user_${userId}_story_${runId}`);
+  }
+
+  // Spaced-repetition review deck
+  async setReviewDeck(userId: string, cards: ReviewCard[]): Promise<void> {
+    await this.set('reviews', `user_${userId}_review_deck`, cards);
+  }
+
+  async getReviewDeck(userId: string): Promise<ReviewCard[] | null> {
+    return this.get<ReviewCard[]>('reviews', `user_${userId}_review_deck`);
+  }
+
   // TTS cache
   async setTTS(hash: string, ttsData: TTSCache): Promise<void> {
     await this.set('tts', `tts_${hash}`, ttsData);
@@ -253,7 +291,7 @@ class ClientCacheService {
   // ===== INVALIDATION METHODS =====
 
   async invalidateUserData(userId: string): Promise<void> {
-    const stores = ['materials', 'journeys', 'progress', 'analytics'];
+    const stores = ['materials', 'journeys', 'progress', 'analytics', 'saves', 'stories', 'reviews'];
 
     for (const store of stores) {
       const storeInstance = await this.getStore(store, 'readwrite');
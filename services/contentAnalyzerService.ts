@@ -1,7 +1,10 @@
 // services/contentAnalyzerService.ts
 
-import { GoogleGenAI } from '@google/genai';
+import { SectionAnalysis } from '../types';
 import { getOrGenerate } from './cacheService';
+import { generateText, generateStructured } from './aiService';
+import { validateContentAnalysis } from './outputValidators';
+import { formatTranscript, transcribeRecording } from './transcriptionService';
 
 export interface ContentAnalysis {
   title: string;
@@ -14,49 +17,54 @@ export interface ContentAnalysis {
   estimatedTime: number; // minutes
   suggestedJourneyType: 'timeline' | 'map' | 'character' | 'concept' | 'mixed';
   summary: string;
+  sections?: SectionAnalysis[]; // Long material only, in document order
 }
 
+export interface TextSection {
+  heading?: string; // The first heading in the section, without its # marks
+  text: string;
+  startOffset: number;
+  endOffset: number;
+}
+
+type ContentFileType = 'pdf' | 'image' | 'text' | 'audio' | 'word';
+
+// Material longer than this is analyzed in sections
+export const SECTION_CHARS = 8000;
+// Very long material gets longer sections rather than more of them
+const MAX_SECTIONS = 40;
+// A heading starts a new section once the current one is at least this full
+const MIN_SECTION_FILL = 0.5;
+const MAX_MERGED_KEYWORDS = 30;
+
 /**
- * Analyzes uploaded content using AI
+ * Analyzes uploaded content using AI. Material longer than SECTION_CHARS is
+ * split into sections that are analyzed (and cached) one by one, then merged
+ * into one analysis that keeps every section's topics and main points.
  */
 export async function analyzeContent(
   text: string,
-  fileType: 'pdf' | 'image' | 'text' | 'audio' | 'word',
-  userId: string
+  fileType: ContentFileType,
+  userId: string,
+  signal?: AbortSignal
 ): Promise<ContentAnalysis> {
-  const prompt = buildAnalysisPrompt(text, fileType);
-  
   return getOrGenerate<ContentAnalysis>({
     type: 'text',
     topic: 'content-analysis',
-    prompt: text.substring(0, 1000), // Use first 1000 chars as cache key
+    prompt: text,
     userId: userId,
+    keyParts: { fileType },
+    validate: validateContentAnalysis,
     generatorFn: async () => {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || process.env.GEMINI_API_KEY || '' });
-      const model = ai.getGenerativeModel({ model: 'gemini-2.5-flash' });
-      
-      const response = await model.generateContent({
-        contents: prompt,
-        config: {
-          responseMimeType: 'application/json',
-        },
-      });
-      
-      const analysis = JSON.parse(response.text) as ContentAnalysis;
-      
-      // Validate and set defaults
-      return {
-        title: analysis.title || 'Untitled Content',
-        topics: analysis.topics || [],
-        keywords: analysis.keywords || [],
-        difficulty: analysis.difficulty || 'intermediate',
-        subject: analysis.subject || 'General',
-        mainPoints: analysis.mainPoints || [],
-        intent: analysis.intent || 'study',
-        estimatedTime: analysis.estimatedTime || 30,
-        suggestedJourneyType: analysis.suggestedJourneyType || 'mixed',
-        summary: analysis.summary || '',
-      };
+      if (text.length > SECTION_CHARS) {
+        return analyzeLongContent(text, fileType, userId, signal);
+      }
+      // The validator fills defaults and coerces enums, so partial answers still work
+      return generateStructured<ContentAnalysis>({
+        task: 'content.analyze',
+        contents: buildAnalysisPrompt(text, fileType),
+        signal,
+      }, validateContentAnalysis);
     },
   });
 }
@@ -64,11 +72,11 @@ export async function analyzeContent(
 /**
  * Builds analysis prompt for AI
  */
-function buildAnalysisPrompt(text: string, fileType: string): string {
+function buildAnalysisPrompt(text: string, fileType: string, context?: string): string {
   return `Analyze the following ${fileType} content and provide a structured analysis in JSON format.
-
+${context ? `\n${context}\n` : ''}
 Content:
-${text.substring(0, 10000)} // Limit to first 10k chars
+${text}
 
 Please analyze and return a JSON object with the following structure:
 {
@@ -92,12 +100,190 @@ Focus on:
 - Extracting key points that should be taught`;
 }
 
+// ===== LONG DOCUMENTS =====
+
+interface TextBlock {
+  start: number;
+  end: number;
+  heading?: { level: number; text: string };
+}
+
+const HEADING_LINE = /^(#{1,6})\s+(.+)$/;
+
+/**
+ * Splits text into paragraphs, then cuts any paragraph longer than maxChars at
+ * a line or sentence break (transcripts have no blank lines at all)
+ */
+function splitBlocks(text: string, maxChars: number): TextBlock[] {
+  const blocks: TextBlock[] = [];
+  const addBlock = (start: number, end: number) => {
+    while (end - start > maxChars) {
+      const window = text.slice(start, start + maxChars);
+      const breakAt = Math.max(window.lastIndexOf('\n'), window.lastIndexOf('. ') + 1);
+      const cut = breakAt > maxChars / 2 ? start + breakAt : start + maxChars;
+      blocks.push({ start, end: cut });
+      start = cut;
+    }
+    const firstLine = text.slice(start, end).trim().split('\n')[0];
+    const heading = HEADING_LINE.exec(firstLine);
+    blocks.push({ start, end, ...(heading ? { heading: { level: heading[1].length, text: heading[2].trim() } } : {}) });
+  };
+
+  const separator = /\n\s*\n/g;
+  let start = 0;
+  let match: RegExpExecArray | null;
+  while ((match = separator.exec(text)) !== null) {
+    if (text.slice(start, match.index).trim()) addBlock(start, match.index);
+    start = match.index + match[0].length;
+  }
+  if (text.slice(start).trim()) addBlock(start, text.length);
+  return blocks;
+}
+
+/**
+ * Splits long material into sections of at most about `maxChars`. Sections
+ * start at level 1-2 headings ("#"/"##" lines from document extraction) where
+ * possible, and otherwise break between paragraphs.
+ */
+export function splitIntoSections(text: string, maxChars: number = SECTION_CHARS): TextSection[] {
+  const sectionChars = Math.max(maxChars, Math.ceil(text.length / MAX_SECTIONS));
+  const sections: TextSection[] = [];
+  let current: TextBlock[] = [];
+
+  const close = () => {
+    if (current.length === 0) return;
+    const startOffset = current[0].start;
+    const endOffset = current[current.length - 1].end;
+    const heading = current.find(block => block.heading)?.heading?.text;
+    sections.push({ ...(heading ? { heading } : {}), text: text.slice(startOffset, endOffset), startOffset, endOffset });
+    current = [];
+  };
+
+  splitBlocks(text, sectionChars).forEach(block => {
+    const currentLength = current.length ? block.start - current[0].start : 0;
+    const isMajorHeading = !!block.heading && block.heading.level <= 2;
+    if (currentLength + (block.end - block.start) > sectionChars || (isMajorHeading && currentLength >= sectionChars * MIN_SECTION_FILL)) {
+      close();
+    }
+    current.push(block);
+  });
+  close();
+  return sections;
+}
+
+async function analyzeSection(
+  section: TextSection,
+  index: number,
+  count: number,
+  fileType: ContentFileType,
+  userId: string,
+  signal?: AbortSignal
+): Promise<ContentAnalysis> {
+  const context = `This is section ${index + 1} of ${count} of a longer document${section.heading ? `, headed "${section.heading}"` : ''}. Analyze only this section.`;
+
+  return getOrGenerate<ContentAnalysis>({
+    type: 'text',
+    topic: 'content-analysis-section',
+    prompt: section.text,
+    userId: userId,
+    keyParts: { fileType },
+    validate: validateContentAnalysis,
+    generatorFn: () => generateStructured<ContentAnalysis>({
+      task: 'content.analyzeSection',
+      contents: buildAnalysisPrompt(section.text, fileType, context),
+      signal,
+    }, validateContentAnalysis),
+  });
+}
+
+function buildMergePrompt(sections: SectionAnalysis[], fileType: string): string {
+  const outline = sections.map((section, index) => `Section ${index + 1}: ${section.title}
+Summary: ${section.summary}
+Topics: ${section.topics.join(', ')}
+Main points:
+${section.mainPoints.map(point => `- ${point}`).join('\n')}`).join('\n\n');
+
+  return `These are the analyses of the sections of one long ${fileType} document, in order.
+
+${outline}
+
+Combine them into one analysis of the whole document. Return a JSON object with the following structure:
+{
+  "title": "A concise title for the whole document",
+  "topics": ["topic1", "topic2", "topic3"], // The document's main topics
+  "keywords": ["keyword1", "keyword2"], // The most important keywords
+  "difficulty": "beginner" | "intermediate" | "advanced",
+  "subject": "History" | "Science" | "Literature" | etc.,
+  "mainPoints": ["point1", "point2", "point3"], // 3-8 key learning points of the whole document
+  "intent": "study" | "assignment" | "essay" | "presentation" | "review",
+  "estimatedTime": 30, // Estimated study time in minutes
+  "suggestedJourneyType": "timeline" | "map" | "character" | "concept" | "mixed",
+  "summary": "A 3-4 sentence summary of the whole document"
+}`;
+}
+
+export const uniqueStrings = (values: string[]): string[] => {
+  const seen = new Set<string>();
+  return values.filter(value => {
+    const key = value.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/**
+ * Map-reduce analysis: each section is analyzed on its own, then one more
+ * request writes the overall title, summary and main points from the
+ * section analyses. The sections are kept on the result.
+ */
+async function analyzeLongContent(
+  text: string,
+  fileType: ContentFileType,
+  userId: string,
+  signal?: AbortSignal
+): Promise<ContentAnalysis> {
+  const textSections = splitIntoSections(text);
+  console.log(`[Analysis] Analyzing ${text.length} characters in ${textSections.length} sections`);
+
+  const sectionResults: ContentAnalysis[] = [];
+  for (let index = 0; index < textSections.length; index++) {
+    signal?.throwIfAborted();
+    sectionResults.push(await analyzeSection(textSections[index], index, textSections.length, fileType, userId, signal));
+  }
+
+  const sections: SectionAnalysis[] = textSections.map((section, index) => ({
+    title: section.heading || sectionResults[index].title,
+    topics: sectionResults[index].topics,
+    keywords: sectionResults[index].keywords,
+    mainPoints: sectionResults[index].mainPoints,
+    summary: sectionResults[index].summary,
+    startOffset: section.startOffset,
+    endOffset: section.endOffset,
+  }));
+
+  const overall = await generateStructured<ContentAnalysis>({
+    task: 'content.mergeAnalysis',
+    contents: buildMergePrompt(sections, fileType),
+    signal,
+  }, validateContentAnalysis);
+
+  return {
+    ...overall,
+    keywords: uniqueStrings([...overall.keywords, ...sections.flatMap(section => section.keywords)]).slice(0, MAX_MERGED_KEYWORDS),
+    // The sections' estimates are made on the actual text, the merge's only on summaries
+    estimatedTime: sectionResults.reduce((total, result) => total + result.estimatedTime, 0),
+    sections,
+  };
+}
+
 /**
  * Extracts text from image using OCR (via Gemini Vision)
  */
 export async function extractTextFromImage(
   imageUrl: string,
-  userId: string
+  userId: string,
+  signal?: AbortSignal
 ): Promise<string> {
   return getOrGenerate<string>({
     type: 'text',
@@ -105,11 +291,8 @@ export async function extractTextFromImage(
     prompt: imageUrl,
     userId: userId,
     generatorFn: async () => {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || process.env.GEMINI_API_KEY || '' });
-      const model = ai.getGenerativeModel({ model: 'gemini-2.5-flash' });
-      
       // Fetch image and convert to base64
-      const response = await fetch(imageUrl);
+      const response = await fetch(imageUrl, { signal });
       const blob = await response.blob();
       const arrayBuffer = await blob.arrayBuffer();
       const uint8Array = new Uint8Array(arrayBuffer);
@@ -120,47 +303,60 @@ export async function extractTextFromImage(
       const base64Image = btoa(binary);
       const mimeType = blob.type || 'image/jpeg';
       
-      const result = await model.generateContent({
-        contents: [{
-          parts: [
-            { text: 'Extract all text from this image. Return only the extracted text, no explanations.' },
-            {
-              inlineData: {
-                data: base64Image,
-                mimeType: mimeType,
-              },
-            },
-          ],
-        }],
-      });
-      
-      return result.response.text();
+      return ocrImage(base64Image, mimeType, signal);
     },
   });
 }
 
 /**
- * Transcribes audio to text (using Gemini or external service)
+ * OCR for an image that is already in memory, e.g. a rendered PDF page.
+ * `cacheId` names the image in the cache (the image data itself is too large for a key).
  */
-export async function transcribeAudio(
-  audioUrl: string,
-  userId: string
+export async function extractTextFromImageData(
+  base64Image: string,
+  mimeType: string,
+  cacheId: string,
+  userId: string,
+  signal?: AbortSignal
 ): Promise<string> {
-  // For now, we'll use a placeholder
-  // In production, integrate with Whisper API or similar
   return getOrGenerate<string>({
     type: 'text',
-    topic: 'audio-transcription',
-    prompt: audioUrl,
+    topic: 'ocr-extraction',
+    prompt: cacheId,
     userId: userId,
-    generatorFn: async () => {
-      // TODO: Implement audio transcription
-      // This could use OpenAI Whisper API or Google Speech-to-Text
-      throw new Error('Audio transcription not yet implemented. Please use text input.');
-    },
+    generatorFn: () => ocrImage(base64Image, mimeType, signal),
   });
 }
 
+function ocrImage(base64Image: string, mimeType: string, signal?: AbortSignal): Promise<string> {
+  return generateText({
+    task: 'content.ocr',
+    signal,
+    contents: [
+      { text: 'Extract all text from this image. Return only the extracted text, no explanations.' },
+      {
+        inlineData: {
+          data: base64Image,
+          mimeType: mimeType,
+        },
+      },
+    ],
+  });
+}
+
+/**
+ * Transcribes audio to text, with a "[m:ss]" timestamp on every segment.
+ * Use transcribeRecording directly to keep the timed segments.
+ */
+export async function transcribeAudio(
+  audioUrl: string,
+  userId: string
+): Promise<string> {
+  const response = await fetch(audioUrl);
+  const transcript = await transcribeRecording(await response.blob(), audioUrl, userId);
+  return formatTranscript(transcript.segments);
+}
+
 /**
  * Detects if content is an assignment/essay prompt
  */
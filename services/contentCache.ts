@@ -11,17 +11,19 @@ import {
   collection,
   query,
   where,
-  limit,
   getDocs,
-  addDoc,
+  getDoc,
+  setDoc,
   serverTimestamp,
-  updateDoc,
   doc,
-  increment,
-  QueryDocumentSnapshot,
-  DocumentData,
+  Timestamp,
+  DocumentSnapshot,
 } from 'firebase/firestore';
-import { generateAIResponse, AIResponse } from './aiService';
+import { generateAIResponse, getAIProvider, AIResponse } from './aiService';
+import { DEFAULT_TEXT_MODEL, DEFAULT_VIDEO_MODEL } from './aiProvider';
+import { buildCacheKey } from './cacheKey';
+import { recordHit } from './cacheService';
+import { DEFAULT_GENERATOR_VERSION, getStaleReason, getTtlMs } from './cachePolicy';
 
 /**
  * Content type for different kinds of AI-generated content
@@ -39,7 +41,10 @@ export interface CachedContentDocument {
   imageUrl?: string;
   videoUrl?: string;
   createdAt: any; // Firestore Timestamp
+  expiresAt?: any; // Firestore Timestamp (see cachePolicy)
+  generatorVersion?: number;
   views?: number; // Track how many times this content was used
+  likedBy?: string[];
   createdBy?: string; // User ID who first generated this content
 }
 
@@ -51,16 +56,18 @@ export interface ContentResult extends CachedContentDocument {
 }
 
 /**
- * Generate a hash of the prompt for use as document ID (optional optimization)
+ * Builds the content-addressed document ID for a request.
+ * The 'ai-response' format part keeps these documents apart from getOrGenerate entries of the same type.
  */
-function hashPrompt(prompt: string): string {
-  let hash = 0;
-  for (let i = 0; i < prompt.length; i++) {
-    const char = prompt.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash; // Convert to 32-bit integer
-  }
-  return Math.abs(hash).toString(36);
+function getContentCacheKey(prompt: string, type: ContentType, topic: string): Promise<string> {
+  return buildCacheKey({
+    type,
+    topic,
+    prompt,
+    provider: getAIProvider().name,
+    model: type === 'video' ? DEFAULT_VIDEO_MODEL : DEFAULT_TEXT_MODEL,
+    keyParts: { format: 'ai-response' },
+  });
 }
 
 /**
@@ -96,26 +103,17 @@ export async function fetchOrGenerateContent(
 ): Promise<ContentResult> {
   const cacheRef = collection(db, 'content_cache');
 
-  // 1. Check Firestore cache
-  const q = query(
-    cacheRef,
-    where('prompt', '==', prompt),
-    where('type', '==', type),
-    limit(1)
-  );
-
-  const snapshot = await getDocs(q);
+  // 1. Check Firestore cache (direct read by content-addressed key)
+  const docRef = doc(cacheRef, await getContentCacheKey(prompt, type, topic));
+  const cachedDoc = await getDoc(docRef) as DocumentSnapshot<CachedContentDocument>;
 
-  // 2. If found in cache, return it
-  if (!snapshot.empty) {
-    const cachedDoc = snapshot.docs[0] as QueryDocumentSnapshot<CachedContentDocument>;
+  // 2. If found in cache (and not expired or from an older generator), return it
+  const staleReason = cachedDoc.exists() ? getStaleReason(cachedDoc.data(), DEFAULT_GENERATOR_VERSION) : null;
+  if (cachedDoc.exists() && !staleReason) {
     const cachedData = cachedDoc.data();
 
     // Increment views asynchronously (don't wait for it)
-    const docRef = doc(cacheRef, cachedDoc.id);
-    updateDoc(docRef, {
-      views: increment(1),
-    }).catch(err => console.error('Failed to increment views:', err));
+    recordHit(docRef, cachedData).catch(err => console.error('Failed to increment views:', err));
 
     console.log(`✅ [Cache HIT] Loaded from cache - ${type}: ${topic}`);
     
@@ -125,8 +123,8 @@ export async function fetchOrGenerateContent(
     };
   }
 
-  // 3. Not found in cache - generate new content
-  console.log(`✨ [Cache MISS] Generating new content - ${type}: ${topic}`);
+  // 3. Not found in cache (or stale) - generate new content
+  console.log(`✨ [Cache ${staleReason ? 'STALE' : 'MISS'}] Generating new content - ${type}: ${topic}`);
   
   const aiResponse = await generateAIResponse(prompt, type, topic, userId);
 
@@ -139,13 +137,19 @@ export async function fetchOrGenerateContent(
     imageUrl: aiResponse.imageUrl,
     videoUrl: aiResponse.videoUrl,
     views: 1,
+    likedBy: [],
+    generatorVersion: DEFAULT_GENERATOR_VERSION,
     createdBy: userId,
     createdAt: serverTimestamp(),
+    expiresAt: Timestamp.fromMillis(Date.now() + getTtlMs(type)),
   };
 
-  // 5. Save to Firestore
+  // 5. Save to Firestore (fixture output stays out of the shared cache)
+  if (getAIProvider().name === 'fixture') {
+    return { ...newDoc, createdAt: new Date(), fromCache: false };
+  }
   try {
-    await addDoc(cacheRef, newDoc);
+    await setDoc(docRef, newDoc);
     console.log(`💾 Saved new content to cache - ${type}: ${topic}`);
   } catch (error) {
     console.error('Failed to save content to cache:', error);
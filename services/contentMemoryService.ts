@@ -14,9 +14,11 @@ import {
   serverTimestamp,
   updateDoc,
   increment,
+  arrayUnion,
   deleteDoc,
 } from 'firebase/firestore';
 import { StudyMaterial, PersonalJourney, JourneyProgress, TTSCache, ProgressAnalytics } from '../types';
+import { assertFitsInDocument } from './materialTextService';
 
 export interface LearningProgress {
   userId: string;
@@ -33,11 +35,13 @@ export interface LearningProgress {
 }
 
 /**
- * Saves study material to Firestore
+ * Saves study material to Firestore. Its text goes to Storage first (see
+ * storeMaterialText); the document keeps the path.
  */
 export async function saveStudyMaterial(
   material: Omit<StudyMaterial, 'createdAt'>
 ): Promise<StudyMaterial> {
+  assertFitsInDocument(material, 'The material');
   const materialRef = doc(collection(db, `users/${material.userId}/materials`), material.uploadId);
   const materialData = {
     ...material,
@@ -69,6 +73,22 @@ export async function getUserStudyMaterials(userId: string): Promise<StudyMateri
   })) as StudyMaterial[];
 }
 
+/**
+ * Gets a single study material
+ */
+export async function getStudyMaterial(userId: string, materialId: string): Promise<StudyMaterial | null> {
+  const materialRef = doc(db, `users/${userId}/materials`, materialId);
+  const snapshot = await getDoc(materialRef);
+
+  if (!snapshot.exists()) return null;
+
+  return {
+    uploadId: snapshot.id,
+    ...snapshot.data(),
+    createdAt: snapshot.data().createdAt?.toDate() || new Date(),
+  } as StudyMaterial;
+}
+
 // ===== JOURNEY MANAGEMENT =====
 
 /**
@@ -207,6 +227,15 @@ export async function getJourneyAnalytics(userId: string, journeyId: string): Pr
   return snapshot.data() as ProgressAnalytics;
 }
 
+/**
+ * Adds review cards the student struggled with to a journey's `hardCards`.
+ * Journeys without analytics yet are skipped.
+ */
+export async function addHardCards(userId: string, journeyId: string, cardIds: string[]): Promise<void> {
+  if (cardIds.length === 0 || !(await getJourneyAnalytics(userId, journeyId))) return;
+  await updateDoc(doc(db, `users/${userId}/analytics`, journeyId), { hardCards: arrayUnion(...cardIds) });
+}
+
 /**
  * Gets all user analytics for insights
  */
@@ -220,6 +249,26 @@ export async function getUserAnalytics(userId: string): Promise<ProgressAnalytic
   })) as ProgressAnalytics[];
 }
 
+/**
+ * Every material a journey was built from. Journeys saved before a journey
+ * could combine materials only have sourceMaterialId.
+ */
+export function getJourneyMaterialIds(journey: PersonalJourney): string[] {
+  if (journey.sourceMaterialIds?.length) return journey.sourceMaterialIds;
+  return journey.sourceMaterialId ? [journey.sourceMaterialId] : [];
+}
+
+/**
+ * The id of a journey built from a material, alone or together with others
+ */
+async function findJourneyIdForMaterial(userId: string, materialId: string): Promise<string | null> {
+  const journeys = collection(db, `users/${userId}/journeys`);
+  const single = await getDocs(query(journeys, where('sourceMaterialId', '==', materialId), limit(1)));
+  if (!single.empty) return single.docs[0].id;
+  const combined = await getDocs(query(journeys, where('sourceMaterialIds', 'array-contains', materialId), limit(1)));
+  return combined.empty ? null : combined.docs[0].id;
+}
+
 // ===== LEGACY FUNCTIONS (KEPT FOR COMPATIBILITY) =====
 
 /**
@@ -230,15 +279,9 @@ export async function getLearningProgress(
   materialId: string
 ): Promise<JourneyProgress | null> {
   // For backward compatibility, try to find a journey for this material
-  const q = query(
-    collection(db, `users/${userId}/journeys`),
-    where('sourceMaterialId', '==', materialId)
-  );
-
-  const snapshot = await getDocs(q);
-  if (snapshot.empty) return null;
+  const journeyId = await findJourneyIdForMaterial(userId, materialId);
+  if (!journeyId) return null;
 
-  const journeyId = snapshot.docs[0].id;
   return getJourneyProgress(userId, journeyId);
 }
 
@@ -273,8 +316,10 @@ export async function getMaterialsForReview(userId: string): Promise<StudyMateri
   const materials: StudyMaterial[] = [];
   for (const journeyId of reviewJourneyIds.slice(0, 5)) {
     const journey = await getJourney(userId, journeyId);
-    if (journey?.sourceMaterialId) {
-      const material = await getDoc(doc(db, `users/${userId}/materials`, journey.sourceMaterialId));
+    if (!journey) continue;
+    for (const materialId of getJourneyMaterialIds(journey)) {
+      if (materials.some(material => material.uploadId === materialId)) continue;
+      const material = await getDoc(doc(db, `users/${userId}/materials`, materialId));
       if (material.exists()) {
         materials.push({
           uploadId: material.id,
@@ -326,15 +371,9 @@ export async function trackStudySession(
   duration: number // minutes
 ): Promise<void> {
   // Find related journey and update analytics
-  const q = query(
-    collection(db, `users/${userId}/journeys`),
-    where('sourceMaterialId', '==', materialId)
-  );
-
-  const snapshot = await getDocs(q);
-  if (snapshot.empty) return;
+  const journeyId = await findJourneyIdForMaterial(userId, materialId);
+  if (!journeyId) return;
 
-  const journeyId = snapshot.docs[0].id;
   const existingAnalytics = await getJourneyAnalytics(userId, journeyId);
 
   if (existingAnalytics) {
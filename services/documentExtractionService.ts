@@ -0,0 +1,334 @@
+// services/documentExtractionService.ts
+
+import type { PDFPageProxy } from 'pdfjs-dist';
+import { extractTextFromImage, extractTextFromImageData } from './contentAnalyzerService';
+
+/**
+ * Text extraction for uploaded PDF and Word documents, and for pages
+ * photographed one at a time in a scan session
+ *
+ * The extracted text keeps the document's structure as plain-text markers
+ * that the analyzer and generators can read:
+ * - "[Page 3]" at the start of every PDF page and every scanned photo
+ * - "## Heading" lines. PDF headings are detected from font size; Word
+ *   headings come from the document's heading styles.
+ * PDF pages without a text layer (scans) are rendered to an image and read
+ * with the same OCR as uploaded photos. The parsers are loaded on first use.
+ */
+
+export interface ExtractedPage {
+  pageNumber: number;
+  text: string;
+  method: 'text' | 'ocr';
+}
+
+export interface DocumentHeading {
+  level: number; // 1-6
+  text: string;
+  pageNumber?: number; // PDF only
+}
+
+export interface ExtractedDocument {
+  text: string; // The whole document, with page and heading markers
+  pages: ExtractedPage[]; // Empty for Word documents, which have no fixed pages
+  headings: DocumentHeading[];
+  ocrPageCount: number;
+}
+
+export type ExtractionProgress = (message: string) => void;
+
+// A page with less text than this is treated as scanned
+const MIN_PAGE_TEXT_CHARS = 20;
+// At most this many scanned pages are sent to OCR per document
+const MAX_OCR_PAGES = 30;
+export const MAX_SCAN_PAGES = MAX_OCR_PAGES;
+const OCR_RENDER_SCALE = 2;
+// A short line this much larger than the body text is a level 1, 2 or 3 heading
+const HEADING_SIZE_RATIOS = [1.8, 1.45, 1.2];
+const MAX_HEADING_LENGTH = 120;
+
+/**
+ * Extracts the text of a PDF or .docx file. Throws for formats that cannot be
+ * read in the browser (old binary .doc files) and for password-protected PDFs.
+ */
+export async function extractDocumentText(
+  file: Blob,
+  fileName: string,
+  sourceId: string, // Identifies the upload in the OCR cache, e.g. its download URL
+  userId: string,
+  onProgress?: ExtractionProgress,
+  signal?: AbortSignal
+): Promise<ExtractedDocument> {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.pdf') || file.type.includes('pdf')) {
+    return extractPdfText(await file.arrayBuffer(), sourceId, userId, onProgress, signal);
+  }
+  if (name.endsWith('.doc') || file.type === 'application/msword') {
+    throw new Error('Older .doc files cannot be read. Save the document as .docx or PDF and upload it again.');
+  }
+  return extractDocxText(await file.arrayBuffer());
+}
+
+// ===== PDF =====
+
+interface PdfLine {
+  text: string;
+  size: number; // Largest font size on the line
+  y: number;
+  endX: number; // Where the last item on the line ends
+}
+
+interface PdfTextItem {
+  str: string;
+  transform: number[];
+  width: number;
+  height: number;
+  hasEOL: boolean;
+}
+
+const isTextItem = (item: unknown): item is PdfTextItem =>
+  typeof item === 'object' && item !== null && typeof (item as PdfTextItem).str === 'string';
+
+async function loadPdfJs() {
+  const pdfjs = await import('pdfjs-dist');
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    const worker = await import('pdfjs-dist/build/pdf.worker.min.mjs?url');
+    pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+  }
+  return pdfjs;
+}
+
+/**
+ * Joins a page's text items into lines, using the end-of-line flags and
+ * changes in baseline. A visible gap between items becomes a space.
+ */
+function groupLines(items: unknown[]): PdfLine[] {
+  const lines: PdfLine[] = [];
+  let current: PdfLine | null = null;
+  for (const item of items) {
+    if (!isTextItem(item)) continue;
+    const y = item.transform[5];
+    const size = item.height || Math.abs(item.transform[3]) || 0;
+    if (current && Math.abs(current.y - y) > Math.max(current.size, size, 1) / 2) {
+      lines.push(current);
+      current = null;
+    }
+    const x = item.transform[4];
+    if (!current) {
+      current = { text: '', size: 0, y, endX: x };
+    } else if (x - current.endX > size * 0.2 && !/\s$/.test(current.text) && !/^\s/.test(item.str)) {
+      current.text += ' ';
+    }
+    current.text += item.str;
+    current.endX = x + item.width;
+    if (item.str.trim()) current.size = Math.max(current.size, size);
+    if (item.hasEOL) {
+      lines.push(current);
+      current = null;
+    }
+  }
+  if (current) lines.push(current);
+
+  return lines
+    .map(line => ({ ...line, text: line.text.replace(/\s+/g, ' ').trim() }))
+    .filter(line => line.text);
+}
+
+/**
+ * The font size most of the document's text is set in
+ */
+function bodyTextSize(lines: PdfLine[]): number {
+  const charsBySize = new Map<number, number>();
+  lines.forEach(line => {
+    const size = Math.round(line.size);
+    charsBySize.set(size, (charsBySize.get(size) || 0) + line.text.length);
+  });
+  let bodySize = 0;
+  let mostChars = -1;
+  charsBySize.forEach((chars, size) => {
+    if (chars > mostChars) {
+      bodySize = size;
+      mostChars = chars;
+    }
+  });
+  return bodySize;
+}
+
+function headingLevel(line: PdfLine, bodySize: number): number | null {
+  if (!bodySize || line.text.length > MAX_HEADING_LENGTH) return null;
+  const index = HEADING_SIZE_RATIOS.findIndex(ratio => line.size >= bodySize * ratio);
+  return index === -1 ? null : index + 1;
+}
+
+async function renderPageImage(page: PDFPageProxy): Promise<string> {
+  const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  await page.render({ canvas, viewport }).promise;
+  const dataUrl = canvas.toDataURL('image/jpeg', 0.85);
+  return dataUrl.slice(dataUrl.indexOf(',') + 1);
+}
+
+export async function extractPdfText(
+  data: ArrayBuffer,
+  sourceId: string,
+  userId: string,
+  onProgress?: ExtractionProgress,
+  signal?: AbortSignal
+): Promise<ExtractedDocument> {
+  const pdfjs = await loadPdfJs();
+  let pdf;
+  try {
+    pdf = await pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+  } catch (error: any) {
+    if (error?.name === 'PasswordException') {
+      throw new Error('This PDF is password-protected. Remove the password and upload it again.');
+    }
+    throw new Error(`Could not read this PDF: ${error?.message || error}`);
+  }
+
+  try {
+    // Read every text layer first; heading sizes are relative to the whole document
+    const pageLines: PdfLine[][] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      signal?.throwIfAborted();
+      onProgress?.(`Reading page ${pageNumber} of ${pdf.numPages}...`);
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      pageLines.push(groupLines(content.items));
+    }
+    const bodySize = bodyTextSize(pageLines.flat());
+
+    const pages: ExtractedPage[] = [];
+    const headings: DocumentHeading[] = [];
+    let ocrPageCount = 0;
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const lines = pageLines[pageNumber - 1];
+      const textLength = lines.reduce((sum, line) => sum + line.text.length, 0);
+
+      if (textLength >= MIN_PAGE_TEXT_CHARS) {
+        const blocks = lines.map(line => {
+          const level = headingLevel(line, bodySize);
+          if (!level) return line.text;
+          headings.push({ level, text: line.text, pageNumber });
+          return `\n${'#'.repeat(level)} ${line.text}\n`;
+        });
+        pages.push({ pageNumber, text: blocks.join('\n').replace(/\n{3,}/g, '\n\n').trim(), method: 'text' });
+        continue;
+      }
+
+      // No text layer: probably a scan
+      if (ocrPageCount >= MAX_OCR_PAGES) {
+        console.warn(`[Documents] Skipping OCR for page ${pageNumber}: limit of ${MAX_OCR_PAGES} scanned pages reached`);
+        pages.push({ pageNumber, text: '', method: 'ocr' });
+        continue;
+      }
+      signal?.throwIfAborted();
+      onProgress?.(`Page ${pageNumber} is scanned. Reading it with OCR...`);
+      const image = await renderPageImage(await pdf.getPage(pageNumber));
+      const text = await extractTextFromImageData(image, 'image/jpeg', `${sourceId}#page=${pageNumber}`, userId, signal);
+      pages.push({ pageNumber, text: text.trim(), method: 'ocr' });
+      ocrPageCount++;
+    }
+
+    return {
+      text: pages.map(page => `[Page ${page.pageNumber}]\n${page.text}`).join('\n\n'),
+      pages,
+      headings,
+      ocrPageCount,
+    };
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+// ===== WORD (.docx) =====
+
+function listItems(list: Element, depth: number): string[] {
+  const items: string[] = [];
+  Array.from(list.children).forEach(item => {
+    if (item.tagName !== 'LI') return;
+    const ownText = Array.from(item.childNodes)
+      .filter(node => node.nodeName !== 'UL' && node.nodeName !== 'OL')
+      .map(node => node.textContent || '')
+      .join('')
+      .trim();
+    if (ownText) items.push(`${'  '.repeat(depth)}- ${ownText}`);
+    item.querySelectorAll(':scope > ul, :scope > ol').forEach(nested => items.push(...listItems(nested, depth + 1)));
+  });
+  return items;
+}
+
+export async function extractDocxText(data: ArrayBuffer): Promise<ExtractedDocument> {
+  const mammoth = (await import('mammoth')).default;
+  let html: string;
+  try {
+    // Word's heading styles become h1-h6
+    html = (await mammoth.convertToHtml({ arrayBuffer: data })).value;
+  } catch (error: any) {
+    throw new Error(`Could not read this Word document: ${error?.message || error}`);
+  }
+
+  const body = new DOMParser().parseFromString(html, 'text/html').body;
+  const blocks: string[] = [];
+  const headings: DocumentHeading[] = [];
+  Array.from(body.children).forEach(element => {
+    const text = (element.textContent || '').replace(/\s+/g, ' ').trim();
+    const heading = /^H([1-6])$/.exec(element.tagName);
+    if (heading) {
+      if (!text) return;
+      const level = Number(heading[1]);
+      headings.push({ level, text });
+      blocks.push(`${'#'.repeat(level)} ${text}`);
+    } else if (element.tagName === 'UL' || element.tagName === 'OL') {
+      blocks.push(listItems(element, 0).join('\n'));
+    } else if (element.tagName === 'TABLE') {
+      const rows = Array.from(element.querySelectorAll('tr')).map(row =>
+        Array.from(row.children).map(cell => (cell.textContent || '').replace(/\s+/g, ' ').trim()).join(' | ')
+      );
+      blocks.push(rows.join('\n'));
+    } else if (text) {
+      blocks.push(text);
+    }
+  });
+
+  return {
+    text: blocks.filter(Boolean).join('\n\n'),
+    pages: [],
+    headings,
+    ocrPageCount: 0,
+  };
+}
+
+// ===== SCANNED PAGES =====
+
+/**
+ * Reads the photos of a scan session as one document, a page per photo in
+ * the order given. A photo without readable text keeps its page, empty.
+ */
+export async function extractScannedPages(
+  imageUrls: string[],
+  userId: string,
+  onProgress?: ExtractionProgress,
+  signal?: AbortSignal
+): Promise<ExtractedDocument> {
+  if (imageUrls.length > MAX_SCAN_PAGES) {
+    throw new Error(`A scan can have at most ${MAX_SCAN_PAGES} pages.`);
+  }
+
+  const pages: ExtractedPage[] = [];
+  for (const [index, imageUrl] of imageUrls.entries()) {
+    signal?.throwIfAborted();
+    onProgress?.(`Reading page ${index + 1} of ${imageUrls.length}...`);
+    const text = await extractTextFromImage(imageUrl, userId, signal);
+    pages.push({ pageNumber: index + 1, text: text.trim(), method: 'ocr' });
+  }
+
+  return {
+    text: pages.map(page => `[Page ${page.pageNumber}]\n${page.text}`).join('\n\n'),
+    pages,
+    headings: [],
+    ocrPageCount: pages.length,
+  };
+}
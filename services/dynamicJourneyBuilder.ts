@@ -1,13 +1,33 @@
 // services/dynamicJourneyBuilder.ts
 
-import { Journey, Scene, Question, QuestionType } from '../types';
-import { ContentAnalysis } from './contentAnalyzerService';
-import { GoogleGenAI } from '@google/genai';
+import { Journey, Scene, Question, QuestionType, SectionAnalysis, SourceCitation, TranscriptSegment } from '../types';
+import { ContentAnalysis, uniqueStrings } from './contentAnalyzerService';
 import { getOrGenerate } from './cacheService';
+import { generateStructured } from './aiService';
+import { validateScene, validateQuestions, validateSourceMerge, validateJourneyStructure, JourneyStructure } from './outputValidators';
+import { getFactCheckReference, verifyQuestions } from './factCheckService';
+import { findSourceMoment } from './transcriptionService';
+import { findCitations, significantWords } from './citationService';
+
+// Bump when the question prompt or its checks change, so cached questions are regenerated
+const QUESTIONS_GENERATOR_VERSION = 2;
+
+// Scenes and question sets per journey. Material analyzed in sections gets
+// one of each per section where possible, up to the larger limits.
+const MAX_SCENES = 8;
+const MAX_SECTION_SCENES = 20;
+const MAX_QUESTION_POINTS = 5;
+const MAX_SECTION_QUESTION_POINTS = 12;
+// Points from different materials sharing this share of their words are the same point
+const DUPLICATE_POINT_SIMILARITY = 0.5;
 
 export interface StudyJourney extends Journey {
-  sourceMaterialId: string;
-  analysis: ContentAnalysis;
+  sourceMaterialId: string; // The first of sourceMaterialIds
+  sourceMaterialIds: string[];
+  analysis: ContentAnalysis; // Combined across the materials of a multi-material journey
+  sources?: StudySource[]; // Multi-material journeys
+  outline?: StudyPoint[]; // Multi-material journeys: the merged points, in teaching order
+  recording?: StudyRecording; // Set when the material is an audio recording
   progress: {
     completedScenes: number;
     totalScenes: number;
@@ -16,6 +36,102 @@ export interface StudyJourney extends Journey {
   };
 }
 
+export interface StudyRecording {
+  transcript: TranscriptSegment[];
+  mediaUrl: string;
+}
+
+// One uploaded material a multi-material journey is built from
+export interface StudySource {
+  materialId: string;
+  title: string;
+  text: string; // The analyzed text, which citations point into; read from Storage, never stored with the journey
+  analysis: ContentAnalysis;
+}
+
+// A main point to teach, with the section of the material it comes from
+export interface StudyPoint {
+  text: string;
+  section?: SectionAnalysis;
+  materialId?: string; // Multi-material journeys: the material the point comes from
+  alsoInMaterialIds?: string[]; // Other materials that cover the same point
+  note?: string; // How a disagreement between the materials about this point was settled
+}
+
+// The model's merge of several materials' points (validated by validateSourceMerge)
+export interface SourceMerge {
+  title: string;
+  summary: string;
+  points: { text: string; sourceIds: string[] }[];
+  conflicts: { topic: string; resolution: string; sourceIds: string[] }[];
+}
+
+/**
+ * The main points a journey teaches. For material analyzed in sections the
+ * points are taken from each section in turn, so the whole document is
+ * covered, and then put back in document order.
+ */
+export function selectStudyPoints(analysis: ContentAnalysis, limit: number, sectionLimit: number): StudyPoint[] {
+  const sections = analysis.sections || [];
+  if (sections.length === 0) {
+    return analysis.mainPoints.slice(0, limit).map(text => ({ text }));
+  }
+
+  const max = Math.max(limit, Math.min(sectionLimit, sections.length));
+  // A section without main points is taught through its title
+  const pointsBySection = sections.map(section => (section.mainPoints.length ? section.mainPoints : [section.title]));
+  const picked: { sectionIndex: number; pointIndex: number }[] = [];
+  for (let round = 0; picked.length < max; round++) {
+    const before = picked.length;
+    for (let sectionIndex = 0; sectionIndex < sections.length && picked.length < max; sectionIndex++) {
+      if (round < pointsBySection[sectionIndex].length) picked.push({ sectionIndex, pointIndex: round });
+    }
+    if (picked.length === before) break;
+  }
+
+  return picked
+    .sort((a, b) => a.sectionIndex - b.sectionIndex || a.pointIndex - b.pointIndex)
+    .map(({ sectionIndex, pointIndex }) => ({ text: pointsBySection[sectionIndex][pointIndex], section: sections[sectionIndex] }));
+}
+
+/**
+ * The points a journey's scenes or questions cover: the merged outline of a
+ * multi-material journey, spread evenly when there are more than needed
+ */
+function studyPointsFor(journey: StudyJourney, limit: number, sectionLimit: number): StudyPoint[] {
+  if (!journey.outline) return selectStudyPoints(journey.analysis, limit, sectionLimit);
+  const count = Math.max(limit, Math.min(sectionLimit, journey.sources?.length || 1));
+  if (journey.outline.length <= count) return journey.outline;
+  return Array.from({ length: count }, (_, i) => journey.outline![Math.floor((i * journey.outline!.length) / count)]);
+}
+
+// The material a point comes from: its text, id and sections
+function pointMaterial(journey: StudyJourney, point: StudyPoint, contentText: string) {
+  const source = point.materialId ? journey.sources?.find(candidate => candidate.materialId === point.materialId) : undefined;
+  return source
+    ? { materialId: source.materialId, text: source.text, sections: source.analysis.sections }
+    : { materialId: journey.sourceMaterialId, text: contentText, sections: journey.analysis.sections };
+}
+
+// The part of the material a point comes from, for checking what is generated from it
+function sourceTextFor(journey: StudyJourney, point: StudyPoint, contentText: string): string {
+  const { text } = pointMaterial(journey, point, contentText);
+  return point.section ? text.slice(point.section.startOffset, point.section.endOffset) : text;
+}
+
+/**
+ * The passages of the material that generated text about a point is based on,
+ * looked for in the point's own section first
+ */
+function citeSource(journey: StudyJourney, contentText: string, point: StudyPoint, text: string): SourceCitation[] {
+  const material = pointMaterial(journey, point, contentText);
+  const options = { sections: material.sections };
+  const citations = point.section
+    ? findCitations(material.text, text, material.materialId, { ...options, range: point.section })
+    : [];
+  return citations.length ? citations : findCitations(material.text, text, material.materialId, options);
+}
+
 /**
  * Builds a dynamic learning journey from analyzed content
  */
@@ -23,12 +139,14 @@ export async function buildStudyJourney(
   contentText: string,
   analysis: ContentAnalysis,
   userId: string,
-  sourceMaterialId: string
+  sourceMaterialId: string,
+  recording?: StudyRecording,
+  signal?: AbortSignal
 ): Promise<StudyJourney> {
   const journeyId = `study_${sourceMaterialId}_${Date.now()}`;
   
   // Generate journey structure based on analysis
-  const journeyStructure = await generateJourneyStructure(analysis, contentText, userId);
+  const journeyStructure = await generateJourneyStructure(analysis, contentText, userId, signal);
   
   const journey: StudyJourney = {
     id: journeyId,
@@ -36,10 +154,15 @@ export async function buildStudyJourney(
     description: analysis.summary,
     startingPrompt: generateStartingPrompt(analysis),
     sourceMaterialId,
+    sourceMaterialIds: [sourceMaterialId],
     analysis,
+    ...(recording ? { recording } : {}),
     progress: {
       completedScenes: 0,
-      totalScenes: journeyStructure.sceneCount,
+      // Sectioned material gets a scene per selected point, however many the structure suggests
+      totalScenes: analysis.sections?.length
+        ? selectStudyPoints(analysis, MAX_SCENES, MAX_SECTION_SCENES).length
+        : journeyStructure.sceneCount,
       score: 0,
       timeSpent: 0,
     },
@@ -48,23 +171,230 @@ export async function buildStudyJourney(
   return journey;
 }
 
+// ===== MULTI-MATERIAL JOURNEYS =====
+
+interface CandidatePoint extends StudyPoint {
+  id: string; // "m2.p3": point 3 of material 2, as the merge prompt names it
+  materialId: string;
+  words: Set<string>;
+}
+
+function wordSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(word => {
+    if (b.has(word)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+// The numbers in a point: dates, counts, amounts
+const numbersIn = (text: string): string => (text.match(/\d+(?:[.,]\d+)?/g) || []).sort().join(' ');
+
+/**
+ * Every material's main points, with points that repeat one from an earlier
+ * material folded into it. Points that match but give different numbers are
+ * kept apart, so the merge can see and settle the disagreement.
+ */
+function collectCandidatePoints(sources: StudySource[]): CandidatePoint[] {
+  const kept: CandidatePoint[] = [];
+  sources.forEach((source, sourceIndex) => {
+    selectStudyPoints(source.analysis, MAX_SCENES, MAX_SECTION_SCENES).forEach((point, pointIndex) => {
+      const words = significantWords(point.text);
+      const numbers = numbersIn(point.text);
+      const duplicate = kept.find(other =>
+        other.materialId !== source.materialId &&
+        numbersIn(other.text) === numbers &&
+        wordSimilarity(other.words, words) >= DUPLICATE_POINT_SIMILARITY
+      );
+      if (duplicate) {
+        duplicate.alsoInMaterialIds = uniqueStrings([...(duplicate.alsoInMaterialIds || []), source.materialId]);
+        return;
+      }
+      kept.push({ ...point, id: `m${sourceIndex + 1}.p${pointIndex + 1}`, materialId: source.materialId, words });
+    });
+  });
+  return kept;
+}
+
+function buildMergePrompt(sources: StudySource[], candidates: CandidatePoint[]): string {
+  const materials = sources.map((source, index) => `m${index + 1}: "${source.title}" - ${source.analysis.summary}`).join('\n');
+  const points = candidates.map(candidate => `${candidate.id}: ${candidate.text}`).join('\n');
+
+  return `A student wants to learn from these ${sources.length} study materials together:
+${materials}
+
+Main points from the materials (the id says which material each comes from):
+${points}
+
+Combine them into one learning journey:
+1. Merge points that say the same thing into one point, listing the ids of all of them.
+2. Find facts the materials disagree on (dates, names, numbers, causes). For each, decide what is correct according to well-established history and say which material had it wrong.
+3. Order the points so the journey flows across all the materials: chronologically for historical events, otherwise from foundations to details.
+Keep at most ${MAX_SECTION_SCENES} points, and cover every material.
+
+Return JSON:
+{
+  "title": "A title for the combined journey",
+  "summary": "A 2-3 sentence summary of everything the materials cover",
+  "points": [{ "text": "The point to teach, with any disagreement resolved", "sourceIds": ["m1.p1", "m2.p3"] }],
+  "conflicts": [{ "topic": "What the materials disagree on", "resolution": "What is correct, and which material had it wrong", "sourceIds": ["m1.p2", "m3.p1"] }]
+}`;
+}
+
+/**
+ * Turns the merge into the journey outline. Every point is tied to the
+ * material of its first known id, or else to the most similar candidate, and
+ * every conflict becomes a note on the points it concerns.
+ */
+function buildOutline(merge: SourceMerge, candidates: CandidatePoint[]): StudyPoint[] {
+  const byId = new Map(candidates.map(candidate => [candidate.id, candidate]));
+  const closestCandidate = (text: string): CandidatePoint => {
+    const words = significantWords(text);
+    return candidates.reduce((best, candidate) =>
+      (wordSimilarity(candidate.words, words) > wordSimilarity(best.words, words) ? candidate : best)
+    );
+  };
+
+  const outline = merge.points.map(point => {
+    const known = point.sourceIds.map(id => byId.get(id)).filter((candidate): candidate is CandidatePoint => !!candidate);
+    const matched = known.length ? known : [closestCandidate(point.text)];
+    const primary = matched[0];
+    const others = uniqueStrings([
+      ...matched.map(candidate => candidate.materialId),
+      ...matched.flatMap(candidate => candidate.alsoInMaterialIds || []),
+    ]).filter(id => id !== primary.materialId);
+    return {
+      point: {
+        text: point.text,
+        materialId: primary.materialId,
+        ...(primary.section ? { section: primary.section } : {}),
+        ...(others.length ? { alsoInMaterialIds: others } : {}),
+      } as StudyPoint,
+      ids: new Set(matched.map(candidate => candidate.id)),
+      words: significantWords(point.text),
+    };
+  });
+
+  merge.conflicts.forEach(conflict => {
+    const note = `${conflict.topic}: ${conflict.resolution}`;
+    let concerned = outline.filter(entry => conflict.sourceIds.some(id => entry.ids.has(id)));
+    if (concerned.length === 0 && outline.length > 0) {
+      const words = significantWords(`${conflict.topic} ${conflict.resolution}`);
+      concerned = [outline.reduce((best, entry) => (wordSimilarity(entry.words, words) > wordSimilarity(best.words, words) ? entry : best))];
+    }
+    concerned.forEach(entry => {
+      entry.point.note = entry.point.note ? `${entry.point.note} ${note}` : note;
+    });
+  });
+
+  return outline.map(entry => entry.point);
+}
+
+const mostCommon = <T,>(values: T[]): T => {
+  const counts = new Map<T, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return values.reduce((best, value) => (counts.get(value)! > counts.get(best)! ? value : best), values[0]);
+};
+
+/**
+ * Builds one journey from several analyzed materials. Points repeated across
+ * the materials are merged, facts they disagree on are settled, and the
+ * points are ordered across all the materials.
+ */
+export async function buildMultiSourceJourney(sources: StudySource[], userId: string): Promise<StudyJourney> {
+  if (sources.length === 0) throw new Error('Select at least one study material.');
+  if (sources.length === 1) {
+    const [source] = sources;
+    return buildStudyJourney(source.text, source.analysis, userId, source.materialId);
+  }
+
+  const materialIds = sources.map(source => source.materialId);
+  const candidates = collectCandidatePoints(sources);
+
+  let merge: SourceMerge;
+  try {
+    merge = await getOrGenerate<SourceMerge>({
+      type: 'text',
+      topic: 'journey-merge',
+      prompt: candidates.map(candidate => `${candidate.id}: ${candidate.text}`).join('\n'),
+      userId: userId,
+      keyParts: { materialIds },
+      validate: validateSourceMerge,
+      generatorFn: () => generateStructured<SourceMerge>({
+        task: 'journey.mergeSources',
+        contents: buildMergePrompt(sources, candidates),
+      }, validateSourceMerge),
+    });
+  } catch (error) {
+    // Without the merge the journey still covers every material, one after another
+    console.warn('[Journey] Could not merge the materials, keeping their own order:', error);
+    merge = {
+      title: sources.map(source => source.analysis.title).join(' & '),
+      summary: sources.map(source => source.analysis.summary).join(' '),
+      points: candidates.map(candidate => ({ text: candidate.text, sourceIds: [candidate.id] })),
+      conflicts: [],
+    };
+  }
+
+  const outline = buildOutline(merge, candidates).slice(0, MAX_SECTION_SCENES);
+  const analyses = sources.map(source => source.analysis);
+  const journeyTypes = uniqueStrings(analyses.map(analysis => analysis.suggestedJourneyType));
+  const analysis: ContentAnalysis = {
+    title: merge.title || analyses.map(source => source.title).join(' & '),
+    topics: uniqueStrings(analyses.flatMap(source => source.topics)),
+    keywords: uniqueStrings(analyses.flatMap(source => source.keywords)).slice(0, 30),
+    difficulty: mostCommon(analyses.map(source => source.difficulty)),
+    subject: mostCommon(analyses.map(source => source.subject)),
+    mainPoints: outline.map(point => point.text),
+    intent: 'study',
+    estimatedTime: analyses.reduce((total, source) => total + source.estimatedTime, 0),
+    suggestedJourneyType: journeyTypes.length === 1 ? analyses[0].suggestedJourneyType : 'mixed',
+    summary: merge.summary || analyses.map(source => source.summary).join(' '),
+  };
+
+  console.log(`[Journey] Merged ${candidates.length} points from ${sources.length} materials into ${outline.length}, settling ${merge.conflicts.length} conflicts`);
+  return {
+    id: `study_multi_${materialIds.join('_').slice(0, 60)}_${Date.now()}`,
+    name: analysis.title,
+    description: analysis.summary,
+    startingPrompt: generateStartingPrompt(analysis),
+    sourceMaterialId: materialIds[0],
+    sourceMaterialIds: materialIds,
+    analysis,
+    sources,
+    outline,
+    progress: {
+      completedScenes: 0,
+      totalScenes: studyPointsFor({ outline, sources } as StudyJourney, MAX_SCENES, MAX_SECTION_SCENES).length,
+      score: 0,
+      timeSpent: 0,
+    },
+  } as StudyJourney;
+}
+
 /**
  * Generates journey structure based on content analysis
  */
 async function generateJourneyStructure(
   analysis: ContentAnalysis,
   contentText: string,
-  userId: string
-): Promise<{ sceneCount: number; structure: string }> {
-  return getOrGenerate<{ sceneCount: number; structure: string }>({
+  userId: string,
+  signal?: AbortSignal
+): Promise<JourneyStructure> {
+  return getOrGenerate<JourneyStructure>({
     type: 'text',
     topic: 'journey-structure',
     prompt: `${analysis.title} - ${analysis.topics.join(', ')}`,
     userId: userId,
+    keyParts: {
+      difficulty: analysis.difficulty,
+      journeyType: analysis.suggestedJourneyType,
+      estimatedTime: analysis.estimatedTime,
+      mainPoints: analysis.mainPoints,
+    },
+    validate: validateJourneyStructure,
     generatorFn: async () => {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || process.env.GEMINI_API_KEY || '' });
-      const model = ai.getGenerativeModel({ model: 'gemini-2.5-flash' });
-      
       const prompt = `Based on this content analysis, create a learning journey structure:
 
 Title: ${analysis.title}
@@ -75,7 +405,7 @@ Estimated Time: ${analysis.estimatedTime} minutes
 
 Main Points to Cover:
 ${analysis.mainPoints.map((p, i) => `${i + 1}. ${p}`).join('\n')}
-
+${analysis.sections?.length ? `\nThe material has ${analysis.sections.length} sections: ${analysis.sections.map(section => section.title).join('; ')}\n` : ''}
 Create a JSON structure with:
 {
   "sceneCount": number of interactive scenes needed (3-8),
@@ -84,14 +414,11 @@ Create a JSON structure with:
 
 The journey should be engaging, educational, and match the ${analysis.suggestedJourneyType} journey type.`;
       
-      const response = await model.generateContent({
+      return generateStructured<JourneyStructure>({
+        task: 'journey.structure',
         contents: prompt,
-        config: {
-          responseMimeType: 'application/json',
-        },
-      });
-      
-      return JSON.parse(response.text);
+        signal,
+      }, validateJourneyStructure);
     },
   });
 }
@@ -117,20 +444,23 @@ function generateStartingPrompt(analysis: ContentAnalysis): string {
 export async function generateJourneyScenes(
   journey: StudyJourney,
   contentText: string,
-  userId: string
+  userId: string,
+  signal?: AbortSignal
 ): Promise<Scene[]> {
   const scenes: Scene[] = [];
-  const mainPoints = journey.analysis.mainPoints;
+  const points = studyPointsFor(journey, MAX_SCENES, MAX_SECTION_SCENES);
   
   // Generate one scene per main point
-  for (let i = 0; i < mainPoints.length && i < 8; i++) {
+  for (let i = 0; i < points.length; i++) {
+    signal?.throwIfAborted();
     const scene = await generateScene(
-      mainPoints[i],
+      points[i],
       journey,
       i + 1,
-      mainPoints.length,
+      points.length,
       contentText,
-      userId
+      userId,
+      signal
     );
     scenes.push(scene);
   }
@@ -142,27 +472,33 @@ export async function generateJourneyScenes(
  * Generates a single scene based on a main point
  */
 async function generateScene(
-  mainPoint: string,
+  point: StudyPoint,
   journey: StudyJourney,
   sceneNumber: number,
   totalScenes: number,
   contentText: string,
-  userId: string
+  userId: string,
+  signal?: AbortSignal
 ): Promise<Scene> {
-  return getOrGenerate<Scene>({
+  const mainPoint = point.text;
+  const scene = await getOrGenerate<Scene>({
     type: 'scene',
     topic: journey.id,
     prompt: `${mainPoint} - Scene ${sceneNumber}`,
     userId: userId,
+    keyParts: {
+      journeyName: journey.name,
+      totalScenes,
+      difficulty: journey.analysis.difficulty,
+      journeyType: journey.analysis.suggestedJourneyType,
+    },
+    validate: validateScene,
     generatorFn: async () => {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || process.env.GEMINI_API_KEY || '' });
-      const model = ai.getGenerativeModel({ model: 'gemini-2.5-flash' });
-      
       const prompt = `Create an interactive scene for a learning journey about "${journey.name}".
 
 Scene ${sceneNumber} of ${totalScenes}
 Focus: ${mainPoint}
-Journey Type: ${journey.analysis.suggestedJourneyType}
+${point.section ? `Section of the material: ${point.section.title}\n` : ''}${point.note ? `The study materials disagree here. Teach it this way: ${point.note}\n` : ''}Journey Type: ${journey.analysis.suggestedJourneyType}
 Difficulty: ${journey.analysis.difficulty}
 
 Create a scene that:
@@ -181,16 +517,21 @@ Return JSON:
   ]
 }`;
       
-      const response = await model.generateContent({
+      return generateStructured<Scene>({
+        task: 'journey.scene',
         contents: prompt,
-        config: {
-          responseMimeType: 'application/json',
-        },
-      });
-      
-      return JSON.parse(response.text) as Scene;
+        signal,
+      }, validateScene);
     },
   });
+
+  // Link the scene back to the passages, and for recordings the moment, it teaches
+  const citations = citeSource(journey, contentText, point, `${mainPoint} ${scene.scenario}`);
+  const cited = citations.length ? { ...scene, citations } : scene;
+  if (!journey.recording) return cited;
+  const { transcript, mediaUrl } = journey.recording;
+  const sourceMoment = findSourceMoment(transcript, `${mainPoint} ${scene.scenario}`, mediaUrl);
+  return sourceMoment ? { ...cited, sourceMoment } : cited;
 }
 
 /**
@@ -199,18 +540,21 @@ Return JSON:
 export async function generateStudyQuestions(
   journey: StudyJourney,
   contentText: string,
-  userId: string
+  userId: string,
+  signal?: AbortSignal
 ): Promise<Question[]> {
   const questions: Question[] = [];
-  const mainPoints = journey.analysis.mainPoints;
+  const points = studyPointsFor(journey, MAX_QUESTION_POINTS, MAX_SECTION_QUESTION_POINTS);
   
   // Generate 2-3 questions per main point
-  for (const point of mainPoints.slice(0, 5)) {
+  for (const point of points) {
+    signal?.throwIfAborted();
     const pointQuestions = await generateQuestionsForPoint(
       point,
       journey,
       contentText,
-      userId
+      userId,
+      signal
     );
     questions.push(...pointQuestions);
   }
@@ -222,22 +566,23 @@ export async function generateStudyQuestions(
  * Generates questions for a specific point
  */
 async function generateQuestionsForPoint(
-  point: string,
+  point: StudyPoint,
   journey: StudyJourney,
   contentText: string,
-  userId: string
+  userId: string,
+  signal?: AbortSignal
 ): Promise<Question[]> {
-  return getOrGenerate<Question[]>({
+  const questions = await getOrGenerate<Question[]>({
     type: 'question',
     topic: journey.id,
-    prompt: `Questions about: ${point}`,
+    prompt: `Questions about: ${point.text}`,
     userId: userId,
+    keyParts: { journeyName: journey.name, difficulty: journey.analysis.difficulty },
+    generatorVersion: QUESTIONS_GENERATOR_VERSION,
+    validate: validateQuestions,
     generatorFn: async () => {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || process.env.GEMINI_API_KEY || '' });
-      const model = ai.getGenerativeModel({ model: 'gemini-2.5-flash' });
-      
-      const prompt = `Create 2-3 quiz questions about "${point}" related to "${journey.name}".
-
+      const prompt = `Create 2-3 quiz questions about "${point.text}" related to "${journey.name}".
+${point.section ? `Section of the material: ${point.section.title}\n` : ''}${point.note ? `The study materials disagree here. Ask about it this way: ${point.note}\n` : ''}
 Difficulty: ${journey.analysis.difficulty}
 
 Return JSON array:
@@ -251,15 +596,20 @@ Return JSON array:
   }
 ]`;
       
-      const response = await model.generateContent({
+      // Invalid questions are dropped; the request fails only if none survive
+      const questions = await generateStructured<Question[]>({
+        task: 'journey.questions',
         contents: prompt,
-        config: {
-          responseMimeType: 'application/json',
-        },
-      });
-      
-      return JSON.parse(response.text) as Question[];
+        signal,
+      }, validateQuestions);
+      // Checked against the point's own section, which may lie beyond what the whole text check would see
+      return verifyQuestions(questions, getFactCheckReference(journey, sourceTextFor(journey, point, contentText)));
     },
   });
+
+  return questions.map(question => {
+    const citations = citeSource(journey, contentText, point, `${question.questionText} ${question.explanation}`);
+    return citations.length ? { ...question, citations } : question;
+  });
 }
 
@@ -1,7 +1,15 @@
 // services/essayAssistantService.ts
 
-import { GoogleGenAI } from '@google/genai';
 import { getOrGenerate } from './cacheService';
+import { generateText, generateStructured } from './aiService';
+import {
+  validateEssayOutline,
+  validateEssayFeedback,
+  validateEssaySuggestions,
+  validateEssayStoryMode,
+  EssaySuggestions,
+  EssayStoryMode,
+} from './outputValidators';
 import { ContentAnalysis } from './contentAnalyzerService';
 
 export interface EssayOutline {
@@ -41,10 +49,9 @@ export async function generateEssayOutline(
     topic: 'essay-outline',
     prompt: prompt,
     userId: userId,
+    keyParts: { topics: analysis.topics, mainPoints: analysis.mainPoints, difficulty: analysis.difficulty },
+    validate: validateEssayOutline,
     generatorFn: async () => {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || process.env.GEMINI_API_KEY || '' });
-      const model = ai.getGenerativeModel({ model: 'gemini-2.5-flash' });
-      
       const systemPrompt = `You are an expert essay writing tutor. Generate a structured outline for this essay prompt.
 
 Essay Prompt: ${prompt}
@@ -70,14 +77,10 @@ Create a comprehensive essay outline in JSON format:
   "suggestedExamples": ["example1", "example2"]
 }`;
       
-      const response = await model.generateContent({
+      return generateStructured<EssayOutline>({
+        task: 'essay.outline',
         contents: systemPrompt,
-        config: {
-          responseMimeType: 'application/json',
-        },
-      });
-      
-      return JSON.parse(response.text) as EssayOutline;
+      }, validateEssayOutline);
     },
   });
 }
@@ -94,12 +97,10 @@ export async function getWritingGuidance(
   return getOrGenerate<string>({
     type: 'text',
     topic: 'writing-guidance',
-    prompt: `${step} - ${outline.title}`,
+    prompt: step,
     userId: userId,
+    keyParts: { outline, currentText },
     generatorFn: async () => {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || process.env.GEMINI_API_KEY || '' });
-      const model = ai.getGenerativeModel({ model: 'gemini-2.5-flash' });
-      
       const stepGuidance = {
         introduction: `Write an engaging introduction that:
 - Hooks the reader
@@ -129,11 +130,10 @@ ${stepGuidance[step]}
 
 Provide specific, actionable guidance (3-4 sentences):`;
       
-      const response = await model.generateContent({
+      return generateText({
+        task: 'essay.guidance',
         contents: prompt,
       });
-      
-      return response.text;
     },
   });
 }
@@ -145,20 +145,15 @@ export async function suggestIdeasAndExamples(
   topic: string,
   analysis: ContentAnalysis,
   userId: string
-): Promise<{
-  ideas: string[];
-  examples: string[];
-  quotes: string[];
-}> {
-  return getOrGenerate<{ ideas: string[]; examples: string[]; quotes: string[] }>({
+): Promise<EssaySuggestions> {
+  return getOrGenerate<EssaySuggestions>({
     type: 'text',
     topic: 'essay-suggestions',
     prompt: topic,
     userId: userId,
+    keyParts: { topics: analysis.topics, mainPoints: analysis.mainPoints, keywords: analysis.keywords },
+    validate: validateEssaySuggestions,
     generatorFn: async () => {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || process.env.GEMINI_API_KEY || '' });
-      const model = ai.getGenerativeModel({ model: 'gemini-2.5-flash' });
-      
       const prompt = `Based on this study material, suggest ideas, examples, and quotes for an essay about "${topic}".
 
 Study Material:
@@ -173,14 +168,10 @@ Return JSON:
   "quotes": ["quote1", "quote2"]
 }`;
       
-      const response = await model.generateContent({
+      return generateStructured<EssaySuggestions>({
+        task: 'essay.suggestions',
         contents: prompt,
-        config: {
-          responseMimeType: 'application/json',
-        },
-      });
-      
-      return JSON.parse(response.text);
+      }, validateEssaySuggestions);
     },
   });
 }
@@ -197,13 +188,12 @@ export async function provideEssayFeedback(
   return getOrGenerate<EssayFeedback>({
     type: 'text',
     topic: 'essay-feedback',
-    prompt: `${prompt} - ${essayText.substring(0, 200)}`,
+    prompt: prompt,
     userId: userId,
+    keyParts: { essayText, topics: analysis.topics, mainPoints: analysis.mainPoints },
+    validate: validateEssayFeedback,
     generatorFn: async () => {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || process.env.GEMINI_API_KEY || '' });
-      const model = ai.getGenerativeModel({ model: 'gemini-2.5-flash' });
-      
-      const prompt = `You are an expert essay grader. Provide detailed feedback on this essay.
+      const gradingPrompt = `You are an expert essay grader. Provide detailed feedback on this essay.
 
 Essay Prompt: ${prompt}
 
@@ -226,14 +216,10 @@ Evaluate and return JSON:
   "detailedFeedback": "Detailed paragraph of feedback"
 }`;
       
-      const response = await model.generateContent({
-        contents: prompt,
-        config: {
-          responseMimeType: 'application/json',
-        },
-      });
-      
-      return JSON.parse(response.text) as EssayFeedback;
+      return generateStructured<EssayFeedback>({
+        task: 'essay.feedback',
+        contents: gradingPrompt,
+      }, validateEssayFeedback);
     },
   });
 }
@@ -245,20 +231,16 @@ export async function createEssayStoryMode(
   prompt: string,
   outline: EssayOutline,
   userId: string
-): Promise<{
-  scenario: string;
-  choices: Array<{ text: string; leadsTo: string }>;
-}> {
-  return getOrGenerate<{ scenario: string; choices: Array<{ text: string; leadsTo: string }> }>({
+): Promise<EssayStoryMode> {
+  return getOrGenerate<EssayStoryMode>({
     type: 'text',
     topic: 'essay-story-mode',
     prompt: prompt,
     userId: userId,
+    keyParts: { outline },
+    validate: validateEssayStoryMode,
     generatorFn: async () => {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || process.env.GEMINI_API_KEY || '' });
-      const model = ai.getGenerativeModel({ model: 'gemini-2.5-flash' });
-      
-      const prompt = `Create an interactive story mode for essay writing.
+      const storyPrompt = `Create an interactive story mode for essay writing.
 
 Essay Prompt: ${prompt}
 Outline: ${JSON.stringify(outline, null, 2)}
@@ -276,14 +258,10 @@ Return JSON:
   ]
 }`;
       
-      const response = await model.generateContent({
-        contents: prompt,
-        config: {
-          responseMimeType: 'application/json',
-        },
-      });
-      
-      return JSON.parse(response.text);
+      return generateStructured<EssayStoryMode>({
+        task: 'essay.storyMode',
+        contents: storyPrompt,
+      }, validateEssayStoryMode);
     },
   });
 }
@@ -0,0 +1,253 @@
+// services/factCheckService.ts
+
+import {
+  AccuracyConfidence,
+  AccuracyReport,
+  ClaimCheck,
+  Journey,
+  Outcome,
+  Question,
+  Scene,
+  TimelineEvent,
+} from '../types';
+import type { AIPriority } from './aiGovernor';
+import { generateStructured } from './aiService';
+import { validateFactCheckResults } from './outputValidators';
+
+/**
+ * Historical accuracy guardrail
+ *
+ * A second model pass over generated text. It lists the checkable claims
+ * (dates, names, places, numbers) and checks each against a reference: the
+ * uploaded material for study journeys, or the journey's curated fact sheet.
+ * - A contradicted claim is fixed by using the checker's rewritten text, and
+ *   the item is marked `corrected`. Without a rewrite it is marked disputed.
+ * - Every checked item gets an AccuracyReport the UI shows as a marker.
+ * - A failed check never blocks content. The item is marked unverified instead.
+ * Checks run inside the generators, so the report is cached with the content.
+ */
+
+// Longer source material is cut to keep the check request small
+const MAX_REFERENCE_CHARS = 12000;
+
+export interface FactCheckReference {
+  kind: AccuracyReport['checkedAgainst'];
+  text: string; // Empty for 'general'
+}
+
+export interface FactCheckItem {
+  id: string;
+  text: string;
+}
+
+// The checker's answer for one item (validated by validateFactCheckResult)
+export interface FactCheckResult {
+  id: string;
+  claims: ClaimCheck[];
+  correctedText?: string; // Only when a claim was contradicted
+}
+
+/**
+ * What a journey's generated content is checked against: the source material
+ * when there is one, else the journey's fact sheet, else general knowledge
+ */
+export function getFactCheckReference(journey?: Journey | null, sourceText?: string): FactCheckReference {
+  if (sourceText && sourceText.trim()) {
+    return { kind: 'source', text: sourceText.trim().slice(0, MAX_REFERENCE_CHARS) };
+  }
+  if (journey?.factSheet?.length) {
+    return { kind: 'factSheet', text: journey.factSheet.map(fact => `- ${fact}`).join('\n') };
+  }
+  return { kind: 'general', text: '' };
+}
+
+/**
+ * Confidence for an item from its claim verdicts. Without a reference nothing
+ * can be better than 'likely'.
+ */
+export function getConfidence(claims: ClaimCheck[], reference: FactCheckReference): AccuracyConfidence {
+  if (claims.some(claim => claim.verdict === 'contradicted')) return 'disputed';
+  if (claims.some(claim => claim.verdict === 'uncertain')) return 'unverified';
+  if (reference.kind === 'general' && claims.length > 0) return 'likely';
+  return claims.every(claim => claim.verdict === 'supported') ? 'verified' : 'likely';
+}
+
+const unverified = (reference: FactCheckReference): AccuracyReport => ({
+  confidence: 'unverified',
+  claims: [],
+  checkedAgainst: reference.kind,
+});
+
+function buildPrompt(items: FactCheckItem[], reference: FactCheckReference): string {
+  const referenceSection = reference.kind === 'source'
+    ? `REFERENCE (the student's own study material, treat it as the authority):\n"""\n${reference.text}\n"""`
+    : reference.kind === 'factSheet'
+      ? `REFERENCE (curated fact sheet for this journey, treat it as the authority):\n${reference.text}`
+      : 'There is no reference for this content. Use only well-established history.';
+
+  return `You are the fact-checker for "History Journey", a history learning app for students.
+Check the historical claims in each item below.
+
+${referenceSection}
+
+ITEMS:
+${items.map(item => `[${item.id}] ${item.text}`).join('\n')}
+
+For each item, list every checkable historical claim: dates, names, places, events and numbers.
+Ignore the fictional player character, their family and friends, dialogue, and story events that are clearly part of the game.
+Give each claim a verdict:
+- "supported": the reference states or directly implies it
+- "consistent": the reference does not cover it, but it matches well-established history
+- "contradicted": the reference, or well-established history, says otherwise
+- "uncertain": you cannot tell
+Add a short "note" to every claim that is not supported, saying what the reference says instead or why you are unsure.
+If any claim is contradicted, also give "correctedText": the whole item rewritten with the error fixed, keeping its length, tone and point of view.
+
+Respond with a JSON array with one entry per item:
+[{ "id": "item id", "claims": [{ "claim": "...", "verdict": "supported", "note": "..." }], "correctedText": "..." }]
+An item without checkable claims gets an empty "claims" array.`;
+}
+
+/**
+ * Checks a batch of texts in one request. Returns a report, and the corrected
+ * text when there is one, for every item id.
+ */
+export async function checkFacts(
+  items: FactCheckItem[],
+  reference: FactCheckReference,
+  priority: AIPriority = 'normal'
+): Promise<Record<string, { report: AccuracyReport; correctedText?: string }>> {
+  const checked: Record<string, { report: AccuracyReport; correctedText?: string }> = {};
+  const toCheck = items.filter(item => item.text.trim());
+  toCheck.forEach(item => {
+    checked[item.id] = { report: unverified(reference) };
+  });
+  if (toCheck.length === 0) return checked;
+
+  let results: FactCheckResult[];
+  try {
+    results = await generateStructured<FactCheckResult[]>({
+      task: 'accuracy.check',
+      contents: buildPrompt(toCheck, reference),
+      priority,
+    }, validateFactCheckResults);
+  } catch (error) {
+    console.warn('[Accuracy] Fact check failed, marking content unverified:', error);
+    return checked;
+  }
+
+  results.forEach(result => {
+    if (!checked[result.id]) return;
+    const confidence = getConfidence(result.claims, reference);
+    if (confidence === 'disputed' && result.correctedText) {
+      // The rewrite is not checked again, so it is at best 'likely'
+      checked[result.id] = {
+        report: { confidence: 'likely', claims: result.claims, checkedAgainst: reference.kind, corrected: true },
+        correctedText: result.correctedText,
+      };
+      return;
+    }
+    checked[result.id] = { report: { confidence, claims: result.claims, checkedAgainst: reference.kind } };
+  });
+
+  return checked;
+}
+
+/**
+ * Checks the scenario of a journey's first scene
+ */
+export async function verifyScene(scene: Scene, journey: Journey, priority: AIPriority = 'interactive'): Promise<Scene> {
+  const checked = await checkFacts([{ id: 'scenario', text: scene.scenario }], getFactCheckReference(journey), priority);
+  const scenario = checked.scenario;
+  if (!scenario) return scene;
+  return { ...scene, scenario: scenario.correctedText || scene.scenario, accuracy: scenario.report };
+}
+
+/**
+ * Checks an outcome's mentor insight, question explanation and next scenario
+ * in one request. The story has no other question to fall back on, so a
+ * disputed explanation is kept and flagged rather than dropped.
+ */
+export async function verifyOutcome(outcome: Outcome, journey: Journey, priority: AIPriority = 'interactive'): Promise<Outcome> {
+  const checked = await checkFacts([
+    { id: 'insight', text: outcome.mentorInsight },
+    { id: 'explanation', text: outcome.question.explanation },
+    { id: 'scenario', text: outcome.nextScene.scenario },
+  ], getFactCheckReference(journey), priority);
+
+  const verified: Outcome = { ...outcome };
+  if (checked.insight) {
+    verified.mentorInsight = checked.insight.correctedText || outcome.mentorInsight;
+    verified.mentorInsightAccuracy = checked.insight.report;
+  }
+  if (checked.explanation) {
+    verified.question = {
+      ...outcome.question,
+      explanation: checked.explanation.correctedText || outcome.question.explanation,
+      accuracy: checked.explanation.report,
+    };
+  }
+  if (checked.scenario) {
+    verified.nextScene = {
+      ...outcome.nextScene,
+      scenario: checked.scenario.correctedText || outcome.nextScene.scenario,
+      accuracy: checked.scenario.report,
+    };
+  }
+  return verified;
+}
+
+/**
+ * Checks questions with their explanations. A disputed question is dropped,
+ * since its answer is probably wrong too, unless that would leave none.
+ */
+export async function verifyQuestions(
+  questions: Question[],
+  reference: FactCheckReference,
+  priority: AIPriority = 'normal'
+): Promise<Question[]> {
+  const checked = await checkFacts(
+    questions.map((question, index) => ({ id: `q${index + 1}`, text: `${question.questionText} ${question.explanation}` })),
+    reference,
+    priority
+  );
+
+  // A rewrite would not fix the answer options, so a corrected question counts as disputed
+  const verified = questions.map((question, index) => {
+    const result = checked[`q${index + 1}`];
+    if (!result) return question;
+    const { corrected, ...report } = result.report;
+    return { ...question, accuracy: corrected ? { ...report, confidence: 'disputed' as AccuracyConfidence } : report };
+  });
+
+  const kept = verified.filter(question => question.accuracy?.confidence !== 'disputed');
+  return kept.length === 0 ? verified : kept;
+}
+
+/**
+ * Checks timeline events, fixing the description of any with a contradicted
+ * date or claim. Nothing generates Lesson.timelineEvents yet; whatever does
+ * should pass them through here before they are stored.
+ */
+export async function verifyTimelineEvents(
+  events: TimelineEvent[],
+  reference: FactCheckReference,
+  priority: AIPriority = 'normal'
+): Promise<TimelineEvent[]> {
+  const checked = await checkFacts(
+    events.map((event, index) => ({ id: `e${index + 1}`, text: `${event.date}: ${event.description}` })),
+    reference,
+    priority
+  );
+
+  return events.map((event, index) => {
+    const result = checked[`e${index + 1}`];
+    if (!result) return event;
+    if (!result.correctedText) return { ...event, accuracy: result.report };
+    // The rewrite keeps the "date: description" shape it was given
+    const separator = result.correctedText.indexOf(':');
+    return separator > 0
+      ? { date: result.correctedText.slice(0, separator).trim(), description: result.correctedText.slice(separator + 1).trim(), accuracy: result.report }
+      : { ...event, description: result.correctedText, accuracy: result.report };
+  });
+}
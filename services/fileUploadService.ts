@@ -1,10 +1,36 @@
 // services/fileUploadService.ts
 
 import { storage } from './firebase';
-import { ref, uploadBytes, getDownloadURL, uploadString } from 'firebase/storage';
+import { ref, uploadBytesResumable, getDownloadURL, uploadString, deleteObject, UploadTask } from 'firebase/storage';
 
 export type FileType = 'pdf' | 'image' | 'text' | 'audio' | 'word';
 
+const MAX_UPLOAD_ATTEMPTS = 3;
+// With no bytes sent for this long, the upload is reported as stalled
+const UPLOAD_STALL_MS = 15000;
+// Stalled for this much longer, the upload reconnects
+const UPLOAD_RECONNECT_MS = 30000;
+const UPLOAD_CANCELLED = 'storage/canceled';
+// Failures worth starting the upload over for: the SDK gave up on the network, or the server hiccuped
+const RETRYABLE_UPLOAD_ERRORS = ['storage/retry-limit-exceeded', 'storage/unknown', 'storage/server-file-wrong-size'];
+// Wait before starting over, doubled for each further attempt
+const UPLOAD_RETRY_DELAY_MS = 2000;
+
+export interface UploadProgress {
+  bytesTransferred: number;
+  totalBytes: number;
+  // stalled: running but nothing sent for a while; retrying: reconnecting after a stall, or starting over after a failure
+  state: 'running' | 'paused' | 'stalled' | 'retrying';
+  attempt: number; // From 1, one more each time the upload reconnects or starts over
+}
+
+export interface UploadHandle {
+  done: Promise<UploadedFile>;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+}
+
 export interface UploadedFile {
   id: string;
   userId: string;
@@ -17,36 +43,146 @@ export interface UploadedFile {
 }
 
 /**
- * Uploads a file to Firebase Storage
+ * Whether an upload failed because it was cancelled
  */
-export async function uploadFile(
+export const isUploadCancelled = (error: any): boolean => error?.code === UPLOAD_CANCELLED;
+
+/**
+ * Starts a resumable upload to Firebase Storage. Progress is reported as bytes
+ * are sent; the upload can be paused, resumed and cancelled. The storage SDK
+ * retries failed requests by itself; an upload that stalls anyway is paused
+ * and resumed, which makes it ask the server how many bytes arrived and
+ * continue from there rather than from the start. An upload that fails with
+ * a network or server error starts over after a growing wait. Reconnects and
+ * restarts share MAX_UPLOAD_ATTEMPTS.
+ */
+export function startUpload(
   file: File | Blob,
   userId: string,
-  fileName?: string
-): Promise<UploadedFile> {
+  options: { fileName?: string; onProgress?: (progress: UploadProgress) => void } = {}
+): UploadHandle {
   const timestamp = Date.now();
   const uploadId = `${userId}_${timestamp}`;
-  const name = fileName || file.name || `upload_${timestamp}`;
+  const name = options.fileName || (file as File).name || `upload_${timestamp}`;
   const fileType = detectFileType(file, name);
+  const mimeType = file.type || getMimeTypeFromExtension(name);
   const storagePath = `users/${userId}/uploads/${uploadId}/${name}`;
-
   const storageRef = ref(storage, storagePath);
-  
-  await uploadBytes(storageRef, file);
-  const downloadURL = await getDownloadURL(storageRef);
-  
+
+  let task: UploadTask | null = null;
+  let paused = false;
+  let cancelled = false;
+  let reconnecting = false;
+  let attempt = 1;
+  let stallTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const report = (bytesTransferred: number, state: UploadProgress['state']) =>
+    options.onProgress?.({ bytesTransferred, totalBytes: file.size, state, attempt });
+
+  const reconnect = (bytesTransferred: number) => {
+    // Past the last attempt, the SDK's own retries decide
+    if (paused || cancelled || attempt >= MAX_UPLOAD_ATTEMPTS) return;
+    attempt++;
+    console.warn(`[Upload] No progress for ${(UPLOAD_STALL_MS + UPLOAD_RECONNECT_MS) / 1000}s, reconnecting (attempt ${attempt})`);
+    reconnecting = true;
+    report(bytesTransferred, 'retrying');
+    task?.pause();
+  };
+
+  const watchForStall = (bytesTransferred: number) => {
+    stallTimer = setTimeout(() => {
+      report(bytesTransferred, 'stalled');
+      stallTimer = setTimeout(() => reconnect(bytesTransferred), UPLOAD_RECONNECT_MS);
+    }, UPLOAD_STALL_MS);
+  };
+
+  const upload = () => new Promise<void>((resolve, reject) => {
+    task = uploadBytesResumable(storageRef, file, { contentType: mimeType });
+    if (paused) task.pause();
+    task.on('state_changed', snapshot => {
+      clearTimeout(stallTimer);
+      if (snapshot.state === 'paused' && reconnecting) {
+        // Resuming fetches the upload's status from the server first
+        reconnecting = false;
+        if (!paused && !cancelled) {
+          task?.resume();
+          return;
+        }
+      }
+      const state = snapshot.state === 'paused' ? 'paused' : 'running';
+      report(snapshot.bytesTransferred, state);
+      if (state === 'running') watchForStall(snapshot.bytesTransferred);
+    }, error => {
+      clearTimeout(stallTimer);
+      reject(error);
+    }, () => {
+      clearTimeout(stallTimer);
+      resolve();
+    });
+  });
+
+  const waitToRetry = (error: any) => new Promise<void>((resolve, reject) => {
+    attempt++;
+    const delay = UPLOAD_RETRY_DELAY_MS * Math.pow(2, attempt - 2);
+    console.warn(`[Upload] Failed with ${error.code}, starting over in ${delay / 1000}s (attempt ${attempt})`);
+    report(0, 'retrying');
+    setTimeout(() => {
+      if (cancelled) reject(Object.assign(new Error('Upload cancelled'), { code: UPLOAD_CANCELLED }));
+      else resolve();
+    }, delay);
+  });
+
+  const run = async (): Promise<UploadedFile> => {
+    for (;;) {
+      try {
+        await upload();
+        break;
+      } catch (error: any) {
+        if (cancelled || !RETRYABLE_UPLOAD_ERRORS.includes(error?.code) || attempt >= MAX_UPLOAD_ATTEMPTS) throw error;
+        await waitToRetry(error);
+      }
+    }
+    const downloadURL = await getDownloadURL(storageRef);
+    return {
+      id: uploadId,
+      userId,
+      fileName: name,
+      fileType,
+      downloadURL,
+      uploadedAt: new Date(),
+      size: file.size,
+      mimeType,
+    };
+  };
+
   return {
-    id: uploadId,
-    userId,
-    fileName: name,
-    fileType,
-    downloadURL,
-    uploadedAt: new Date(),
-    size: file.size,
-    mimeType: file.type || getMimeTypeFromExtension(name),
+    done: run(),
+    pause: () => {
+      paused = true;
+      task?.pause();
+    },
+    resume: () => {
+      paused = false;
+      task?.resume();
+    },
+    cancel: () => {
+      cancelled = true;
+      task?.cancel();
+    },
   };
 }
 
+/**
+ * Uploads a file to Firebase Storage
+ */
+export async function uploadFile(
+  file: File | Blob,
+  userId: string,
+  fileName?: string
+): Promise<UploadedFile> {
+  return startUpload(file, userId, { fileName }).done;
+}
+
 /**
  * Uploads text content as a file
  */
@@ -75,6 +211,13 @@ export async function uploadTextContent(
   };
 }
 
+/**
+ * Deletes an uploaded file by its download URL
+ */
+export async function deleteUploadedFile(downloadURL: string): Promise<void> {
+  await deleteObject(ref(storage, downloadURL));
+}
+
 /**
  * Detects file type from file object and name
  */
@@ -85,7 +228,7 @@ function detectFileType(file: File | Blob, fileName: string): FileType {
   if (name.endsWith('.pdf') || mimeType.includes('pdf')) {
     return 'pdf';
   }
-  if (name.endsWith('.doc') || name.endsWith('.docx') || mimeType.includes('word') || mimeType.includes('document')) {
+  if (name.endsWith('.docx') || mimeType.includes('wordprocessingml')) {
     return 'word';
   }
   if (mimeType.startsWith('image/') || /\.(jpg|jpeg|png|gif|webp|bmp)$/i.test(name)) {
@@ -104,7 +247,6 @@ function getMimeTypeFromExtension(fileName: string): string {
   const ext = fileName.split('.').pop()?.toLowerCase();
   const mimeTypes: Record<string, string> = {
     'pdf': 'application/pdf',
-    'doc': 'application/msword',
     'docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
     'txt': 'text/plain',
     'jpg': 'image/jpeg',
@@ -124,7 +266,6 @@ export function validateFile(file: File): { valid: boolean; error?: string } {
   const maxSize = 50 * 1024 * 1024; // 50MB
   const allowedTypes = [
     'application/pdf',
-    'application/msword',
     'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
     'text/plain',
     'image/jpeg',
@@ -140,7 +281,12 @@ export function validateFile(file: File): { valid: boolean; error?: string } {
     return { valid: false, error: 'File size exceeds 50MB limit' };
   }
   
-  if (!allowedTypes.includes(file.type) && !file.name.match(/\.(pdf|doc|docx|txt|jpg|jpeg|png|gif|mp3|wav)$/i)) {
+  // Text can only be read from .docx; see documentExtractionService
+  if (file.type === 'application/msword' || /\.doc$/i.test(file.name)) {
+    return { valid: false, error: 'Older .doc files cannot be read. Save the document as .docx or PDF and upload it again.' };
+  }
+
+  if (!allowedTypes.includes(file.type) && !file.name.match(/\.(pdf|docx|txt|jpg|jpeg|png|gif|mp3|wav)$/i)) {
     return { valid: false, error: 'File type not supported' };
   }
   
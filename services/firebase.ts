@@ -20,4 +20,12 @@ const provider = new GoogleAuthProvider();
 
 export const db = getFirestore(app);
 export const storage = getStorage(app);
-export { auth, provider };
\ No newline at end of file
+export { auth, provider };
+
+/**
+ * Firestore rejects undefined fields, which AI-generated content can contain.
+ * Returns a copy without them.
+ */
+export function toFirestoreData<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
@@ -0,0 +1,60 @@
+// services/fixtureProvider.test.ts
+
+import { readFileSync, readdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { FixtureProvider, hasFixture, registerFixture } from './fixtureProvider';
+
+// Every task name passed to generateText, generateJson or generateStructured
+function contentTasks(): string[] {
+  const tasks = new Set<string>();
+  ['services', 'components'].forEach(dir => {
+    readdirSync(join(__dirname, '..', dir), { recursive: true, encoding: 'utf8' })
+      .filter(file => /\.tsx?$/.test(file) && !file.endsWith('.test.ts'))
+      .forEach(file => {
+        const source = readFileSync(join(__dirname, '..', dir, file), 'utf8');
+        for (const call of source.matchAll(/generate(?:Text|Json|Structured)(?:<[^>]*>)?\(\{\s*task: '([^']+)'/g)) {
+          tasks.add(call[1]);
+        }
+      });
+  });
+  return Array.from(tasks);
+}
+
+describe('FixtureProvider', () => {
+  const provider = new FixtureProvider();
+
+  it('answers the same request the same way every time', async () => {
+    const request = { task: 'journey.outcome', contents: 'You choose to join the crowd.' };
+    const first = await provider.generateContent(request);
+    expect(await provider.generateContent(request)).toEqual(first);
+    expect(await new FixtureProvider().generateContent(request)).toEqual(first);
+  });
+
+  it('returns text fixtures as is and structured fixtures as JSON', async () => {
+    const hint = await provider.generateContent({ task: 'tutor.hint', contents: 'Why 1789?' });
+    expect(hint.text).toBe('Look back at the causes you studied in the last step.');
+    const structure = await provider.generateContent({ task: 'journey.structure', contents: '' });
+    expect(JSON.parse(structure.text)).toMatchObject({ sceneCount: 3 });
+  });
+
+  it('uses a registered fixture in place of the built-in one', async () => {
+    registerFixture('tutor.challenge', request => `Challenge about ${request.contents}`);
+    expect((await provider.generateContent({ task: 'tutor.challenge', contents: 'Rome' })).text).toBe('Challenge about Rome');
+  });
+
+  it('answers tasks without a fixture deterministically', async () => {
+    expect((await provider.generateContent({ task: 'unknown.task', contents: 'Hello' })).text).toBe('[fixture:unknown.task] Hello');
+    expect((await provider.generateContent({ task: 'unknown.task', contents: '', responseMimeType: 'application/json' })).text).toBe('{}');
+  });
+
+  it('returns a placeholder image', async () => {
+    expect(await provider.generateImage({ task: 'flashcards.image', prompt: 'Louis XVI' })).toMatchObject({ mimeType: 'image/png' });
+  });
+
+  it('has a fixture for every content task the app uses', () => {
+    const tasks = contentTasks();
+    expect(tasks.length).toBeGreaterThan(20);
+    expect(tasks.filter(task => !hasFixture(task))).toEqual([]);
+  });
+});
@@ -0,0 +1,284 @@
+// services/fixtureProvider.ts
+
+import { QuestionType } from '../types';
+import {
+  AIProvider,
+  AIGenerateRequest,
+  AIGenerateResult,
+  AIImageRequest,
+  AIImageResult,
+  AIVideoRequest,
+  contentsToText,
+} from './aiProvider';
+
+/**
+ * Offline fixture provider
+ *
+ * Returns canned, deterministic responses keyed by the request `task`, so the
+ * app can be developed and tested with no network and no API key. The same
+ * request always produces the same response. Images are a grey placeholder;
+ * videos are not available offline, and their callers fall back.
+ */
+
+export type FixtureFn = (request: AIGenerateRequest, seed: number) => unknown;
+
+function hashString(value: string): number {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) - hash) + value.charCodeAt(i);
+    hash = hash & hash; // Convert to 32-bit integer
+  }
+  return Math.abs(hash);
+}
+
+function pick<T>(items: T[], seed: number): T {
+  return items[seed % items.length];
+}
+
+const SCENARIOS = [
+  'The village square falls silent as a messenger arrives with news from the capital.',
+  'A storm rolls in as you reach the crossroads, and two strangers ask for your help.',
+  'Smoke rises over the market. People are gathering, unsure whether to flee or fight.',
+];
+
+const CHOICES = [
+  [{ text: 'Listen carefully to the messenger' }, { text: 'Slip away to warn your family' }, { text: 'Demand to see proof' }],
+  [{ text: 'Help the strangers' }, { text: 'Keep walking' }, { text: 'Ask who sent them' }],
+  [{ text: 'Join the crowd' }, { text: 'Hide your savings' }, { text: 'Look for the town elder' }],
+];
+
+const scene = (_request: AIGenerateRequest, seed: number) => ({
+  scenario: pick(SCENARIOS, seed),
+  choices: pick(CHOICES, seed),
+});
+
+const multipleChoice = (seed: number) => ({
+  type: QuestionType.MULTIPLE_CHOICE,
+  questionText: pick([
+    'In which year did the storming of the Bastille take place?',
+    'Which city was the capital of the Eastern Roman Empire?',
+    'Who led the Gallic revolt against Rome in 52 BC?',
+  ], seed),
+  explanation: 'This is a fixture question used for offline development.',
+  options: pick([
+    ['1789', '1776', '1804', '1815'],
+    ['Constantinople', 'Rome', 'Athens', 'Alexandria'],
+    ['Vercingetorix', 'Hannibal', 'Spartacus', 'Arminius'],
+  ], seed),
+  correctAnswer: pick(['1789', 'Constantinople', 'Vercingetorix'], seed),
+});
+
+const FIXTURES: Record<string, FixtureFn> = {
+  'journey.start': scene,
+  'journey.scene': scene,
+  'journey.outcome': (request, seed) => ({
+    outcomeText: 'You make your choice, and the people around you take notice.',
+    mentorInsight: 'Professor Spark notes that ordinary people shaped history through choices like this one.',
+    resourceChanges: pick([{ health: -5, food: 5 }, { money: 5, influence: -5 }, { influence: 10 }], seed),
+    question: multipleChoice(seed),
+    nextScene: scene(request, seed + 1),
+    isGameOver: false,
+  }),
+  'journey.hint': () => 'Think about what was happening in the capital at the time.',
+  'journey.structure': () => ({ sceneCount: 3, structure: 'Introduction, exploration of key events, and a recap.' }),
+  'journey.questions': (_request, seed) => [
+    multipleChoice(seed),
+    {
+      type: QuestionType.TRUE_FALSE,
+      questionText: 'The events described in this material happened over a single day.',
+      explanation: 'They unfolded over a longer period of time.',
+      correctAnswer: 'false',
+    },
+  ],
+  // Every listed point kept as its own, in the order given
+  'journey.mergeSources': (request) => ({
+    title: 'Fixture Combined Journey',
+    summary: 'Everything the selected materials cover, in one journey.',
+    points: Array.from(
+      contentsToText(request.contents).matchAll(/^(m\d+\.p\d+): (.+)$/gm),
+      match => ({ text: match[2], sourceIds: [match[1]] })
+    ),
+    conflicts: [],
+  }),
+  // Every item checked, with no claims to dispute
+  'accuracy.check': (request) => Array.from(
+    contentsToText(request.contents).matchAll(/^\[([a-z]+\d*)\] /gm),
+    match => ({ id: match[1], claims: [] })
+  ),
+  'answer.evaluate': () => ({ isCorrect: true, feedback: 'Your answer covers the key concepts.' }),
+  'content.analyze': () => ({
+    title: 'Fixture Study Material',
+    topics: ['French Revolution', 'Estates-General'],
+    keywords: ['Bastille', 'Third Estate', 'Louis XVI'],
+    difficulty: 'intermediate',
+    subject: 'History',
+    mainPoints: [
+      'Financial crisis led Louis XVI to call the Estates-General',
+      'The Third Estate formed the National Assembly',
+      'The storming of the Bastille became a symbol of the revolution',
+    ],
+    intent: 'study',
+    estimatedTime: 20,
+    suggestedJourneyType: 'timeline',
+    summary: 'An overview of the opening events of the French Revolution.',
+  }),
+  'content.analyzeSection': () => ({
+    title: 'The Estates-General',
+    topics: ['Estates-General'],
+    keywords: ['Third Estate', 'Louis XVI'],
+    difficulty: 'intermediate',
+    subject: 'History',
+    mainPoints: ['Louis XVI called the Estates-General to raise taxes'],
+    intent: 'study',
+    estimatedTime: 10,
+    suggestedJourneyType: 'timeline',
+    summary: 'Why the Estates-General met in 1789.',
+  }),
+  'content.mergeAnalysis': () => ({
+    title: 'Fixture Study Material',
+    topics: ['French Revolution', 'Estates-General'],
+    keywords: ['Bastille', 'Third Estate'],
+    difficulty: 'intermediate',
+    subject: 'History',
+    mainPoints: ['Financial crisis led to the calling of the Estates-General'],
+    intent: 'study',
+    estimatedTime: 40,
+    suggestedJourneyType: 'timeline',
+    summary: 'An overview of the French Revolution, section by section.',
+  }),
+  'content.ocr': () => 'In 1789, France faced a severe financial crisis. King Louis XVI called the Estates-General to raise taxes.',
+  'content.transcribe': () => [
+    { start: 0, end: 6.5, text: 'Today we look at how the French Revolution began.' },
+    { start: 6.5, end: 14, text: 'In 1789 France was deep in debt, and King Louis XVI called the Estates-General to raise taxes.' },
+  ],
+  'tutor.response': () => 'Great question! Think of it like a chain reaction: one event made the next one possible.',
+  'tutor.hint': () => 'Look back at the causes you studied in the last step.',
+  'tutor.challenge': () => 'Imagine you are a journalist in 1789. Write the headline for tomorrow\'s paper.',
+  'tutor.story': () => 'Picture a crowded bakery where bread prices double overnight. That frustration spread across France.',
+  'task.hint': () => ({ hint: 'Focus on the order in which the events happened.' }),
+  'flashcards.generate': () => [
+    { kind: 'term', questionText: 'Third Estate', answer: 'The commoners of France, who paid most of the taxes', explanation: '' },
+    { kind: 'date', questionText: '14 July 1789', answer: 'The storming of the Bastille', explanation: '' },
+    {
+      kind: 'person',
+      questionText: 'Louis XVI',
+      answer: 'King of France who called the Estates-General',
+      explanation: '',
+      imagePrompt: 'Portrait of King Louis XVI of France in royal robes',
+    },
+  ],
+  'essay.outline': () => ({
+    title: 'Causes of the French Revolution',
+    introduction: 'Introduce the political and economic situation in France in 1789.',
+    bodyParagraphs: [
+      { topic: 'Economic crisis', mainPoint: 'Debt and bread prices fueled anger', supportingEvidence: ['War debts', 'Poor harvests'] },
+      { topic: 'Social inequality', mainPoint: 'The Estates system was unfair', supportingEvidence: ['Tax burden on the Third Estate'] },
+    ],
+    conclusion: 'Tie the causes together and restate the thesis.',
+    keyQuotes: [],
+    suggestedExamples: ['The Tennis Court Oath'],
+  }),
+  'essay.guidance': () => 'Start with a vivid hook, then state your thesis in one clear sentence.',
+  'essay.suggestions': () => ({
+    ideas: ['Compare economic and political causes'],
+    examples: ['The storming of the Bastille'],
+    quotes: [],
+  }),
+  'essay.feedback': () => ({
+    clarity: 75,
+    argument: 70,
+    creativity: 65,
+    structure: 80,
+    overallScore: 72,
+    strengths: ['Clear structure'],
+    improvements: ['Add more evidence to each paragraph'],
+    detailedFeedback: 'A solid draft. Strengthen each body paragraph with a specific example.',
+  }),
+  'essay.storyMode': () => ({
+    scenario: 'A tutor invites you into a Paris café in 1789 to debate the causes of the revolution.',
+    choices: [{ text: 'Argue that money caused it', leadsTo: 'You explore the economic crisis.' }],
+  }),
+  'today.events': () => [
+    { year: 1066, title: 'Battle of Hastings', summary: 'William the Conqueror defeats Harold Godwinson.', tags: ['medieval', 'england'], isCompleted: false },
+    { year: 1789, title: 'Storming of the Bastille', summary: 'Parisians seize the Bastille fortress.', tags: ['revolution', 'france'], isCompleted: false },
+  ],
+  'today.surprise': () => ({
+    year: 1492,
+    title: 'Discovery of the New World',
+    summary: 'Christopher Columbus reaches the Americas, opening the Age of Exploration',
+    tags: ['exploration', 'americas'],
+    isCompleted: false,
+  }),
+  'assignment.outline': () => ({
+    introduction: 'Introduce your topic and thesis',
+    body: ['Main point 1', 'Main point 2', 'Main point 3'],
+    conclusion: 'Summarize your main points and restate thesis',
+    keyPoints: ['Key point to cover'],
+    structure: 'Basic essay structure',
+  }),
+  'assignment.thesis': () => ({
+    options: [
+      'Economic hardship, more than ideas, sparked the French Revolution.',
+      'Enlightenment ideas gave ordinary people the words to demand change.',
+      'The monarchy\'s refusal to reform made revolution unavoidable.',
+    ],
+  }),
+  'assignment.suggestions': () => ({
+    thesis: 'Economic hardship sparked the French Revolution.',
+    keyPoints: ['War debts', 'Bread prices', 'The Estates-General'],
+    writingTips: ['Use one piece of evidence per paragraph'],
+  }),
+  'ai.explanation': () => 'In 1789 France was deep in debt. When the king tried to raise taxes, the Third Estate demanded a say, and the revolution began.',
+  'ai.text': () => 'The French Revolution began in 1789 and ended the absolute monarchy in France.',
+  'ai.quiz': (_request, seed) => multipleChoice(seed),
+  'ai.question': () => 'Why do you think bread prices mattered so much to the people of Paris in 1789?',
+  'ai.image': () => 'A crowd of Parisians in 1789 gathers before the stone towers of the Bastille under a grey sky.',
+  // The text to narrate follows the instructions
+  'tts.refine': (request) => contentsToText(request.contents).split('\n\n').slice(1).join('\n\n').trim(),
+};
+
+// A 1x1 grey PNG, returned for every image task
+const PLACEHOLDER_IMAGE = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAAAAAA6fptVAAAACklEQVR4nGNoAAAAggCBd81ytgAAAABJRU5ErkJggg==';
+
+const customFixtures: Record<string, FixtureFn> = {};
+
+/**
+ * Overrides (or adds) the fixture for a task. Useful in tests.
+ */
+export function registerFixture(task: string, fixture: FixtureFn): void {
+  customFixtures[task] = fixture;
+}
+
+/**
+ * Whether a content task has a fixture, built in or registered
+ */
+export const hasFixture = (task: string): boolean => task in customFixtures || task in FIXTURES;
+
+export class FixtureProvider implements AIProvider {
+  readonly name = 'fixture';
+
+  async generateContent(request: AIGenerateRequest): Promise<AIGenerateResult> {
+    const promptText = contentsToText(request.contents);
+    const seed = hashString(`${request.task}|${promptText}`);
+    const fixture = customFixtures[request.task] || FIXTURES[request.task];
+
+    if (fixture) {
+      const value = fixture(request, seed);
+      return { text: typeof value === 'string' ? value : JSON.stringify(value) };
+    }
+
+    // Unknown task - fall back to a generic but still deterministic response
+    if (request.responseMimeType === 'application/json') {
+      return { text: '{}' };
+    }
+    return { text: `[fixture:${request.task}] ${promptText.trim().slice(0, 80)}` };
+  }
+
+  async generateVideo(request: AIVideoRequest): Promise<string> {
+    throw new Error(`Video generation is not available with the fixture provider (task: ${request.task}).`);
+  }
+
+  async generateImage(_request: AIImageRequest): Promise<AIImageResult> {
+    return { data: PLACEHOLDER_IMAGE, mimeType: 'image/png' };
+  }
+}
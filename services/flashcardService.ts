@@ -0,0 +1,169 @@
+// services/flashcardService.ts
+
+import { storage } from './firebase';
+import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
+import { FlashcardQuestion, QuestionType, ReviewCard, StudyMaterial } from '../types';
+import { generateImage, generateStructured } from './aiService';
+import { getOrGenerate } from './cacheService';
+import { sha256Hex } from './cacheKey';
+import { findCitations } from './citationService';
+import { uniqueStrings } from './contentAnalyzerService';
+import { getMaterialText } from './materialTextService';
+import { validateFlashcards } from './outputValidators';
+import { activeCards, addReviewCards, reviewCardId } from './spacedRepetitionService';
+
+/**
+ * Flashcards from study material
+ *
+ * Upload analysis already pulls out a material's terms, keywords and main
+ * points. The generator turns them into term/definition, date/event and
+ * person/role cards grounded in the material's text, with a picture for the
+ * cards a picture helps (people, places, objects). The student edits the
+ * cards before adding them to the spaced-practice deck, where they are
+ * reviewed like any other card.
+ */
+
+const FLASHCARDS_GENERATOR_VERSION = 1;
+const MAX_CARDS = 20;
+const MAX_TERMS = 40;
+// How much of the material the model sees to write the backs from
+const MAX_SOURCE_CHARS = 12000;
+
+const base64ToBlob = (data: string, mimeType: string): Blob => {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+};
+
+/**
+ * A blank card the student fills in themselves
+ */
+export function emptyFlashcard(): FlashcardQuestion {
+  return { type: QuestionType.FLASHCARD, kind: 'term', questionText: '', answer: '', explanation: '' };
+}
+
+/**
+ * Generates flashcards from a material's terms, keywords and main points.
+ * Throws when the material has nothing to make cards from.
+ */
+export async function generateFlashcards(
+  material: StudyMaterial,
+  userId: string,
+  signal?: AbortSignal
+): Promise<FlashcardQuestion[]> {
+  const analysis = material.analysis;
+  const terms = uniqueStrings([
+    ...(material.terms || []),
+    ...(analysis?.keywords || []),
+    ...(analysis?.sections || []).flatMap(section => section.keywords),
+  ]).slice(0, MAX_TERMS);
+  const mainPoints = uniqueStrings([
+    ...(analysis?.mainPoints || []),
+    ...(analysis?.sections || []).flatMap(section => section.mainPoints),
+  ]);
+  if (terms.length === 0 && mainPoints.length === 0) {
+    throw new Error('This material has no terms or key points to make flashcards from.');
+  }
+
+  const { text } = await getMaterialText(material);
+  const source = text.slice(0, MAX_SOURCE_CHARS);
+  const cards = await getOrGenerate<FlashcardQuestion[]>({
+    type: 'question',
+    topic: material.uploadId,
+    prompt: `Flashcards: ${terms.join(', ')}\n${mainPoints.join('\n')}\n${source}`,
+    userId,
+    keyParts: { kind: 'flashcards' },
+    generatorVersion: FLASHCARDS_GENERATOR_VERSION,
+    validate: validateFlashcards,
+    generatorFn: () => generateStructured<FlashcardQuestion[]>({
+      task: 'flashcards.generate',
+      contents: `Create up to ${MAX_CARDS} flashcards for a student studying "${material.title}"${analysis?.subject ? ` (${analysis.subject})` : ''}.
+
+Key terms: ${terms.join(', ') || 'none'}
+Main points:
+${mainPoints.map(point => `- ${point}`).join('\n') || '- none'}
+
+Make three kinds of cards:
+- "term": the front is a key term, the back its definition
+- "date": the front is a date, the back the event that happened then
+- "person": the front is a person, the back who they were and their role
+
+Use only facts from the material below. Keep each back to one or two sentences.
+Add an "imagePrompt" only where a picture helps recall (a person, place or object), never for abstract ideas.
+
+Material:
+${source}
+
+Return JSON array:
+[
+  {
+    "kind": "term" | "date" | "person",
+    "questionText": "The front of the card",
+    "answer": "The back of the card",
+    "explanation": "",
+    "imagePrompt": "Optional description of a picture for the card"
+  }
+]`,
+      signal,
+    }, validateFlashcards),
+  });
+
+  return cards.slice(0, MAX_CARDS).map(card => {
+    const citations = findCitations(text, `${card.questionText} ${card.answer}`, material.uploadId, {
+      sections: analysis?.sections,
+    });
+    return citations.length ? { ...card, citations } : card;
+  });
+}
+
+/**
+ * Draws the card's picture from its imagePrompt and stores it, once per
+ * prompt. Cards without an imagePrompt, or with a picture, are returned as is.
+ */
+export async function illustrateFlashcard(card: FlashcardQuestion, userId: string): Promise<FlashcardQuestion> {
+  if (!card.imagePrompt || card.imageUrl) return card;
+
+  const hash = await sha256Hex(card.imagePrompt);
+  const imageRef = ref(storage, `users/${userId}/flashcards/${hash.slice(0, 32)}.png`);
+  try {
+    return { ...card, imageUrl: await getDownloadURL(imageRef) };
+  } catch {
+    // Not drawn yet
+  }
+
+  const image = await generateImage({
+    task: 'flashcards.image',
+    prompt: `Simple, clear educational illustration for a flashcard, no text or lettering: ${card.imagePrompt}`,
+  });
+  await uploadBytes(imageRef, base64ToBlob(image.data, image.mimeType));
+  return { ...card, imageUrl: await getDownloadURL(imageRef) };
+}
+
+/**
+ * Adds the student's cards to their spaced-practice deck, due right away.
+ * Cards with an empty side are skipped. A card with the same front and back
+ * as one already in the deck, or earlier in the list, is merged into it and
+ * listed in `merged`.
+ */
+export async function addFlashcardsToDeck(
+  userId: string,
+  deck: ReviewCard[],
+  material: StudyMaterial,
+  cards: FlashcardQuestion[]
+): Promise<{ deck: ReviewCard[]; added: number; merged: FlashcardQuestion[] }> {
+  const complete = cards
+    .map(card => ({ ...card, questionText: card.questionText.trim(), answer: card.answer.trim() }))
+    .filter(card => card.questionText && card.answer);
+  if (complete.length === 0) throw new Error('Fill in both sides of at least one card.');
+
+  const ids = await Promise.all(complete.map(reviewCardId));
+  const seen = new Set(activeCards(deck).map(card => card.id));
+  const merged = complete.filter((_, index) => {
+    const isMerged = seen.has(ids[index]);
+    seen.add(ids[index]);
+    return isMerged;
+  });
+  const updated = await addReviewCards(userId, deck, complete, { mode: 'flashcards', materialId: material.uploadId });
+  return { deck: updated, added: complete.length - merged.length, merged };
+}
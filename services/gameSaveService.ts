@@ -0,0 +1,161 @@
+// services/gameSaveService.ts
+
+import { db, toFirestoreData } from './firebase';
+import {
+  collection,
+  doc,
+  setDoc,
+  getDoc,
+  getDocs,
+  serverTimestamp,
+} from 'firebase/firestore';
+import { Progress, SaveSlot, GameState } from '../types';
+import { MAX_SAVE_SLOTS_PER_JOURNEY } from '../constants';
+import { clientCache } from './clientCacheService';
+
+/**
+ * Save/resume for the classic journey game
+ *
+ * Progress (XP, level, per-journey results) and save slots are written to
+ * IndexedDB first, for instant resume after a refresh, and to Firestore under
+ * `users/{uid}/game/progress` and `users/{uid}/saves/{slotId}` so they follow
+ * the user across devices. On load the newer copy of each slot wins; a
+ * deleted slot keeps a `deletedAt` marker so the other device's copy does not
+ * bring it back, unless that copy was played after the delete.
+ */
+
+/**
+ * Merges local and remote slots by slotId, keeping the most recently updated
+ * copy. Deleting a slot updates it, so the newer of a delete and a save wins.
+ */
+function mergeSlots(local: SaveSlot[], remote: SaveSlot[]): SaveSlot[] {
+  const merged = new Map<string, SaveSlot>();
+  [...local, ...remote].forEach(slot => {
+    const existing = merged.get(slot.slotId);
+    if (!existing || slot.updatedAt > existing.updatedAt) {
+      merged.set(slot.slotId, slot);
+    }
+  });
+  return Array.from(merged.values()).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Returns the slots for one journey, most recent first, leaving out deleted ones
+ */
+export function getSlotsForJourney(slots: SaveSlot[], journeyId: string): SaveSlot[] {
+  return slots
+    .filter(slot => slot.journeyId === journeyId && !slot.deletedAt)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Creates a slot for a new run. When the journey already has the maximum
+ * number of slots, the least recently played one is reused.
+ */
+export function createSaveSlot(slots: SaveSlot[], journeyId: string, gameState: GameState): SaveSlot {
+  const now = Date.now();
+  const journeySlots = getSlotsForJourney(slots, journeyId);
+  const reused = journeySlots.length >= MAX_SAVE_SLOTS_PER_JOURNEY
+    ? journeySlots[journeySlots.length - 1]
+    : null;
+
+  return {
+    slotId: reused?.slotId || `${journeyId}_${now.toString(36)}`,
+    journeyId,
+    gameState,
+    scenesPlayed: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Loads the user's game progress and save slots (local first, then Firestore)
+ */
+export async function loadGameData(userId: string): Promise<{ progress: Progress | null; slots: SaveSlot[] }> {
+  const [localProgress, localSlots] = await Promise.all([
+    clientCache.getGameProgress(userId).catch(() => null),
+    clientCache.getSaveSlots(userId).catch(() => null),
+  ]);
+
+  try {
+    const [progressSnapshot, slotsSnapshot] = await Promise.all([
+      getDoc(doc(db, `users/${userId}/game`, 'progress')),
+      getDocs(collection(db, `users/${userId}/saves`)),
+    ]);
+
+    const remoteProgress = progressSnapshot.exists()
+      ? (progressSnapshot.data().progress as Progress)
+      : null;
+    const remoteSlots = slotsSnapshot.docs.map(slotDoc => {
+      const { savedAt, ...slot } = slotDoc.data();
+      return { ...slot, slotId: slotDoc.id } as SaveSlot;
+    });
+
+    const slots = mergeSlots(localSlots || [], remoteSlots);
+    // XP only ever grows, so the copy with more XP is the newer one
+    const progress = !remoteProgress || (localProgress && localProgress.xp > remoteProgress.xp)
+      ? localProgress
+      : remoteProgress;
+
+    await Promise.all([
+      clientCache.setSaveSlots(userId, slots),
+      progress ? clientCache.setGameProgress(userId, progress) : Promise.resolve(),
+    ]).catch(error => console.warn('[Saves] Failed to update local saves:', error));
+
+    return { progress, slots };
+  } catch (error) {
+    console.warn('[Saves] Could not load saves from Firestore. Using local saves.', error);
+    return { progress: localProgress, slots: localSlots || [] };
+  }
+}
+
+/**
+ * Persists game progress locally and in Firestore
+ */
+export async function saveGameProgress(userId: string, progress: Progress): Promise<void> {
+  await clientCache.setGameProgress(userId, progress).catch(error =>
+    console.warn('[Saves] Failed to save progress locally:', error)
+  );
+  await setDoc(doc(db, `users/${userId}/game`, 'progress'), {
+    progress: toFirestoreData(progress),
+    savedAt: serverTimestamp(),
+  });
+}
+
+/**
+ * Persists a save slot locally and in Firestore. `slots` is the full list after the update.
+ */
+export async function saveSlot(userId: string, slot: SaveSlot, slots: SaveSlot[]): Promise<void> {
+  await clientCache.setSaveSlots(userId, slots).catch(error =>
+    console.warn('[Saves] Failed to save slot locally:', error)
+  );
+  await setDoc(doc(db, `users/${userId}/saves`, slot.slotId), {
+    ...toFirestoreData(slot),
+    savedAt: serverTimestamp(),
+  });
+}
+
+/**
+ * Marks a slot deleted in a list of slots
+ */
+export function markSlotDeleted(slots: SaveSlot[], slotId: string): SaveSlot[] {
+  const now = Date.now();
+  return slots.map(slot => (slot.slotId === slotId ? { ...slot, deletedAt: now, updatedAt: now } : slot));
+}
+
+/**
+ * Deletes a save slot locally and in Firestore, leaving its deletedAt marker.
+ * `slots` is the full list after markSlotDeleted.
+ */
+export async function deleteSlot(userId: string, slotId: string, slots: SaveSlot[]): Promise<void> {
+  await clientCache.setSaveSlots(userId, slots).catch(error =>
+    console.warn('[Saves] Failed to delete slot locally:', error)
+  );
+  const deleted = slots.find(slot => slot.slotId === slotId);
+  if (!deleted) return;
+  await setDoc(doc(db, `users/${userId}/saves`, slotId), {
+    ...toFirestoreData(deleted),
+    savedAt: serverTimestamp(),
+  });
+}
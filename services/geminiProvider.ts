@@ -0,0 +1,79 @@
+// services/geminiProvider.ts
+
+import { GoogleGenAI } from '@google/genai';
+import {
+  AIProvider,
+  AIGenerateRequest,
+  AIGenerateResult,
+  AIImageRequest,
+  AIImageResult,
+  AIVideoRequest,
+  DEFAULT_IMAGE_MODEL,
+  DEFAULT_TEXT_MODEL,
+  DEFAULT_VIDEO_MODEL,
+} from './aiProvider';
+
+const VIDEO_POLL_INTERVAL_MS = 10000;
+
+/**
+ * Gemini implementation of the AI provider (text, JSON, vision, Veo video and Imagen images)
+ */
+export class GeminiProvider implements AIProvider {
+  readonly name = 'gemini';
+  private readonly ai: GoogleGenAI;
+
+  constructor(apiKey: string) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  async generateContent(request: AIGenerateRequest): Promise<AIGenerateResult> {
+    const contents = typeof request.contents === 'string'
+      ? request.contents
+      : [{ role: 'user', parts: request.contents }];
+
+    const config: Record<string, unknown> = {};
+    if (request.responseMimeType) config.responseMimeType = request.responseMimeType;
+    if (request.responseSchema) config.responseSchema = request.responseSchema;
+    if (request.signal) config.abortSignal = request.signal;
+
+    const response = await this.ai.models.generateContent({
+      model: request.model || DEFAULT_TEXT_MODEL,
+      contents,
+      config,
+    });
+
+    return { text: response.text ?? '' };
+  }
+
+  async generateVideo(request: AIVideoRequest): Promise<string> {
+    let operation = await this.ai.models.generateVideos({
+      model: request.model || DEFAULT_VIDEO_MODEL,
+      prompt: request.prompt,
+      config: { numberOfVideos: 1, resolution: '720p', aspectRatio: '16:9' },
+    });
+
+    while (!operation.done) {
+      await new Promise(resolve => setTimeout(resolve, VIDEO_POLL_INTERVAL_MS));
+      operation = await this.ai.operations.getVideosOperation({ operation });
+    }
+
+    const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
+    if (!downloadLink) throw new Error('Video generation completed but no download link was found.');
+
+    return downloadLink;
+  }
+
+  async generateImage(request: AIImageRequest): Promise<AIImageResult> {
+    const response = await this.ai.models.generateImages({
+      model: request.model || DEFAULT_IMAGE_MODEL,
+      prompt: request.prompt,
+      config: { numberOfImages: 1, aspectRatio: request.aspectRatio || '1:1', includeRaiReason: true },
+    });
+
+    const generated = response.generatedImages?.[0];
+    if (!generated?.image?.imageBytes) {
+      throw new Error(`Image generation returned no image${generated?.raiFilteredReason ? `: ${generated.raiFilteredReason}` : '.'}`);
+    }
+    return { data: generated.image.imageBytes, mimeType: generated.image.mimeType || 'image/png' };
+  }
+}
@@ -1,4 +1,4 @@
-import { GoogleGenAI, GenerateContentResponse, Type, Modality } from '@google/genai';
+import { Type } from '@google/genai';
 import {
     Journey,
     Scene,
@@ -11,47 +11,18 @@ import {
     User,
 } from '../types';
 import { getOrGenerate } from './cacheService';
+import { generateText, generateStructured, generateVideo } from './aiService';
+import { validateScene, validateOutcome, validateShortAnswerEvaluation, ShortAnswerEvaluation } from './outputValidators';
+import { DEFAULT_VIDEO_MODEL } from './aiProvider';
+import { getResourceLabels } from './journeyDefinitionService';
+import { getResourceLimits } from './resourceRules';
+import { verifyScene, verifyOutcome } from './factCheckService';
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-const model = 'gemini-2.5-flash';
+// Retries, rate limits and quota errors are handled by the AI governor (see aiService)
 
-const MAX_RETRIES = 3;
-const INITIAL_BACKOFF_MS = 1000;
-
-let isTtsPermanentlyDisabled = false;
-
-async function withRetry<T>(apiCall: () => Promise<T>, isTtsCall = false): Promise<T> {
-  let lastError: any = null;
-  for (let i = 0; i < MAX_RETRIES; i++) {
-    try {
-      return await apiCall();
-    } catch (error: any) {
-      lastError = error;
-      const errorMessage = (error?.toString() ?? '').toLowerCase();
-      
-      if (errorMessage.includes('limit: 0')) {
-        if (isTtsCall) {
-            console.error("Unrecoverable TTS API quota error. Please check your plan and billing details. TTS will be disabled for this session.", error);
-            isTtsPermanentlyDisabled = true;
-        } else {
-             console.error("Unrecoverable API quota error. Please check your plan and billing details. Will not retry.", error);
-        }
-        throw error;
-      }
-
-      const isRetryable = errorMessage.includes('429') || errorMessage.includes('503') || errorMessage.includes('resource_exhausted') || errorMessage.includes('unavailable');
-      
-      if (isRetryable) {
-        const delay = INITIAL_BACKOFF_MS * Math.pow(2, i) + Math.random() * 1000;
-        console.warn(`API call failed with a transient error. Retrying in ${delay.toFixed(0)}ms... (Attempt ${i + 1}/${MAX_RETRIES})`);
-        await new Promise(resolve => setTimeout(resolve, delay));
-      } else {
-        throw error;
-      }
-    }
-  }
-  throw lastError || new Error("API call failed after multiple retries.");
-}
+// Bump when the prompt or schema for a generator changes, so cached content is regenerated
+const SCENE_GENERATOR_VERSION = 2;
+const OUTCOME_GENERATOR_VERSION = 2;
 
 const outcomeSchema = {
     type: Type.OBJECT,
@@ -155,30 +126,37 @@ export const startJourney = async (journey: Journey, userId: string): Promise<Sc
         topic: journey.id,
         prompt: prompt,
         userId: userId,
+        generatorVersion: SCENE_GENERATOR_VERSION,
+        validate: validateScene,
         generatorFn: async () => {
-             const response = await withRetry<GenerateContentResponse>(() => ai.models.generateContent({
-                model: model,
+            const scene = await generateStructured<Scene>({
+                task: 'journey.start',
                 contents: prompt,
-                config: { responseMimeType: 'application/json' }
-            }));
-            return JSON.parse(response.text) as Scene;
+                priority: 'interactive',
+            }, validateScene);
+            // Checked before caching, so the accuracy report is cached with the scene
+            return verifyScene(scene, journey);
         }
     });
 };
 
-export const advanceStory = async (journeyName: string, previousScene: Scene, choice: Choice, resources: Resources, userId: string): Promise<Outcome> => {
+export const advanceStory = async (journey: Journey, previousScene: Scene, choice: Choice, resources: Resources, userId: string): Promise<Outcome> => {
+    const labels = getResourceLabels(journey);
+    const limits = getResourceLimits(journey);
     // Note: Caching with dynamic resources is complex. We'll use a prompt that omits them for better cache hit rates.
     const cacheablePrompt = `PREVIOUS SCENE: "${previousScene.scenario}" | PLAYER'S CHOICE: "${choice.text}"`;
     
     const prompt = `
         You are an AI storyteller for the interactive history game "History Journey".
-        The player is on the "${journeyName}" journey.
+        The player is on the "${journey.name}" journey.
         
         CURRENT PLAYER STATUS (for context, do not make outcomes dependent on exact numbers unless critical):
-        - Health: ${resources.health}/100
-        - Food: ${resources.food}/100
-        - Money: ${resources.money}/100
-        - Influence: ${resources.influence}/100
+        - ${labels.health.name}: ${resources.health}/${limits.health.max}
+        - ${labels.food.name}: ${resources.food}/${limits.food.max}
+        - ${labels.money.name}: ${resources.money}/${limits.money.max}
+        - ${labels.influence.name}: ${resources.influence}/${limits.influence.max}
+        In "resourceChanges", use the keys health, food, money and influence for these (in that order), and refer to them by the names above in the story.
+        Keep each change between -${limits.health.maxChangePerChoice} and +${limits.health.maxChangePerChoice} for health, -${limits.food.maxChangePerChoice} and +${limits.food.maxChangePerChoice} for food, -${limits.money.maxChangePerChoice} and +${limits.money.maxChangePerChoice} for money, and -${limits.influence.maxChangePerChoice} and +${limits.influence.maxChangePerChoice} for influence. Larger changes are capped.
 
         PREVIOUS SCENE:
         "${previousScene.scenario}"
@@ -191,26 +169,22 @@ export const advanceStory = async (journeyName: string, previousScene: Scene, ch
 
     return getOrGenerate<Outcome>({
         type: 'outcome',
-        topic: journeyName,
+        topic: journey.name,
         prompt: cacheablePrompt,
+        // Renamed resources change the outcome text, so they are part of the key
+        keyParts: journey.resourceLabels ? { resourceLabels: journey.resourceLabels } : undefined,
         userId: userId,
+        generatorVersion: OUTCOME_GENERATOR_VERSION,
+        validate: validateOutcome,
         generatorFn: async () => {
-            const response = await withRetry<GenerateContentResponse>(() => ai.models.generateContent({
-                model: model,
+            // validateOutcome also normalizes TRUE_FALSE answers from 'true'/'false' strings
+            const outcome = await generateStructured<Outcome>({
+                task: 'journey.outcome',
                 contents: prompt,
-                config: {
-                    responseMimeType: 'application/json',
-                    responseSchema: outcomeSchema
-                }
-            }));
-            
-            const outcome = JSON.parse(response.text);
-
-            if (outcome.question && outcome.question.type === QuestionType.TRUE_FALSE) {
-                outcome.question.correctAnswer = String(outcome.question.correctAnswer).toLowerCase() === 'true';
-            }
-
-            return outcome as Outcome;
+                responseSchema: outcomeSchema,
+                priority: 'interactive',
+            }, validateOutcome);
+            return verifyOutcome(outcome, journey);
         }
     });
 };
@@ -223,29 +197,18 @@ export const generateJourneyIntroVideo = async (journey: Journey, userId: string
         topic: journey.id,
         prompt: prompt,
         userId: userId,
+        model: DEFAULT_VIDEO_MODEL,
         mediaOptions: {
             path: `journey_intros/${journey.id}_${Date.now()}.mp4`,
             dataType: 'url',
             mimeType: 'video/mp4',
         },
         generatorFn: async () => {
-            const genAI = new GoogleGenAI({ apiKey: process.env.API_KEY });
             try {
-                let operation = await genAI.models.generateVideos({
-                    model: 'veo-3.1-fast-generate-preview',
+                return await generateVideo({
+                    task: 'journey.introVideo',
                     prompt: prompt,
-                    config: { numberOfVideos: 1, resolution: '720p', aspectRatio: '16:9' }
                 });
-
-                while (!operation.done) {
-                    await new Promise(resolve => setTimeout(resolve, 10000));
-                    operation = await genAI.operations.getVideosOperation({ operation: operation });
-                }
-
-                const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
-                if (!downloadLink) throw new Error("Video generation completed but no download link was found.");
-                
-                return downloadLink;
             } catch (error: any) {
                 const errorMessage = error?.message || error?.toString() || '';
                 const errorCode = error?.error?.code || error?.code;
@@ -277,11 +240,12 @@ export const getHint = async (question: Question, userId: string): Promise<strin
         prompt: prompt,
         userId: userId,
         generatorFn: async () => {
-             const response = await withRetry<GenerateContentResponse>(() => ai.models.generateContent({
-                model: model,
+            const hint = await generateText({
+                task: 'journey.hint',
                 contents: prompt,
-            }));
-            return response.text.trim();
+                priority: 'interactive',
+            });
+            return hint.trim();
         }
     });
 };
@@ -295,28 +259,43 @@ export const getTutorFeedback = async (accuracy: number, userId: string): Promis
     return { message: "Great work!", mood };
 };
 
-export const evaluateShortAnswer = async (questionText: string, userAnswer: string, keyConcepts: string[]): Promise<{ isCorrect: boolean; feedback: string }> => {
+export const evaluateShortAnswer = async (questionText: string, userAnswer: string, keyConcepts: string[]): Promise<{ isCorrect: boolean; feedback: string; coveredConcepts: string[] }> => {
     // Not caching this as user input is unique
     const evaluationSchema = {
         type: Type.OBJECT,
         properties: {
             isCorrect: { type: Type.BOOLEAN },
             feedback: { type: Type.STRING, description: "A short, one-sentence explanation for why the answer is correct or incorrect." },
+            coveredConcepts: {
+                type: Type.ARRAY,
+                items: { type: Type.STRING },
+                description: "The key concepts the answer explains correctly, copied exactly from the list given.",
+            },
         },
-        required: ["isCorrect", "feedback"],
+        required: ["isCorrect", "feedback", "coveredConcepts"],
     };
-    const prompt = `...`; // Same as before
-    const response = await withRetry<GenerateContentResponse>(() => ai.models.generateContent({
-        model, contents: prompt, config: { responseMimeType: 'application/json', responseSchema: evaluationSchema }
-    }));
-    return JSON.parse(response.text);
+    const prompt = `Evaluate a student's short answer.
+
+Question: ${questionText}
+Student's answer: ${userAnswer}
+Key concepts a complete answer explains:
+${keyConcepts.map(concept => `- ${concept}`).join('\n')}
+
+List the key concepts the answer explains correctly, even in the student's own words. The answer is correct only if it covers every key concept.`;
+    const result = await generateStructured<ShortAnswerEvaluation>({
+        task: 'answer.evaluate', contents: prompt, responseSchema: evaluationSchema, priority: 'interactive'
+    }, validateShortAnswerEvaluation);
+    // Fixture responses only say right or wrong
+    const coveredConcepts = result.coveredConcepts
+        ? result.coveredConcepts
+        : result.isCorrect ? keyConcepts : [];
+    return { isCorrect: result.isCorrect, feedback: result.feedback, coveredConcepts };
 };
 
 export const generateTtsAudio = async (text: string, userId: string): Promise<string | null> => {
     // Gemini TTS is not reliably supported - this function is disabled
     // Please use OpenAI TTS or Google Cloud TTS instead
     console.warn('[Gemini TTS] Gemini TTS is not available. Please configure OPENAI_API_KEY or GOOGLE_CLOUD_TTS_API_KEY for TTS functionality.');
-    isTtsPermanentlyDisabled = true;
     return null;
 };
 
@@ -1,6 +1,7 @@
 // services/googleCloudTtsService.ts
 
 import { getOrGenerate } from './cacheService';
+import { aiGovernor, TTS_MODEL } from './aiGovernor';
 
 /**
  * Google Cloud Text-to-Speech Service
@@ -61,12 +62,20 @@ export async function generateGoogleCloudTTS(
     topic: 'google-cloud-tts',
     prompt: text,
     userId: userId,
+    model: ttsConfig.voiceName,
+    keyParts: {
+      languageCode: ttsConfig.languageCode,
+      audioEncoding: ttsConfig.audioEncoding,
+      speakingRate: ttsConfig.speakingRate,
+      pitch: ttsConfig.pitch,
+    },
     mediaOptions: {
       path: `tts/google-cloud/${text.replace(/[^a-zA-Z0-9]/g, '_').slice(0, 30)}_${Date.now()}.mp3`,
       dataType: 'base64',
       mimeType: 'audio/mpeg',
     },
-    generatorFn: async () => {
+    // Only new audio goes through the governor; cache hits skip its queue
+    generatorFn: () => aiGovernor.run({ model: TTS_MODEL, task: 'tts.speak' }, async () => {
       try {
         const response = await fetch(
           `https://texttospeech.googleapis.com/v1/text:synthesize?key=${apiKey}`,
@@ -124,7 +133,7 @@ export async function generateGoogleCloudTTS(
         // Don't throw - return empty string to allow fallback
         return '';
       }
-    },
+    }),
   });
 }
 
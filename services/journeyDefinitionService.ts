@@ -0,0 +1,581 @@
+// services/journeyDefinitionService.ts
+
+import { db } from './firebase';
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  setDoc,
+  where,
+  serverTimestamp,
+} from 'firebase/firestore';
+import {
+  DerivedStat,
+  GradeRange,
+  Journey,
+  JourneyCondition,
+  JourneySource,
+  ResourceLabel,
+  ResourceLimit,
+  ResourceRuleSet,
+  Resources,
+  ThresholdEvent,
+  User,
+} from '../types';
+import { DEFAULT_RESOURCE_LABELS, INITIAL_RESOURCES, JOURNEYS } from '../constants';
+import { ResolvedResourceLimits, clampResources, getResourceLimits } from './resourceRules';
+import type { ValidationResult } from './outputValidators';
+
+/**
+ * Authorable journey definitions
+ *
+ * Besides the built-in JOURNEYS, journeys can be added without a code change:
+ * - as JSON files in `public/journeys/`, listed in `public/journeys/index.json`
+ * - as documents in the `journey_definitions` Firestore collection (`published: true`)
+ *
+ * Every definition goes through validateJourneyDefinition before it is shown.
+ * Invalid definitions are skipped with a console warning listing what is wrong.
+ * Teachers and admins publish to Firestore from the Journeys tab
+ * (components/journey/JourneyImport.tsx).
+ * The format is documented in docs/JOURNEY_DEFINITIONS.md.
+ */
+
+export const JOURNEY_FORMAT_VERSION = 1;
+export const JOURNEY_MANIFEST_URL = '/journeys/index.json';
+
+const journeyDefinitionsRef = collection(db, 'journey_definitions');
+
+const RESOURCE_KEYS = Object.keys(INITIAL_RESOURCES) as Array<keyof Resources>;
+const ALLOWED_FIELDS = new Set([
+  'formatVersion', 'id', 'name', 'description', 'cardImage', 'startingPrompt',
+  'era', 'region', 'gradeLevel', 'startingResources', 'resourceLabels',
+  'resourceRules', 'winConditions', 'loseConditions', 'factSheet',
+]);
+const MAX_GRADE = 12;
+const MAX_FACTS = 50;
+const MAX_FACT_LENGTH = 300;
+const MAX_LABEL_LENGTH = 20;
+const DEFAULT_STAT_ICON = '📊';
+
+// ===== VALIDATION =====
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isResourceKey = (value: unknown): value is keyof Resources =>
+  typeof value === 'string' && RESOURCE_KEYS.includes(value as keyof Resources);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+function readString(raw: Record<string, any>, field: string, errors: string[], required: boolean): string | undefined {
+  const value = raw[field];
+  if (value === undefined || value === null) {
+    if (required) errors.push(`"${field}" is required`);
+    return undefined;
+  }
+  if (typeof value !== 'string' || !value.trim()) {
+    errors.push(`"${field}" must be a non-empty string`);
+    return undefined;
+  }
+  return value.trim();
+}
+
+function validateGradeLevel(value: unknown, errors: string[]): GradeRange | undefined {
+  if (value === undefined) return undefined;
+  if (!isObject(value) || !Number.isInteger(value.min) || !Number.isInteger(value.max)) {
+    errors.push('"gradeLevel" must be { "min": number, "max": number }');
+    return undefined;
+  }
+  if (value.min < 0 || value.max > MAX_GRADE || value.min > value.max) {
+    errors.push(`"gradeLevel" must satisfy 0 <= min <= max <= ${MAX_GRADE}`);
+    return undefined;
+  }
+  return { min: value.min, max: value.max };
+}
+
+function validateFactSheet(value: unknown, errors: string[]): string[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_FACTS) {
+    errors.push(`"factSheet" must be an array of 1-${MAX_FACTS} facts`);
+    return undefined;
+  }
+  const facts: string[] = [];
+  value.forEach((fact, index) => {
+    if (typeof fact !== 'string' || !fact.trim() || fact.length > MAX_FACT_LENGTH) {
+      errors.push(`"factSheet[${index}]" must be a non-empty string of at most ${MAX_FACT_LENGTH} characters`);
+      return;
+    }
+    facts.push(fact.trim());
+  });
+  return facts;
+}
+
+function validateStartingResources(value: unknown, limits: ResolvedResourceLimits, errors: string[]): Resources | undefined {
+  if (value === undefined) return undefined;
+  if (!isObject(value)) {
+    errors.push('"startingResources" must be an object');
+    return undefined;
+  }
+  const resources = { ...INITIAL_RESOURCES };
+  Object.entries(value).forEach(([key, amount]) => {
+    if (!isResourceKey(key)) {
+      errors.push(`"startingResources.${key}" is not a resource (expected one of ${RESOURCE_KEYS.join(', ')})`);
+    } else if (!isFiniteNumber(amount) || amount < limits[key].min || amount > limits[key].max) {
+      errors.push(`"startingResources.${key}" must be a number from ${limits[key].min} to ${limits[key].max}`);
+    } else {
+      resources[key] = amount;
+    }
+  });
+  return resources;
+}
+
+function validateResourceLabels(value: unknown, errors: string[]): Partial<Record<keyof Resources, ResourceLabel>> | undefined {
+  if (value === undefined) return undefined;
+  if (!isObject(value)) {
+    errors.push('"resourceLabels" must be an object');
+    return undefined;
+  }
+  const labels: Partial<Record<keyof Resources, ResourceLabel>> = {};
+  Object.entries(value).forEach(([key, label]) => {
+    if (!isResourceKey(key)) {
+      errors.push(`"resourceLabels.${key}" is not a resource (expected one of ${RESOURCE_KEYS.join(', ')})`);
+      return;
+    }
+    // A plain string is accepted as the name, keeping the default icon
+    const entry = typeof label === 'string' ? { name: label } : label;
+    if (!isObject(entry) || typeof entry.name !== 'string' || !entry.name.trim() || entry.name.length > MAX_LABEL_LENGTH) {
+      errors.push(`"resourceLabels.${key}.name" must be a string of 1-${MAX_LABEL_LENGTH} characters`);
+      return;
+    }
+    if (entry.icon !== undefined && typeof entry.icon !== 'string') {
+      errors.push(`"resourceLabels.${key}.icon" must be a string`);
+      return;
+    }
+    labels[key] = { name: entry.name.trim(), icon: entry.icon || DEFAULT_RESOURCE_LABELS[key].icon };
+  });
+  return labels;
+}
+
+/**
+ * Parses one condition (also the condition part of a threshold event). `statIds`
+ * are the derived stats a condition may refer to.
+ */
+function parseCondition(raw: Record<string, any>, path: string, statIds: string[], errors: string[]): JourneyCondition | null {
+  const conditionErrors: string[] = [];
+  if (typeof raw.message !== 'string' || !raw.message.trim()) {
+    conditionErrors.push(`"${path}.message" is required`);
+  }
+  if (raw.resource !== undefined && !isResourceKey(raw.resource)) {
+    conditionErrors.push(`"${path}.resource" must be one of ${RESOURCE_KEYS.join(', ')}`);
+  }
+  if (raw.stat !== undefined && !statIds.includes(raw.stat)) {
+    conditionErrors.push(`"${path}.stat" must be the id of a derived stat${statIds.length ? ` (${statIds.join(', ')})` : ''}`);
+  }
+  if (raw.resource !== undefined && raw.stat !== undefined) {
+    conditionErrors.push(`"${path}" may have a "resource" or a "stat", not both`);
+  }
+  ['atLeast', 'atMost'].forEach(bound => {
+    if (raw[bound] !== undefined && !isFiniteNumber(raw[bound])) {
+      conditionErrors.push(`"${path}.${bound}" must be a number`);
+    }
+  });
+  if (raw.afterChoices !== undefined && (!Number.isInteger(raw.afterChoices) || raw.afterChoices < 1)) {
+    conditionErrors.push(`"${path}.afterChoices" must be a positive integer`);
+  }
+  const hasSubject = raw.resource !== undefined || raw.stat !== undefined;
+  if (hasSubject && raw.atLeast === undefined && raw.atMost === undefined) {
+    conditionErrors.push(`"${path}" names a ${raw.resource !== undefined ? 'resource' : 'stat'} but has no "atLeast" or "atMost"`);
+  }
+  if (!hasSubject && raw.afterChoices === undefined) {
+    conditionErrors.push(`"${path}" needs a "resource", "stat" or "afterChoices"`);
+  }
+  if (conditionErrors.length > 0) {
+    errors.push(...conditionErrors);
+    return null;
+  }
+
+  const condition: JourneyCondition = { message: raw.message.trim() };
+  if (raw.resource !== undefined) condition.resource = raw.resource;
+  if (raw.stat !== undefined) condition.stat = raw.stat;
+  if (raw.atLeast !== undefined) condition.atLeast = raw.atLeast;
+  if (raw.atMost !== undefined) condition.atMost = raw.atMost;
+  if (raw.afterChoices !== undefined) condition.afterChoices = raw.afterChoices;
+  return condition;
+}
+
+function validateConditions(value: unknown, field: string, statIds: string[], errors: string[]): JourneyCondition[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) {
+    errors.push(`"${field}" must be an array`);
+    return undefined;
+  }
+  const conditions: JourneyCondition[] = [];
+  value.forEach((raw, index) => {
+    const path = `${field}[${index}]`;
+    if (!isObject(raw)) {
+      errors.push(`"${path}" must be an object`);
+      return;
+    }
+    const condition = parseCondition(raw, path, statIds, errors);
+    if (condition) conditions.push(condition);
+  });
+  return conditions;
+}
+
+/**
+ * Validates a map of resource -> number (threshold effects, derived stat weights)
+ */
+function validateResourceNumbers(value: unknown, path: string, errors: string[]): Partial<Resources> | null {
+  if (!isObject(value) || Object.keys(value).length === 0) {
+    errors.push(`"${path}" must be an object with at least one resource`);
+    return null;
+  }
+  const numbers: Partial<Resources> = {};
+  let valid = true;
+  Object.entries(value).forEach(([key, amount]) => {
+    if (!isResourceKey(key)) {
+      errors.push(`"${path}.${key}" is not a resource (expected one of ${RESOURCE_KEYS.join(', ')})`);
+      valid = false;
+    } else if (!isFiniteNumber(amount)) {
+      errors.push(`"${path}.${key}" must be a number`);
+      valid = false;
+    } else {
+      numbers[key] = amount;
+    }
+  });
+  return valid ? numbers : null;
+}
+
+function validateLimits(value: unknown, errors: string[]): Partial<Record<keyof Resources, ResourceLimit>> | undefined {
+  if (value === undefined) return undefined;
+  if (!isObject(value)) {
+    errors.push('"resourceRules.limits" must be an object');
+    return undefined;
+  }
+  const limits: Partial<Record<keyof Resources, ResourceLimit>> = {};
+  Object.entries(value).forEach(([key, raw]) => {
+    const path = `resourceRules.limits.${key}`;
+    if (!isResourceKey(key)) {
+      errors.push(`"${path}" is not a resource (expected one of ${RESOURCE_KEYS.join(', ')})`);
+      return;
+    }
+    if (!isObject(raw)) {
+      errors.push(`"${path}" must be an object`);
+      return;
+    }
+    const limit: ResourceLimit = {};
+    let valid = true;
+    ['min', 'max', 'maxChangePerChoice'].forEach(field => {
+      if (raw[field] === undefined) return;
+      if (!isFiniteNumber(raw[field])) {
+        errors.push(`"${path}.${field}" must be a number`);
+        valid = false;
+      } else {
+        limit[field as keyof ResourceLimit] = raw[field];
+      }
+    });
+    if (limit.maxChangePerChoice !== undefined && limit.maxChangePerChoice <= 0) {
+      errors.push(`"${path}.maxChangePerChoice" must be greater than 0`);
+      valid = false;
+    }
+    if (valid) limits[key] = limit;
+  });
+
+  // Check min < max once defaults are filled in
+  const resolved = getResourceLimits({ resourceRules: { limits } } as Journey);
+  (Object.keys(limits) as Array<keyof Resources>).forEach(key => {
+    if (resolved[key].min >= resolved[key].max) {
+      errors.push(`"resourceRules.limits.${key}" has min ${resolved[key].min} >= max ${resolved[key].max}`);
+    }
+  });
+  return limits;
+}
+
+function validateDerivedStats(value: unknown, errors: string[]): DerivedStat[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) {
+    errors.push('"resourceRules.derivedStats" must be an array');
+    return undefined;
+  }
+  const stats: DerivedStat[] = [];
+  value.forEach((raw, index) => {
+    const path = `resourceRules.derivedStats[${index}]`;
+    if (!isObject(raw)) {
+      errors.push(`"${path}" must be an object`);
+      return;
+    }
+    const statErrors: string[] = [];
+    if (typeof raw.id !== 'string' || !/^[a-z][a-zA-Z0-9_]*$/.test(raw.id)) {
+      statErrors.push(`"${path}.id" must start with a lowercase letter and contain only letters, digits and "_"`);
+    } else if (isResourceKey(raw.id) || stats.some(stat => stat.id === raw.id)) {
+      statErrors.push(`"${path}.id" "${raw.id}" is already used by a resource or another stat`);
+    }
+    if (typeof raw.name !== 'string' || !raw.name.trim() || raw.name.length > MAX_LABEL_LENGTH) {
+      statErrors.push(`"${path}.name" must be a string of 1-${MAX_LABEL_LENGTH} characters`);
+    }
+    if (raw.icon !== undefined && typeof raw.icon !== 'string') {
+      statErrors.push(`"${path}.icon" must be a string`);
+    }
+    const weights = validateResourceNumbers(raw.weights, `${path}.weights`, statErrors);
+    if (statErrors.length > 0) {
+      errors.push(...statErrors);
+      return;
+    }
+    stats.push({ id: raw.id, name: raw.name.trim(), icon: raw.icon || DEFAULT_STAT_ICON, weights });
+  });
+  return stats;
+}
+
+function validateThresholdEvents(value: unknown, statIds: string[], errors: string[]): ThresholdEvent[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) {
+    errors.push('"resourceRules.thresholdEvents" must be an array');
+    return undefined;
+  }
+  const events: ThresholdEvent[] = [];
+  value.forEach((raw, index) => {
+    const path = `resourceRules.thresholdEvents[${index}]`;
+    if (!isObject(raw)) {
+      errors.push(`"${path}" must be an object`);
+      return;
+    }
+    const eventErrors: string[] = [];
+    if (typeof raw.id !== 'string' || !raw.id.trim()) {
+      eventErrors.push(`"${path}.id" is required`);
+    } else if (events.some(event => event.id === raw.id)) {
+      eventErrors.push(`"${path}.id" "${raw.id}" is used by another event`);
+    }
+    if (raw.once !== undefined && typeof raw.once !== 'boolean') {
+      eventErrors.push(`"${path}.once" must be true or false`);
+    }
+    const condition = parseCondition(raw, path, statIds, eventErrors);
+    const effects = validateResourceNumbers(raw.effects, `${path}.effects`, eventErrors);
+    if (eventErrors.length > 0) {
+      errors.push(...eventErrors);
+      return;
+    }
+    events.push({ ...condition, id: raw.id, effects, ...(raw.once ? { once: true } : {}) });
+  });
+  return events;
+}
+
+function validateResourceRules(value: unknown, errors: string[]): ResourceRuleSet | undefined {
+  if (value === undefined) return undefined;
+  if (!isObject(value)) {
+    errors.push('"resourceRules" must be an object');
+    return undefined;
+  }
+  Object.keys(value)
+    .filter(field => !['limits', 'derivedStats', 'thresholdEvents'].includes(field))
+    .forEach(field => errors.push(`Unknown field "resourceRules.${field}"`));
+
+  const rules: ResourceRuleSet = {};
+  const limits = validateLimits(value.limits, errors);
+  const derivedStats = validateDerivedStats(value.derivedStats, errors);
+  const thresholdEvents = validateThresholdEvents(value.thresholdEvents, (derivedStats || []).map(stat => stat.id), errors);
+  if (limits) rules.limits = limits;
+  if (derivedStats) rules.derivedStats = derivedStats;
+  if (thresholdEvents) rules.thresholdEvents = thresholdEvents;
+  return rules;
+}
+
+/**
+ * Validates an untrusted journey definition (parsed JSON or a Firestore document)
+ */
+export function validateJourneyDefinition(raw: unknown, source: JourneySource): ValidationResult<Journey> {
+  if (!isObject(raw)) {
+    return { ok: false, repaired: false, errors: ['Definition must be a JSON object'] };
+  }
+
+  const errors: string[] = [];
+  Object.keys(raw)
+    .filter(field => !ALLOWED_FIELDS.has(field))
+    .forEach(field => errors.push(`Unknown field "${field}"`));
+
+  if (raw.formatVersion !== undefined && (!Number.isInteger(raw.formatVersion) || raw.formatVersion > JOURNEY_FORMAT_VERSION)) {
+    errors.push(`"formatVersion" ${raw.formatVersion} is not supported (latest is ${JOURNEY_FORMAT_VERSION})`);
+  }
+
+  const id = readString(raw, 'id', errors, true);
+  if (id && !/^[a-z0-9][a-z0-9-]*$/.test(id)) {
+    errors.push('"id" may only contain lowercase letters, digits and dashes');
+  }
+  const name = readString(raw, 'name', errors, true);
+  const description = readString(raw, 'description', errors, true);
+  const startingPrompt = readString(raw, 'startingPrompt', errors, true);
+  const cardImage = readString(raw, 'cardImage', errors, true);
+  if (cardImage && !/^(https?:\/\/|\/)/.test(cardImage)) {
+    errors.push('"cardImage" must be an http(s) URL or a path starting with "/"');
+  }
+
+  const resourceRules = validateResourceRules(raw.resourceRules, errors);
+  const statIds = (resourceRules?.derivedStats || []).map(stat => stat.id);
+  const limits = getResourceLimits({ resourceRules } as Journey);
+
+  const journey: Journey = {
+    id,
+    name,
+    description,
+    cardImage,
+    startingPrompt,
+    era: readString(raw, 'era', errors, false),
+    region: readString(raw, 'region', errors, false),
+    gradeLevel: validateGradeLevel(raw.gradeLevel, errors),
+    startingResources: validateStartingResources(raw.startingResources, limits, errors),
+    resourceLabels: validateResourceLabels(raw.resourceLabels, errors),
+    resourceRules,
+    winConditions: validateConditions(raw.winConditions, 'winConditions', statIds, errors),
+    loseConditions: validateConditions(raw.loseConditions, 'loseConditions', statIds, errors),
+    factSheet: validateFactSheet(raw.factSheet, errors),
+    source,
+  };
+
+  if (errors.length > 0) {
+    return { ok: false, repaired: false, errors };
+  }
+  // Drop unset optional fields (Firestore rejects undefined)
+  Object.keys(journey).forEach(key => journey[key as keyof Journey] === undefined && delete journey[key as keyof Journey]);
+  return { ok: true, value: journey, repaired: false, errors: [] };
+}
+
+// ===== HELPERS =====
+
+/**
+ * Starting resources, with the defaults brought within the journey's limits
+ */
+export function getStartingResources(journey: Journey): Resources {
+  return clampResources(journey.startingResources || INITIAL_RESOURCES, getResourceLimits(journey));
+}
+
+/**
+ * The display name and icon of every resource, with the journey's renames applied
+ */
+export function getResourceLabels(journey?: Journey | null): Record<keyof Resources, ResourceLabel> {
+  return { ...DEFAULT_RESOURCE_LABELS, ...(journey?.resourceLabels || {}) };
+}
+
+/**
+ * One-line summary of a journey's metadata, e.g. "France · 1789 · Grades 5-9"
+ */
+export function formatJourneyMeta(journey: Journey): string {
+  const grades = journey.gradeLevel
+    ? (journey.gradeLevel.min === journey.gradeLevel.max
+      ? `Grade ${journey.gradeLevel.min}`
+      : `Grades ${journey.gradeLevel.min}-${journey.gradeLevel.max}`)
+    : null;
+  return [journey.region, journey.era, grades].filter(Boolean).join(' · ');
+}
+
+// ===== LOADING =====
+
+function acceptDefinition(raw: unknown, source: JourneySource, origin: string): Journey | null {
+  const result = validateJourneyDefinition(raw, source);
+  if (!result.ok) {
+    console.warn(`[Journeys] Skipping invalid journey from ${origin}:\n- ${result.errors.join('\n- ')}`);
+    return null;
+  }
+  return result.value;
+}
+
+/**
+ * Loads the journey files listed in the manifest (`{ "journeys": ["file.json", ...] }`)
+ */
+export async function loadJourneysFromFiles(manifestUrl: string = JOURNEY_MANIFEST_URL): Promise<Journey[]> {
+  const response = await fetch(manifestUrl);
+  if (!response.ok) {
+    throw new Error(`Journey manifest request failed with status ${response.status}`);
+  }
+  const manifest = await response.json();
+  const files: unknown = manifest?.journeys;
+  if (!Array.isArray(files)) {
+    throw new Error('Journey manifest must have a "journeys" array of file names');
+  }
+
+  const baseUrl = manifestUrl.slice(0, manifestUrl.lastIndexOf('/') + 1);
+  const results = await Promise.all(files.map(async (file) => {
+    const url = `${baseUrl}${file}`;
+    try {
+      const fileResponse = await fetch(url);
+      if (!fileResponse.ok) {
+        throw new Error(`status ${fileResponse.status}`);
+      }
+      return acceptDefinition(await fileResponse.json(), 'file', url);
+    } catch (error) {
+      console.warn(`[Journeys] Could not load ${url}:`, error);
+      return null;
+    }
+  }));
+  return results.filter(Boolean) as Journey[];
+}
+
+/**
+ * Loads the published definitions from the `journey_definitions` collection
+ */
+export async function loadJourneysFromFirestore(): Promise<Journey[]> {
+  const snapshot = await getDocs(query(journeyDefinitionsRef, where('published', '==', true)));
+  return snapshot.docs
+    .map(definitionDoc => {
+      const { published, authorId, updatedAt, ...definition } = definitionDoc.data();
+      return acceptDefinition(definition, 'firestore', `journey_definitions/${definitionDoc.id}`);
+    })
+    .filter(Boolean) as Journey[];
+}
+
+/**
+ * The built-in journeys followed by every valid authored journey. An authored
+ * journey cannot replace a built-in one; between files and Firestore the file wins.
+ */
+export async function loadJourneyCatalog(): Promise<Journey[]> {
+  const [fromFiles, fromFirestore] = await Promise.all([
+    loadJourneysFromFiles().catch(error => {
+      console.warn('[Journeys] Could not load journey files:', error);
+      return [] as Journey[];
+    }),
+    loadJourneysFromFirestore().catch(error => {
+      console.warn('[Journeys] Could not load journeys from Firestore:', error);
+      return [] as Journey[];
+    }),
+  ]);
+
+  const catalog = new Map<string, Journey>(JOURNEYS.map(journey => [journey.id, journey]));
+  [...fromFiles, ...fromFirestore].forEach(journey => {
+    if (catalog.has(journey.id)) {
+      console.warn(`[Journeys] Skipping ${journey.source} journey "${journey.id}": the id is already in use`);
+      return;
+    }
+    catalog.set(journey.id, journey);
+  });
+  return Array.from(catalog.values());
+}
+
+/**
+ * Whether the user may publish journeys to Firestore (see firestore.rules)
+ */
+export const canAuthorJourneys = (user: User | null): boolean =>
+  user?.role === 'teacher' || user?.role === 'admin';
+
+/**
+ * Validates and publishes a journey to Firestore. Throws with every validation
+ * error if the definition is invalid.
+ */
+export async function saveJourneyDefinition(raw: unknown, authorId: string, published: boolean = true): Promise<Journey> {
+  const result = validateJourneyDefinition(raw, 'firestore');
+  if (!result.ok) {
+    throw new Error(`Invalid journey definition:\n- ${result.errors.join('\n- ')}`);
+  }
+  if (JOURNEYS.some(journey => journey.id === result.value.id)) {
+    throw new Error(`"${result.value.id}" is the id of a built-in journey`);
+  }
+
+  const { source, ...definition } = result.value;
+  await setDoc(doc(journeyDefinitionsRef, definition.id), {
+    ...definition,
+    formatVersion: JOURNEY_FORMAT_VERSION,
+    published,
+    authorId,
+    updatedAt: serverTimestamp(),
+  });
+  return result.value;
+}
@@ -0,0 +1,93 @@
+// services/materialIndexService.test.ts
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { StudyMaterial } from '../types';
+import { getUserStudyMaterials } from './contentMemoryService';
+import { invalidateMaterialIndex, searchMaterials, tokenize } from './materialIndexService';
+
+vi.mock('./contentMemoryService', () => ({ getUserStudyMaterials: vi.fn() }));
+
+const material = (uploadId: string, title: string, rawText: string): StudyMaterial => ({
+  uploadId,
+  userId: 'student',
+  type: 'text',
+  title,
+  rawText,
+  topics: [],
+  terms: [],
+  gradeLevel: '',
+  createdAt: null,
+  isPublic: false,
+  source: 'upload',
+} as StudyMaterial);
+
+const REVOLUTION = material('revolution', 'The French Revolution', [
+  'In 1789 France faced a severe financial crisis.',
+  'King Louis XVI called the Estates-General to raise taxes.',
+  'On 14 July Parisians stormed the Bastille, a royal fortress and prison.',
+].join(' '));
+
+const ROME = material('rome', 'The Fall of Rome', [
+  'The Western Roman Empire fell in 476 when Odoacer deposed the last emperor.',
+  'Constantinople remained the capital of the Eastern Roman Empire.',
+].join(' '));
+
+const CASTLES = material('castles', 'Medieval Castles', 'A castle was a fortress built to guard a lord and his lands.');
+
+let userCount = 0;
+let userId: string;
+
+beforeEach(() => {
+  // A new user per test, so no test sees another's index
+  userId = `student-${++userCount}`;
+  vi.mocked(getUserStudyMaterials).mockReset().mockResolvedValue([REVOLUTION, ROME, CASTLES]);
+});
+
+describe('tokenize', () => {
+  it('lowercases, splits on punctuation and drops short and stop words', () => {
+    expect(tokenize('Who stormed the Bastille in 1789?')).toEqual(['stormed', 'bastille', '1789']);
+  });
+});
+
+describe('searchMaterials', () => {
+  it('ranks the passage that matches the question first and cites it', async () => {
+    const [best] = await searchMaterials(userId, 'Why did Louis XVI call the Estates-General?');
+    expect(best.citation.materialId).toBe('revolution');
+    expect(best.citation.materialTitle).toBe('The French Revolution');
+    expect(best.text).toContain('Estates-General');
+    expect(REVOLUTION.rawText!.slice(best.citation.startOffset, best.citation.endOffset)).toBe(best.text);
+  });
+
+  it('returns nothing when no passage shares a term with the question', async () => {
+    expect(await searchMaterials(userId, 'photosynthesis chlorophyll')).toEqual([]);
+  });
+
+  it('ranks passages of the material being studied higher', async () => {
+    // The same notes saved twice score the same; the preferred copy wins
+    const notes = 'A castle was a fortress built to guard a lord and his lands.';
+    vi.mocked(getUserStudyMaterials).mockResolvedValue([material('notes', 'Castles', notes), material('copy', 'Castles (copy)', notes)]);
+
+    const [first] = await searchMaterials(userId, 'fortress');
+    expect(first.citation.materialId).toBe('notes');
+    const [preferred] = await searchMaterials(userId, 'fortress', { preferMaterialId: 'copy' });
+    expect(preferred.citation.materialId).toBe('copy');
+  });
+
+  it('keeps at most the requested number of passages', async () => {
+    expect(await searchMaterials(userId, 'fortress empire crisis', { limit: 2 })).toHaveLength(2);
+  });
+
+  it('picks up new materials once invalidated', async () => {
+    expect(await searchMaterials(userId, 'pyramids')).toEqual([]);
+
+    vi.mocked(getUserStudyMaterials).mockResolvedValue([
+      REVOLUTION,
+      material('egypt', 'Ancient Egypt', 'The pyramids of Giza were built as tombs for the pharaohs.'),
+    ]);
+    invalidateMaterialIndex(userId);
+
+    const [best] = await searchMaterials(userId, 'pyramids');
+    expect(best.citation.materialId).toBe('egypt');
+    expect(await searchMaterials(userId, 'Odoacer')).toEqual([]);
+  });
+});
@@ -0,0 +1,225 @@
+// services/materialIndexService.ts
+
+import { SourceCitation, StudyMaterial } from '../types';
+import { getUserStudyMaterials } from './contentMemoryService';
+import { getMaterialText, hasMaterialText } from './materialTextService';
+import { createCitation } from './citationService';
+
+/**
+ * Local search index over a student's own study materials
+ *
+ * The text of every material is cut into passages of about PASSAGE_CHARS,
+ * and passages are ranked against a question with BM25. The index is built in
+ * the browser and kept in memory, one per user. When the user's materials
+ * change, only new or changed materials are read and cut into passages again,
+ * so nothing but the materials themselves is stored.
+ */
+
+const PASSAGE_CHARS = 800;
+// The material list is read again at most this often
+const INDEX_TTL_MS = 5 * 60 * 1000;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Passages from the material the student is working on rank this much higher
+const PREFERRED_MATERIAL_BOOST = 1.5;
+const DEFAULT_RESULTS = 4;
+const PAGE_MARKER = /^\s*\[Page \d+\]\s*$/;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'was', 'were', 'with', 'that', 'this', 'from', 'what', 'did', 'does', 'about',
+  'which', 'who', 'how', 'why', 'when', 'are', 'its', 'his', 'her', 'their', 'they', 'into', 'had',
+  'has', 'have', 'but', 'not', 'you', 'your', 'say', 'said', 'tell', 'can', 'there', 'then', 'than',
+]);
+
+export interface RetrievedPassage {
+  citation: SourceCitation;
+  text: string;
+  score: number;
+}
+
+interface IndexedPassage {
+  start: number;
+  end: number;
+  termCounts: Map<string, number>;
+  length: number; // In terms
+}
+
+// One material's passages, kept until the material's text changes
+interface IndexedMaterial {
+  version: string;
+  material: StudyMaterial;
+  text: string; // The material's whole text
+  passages: IndexedPassage[];
+}
+
+interface MaterialIndex {
+  checkedAt: number;
+  materials: Map<string, IndexedMaterial>; // By uploadId
+  passageCount: number;
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+}
+
+const indexes = new Map<string, MaterialIndex>();
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(term => term.length > 2 && !STOP_WORDS.has(term));
+}
+
+export const materialTitle = (material: StudyMaterial): string =>
+  material.analysis?.title || material.title || material.fileName || 'Study material';
+
+/**
+ * Which text the material has, without reading it. Stored texts never
+ * change once written, so their path and length identify them.
+ */
+const materialVersion = (material: StudyMaterial): string =>
+  `${material.textPath || ''}:${material.textLength ?? material.rawText?.length ?? 0}`;
+
+/**
+ * Cuts text into passages of whole sentences, about PASSAGE_CHARS long
+ */
+function passageSpans(text: string): { start: number; end: number }[] {
+  const spans: { start: number; end: number }[] = [];
+  const sentence = /[^.!?\n]+(?:[.!?]+|\n+|$)/g;
+  let start = -1;
+  let end = 0;
+  let match: RegExpExecArray | null;
+  while ((match = sentence.exec(text)) !== null) {
+    // Page markers from document extraction are not part of any passage
+    if (PAGE_MARKER.test(match[0])) continue;
+    const matchEnd = match.index + match[0].length;
+    if (start === -1) {
+      start = match.index;
+    } else if (matchEnd - start > PASSAGE_CHARS) {
+      spans.push({ start, end });
+      start = match.index;
+    }
+    end = matchEnd;
+  }
+  if (start !== -1) spans.push({ start, end });
+  return spans;
+}
+
+async function indexMaterial(material: StudyMaterial): Promise<IndexedMaterial> {
+  const { text } = await getMaterialText(material);
+  const passages: IndexedPassage[] = [];
+  passageSpans(text).forEach(({ start, end }) => {
+    const terms = tokenize(text.slice(start, end));
+    if (terms.length === 0) return;
+    const termCounts = new Map<string, number>();
+    terms.forEach(term => termCounts.set(term, (termCounts.get(term) || 0) + 1));
+    passages.push({ start, end, termCounts, length: terms.length });
+  });
+  return { version: materialVersion(material), material, text, passages };
+}
+
+function buildIndex(materials: Map<string, IndexedMaterial>): MaterialIndex {
+  const documentFrequency = new Map<string, number>();
+  let passageCount = 0;
+  let totalLength = 0;
+  materials.forEach(({ passages }) => passages.forEach(passage => {
+    passage.termCounts.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1));
+    passageCount++;
+    totalLength += passage.length;
+  }));
+
+  return {
+    checkedAt: Date.now(),
+    materials,
+    passageCount,
+    documentFrequency,
+    averageLength: passageCount ? totalLength / passageCount : 0,
+  };
+}
+
+/**
+ * The user's index, brought up to date with their material list. Only
+ * materials that are new or whose text changed are read and cut into passages.
+ */
+async function getMaterialIndex(userId: string): Promise<MaterialIndex> {
+  const cached = indexes.get(userId);
+  if (cached && Date.now() - cached.checkedAt < INDEX_TTL_MS) return cached;
+
+  // Materials saved before their text was stored cannot be searched
+  const current = (await getUserStudyMaterials(userId)).filter(hasMaterialText);
+  let changed = !cached || cached.materials.size !== current.length;
+  const materials = new Map(await Promise.all(current.map(async (material): Promise<[string, IndexedMaterial]> => {
+    const indexed = cached?.materials.get(material.uploadId);
+    if (indexed && indexed.version === materialVersion(material)) {
+      // Titles and analyses can change without the text changing
+      indexed.material = material;
+      return [material.uploadId, indexed];
+    }
+    changed = true;
+    return [material.uploadId, await indexMaterial(material)];
+  })));
+
+  if (cached && !changed) {
+    cached.checkedAt = Date.now();
+    return cached;
+  }
+
+  const index = buildIndex(materials);
+  indexes.set(userId, index);
+  console.log(`[Index] Indexed ${index.passageCount} passages from ${materials.size} materials`);
+  return index;
+}
+
+/**
+ * Makes the next search check the user's material list again, e.g. after
+ * they upload new material. Materials whose text did not change are kept.
+ */
+export function invalidateMaterialIndex(userId: string): void {
+  const index = indexes.get(userId);
+  if (index) index.checkedAt = 0;
+}
+
+/**
+ * The passages of a user's materials that best match a question, best first
+ */
+export async function searchMaterials(
+  userId: string,
+  query: string,
+  options: { limit?: number; preferMaterialId?: string } = {}
+): Promise<RetrievedPassage[]> {
+  const terms = Array.from(new Set(tokenize(query)));
+  if (terms.length === 0) return [];
+  const index = await getMaterialIndex(userId);
+  const passageCount = index.passageCount;
+  if (passageCount === 0) return [];
+
+  const idf = new Map(terms.map(term => {
+    const frequency = index.documentFrequency.get(term) || 0;
+    return [term, Math.log(1 + (passageCount - frequency + 0.5) / (frequency + 0.5))];
+  }));
+
+  const scored: { indexed: IndexedMaterial; passage: IndexedPassage; score: number }[] = [];
+  index.materials.forEach(indexed => indexed.passages.forEach(passage => {
+    let score = 0;
+    terms.forEach(term => {
+      const count = passage.termCounts.get(term);
+      if (!count) return;
+      const lengthNorm = 1 - BM25_B + BM25_B * (passage.length / index.averageLength);
+      score += idf.get(term)! * (count * (BM25_K1 + 1)) / (count + BM25_K1 * lengthNorm);
+    });
+    if (indexed.material.uploadId === options.preferMaterialId) score *= PREFERRED_MATERIAL_BOOST;
+    if (score > 0) scored.push({ indexed, passage, score });
+  }));
+
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit ?? DEFAULT_RESULTS)
+    .map(({ indexed, passage, score }) => {
+      const { material, text } = indexed;
+      const citation = createCitation(text, passage.start, passage.end, material.uploadId, material.analysis?.sections);
+      return {
+        citation: { ...citation, materialTitle: materialTitle(material) },
+        text: text.slice(citation.startOffset, citation.endOffset),
+        score,
+      };
+    });
+}
@@ -0,0 +1,685 @@
+// services/materialJobService.ts
+
+import { db, toFirestoreData } from './firebase';
+import {
+  collection,
+  doc,
+  setDoc,
+  getDoc,
+  getDocs,
+  runTransaction,
+  query,
+  where,
+  orderBy,
+  limit,
+  onSnapshot,
+  serverTimestamp,
+  updateDoc,
+  deleteDoc,
+  deleteField,
+} from 'firebase/firestore';
+import { StudyMaterial, TranscriptSegment } from '../types';
+import {
+  startUpload,
+  uploadTextContent,
+  validateFile,
+  isUploadCancelled,
+  FileType,
+  UploadHandle,
+  UploadProgress,
+} from './fileUploadService';
+import { analyzeContent, extractTextFromImage, ContentAnalysis } from './contentAnalyzerService';
+import { extractDocumentText, extractScannedPages, MAX_SCAN_PAGES } from './documentExtractionService';
+import { formatTranscript, transcribeRecording } from './transcriptionService';
+import { buildStudyJourney, generateJourneyScenes, generateStudyQuestions, StudyJourney, StudyRecording } from './dynamicJourneyBuilder';
+import { saveStudyMaterial } from './contentMemoryService';
+import { assertFitsInDocument, getMaterialText, hasMaterialText, loadMaterialText, MaterialText, storeMaterialText } from './materialTextService';
+import { invalidateMaterialIndex, materialTitle } from './materialIndexService';
+import { isAbortError } from './aiGovernor';
+
+/**
+ * Background jobs that turn an upload into a study journey
+ *
+ * A job runs the stages of MATERIAL_JOB_STAGES in order and stores what each
+ * stage produced on its Firestore document, so it outlives the component that
+ * started it and a reload: unfinished jobs are picked up again from the stage
+ * they were at. Jobs run one at a time per session. Cancelling aborts the
+ * running stage through an AbortSignal, down to the AI call in flight.
+ *
+ * Several tabs and devices can be open at once, so a session claims a job in
+ * a transaction before running it, recording itself as the job's owner with
+ * a lease it renews while it works. Another session only takes a job over
+ * once the lease has lapsed, i.e. the tab that held it was closed or crashed.
+ * The owner re-reads the job before each stage and before finishing it, so a
+ * cancel made elsewhere stops it and is never overwritten.
+ *
+ * The selected files themselves only live in memory, so the session that
+ * holds them also owns the job while it waits in the queue. A job whose
+ * upload did not finish before its tab closed has to be retried with the
+ * files chosen again.
+ */
+
+export type MaterialJobStage = 'upload' | 'extract' | 'analyze' | 'save' | 'build' | 'questions' | 'scenes';
+export type MaterialJobStatus = 'queued' | 'running' | 'failed' | 'cancelled' | 'done';
+
+export const MATERIAL_JOB_STAGES: MaterialJobStage[] = ['upload', 'extract', 'analyze', 'save', 'build', 'questions', 'scenes'];
+
+const STAGE_LABELS: Record<MaterialJobStage, string> = {
+  upload: 'Uploading file...',
+  extract: 'Reading your material...',
+  analyze: 'Analyzing content with AI...',
+  save: 'Saving your material...',
+  build: 'Building your learning journey...',
+  questions: 'Writing questions...',
+  scenes: 'Creating interactive content...',
+};
+
+// Jobs shown to the student, newest first
+const MAX_LISTED_JOBS = 20;
+const MIN_CONTENT_CHARS = 50;
+// How long a session's claim on a job lasts unless renewed, and how often it is renewed
+const LEASE_MS = 60 * 1000;
+const HEARTBEAT_MS = 20 * 1000;
+// This tab, as the owner of the jobs it claims
+const SESSION_ID = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+interface UploadedPage {
+  fileName: string;
+  downloadURL: string;
+  mimeType: string;
+}
+
+export interface MaterialJob {
+  id: string;
+  userId: string;
+  kind: 'file' | 'text' | 'scan' | 'rebuild'; // A scan is several photographed pages; a rebuild is a new journey for a saved material
+  fileName: string;
+  status: MaterialJobStatus;
+  stage: MaterialJobStage; // The stage running, or the next one to run
+  detail?: string; // What the stage is doing right now
+  error?: string;
+  upload?: { fileName: string; fileType: FileType; downloadURL: string; mimeType?: string }; // The first page of a scan
+  pages?: UploadedPage[]; // A scan's pages, in order
+  // The text and transcript, in Storage from extraction on; the saved material shares them
+  textPath?: string;
+  textLength?: number;
+  durationSeconds?: number;
+  analysis?: ContentAnalysis;
+  materialId?: string;
+  journey?: Omit<StudyJourney, 'analysis' | 'recording'>; // The analysis is stored once, above, and the transcript with the text
+  journeyId?: string;
+  owner?: string; // The session running the job, or holding its files while it is queued
+  leaseUntil?: number; // Epoch ms; the owner's claim lapses after this unless renewed
+  createdAt: any; // Firestore Timestamp
+  updatedAt: any;
+  uploadProgress?: UploadProgress; // Live upload progress, in this session only
+}
+
+const jobsCollection = (userId: string) => collection(db, `users/${userId}/materialJobs`);
+const jobRef = (userId: string, jobId: string) => doc(jobsCollection(userId), jobId);
+
+// State of the jobs running in this session
+const controllers = new Map<string, AbortController>();
+const files = new Map<string, File[]>(); // Until the job's upload finishes
+const uploads = new Map<string, UploadHandle>();
+const uploadProgress = new Map<string, UploadProgress>();
+const progressListeners = new Set<() => void>();
+const activeWorkers = new Set<string>(); // Users whose queue is being worked through
+const resumedUsers = new Set<string>();
+const leases = new Map<string, string>(); // Job id to user id, for the jobs this session owns
+const queueRetries = new Map<string, ReturnType<typeof setTimeout>>(); // Users waiting for another session's lease to lapse
+let heartbeat: ReturnType<typeof setInterval> | null = null;
+
+const notifyProgress = () => progressListeners.forEach(listener => listener());
+
+const isCancellation = (error: any, signal: AbortSignal): boolean =>
+  signal.aborted || isAbortError(error) || isUploadCancelled(error);
+
+async function updateJob(job: MaterialJob, changes: Record<string, unknown>): Promise<void> {
+  // Firestore rejects undefined values
+  const defined = Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined));
+  await updateDoc(jobRef(job.userId, job.id), { ...defined, updatedAt: serverTimestamp() });
+}
+
+// ===== OWNERSHIP =====
+
+const newLease = () => ({ owner: SESSION_ID, leaseUntil: Date.now() + LEASE_MS });
+
+/**
+ * Whether this session may claim the job: queued and not held by a live
+ * session, or running in a session whose lease has lapsed
+ */
+function canClaim(job: MaterialJob, now: number): boolean {
+  if (controllers.has(job.id)) return false;
+  const leaseLapsed = (job.leaseUntil ?? 0) < now;
+  if (job.status === 'queued') return !job.owner || job.owner === SESSION_ID || leaseLapsed;
+  return job.status === 'running' && leaseLapsed;
+}
+
+function holdLease(userId: string, jobId: string): void {
+  leases.set(jobId, userId);
+  if (!heartbeat) heartbeat = setInterval(renewLeases, HEARTBEAT_MS);
+}
+
+function releaseLease(jobId: string): void {
+  leases.delete(jobId);
+  if (leases.size === 0 && heartbeat) {
+    clearInterval(heartbeat);
+    heartbeat = null;
+  }
+}
+
+/**
+ * Extends the lease on every job this session owns. A job that was cancelled
+ * or taken over elsewhere is let go, and stopped if it is running here.
+ */
+async function renewLeases(): Promise<void> {
+  await Promise.all(Array.from(leases.entries()).map(async ([jobId, userId]) => {
+    try {
+      const kept = await runTransaction(db, async transaction => {
+        const snapshot = await transaction.get(jobRef(userId, jobId));
+        const job = snapshot.data() as MaterialJob | undefined;
+        if (!job || job.owner !== SESSION_ID || (job.status !== 'queued' && job.status !== 'running')) return false;
+        transaction.update(snapshot.ref, { leaseUntil: Date.now() + LEASE_MS });
+        return true;
+      });
+      if (!kept) {
+        releaseLease(jobId);
+        controllers.get(jobId)?.abort();
+      }
+    } catch (error) {
+      console.warn('[Jobs] Could not renew a job lease:', error);
+    }
+  }));
+}
+
+/**
+ * Marks the job running under this session, if no other session holds it.
+ * Returns the claimed job, or null if it was not free.
+ */
+async function claimJob(userId: string, jobId: string): Promise<MaterialJob | null> {
+  const claimed = await runTransaction(db, async transaction => {
+    const snapshot = await transaction.get(jobRef(userId, jobId));
+    if (!snapshot.exists()) return null;
+    const job = { ...snapshot.data({ serverTimestamps: 'estimate' }), id: snapshot.id } as MaterialJob;
+    if (!canClaim(job, Date.now())) return null;
+    const lease = newLease();
+    transaction.update(snapshot.ref, { status: 'running', ...lease, error: deleteField(), updatedAt: serverTimestamp() });
+    return { ...job, status: 'running', ...lease, error: undefined } as MaterialJob;
+  });
+  if (claimed) holdLease(userId, jobId);
+  return claimed;
+}
+
+/**
+ * Stops the job if it was cancelled elsewhere or another session took it over
+ */
+async function checkOwnership(job: MaterialJob, controller: AbortController): Promise<void> {
+  const current = (await getDoc(jobRef(job.userId, job.id))).data() as MaterialJob | undefined;
+  if (current?.status !== 'running' || current.owner !== SESSION_ID) controller.abort();
+}
+
+/**
+ * Writes a job's final status and lets go of it, unless it was cancelled
+ * elsewhere or taken over meanwhile. Returns whether it was written.
+ */
+async function finishJob(job: MaterialJob, changes: Record<string, unknown>): Promise<boolean> {
+  return runTransaction(db, async transaction => {
+    const snapshot = await transaction.get(jobRef(job.userId, job.id));
+    const current = snapshot.data() as MaterialJob | undefined;
+    if (current?.status !== 'running' || current.owner !== SESSION_ID) return false;
+    transaction.update(snapshot.ref, { ...changes, owner: deleteField(), leaseUntil: deleteField(), updatedAt: serverTimestamp() });
+    return true;
+  });
+}
+
+/**
+ * The text and transcript of a job's material
+ */
+async function materialContent(job: MaterialJob): Promise<MaterialText> {
+  if (!job.textPath) throw new Error('The text of the material is missing. Retry the job from the start.');
+  return loadMaterialText(job.textPath);
+}
+
+function recordingFor(job: MaterialJob, content: MaterialText): StudyRecording | undefined {
+  return content.transcript?.length ? { transcript: content.transcript, mediaUrl: job.upload!.downloadURL } : undefined;
+}
+
+async function journeyFor(job: MaterialJob): Promise<StudyJourney> {
+  if (!job.journey || !job.analysis) throw new Error('The journey is missing. Retry the job from the start.');
+  const recording = recordingFor(job, await materialContent(job));
+  return { ...job.journey, analysis: job.analysis, ...(recording ? { recording } : {}) } as StudyJourney;
+}
+
+// ===== STAGES =====
+
+type StageResult = Partial<MaterialJob>;
+
+async function uploadWithProgress(
+  job: MaterialJob,
+  file: File,
+  signal: AbortSignal,
+  onProgress: (progress: UploadProgress) => void
+) {
+  const handle = startUpload(file, job.userId, { fileName: file.name, onProgress });
+  uploads.set(job.id, handle);
+  const cancel = () => handle.cancel();
+  signal.addEventListener('abort', cancel);
+  try {
+    return await handle.done;
+  } finally {
+    signal.removeEventListener('abort', cancel);
+    uploads.delete(job.id);
+  }
+}
+
+async function runUpload(job: MaterialJob, signal: AbortSignal): Promise<StageResult> {
+  if (job.kind === 'text') {
+    const uploaded = await uploadTextContent((await materialContent(job)).text, job.userId);
+    return { upload: { fileName: uploaded.fileName, fileType: 'text', downloadURL: uploaded.downloadURL, mimeType: uploaded.mimeType } };
+  }
+
+  const selected = files.get(job.id);
+  if (!selected?.length) {
+    throw new Error(`The upload was interrupted. Choose the ${job.kind === 'scan' ? 'pages' : 'file'} again to retry.`);
+  }
+  // A scan's pages go up one after another, shown as one upload
+  const totalBytes = selected.reduce((sum, file) => sum + file.size, 0);
+  const uploaded = [];
+  try {
+    for (const file of selected) {
+      const sentBefore = uploaded.reduce((sum, page) => sum + page.size, 0);
+      uploaded.push(await uploadWithProgress(job, file, signal, progress => {
+        uploadProgress.set(job.id, { ...progress, bytesTransferred: sentBefore + progress.bytesTransferred, totalBytes });
+        notifyProgress();
+      }));
+    }
+  } finally {
+    uploadProgress.delete(job.id);
+    notifyProgress();
+  }
+
+  const [first] = uploaded;
+  return {
+    upload: { fileName: first.fileName, fileType: first.fileType, downloadURL: first.downloadURL, mimeType: first.mimeType },
+    ...(job.kind === 'scan'
+      ? { pages: uploaded.map(page => ({ fileName: page.fileName, downloadURL: page.downloadURL, mimeType: page.mimeType })) }
+      : {}),
+  };
+}
+
+async function runExtract(job: MaterialJob, signal: AbortSignal, onDetail: (detail: string) => void): Promise<StageResult> {
+  if (job.kind === 'text') return {};
+  if (job.kind === 'scan') {
+    const scanned = await extractScannedPages(job.pages!.map(page => page.downloadURL), job.userId, onDetail, signal);
+    if (scanned.text.replace(/\[Page \d+\]/g, '').trim().length < MIN_CONTENT_CHARS) {
+      throw new Error('Could not read enough text from the photos. Retake them in good light and try again.');
+    }
+    return storeMaterialText(job.userId, job.id, { text: scanned.text });
+  }
+
+  const { fileName, fileType, downloadURL } = job.upload!;
+  // After a reload the file is read back from storage
+  const file = files.get(job.id)?.[0] || await (await fetch(downloadURL, { signal })).blob();
+
+  let contentText: string;
+  let transcript: TranscriptSegment[] | undefined;
+  const result: StageResult = {};
+  if (fileType === 'image') {
+    onDetail('Extracting text from image...');
+    contentText = await extractTextFromImage(downloadURL, job.userId, signal);
+  } else if (fileType === 'audio') {
+    // Chunked, so long lectures work; every segment keeps its timestamp
+    const recording = await transcribeRecording(file, downloadURL, job.userId, onDetail, signal);
+    contentText = formatTranscript(recording.segments);
+    transcript = recording.segments;
+    result.durationSeconds = recording.durationSeconds;
+  } else if (fileType === 'pdf' || fileType === 'word') {
+    // Keeps page and heading markers; scanned PDF pages go through OCR
+    const extracted = await extractDocumentText(file, fileName, downloadURL, job.userId, onDetail, signal);
+    contentText = extracted.text;
+  } else {
+    contentText = await file.text();
+  }
+
+  if (!contentText || contentText.trim().length < MIN_CONTENT_CHARS) {
+    throw new Error('Could not extract enough text from the file. Please try pasting the text directly.');
+  }
+  return { ...result, ...(await storeMaterialText(job.userId, job.id, { text: contentText, transcript })) };
+}
+
+async function runSave(job: MaterialJob): Promise<StageResult> {
+  // A rebuilt material keeps its record as it is
+  if (job.kind === 'rebuild') return {};
+  const { transcript } = await materialContent(job);
+  const analysis = job.analysis!;
+  const upload = job.upload!;
+  // The material is stored under the upload's id, which citations and the journey refer to
+  const materialId = `${job.userId}_${job.id}`;
+  await saveStudyMaterial({
+    uploadId: materialId,
+    userId: job.userId,
+    type: upload.fileType,
+    title: analysis.title,
+    fileName: upload.fileName,
+    downloadURL: upload.downloadURL,
+    // The analyzed text, which citations in the journey point into
+    textPath: job.textPath,
+    textLength: job.textLength,
+    analysis,
+    topics: analysis.topics,
+    terms: analysis.keywords,
+    gradeLevel: analysis.difficulty,
+    isPublic: false,
+    source: 'upload',
+    tags: analysis.topics,
+    difficulty: analysis.difficulty,
+    subject: analysis.subject,
+    ...(transcript ? { durationSeconds: job.durationSeconds } : {}),
+    ...(job.pages ? { pageURLs: job.pages.map(page => page.downloadURL) } : {}),
+  });
+
+  // The tutor searches every material, so it needs to see this one
+  invalidateMaterialIndex(job.userId);
+  return { materialId };
+}
+
+async function runBuild(job: MaterialJob, signal: AbortSignal): Promise<StageResult> {
+  const content = await materialContent(job);
+  const journey = await buildStudyJourney(content.text, job.analysis!, job.userId, job.materialId!, recordingFor(job, content), signal);
+  const { analysis, recording, ...stored } = journey;
+  assertFitsInDocument(stored, 'The journey');
+  return { journey: toFirestoreData(stored), journeyId: journey.id };
+}
+
+async function runStage(
+  stage: MaterialJobStage,
+  job: MaterialJob,
+  signal: AbortSignal,
+  onDetail: (detail: string) => void
+): Promise<StageResult> {
+  switch (stage) {
+    case 'upload':
+      return runUpload(job, signal);
+    case 'extract':
+      return runExtract(job, signal, onDetail);
+    case 'analyze': {
+      const { text } = await materialContent(job);
+      const analysis = await analyzeContent(text, job.upload?.fileType || 'text', job.userId, signal);
+      assertFitsInDocument(analysis, 'The analysis of the material');
+      return { analysis };
+    }
+    case 'save':
+      return runSave(job);
+    case 'build':
+      return runBuild(job, signal);
+    case 'questions': {
+      const { text } = await materialContent(job);
+      await generateStudyQuestions(await journeyFor(job), text, job.userId, signal);
+      return {};
+    }
+    case 'scenes': {
+      const { text } = await materialContent(job);
+      await generateJourneyScenes(await journeyFor(job), text, job.userId, signal);
+      return {};
+    }
+  }
+}
+
+// ===== RUNNING =====
+
+/**
+ * Runs a job this session has claimed, from the stage it is at
+ */
+async function runJob(job: MaterialJob): Promise<void> {
+  const controller = new AbortController();
+  controllers.set(job.id, controller);
+
+  try {
+    for (let index = MATERIAL_JOB_STAGES.indexOf(job.stage); index < MATERIAL_JOB_STAGES.length; index++) {
+      const stage = MATERIAL_JOB_STAGES[index];
+      await checkOwnership(job, controller);
+      controller.signal.throwIfAborted();
+      job.stage = stage;
+      await updateJob(job, { stage, detail: STAGE_LABELS[stage] });
+      const result = await runStage(stage, job, controller.signal, detail => {
+        updateJob(job, { detail }).catch(error => console.warn('[Jobs] Could not save progress:', error));
+      });
+      Object.assign(job, result);
+      // Stored with the next stage, so a resumed job skips the work just done
+      const next = MATERIAL_JOB_STAGES[index + 1];
+      await updateJob(job, { ...result, stage: next || stage });
+    }
+    // A cancel made elsewhere while the last stage ran wins over finishing
+    await finishJob(job, { status: 'done', detail: 'Complete!' });
+    files.delete(job.id);
+  } catch (error: any) {
+    if (isCancellation(error, controller.signal)) {
+      await finishJob(job, { status: 'cancelled', detail: deleteField() });
+      files.delete(job.id);
+    } else {
+      console.error(`[Jobs] ${job.fileName} failed at ${job.stage}:`, error);
+      await finishJob(job, { status: 'failed', error: error?.message || 'Something went wrong' });
+    }
+  } finally {
+    controllers.delete(job.id);
+    releaseLease(job.id);
+  }
+}
+
+/**
+ * Looks at the queue again once the earliest lease held by another session
+ * lapses, in case that session is gone
+ */
+function retryQueueAfter(userId: string, leaseUntil: number): void {
+  if (queueRetries.has(userId)) return;
+  queueRetries.set(userId, setTimeout(() => {
+    queueRetries.delete(userId);
+    processQueue(userId);
+  }, Math.max(0, leaseUntil - Date.now()) + 1000));
+}
+
+/**
+ * Runs the user's jobs that no live session holds one after another, oldest
+ * first, including running jobs whose session is gone
+ */
+async function processQueue(userId: string): Promise<void> {
+  if (activeWorkers.has(userId)) return;
+  activeWorkers.add(userId);
+  try {
+    for (;;) {
+      const snapshot = await getDocs(query(jobsCollection(userId), where('status', 'in', ['queued', 'running'])));
+      const now = Date.now();
+      const pending = snapshot.docs
+        .map(jobDoc => ({ ...jobDoc.data({ serverTimestamps: 'estimate' }), id: jobDoc.id }) as MaterialJob)
+        .filter(job => !controllers.has(job.id))
+        .sort((a, b) => (a.createdAt?.toMillis?.() ?? 0) - (b.createdAt?.toMillis?.() ?? 0));
+
+      let claimed: MaterialJob | null = null;
+      for (const job of pending.filter(job => canClaim(job, now))) {
+        claimed = await claimJob(userId, job.id);
+        if (claimed) break;
+      }
+      if (!claimed) {
+        const heldElsewhere = pending.filter(job => job.owner && job.owner !== SESSION_ID);
+        if (heldElsewhere.length) retryQueueAfter(userId, Math.min(...heldElsewhere.map(job => job.leaseUntil ?? 0)));
+        break;
+      }
+      await runJob(claimed);
+    }
+  } catch (error) {
+    console.error('[Jobs] Could not read the job queue:', error);
+  } finally {
+    activeWorkers.delete(userId);
+  }
+}
+
+// ===== PUBLIC API =====
+
+async function createJob(
+  userId: string,
+  fields: Pick<MaterialJob, 'kind' | 'fileName'> & Partial<MaterialJob>,
+  selected?: File[],
+  content?: MaterialText
+): Promise<string> {
+  const newJobRef = doc(jobsCollection(userId));
+  // Pasted text is stored like extracted text, outside the job document
+  const stored = content ? await storeMaterialText(userId, newJobRef.id, content) : {};
+  if (selected) {
+    // Only this session has the files, so no other may start the upload
+    files.set(newJobRef.id, selected);
+    holdLease(userId, newJobRef.id);
+  }
+  await setDoc(newJobRef, {
+    userId,
+    status: 'queued',
+    stage: MATERIAL_JOB_STAGES[0],
+    ...fields,
+    ...stored,
+    ...(selected ? newLease() : {}),
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+  processQueue(userId);
+  return newJobRef.id;
+}
+
+/**
+ * Queues an uploaded file to become a study journey. Returns the job id.
+ */
+export async function enqueueFileJob(userId: string, file: File): Promise<string> {
+  const validation = validateFile(file);
+  if (!validation.valid) throw new Error(validation.error || 'Invalid file');
+  return createJob(userId, { kind: 'file', fileName: file.name }, [file]);
+}
+
+/**
+ * Queues the photos of a scan session, in page order, to become one study
+ * material and journey. Returns the job id.
+ */
+export async function enqueueScanJob(userId: string, pages: File[]): Promise<string> {
+  if (pages.length === 0) throw new Error('Add at least one page to the scan.');
+  if (pages.length > MAX_SCAN_PAGES) throw new Error(`A scan can have at most ${MAX_SCAN_PAGES} pages.`);
+  pages.forEach(page => {
+    const validation = validateFile(page);
+    if (!validation.valid) throw new Error(`${page.name}: ${validation.error || 'Invalid file'}`);
+    if (!page.type.startsWith('image/')) throw new Error(`${page.name} is not a photo.`);
+  });
+  const fileName = `Scan of ${pages.length} page${pages.length > 1 ? 's' : ''}`;
+  return createJob(userId, { kind: 'scan', fileName }, pages);
+}
+
+/**
+ * Queues pasted text to become a study journey. Returns the job id.
+ */
+export async function enqueueTextJob(userId: string, text: string): Promise<string> {
+  if (text.trim().length < MIN_CONTENT_CHARS) throw new Error('Please enter some more text');
+  return createJob(userId, { kind: 'text', fileName: 'Pasted text' }, undefined, { text });
+}
+
+/**
+ * Queues a fresh journey for a saved material, built as after its upload.
+ * Returns the job id.
+ */
+export async function enqueueRebuildJob(userId: string, material: StudyMaterial): Promise<string> {
+  if (!hasMaterialText(material)) throw new Error('The material has no stored text.');
+  const fields: Pick<MaterialJob, 'kind' | 'fileName'> & Partial<MaterialJob> = {
+    kind: 'rebuild',
+    fileName: `Rebuild: ${materialTitle(material)}`,
+    // From the analysis when the material has none yet
+    stage: material.analysis ? 'build' : 'analyze',
+    materialId: material.uploadId,
+    upload: { fileName: material.fileName || material.title, fileType: material.type, downloadURL: material.downloadURL || '' },
+    ...(material.analysis ? { analysis: material.analysis } : {}),
+    ...(material.textPath ? { textPath: material.textPath, textLength: material.textLength } : {}),
+  };
+  // Materials saved with their text inline get it stored for the job
+  return createJob(userId, fields, undefined, material.textPath ? undefined : await getMaterialText(material));
+}
+
+/**
+ * Stops a job. A running stage is aborted; its finished stages are kept. A job
+ * running in another tab or device stops at its next check (see renewLeases).
+ */
+export async function cancelMaterialJob(userId: string, jobId: string): Promise<void> {
+  const controller = controllers.get(jobId);
+  if (controller) {
+    controller.abort();
+    return;
+  }
+  files.delete(jobId);
+  releaseLease(jobId);
+  await updateDoc(jobRef(userId, jobId), { status: 'cancelled', updatedAt: serverTimestamp() });
+}
+
+/**
+ * Queues a failed or cancelled job again, from the stage it stopped at. A job
+ * that stopped while uploading needs its files again, a scan's in page order.
+ */
+export async function retryMaterialJob(userId: string, jobId: string, selected?: File[]): Promise<void> {
+  selected?.forEach(file => {
+    const validation = validateFile(file);
+    if (!validation.valid) throw new Error(`${file.name}: ${validation.error || 'Invalid file'}`);
+  });
+  if (selected?.length) files.set(jobId, selected);
+  const holdsFiles = files.has(jobId);
+  if (holdsFiles) holdLease(userId, jobId);
+  await updateDoc(jobRef(userId, jobId), {
+    status: 'queued',
+    error: deleteField(),
+    ...(holdsFiles ? newLease() : { owner: deleteField(), leaseUntil: deleteField() }),
+    updatedAt: serverTimestamp(),
+  });
+  processQueue(userId);
+}
+
+/**
+ * Removes a finished, failed or cancelled job from the list
+ */
+export async function dismissMaterialJob(userId: string, jobId: string): Promise<void> {
+  if (controllers.has(jobId)) throw new Error('A running job cannot be dismissed. Cancel it first.');
+  files.delete(jobId);
+  releaseLease(jobId);
+  await deleteDoc(jobRef(userId, jobId));
+}
+
+export const pauseMaterialJobUpload = (jobId: string) => uploads.get(jobId)?.pause();
+export const resumeMaterialJobUpload = (jobId: string) => uploads.get(jobId)?.resume();
+
+/**
+ * Picks up the jobs a previous session left queued or running, once their
+ * lease has lapsed. Jobs live in another open tab are left to it. Runs once
+ * per user per session.
+ */
+export async function resumeMaterialJobs(userId: string): Promise<void> {
+  if (resumedUsers.has(userId)) return;
+  resumedUsers.add(userId);
+  await processQueue(userId);
+}
+
+/**
+ * Live list of a user's recent jobs, newest first, with upload progress.
+ * Returns an unsubscribe function.
+ */
+export function subscribeToMaterialJobs(userId: string, listener: (jobs: MaterialJob[]) => void): () => void {
+  let latest: MaterialJob[] = [];
+  const emit = () => listener(latest.map(job => {
+    const progress = uploadProgress.get(job.id);
+    return progress ? { ...job, uploadProgress: progress } : job;
+  }));
+
+  const unsubscribe = onSnapshot(
+    query(jobsCollection(userId), orderBy('createdAt', 'desc'), limit(MAX_LISTED_JOBS)),
+    snapshot => {
+      latest = snapshot.docs.map(jobDoc => ({ ...jobDoc.data({ serverTimestamps: 'estimate' }), id: jobDoc.id }) as MaterialJob);
+      emit();
+    },
+    error => console.error('[Jobs] Could not watch jobs:', error)
+  );
+  progressListeners.add(emit);
+
+  return () => {
+    unsubscribe();
+    progressListeners.delete(emit);
+  };
+}
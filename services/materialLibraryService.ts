@@ -0,0 +1,266 @@
+// services/materialLibraryService.ts
+
+import { db } from './firebase';
+import {
+  collection,
+  doc,
+  addDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  startAfter,
+  serverTimestamp,
+  updateDoc,
+  deleteDoc,
+  writeBatch,
+  QueryConstraint,
+  QueryDocumentSnapshot,
+} from 'firebase/firestore';
+import { MaterialFolder, StudyMaterial } from '../types';
+import { getStudyMaterial } from './contentMemoryService';
+import { deleteUploadedFile } from './fileUploadService';
+import { invalidateMaterialIndex, searchMaterials } from './materialIndexService';
+import { uniqueStrings } from './contentAnalyzerService';
+import { enqueueRebuildJob } from './materialJobService';
+
+/**
+ * The student's material library: folders, their own tags, filtered and
+ * paginated listing, search, and bulk actions over uploaded study materials
+ *
+ * Listing filters run in the Firestore query where Firestore allows it, on
+ * the composite indexes in firestore.indexes.json (one per filter, which
+ * Firestore merges for combined filters). Firestore takes one array-contains
+ * per query and cannot match a missing field, so a topic filter next to a tag
+ * filter, and the unfiled folder, are checked on each batch read instead, and
+ * reading goes on until the page is full. Search goes through the local
+ * passage index over the materials' text.
+ */
+
+export const LIBRARY_PAGE_SIZE = 20;
+// Passages searched for library results; several can come from one material
+const SEARCH_PASSAGES = 40;
+const BATCH_SIZE = 500;
+
+export interface MaterialFilter {
+  folderId?: string | null; // null: materials in no folder
+  subject?: string;
+  difficulty?: 'beginner' | 'intermediate' | 'advanced';
+  topic?: string; // One of the AI `tags`
+  tag?: string; // One of the student's `userTags`
+  from?: Date;
+  to?: Date;
+}
+
+export type MaterialCursor = QueryDocumentSnapshot;
+
+export interface MaterialPage {
+  materials: StudyMaterial[];
+  cursor: MaterialCursor | null; // Pass back for the next page
+  hasMore: boolean;
+}
+
+export interface LibrarySearchResult {
+  material: StudyMaterial;
+  snippet: string; // The best matching passage
+  score: number;
+}
+
+export interface RebuildResult {
+  jobIds: string[];
+  failedMaterialIds: string[];
+}
+
+const materialsCollection = (userId: string) => collection(db, `users/${userId}/materials`);
+const foldersCollection = (userId: string) => collection(db, `users/${userId}/folders`);
+
+const toMaterial = (snapshot: QueryDocumentSnapshot): StudyMaterial => ({
+  uploadId: snapshot.id,
+  ...snapshot.data(),
+  createdAt: snapshot.data().createdAt?.toDate() || new Date(),
+} as StudyMaterial);
+
+/**
+ * Whether a material passes every part of a filter
+ */
+export function matchesFilter(material: StudyMaterial, filter: MaterialFilter): boolean {
+  if (filter.folderId !== undefined && (material.folderId || null) !== filter.folderId) return false;
+  if (filter.subject && material.subject !== filter.subject) return false;
+  if (filter.difficulty && material.difficulty !== filter.difficulty) return false;
+  if (filter.topic && !(material.tags || []).includes(filter.topic)) return false;
+  if (filter.tag && !(material.userTags || []).includes(filter.tag)) return false;
+  const createdAt = material.createdAt instanceof Date ? material.createdAt : new Date(material.createdAt);
+  if (filter.from && createdAt < filter.from) return false;
+  if (filter.to && createdAt > filter.to) return false;
+  return true;
+}
+
+async function inBatches<T>(items: T[], apply: (batch: ReturnType<typeof writeBatch>, item: T) => void): Promise<void> {
+  for (let i = 0; i < items.length; i += BATCH_SIZE) {
+    const batch = writeBatch(db);
+    items.slice(i, i + BATCH_SIZE).forEach(item => apply(batch, item));
+    await batch.commit();
+  }
+}
+
+// ===== FOLDERS =====
+
+export async function getMaterialFolders(userId: string): Promise<MaterialFolder[]> {
+  const snapshot = await getDocs(foldersCollection(userId));
+  return snapshot.docs
+    .map(folder => ({
+      id: folder.id,
+      ...folder.data(),
+      createdAt: folder.data().createdAt?.toDate() || new Date(),
+    }) as MaterialFolder)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function createMaterialFolder(userId: string, name: string): Promise<MaterialFolder> {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error('A folder needs a name.');
+  const folderRef = await addDoc(foldersCollection(userId), { userId, name: trimmed, createdAt: serverTimestamp() });
+  return { id: folderRef.id, userId, name: trimmed, createdAt: new Date() };
+}
+
+export async function renameMaterialFolder(userId: string, folderId: string, name: string): Promise<void> {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error('A folder needs a name.');
+  await updateDoc(doc(foldersCollection(userId), folderId), { name: trimmed });
+}
+
+/**
+ * Deletes a folder. Its materials are kept, in no folder.
+ */
+export async function deleteMaterialFolder(userId: string, folderId: string): Promise<void> {
+  const snapshot = await getDocs(query(materialsCollection(userId), where('folderId', '==', folderId)));
+  await inBatches(snapshot.docs, (batch, material) => batch.update(material.ref, { folderId: null }));
+  await deleteDoc(doc(foldersCollection(userId), folderId));
+}
+
+// ===== LISTING =====
+
+/**
+ * One page of a user's materials, newest first
+ */
+export async function getMaterialsPage(
+  userId: string,
+  filter: MaterialFilter = {},
+  cursor: MaterialCursor | null = null,
+  pageSize: number = LIBRARY_PAGE_SIZE
+): Promise<MaterialPage> {
+  const constraints: QueryConstraint[] = [];
+  if (filter.folderId) constraints.push(where('folderId', '==', filter.folderId));
+  if (filter.subject) constraints.push(where('subject', '==', filter.subject));
+  if (filter.difficulty) constraints.push(where('difficulty', '==', filter.difficulty));
+  if (filter.tag) {
+    constraints.push(where('userTags', 'array-contains', filter.tag));
+  } else if (filter.topic) {
+    constraints.push(where('tags', 'array-contains', filter.topic));
+  }
+  if (filter.from) constraints.push(where('createdAt', '>=', filter.from));
+  if (filter.to) constraints.push(where('createdAt', '<=', filter.to));
+  constraints.push(orderBy('createdAt', 'desc'));
+
+  // Filters checked here can drop materials, so batches are read until the page is full
+  const materials: StudyMaterial[] = [];
+  let last = cursor;
+  for (;;) {
+    const batchConstraints = last ? [...constraints, startAfter(last), limit(pageSize)] : [...constraints, limit(pageSize)];
+    const snapshot = await getDocs(query(materialsCollection(userId), ...batchConstraints));
+    for (const [index, materialDoc] of snapshot.docs.entries()) {
+      last = materialDoc;
+      const material = toMaterial(materialDoc);
+      if (matchesFilter(material, filter)) materials.push(material);
+      if (materials.length === pageSize) {
+        // The page can end inside a batch; the rest comes with the next page
+        return { materials, cursor: last, hasMore: index < snapshot.docs.length - 1 || snapshot.docs.length === pageSize };
+      }
+    }
+    if (snapshot.docs.length < pageSize) return { materials, cursor: last, hasMore: false };
+  }
+}
+
+/**
+ * Full-text search over the materials' text, best match first, one result per material
+ */
+export async function searchLibrary(
+  userId: string,
+  text: string,
+  filter: MaterialFilter = {}
+): Promise<LibrarySearchResult[]> {
+  const passages = await searchMaterials(userId, text, { limit: SEARCH_PASSAGES });
+  // Passages come best first, so the first one of each material is its best
+  const best = passages.filter((passage, index) =>
+    passages.findIndex(other => other.citation.materialId === passage.citation.materialId) === index
+  );
+
+  const materials = await Promise.all(best.map(passage => getStudyMaterial(userId, passage.citation.materialId)));
+  return best
+    .map((passage, index) => ({ material: materials[index], snippet: passage.citation.quote, score: passage.score }))
+    .filter((result): result is LibrarySearchResult => !!result.material && matchesFilter(result.material, filter));
+}
+
+// ===== TAGS =====
+
+/**
+ * Replaces a material's own tags. Tags are trimmed and kept once regardless of case.
+ */
+export async function setMaterialTags(userId: string, materialId: string, tags: string[]): Promise<string[]> {
+  const userTags = uniqueStrings(tags.map(tag => tag.trim()).filter(Boolean));
+  await updateDoc(doc(materialsCollection(userId), materialId), { userTags });
+  return userTags;
+}
+
+// ===== BULK ACTIONS =====
+
+export async function moveMaterials(userId: string, materialIds: string[], folderId: string | null): Promise<void> {
+  await inBatches(materialIds, (batch, materialId) =>
+    batch.update(doc(materialsCollection(userId), materialId), { folderId })
+  );
+}
+
+/**
+ * Deletes materials and their uploaded files
+ */
+export async function deleteMaterials(userId: string, materials: StudyMaterial[]): Promise<void> {
+  await inBatches(materials, (batch, material) => batch.delete(doc(materialsCollection(userId), material.uploadId)));
+
+  // The records are gone either way; a file left behind only takes up storage
+  // A scan has a file for every page, and the text is a file of its own
+  const fileURLs = materials
+    .flatMap(material => [material.downloadURL, ...(material.pageURLs || []), material.textPath])
+    .filter(Boolean);
+  await Promise.all(fileURLs.map(async downloadURL => {
+    try {
+      await deleteUploadedFile(downloadURL);
+    } catch (error) {
+      console.warn('[Library] Could not delete the uploaded file:', error);
+    }
+  }));
+
+  // The tutor must stop citing deleted materials
+  invalidateMaterialIndex(userId);
+}
+
+/**
+ * Queues a fresh journey for each material, built and saved in the
+ * background like after its upload (see enqueueRebuildJob). A material that
+ * cannot be queued is reported and the others still are.
+ */
+export async function rebuildJourneys(userId: string, materials: StudyMaterial[]): Promise<RebuildResult> {
+  const result: RebuildResult = { jobIds: [], failedMaterialIds: [] };
+
+  for (const material of materials) {
+    try {
+      // Materials saved before their text was stored cannot be rebuilt
+      result.jobIds.push(await enqueueRebuildJob(userId, material));
+    } catch (error) {
+      console.error(`[Library] Could not rebuild the journey for ${material.uploadId}:`, error);
+      result.failedMaterialIds.push(material.uploadId);
+    }
+  }
+
+  return result;
+}
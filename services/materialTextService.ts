@@ -0,0 +1,90 @@
+// services/materialTextService.ts
+
+import { storage } from './firebase';
+import { ref, uploadString, getBytes } from 'firebase/storage';
+import { StudyMaterial, TranscriptSegment } from '../types';
+
+/**
+ * Material text: the full text of a study material, kept in Storage
+ *
+ * Firestore documents are capped at 1 MiB, which the text of a long PDF or
+ * the transcript of a lecture can exceed. A material's analyzed text and its
+ * transcript are therefore one JSON file in Storage, and the material and
+ * job documents only keep its path (`textPath`) and the text's length.
+ * Materials saved before that still carry their text in `rawText`.
+ *
+ * Text over MAX_MATERIAL_TEXT_CHARS is refused, and assertFitsInDocument
+ * guards the other large values (analyses, journeys) written to documents.
+ */
+
+export const MAX_MATERIAL_TEXT_CHARS = 2_000_000;
+// Firestore's 1 MiB document limit, less room for the other fields
+const MAX_DOCUMENT_BYTES = 900 * 1024;
+
+export interface MaterialText {
+  text: string;
+  transcript?: TranscriptSegment[];
+}
+
+// Texts read or written this session, by storage path; they never change once stored
+const texts = new Map<string, Promise<MaterialText>>();
+
+const materialTextPath = (userId: string, id: string) => `users/${userId}/texts/${id}.json`;
+
+/**
+ * Stores a material's text under an id of the caller's choosing. Returns
+ * what the document should keep.
+ */
+export async function storeMaterialText(
+  userId: string,
+  id: string,
+  content: MaterialText
+): Promise<{ textPath: string; textLength: number }> {
+  if (content.text.length > MAX_MATERIAL_TEXT_CHARS) {
+    throw new Error(`The material is too long (${content.text.length.toLocaleString()} characters). Split it into parts of up to ${MAX_MATERIAL_TEXT_CHARS.toLocaleString()} characters.`);
+  }
+  const textPath = materialTextPath(userId, id);
+  await uploadString(ref(storage, textPath), JSON.stringify(content), 'raw', { contentType: 'application/json' });
+  texts.set(textPath, Promise.resolve(content));
+  return { textPath, textLength: content.text.length };
+}
+
+/**
+ * Reads text stored with storeMaterialText
+ */
+export function loadMaterialText(textPath: string): Promise<MaterialText> {
+  if (!texts.has(textPath)) {
+    const request = getBytes(ref(storage, textPath))
+      .then(bytes => JSON.parse(new TextDecoder().decode(bytes)) as MaterialText);
+    // A failed read is tried again next time
+    request.catch(() => texts.delete(textPath));
+    texts.set(textPath, request);
+  }
+  return texts.get(textPath)!;
+}
+
+/**
+ * A material's text and transcript, from Storage or, for older materials,
+ * from the document itself
+ */
+export async function getMaterialText(material: StudyMaterial): Promise<MaterialText> {
+  if (material.textPath) return loadMaterialText(material.textPath);
+  return { text: material.rawText || '', transcript: material.transcript };
+}
+
+/**
+ * Whether the material's text was kept. Materials saved before it was have
+ * none, and cannot be searched, cited or combined.
+ */
+export const hasMaterialText = (material: StudyMaterial): boolean =>
+  Boolean(material.textPath || material.rawText?.trim());
+
+/**
+ * Throws if the value would not fit in a Firestore document
+ */
+export function assertFitsInDocument(value: unknown, label: string): void {
+  const bytes = new TextEncoder().encode(JSON.stringify(value)).length;
+  if (bytes > MAX_DOCUMENT_BYTES) {
+    throw new Error(`${label} is too large to save (${Math.round(bytes / 1024)} KB).`);
+  }
+}
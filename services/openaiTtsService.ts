@@ -1,7 +1,8 @@
 // services/openaiTtsService.ts
 
 import { getOrGenerate } from './cacheService';
-import { GoogleGenAI } from '@google/genai';
+import { aiGovernor, TTS_MODEL } from './aiGovernor';
+import { generateText } from './aiService';
 
 /**
  * OpenAI Text-to-Speech Service
@@ -57,12 +58,15 @@ export async function generateOpenAITTS(
     topic: 'openai-tts',
     prompt: text,
     userId: userId,
+    model: ttsConfig.model,
+    keyParts: { voice: ttsConfig.voice, speed: ttsConfig.speed },
     mediaOptions: {
       path: `tts/openai/${text.replace(/[^a-zA-Z0-9]/g, '_').slice(0, 30)}_${Date.now()}.mp3`,
       dataType: 'base64',
       mimeType: 'audio/mpeg',
     },
-    generatorFn: async () => {
+    // Only new audio goes through the governor; cache hits skip its queue
+    generatorFn: () => aiGovernor.run({ model: TTS_MODEL, task: 'tts.speak' }, async () => {
       try {
         const response = await fetch('https://api.openai.com/v1/audio/speech', {
           method: 'POST',
@@ -117,7 +121,7 @@ export async function generateOpenAITTS(
         // Don't throw - return empty string to allow fallback
         return '';
       }
-    },
+    }),
   });
 }
 
@@ -156,16 +160,13 @@ export async function generateAndSpeak(
       const geminiApiKey = process.env.API_KEY || process.env.GEMINI_API_KEY;
       if (geminiApiKey) {
         try {
-          const gemini = new GoogleGenAI({ apiKey: geminiApiKey });
-          const model = gemini.getGenerativeModel({ model: geminiModel });
-          
           const prompt = `Rewrite the following text to be natural and suitable for speech narration. Keep it concise and engaging. Do not add any explanations, just return the improved text:\n\n${textPrompt}`;
           
-          const result = await model.generateContent({
-            contents: [{ role: 'user', parts: [{ text: prompt }] }],
+          const refinedText = await generateText({
+            task: 'tts.refine',
+            model: geminiModel,
+            contents: prompt,
           });
-
-          const refinedText = result.response.text();
           if (refinedText && refinedText.trim().length > 0) {
             finalText = refinedText.trim();
             console.log('🧠 Gemini refined text:', finalText);
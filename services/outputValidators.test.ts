@@ -0,0 +1,145 @@
+// services/outputValidators.test.ts
+
+import { describe, expect, it } from 'vitest';
+import { QuestionType } from '../types';
+import { FixtureProvider } from './fixtureProvider';
+import {
+  Validator,
+  arrayOf,
+  parseModelJson,
+  validateAssignmentOutline,
+  validateAssignmentSuggestions,
+  validateContentAnalysis,
+  validateEssayFeedback,
+  validateEssayOutline,
+  validateEssayStoryMode,
+  validateEssaySuggestions,
+  validateFlashcards,
+  validateHintResponse,
+  validateJourneyStructure,
+  validateOutcome,
+  validateQuestion,
+  validateQuestions,
+  validateScene,
+  validateShortAnswerEvaluation,
+  validateThesisOptions,
+  validateTodayHistoryEvents,
+  validateTranscriptSegments,
+} from './outputValidators';
+
+// Each fixture provider task with the validator its generator uses
+const FIXTURE_VALIDATORS: [string, Validator<unknown>][] = [
+  ['journey.scene', validateScene],
+  ['journey.outcome', validateOutcome],
+  ['journey.questions', validateQuestions],
+  ['journey.structure', validateJourneyStructure],
+  ['answer.evaluate', validateShortAnswerEvaluation],
+  ['content.analyze', validateContentAnalysis],
+  ['content.transcribe', validateTranscriptSegments],
+  ['flashcards.generate', validateFlashcards],
+  ['task.hint', validateHintResponse],
+  ['today.events', validateTodayHistoryEvents],
+  ['essay.outline', validateEssayOutline],
+  ['essay.suggestions', validateEssaySuggestions],
+  ['essay.storyMode', validateEssayStoryMode],
+  ['essay.feedback', validateEssayFeedback],
+  ['assignment.outline', validateAssignmentOutline],
+  ['assignment.suggestions', validateAssignmentSuggestions],
+  ['assignment.thesis', validateThesisOptions],
+];
+
+const MULTIPLE_CHOICE = {
+  type: QuestionType.MULTIPLE_CHOICE,
+  questionText: 'In which year did the storming of the Bastille take place?',
+  explanation: '',
+  options: ['1789', '1776', '1804'],
+  correctAnswer: '1789',
+};
+
+describe('parseModelJson', () => {
+  it('reads JSON inside code fences and surrounding prose', () => {
+    expect(parseModelJson('```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+    expect(parseModelJson('Here it is: [1, 2] Hope that helps!')).toEqual([1, 2]);
+  });
+
+  it('tolerates trailing commas', () => {
+    expect(parseModelJson('{"a": [1, 2,], "b": 3,}')).toEqual({ a: [1, 2], b: 3 });
+  });
+
+  it('returns undefined when there is no JSON', () => {
+    expect(parseModelJson('')).toBeUndefined();
+    expect(parseModelJson('Sorry, I cannot help with that.')).toBeUndefined();
+  });
+});
+
+describe('fixture provider output', () => {
+  const provider = new FixtureProvider();
+
+  it.each(FIXTURE_VALIDATORS)('%s passes its validator', async (task, validator) => {
+    const { text } = await provider.generateContent({ task, contents: 'The French Revolution', responseMimeType: 'application/json' });
+    const result = validator(parseModelJson(text));
+    expect(result.errors).toEqual([]);
+    expect(result.ok).toBe(true);
+  });
+});
+
+describe('validateQuestion', () => {
+  it('accepts a well-formed question unchanged', () => {
+    expect(validateQuestion(MULTIPLE_CHOICE)).toEqual({ ok: true, value: MULTIPLE_CHOICE, repaired: false, errors: [] });
+  });
+
+  it('repairs type aliases and a correct answer given as an option index', () => {
+    const result = validateQuestion({ ...MULTIPLE_CHOICE, type: 'mcq', correctAnswer: 0 });
+    expect(result).toMatchObject({ ok: true, repaired: true, value: { type: QuestionType.MULTIPLE_CHOICE, correctAnswer: '1789' } });
+  });
+
+  it('repairs true/false answers given as strings', () => {
+    const result = validateQuestion({ type: 'TRUE_FALSE', questionText: 'Louis XVI was king in 1789.', correctAnswer: 'True' });
+    expect(result).toMatchObject({ ok: true, repaired: true, value: { correctAnswer: true } });
+  });
+
+  it('rejects a correct answer that is not one of the options', () => {
+    const result = validateQuestion({ ...MULTIPLE_CHOICE, correctAnswer: '1815' });
+    expect(result.ok).toBe(false);
+    expect(result.errors).toContain('question.correctAnswer must be one of the options');
+  });
+
+  it('rejects unknown question types', () => {
+    expect(validateQuestion({ ...MULTIPLE_CHOICE, type: 'ESSAY' }).ok).toBe(false);
+  });
+
+  it('rejects matching questions that leave a prompt unmatched', () => {
+    const result = validateQuestion({
+      type: QuestionType.MATCHING,
+      questionText: 'Match each person to their role.',
+      prompts: [{ id: 'p1', text: 'Louis XVI' }, { id: 'p2', text: 'Robespierre' }],
+      answers: [{ id: 'a1', text: 'King of France' }, { id: 'a2', text: 'Jacobin leader' }],
+      correctPairs: [{ promptId: 'p1', answerId: 'a1' }],
+    });
+    expect(result.ok).toBe(false);
+  });
+});
+
+describe('validateJourneyStructure', () => {
+  it('keeps the scene count between 3 and 8', () => {
+    expect(validateJourneyStructure({ sceneCount: 12, structure: '' })).toMatchObject({ ok: true, repaired: true, value: { sceneCount: 8 } });
+    expect(validateJourneyStructure({ sceneCount: 1 }).value?.sceneCount).toBe(3);
+  });
+});
+
+describe('arrayOf', () => {
+  it('drops invalid items and marks the result repaired', () => {
+    const result = validateQuestions([MULTIPLE_CHOICE, { type: 'ESSAY' }]);
+    expect(result).toMatchObject({ ok: true, repaired: true, value: [MULTIPLE_CHOICE] });
+  });
+
+  it('wraps a single object in an array', () => {
+    expect(validateQuestions(MULTIPLE_CHOICE)).toMatchObject({ ok: true, repaired: true, value: [MULTIPLE_CHOICE] });
+  });
+
+  it('fails when no item is valid', () => {
+    const validateScenes = arrayOf(validateScene, 'Scenes');
+    expect(validateScenes([{ scenario: '' }]).ok).toBe(false);
+    expect(validateScenes('not an array').errors).toEqual(['Scenes must be a JSON array']);
+  });
+});
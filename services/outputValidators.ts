@@ -0,0 +1,827 @@
+// services/outputValidators.ts
+
+import {
+  AccuracyReport,
+  ClaimCheck,
+  ClaimVerdict,
+  ContentAnalysis,
+  FlashcardKind,
+  FlashcardQuestion,
+  Outcome,
+  Question,
+  QuestionType,
+  Resources,
+  Scene,
+  SectionAnalysis,
+  TodayHistoryEvent,
+  MatchingItem,
+  TranscriptSegment,
+} from '../types';
+import type { EssayOutline, EssayFeedback } from './essayAssistantService';
+import type { FactCheckResult } from './factCheckService';
+import type { SourceMerge } from './dynamicJourneyBuilder';
+
+/**
+ * Runtime validators for structured model output
+ *
+ * Each validator takes untrusted parsed JSON and either returns a well-formed
+ * value (repairing small problems like missing defaults or stringly-typed
+ * booleans along the way) or a list of errors that make the output unusable.
+ * A failed validation should lead to a re-request, never to a cast.
+ */
+
+export interface ValidationResult<T> {
+  ok: boolean;
+  value?: T; // Set when ok
+  repaired: boolean;
+  errors: string[]; // Empty when ok
+}
+
+export type Validator<T> = (value: unknown) => ValidationResult<T>;
+
+// ===== JSON PARSING =====
+
+/**
+ * Parses model output as JSON, tolerating code fences, surrounding prose and trailing commas.
+ * Returns undefined if nothing parseable is found.
+ */
+export function parseModelJson(text: string): unknown {
+  if (!text) return undefined;
+  const stripped = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  const attempts = [stripped];
+  const start = stripped.search(/[[{]/);
+  if (start >= 0) {
+    const closing = stripped[start] === '{' ? '}' : ']';
+    const end = stripped.lastIndexOf(closing);
+    if (end > start) attempts.push(stripped.slice(start, end + 1));
+  }
+
+  for (const candidate of attempts) {
+    for (const variant of [candidate, candidate.replace(/,\s*([}\]])/g, '$1')]) {
+      try {
+        return JSON.parse(variant);
+      } catch {
+        // Try the next variant
+      }
+    }
+  }
+  return undefined;
+}
+
+// ===== HELPERS =====
+
+/**
+ * Collects errors and repair flags while a validator walks an object
+ */
+class Checker {
+  errors: string[] = [];
+  repaired = false;
+
+  fail(message: string): void {
+    this.errors.push(message);
+  }
+
+  repair(): void {
+    this.repaired = true;
+  }
+
+  result<T>(value: T): ValidationResult<T> {
+    return this.errors.length > 0
+      ? { ok: false, repaired: this.repaired, errors: this.errors }
+      : { ok: true, value, repaired: this.repaired, errors: [] };
+  }
+
+  requiredString(obj: Record<string, any>, key: string, path: string): string {
+    const value = obj[key];
+    if (typeof value === 'string' && value.trim().length > 0) return value.trim();
+    if (typeof value === 'number') {
+      this.repair();
+      return String(value);
+    }
+    this.fail(`${path}.${key} must be a non-empty string`);
+    return '';
+  }
+
+  optionalString(obj: Record<string, any>, key: string, fallback: string): string {
+    const value = obj[key];
+    if (typeof value === 'string') return value.trim();
+    if (value !== undefined && value !== null) {
+      this.repair();
+      return String(value);
+    }
+    if (fallback !== '') this.repair();
+    return fallback;
+  }
+
+  stringArray(obj: Record<string, any>, key: string): string[] {
+    const value = obj[key];
+    if (value === undefined || value === null) {
+      this.repair();
+      return [];
+    }
+    if (typeof value === 'string') {
+      this.repair();
+      return value.split(',').map(s => s.trim()).filter(Boolean);
+    }
+    if (!Array.isArray(value)) {
+      this.repair();
+      return [];
+    }
+    const strings = value
+      .filter(item => typeof item === 'string' || typeof item === 'number')
+      .map(item => String(item).trim())
+      .filter(Boolean);
+    if (strings.length !== value.length) this.repair();
+    return strings;
+  }
+
+  number(obj: Record<string, any>, key: string, fallback: number): number {
+    const value = obj[key];
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+    const parsed = typeof value === 'string' ? parseFloat(value) : NaN;
+    this.repair();
+    return Number.isFinite(parsed) ? parsed : fallback;
+  }
+
+  oneOf<T extends string>(obj: Record<string, any>, key: string, allowed: readonly T[], fallback: T): T {
+    const value = typeof obj[key] === 'string' ? obj[key].trim().toLowerCase() : undefined;
+    const match = allowed.find(option => option.toLowerCase() === value);
+    if (match) return match;
+    this.repair();
+    return fallback;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function notAnObject<T>(what: string): ValidationResult<T> {
+  return { ok: false, repaired: false, errors: [`${what} must be a JSON object`] };
+}
+
+/**
+ * Validates every item of an array, dropping invalid items. Fails only if no item survives.
+ */
+export function arrayOf<T>(validator: Validator<T>, what: string): Validator<T[]> {
+  return (value: unknown) => {
+    const items = Array.isArray(value) ? value : isObject(value) ? [value] : null;
+    if (!items) return { ok: false, repaired: false, errors: [`${what} must be a JSON array`] };
+
+    const valid: T[] = [];
+    const errors: string[] = [];
+    let repaired = !Array.isArray(value);
+    items.forEach((item, index) => {
+      const result = validator(item);
+      if (result.ok) {
+        valid.push(result.value);
+        repaired = repaired || result.repaired;
+      } else {
+        errors.push(...result.errors.map(e => `[${index}] ${e}`));
+        repaired = true;
+      }
+    });
+
+    return valid.length > 0
+      ? { ok: true, value: valid, repaired, errors: [] }
+      : { ok: false, repaired, errors };
+  };
+}
+
+// ===== HISTORICAL ACCURACY =====
+
+const CLAIM_VERDICTS: readonly ClaimVerdict[] = ['supported', 'consistent', 'contradicted', 'uncertain'];
+const ACCURACY_CONFIDENCES: readonly AccuracyReport['confidence'][] = ['verified', 'likely', 'unverified', 'disputed'];
+const ACCURACY_REFERENCES: readonly AccuracyReport['checkedAgainst'][] = ['source', 'factSheet', 'general'];
+
+function claimList(c: Checker, raw: unknown): ClaimCheck[] {
+  if (raw === undefined || raw === null) {
+    c.repair();
+    return [];
+  }
+  const items = Array.isArray(raw) ? raw : [raw];
+  const claims = items.filter(isObject).map(item => {
+    const claim: ClaimCheck = {
+      claim: c.optionalString(item, 'claim', ''),
+      verdict: c.oneOf(item, 'verdict', CLAIM_VERDICTS, 'uncertain'),
+    };
+    if (typeof item.note === 'string' && item.note.trim()) claim.note = item.note.trim();
+    return claim;
+  }).filter(claim => claim.claim);
+  if (claims.length !== items.length) c.repair();
+  return claims;
+}
+
+/**
+ * Keeps the accuracy report stored on an already checked item (e.g. a cached
+ * outcome) under `key`. A malformed report is dropped rather than failing the item.
+ */
+function keepAccuracy(value: Record<string, any>, key: string): Record<string, AccuracyReport> {
+  const raw = value[key];
+  if (!isObject(raw) || !ACCURACY_CONFIDENCES.includes(raw.confidence) || !ACCURACY_REFERENCES.includes(raw.checkedAgainst)) {
+    return {};
+  }
+  const report: AccuracyReport = {
+    confidence: raw.confidence,
+    claims: claimList(new Checker(), raw.claims),
+    checkedAgainst: raw.checkedAgainst,
+  };
+  if (raw.corrected === true) report.corrected = true;
+  return { [key]: report };
+}
+
+export const validateFactCheckResult: Validator<FactCheckResult> = (value) => {
+  if (!isObject(value)) return notAnObject('FactCheckResult');
+  const c = new Checker();
+  const id = c.requiredString(value, 'id', 'result');
+  const claims = claimList(c, value.claims);
+  const correctedText = c.optionalString(value, 'correctedText', '');
+  return c.result<FactCheckResult>({ id, claims, ...(correctedText ? { correctedText } : {}) });
+};
+
+export const validateFactCheckResults = arrayOf(validateFactCheckResult, 'FactCheckResults');
+
+// ===== SCENE & OUTCOME =====
+
+export const validateScene: Validator<Scene> = (value) => {
+  if (!isObject(value)) return notAnObject('Scene');
+  const c = new Checker();
+  const scenario = c.requiredString(value, 'scenario', 'scene');
+
+  const rawChoices = Array.isArray(value.choices) ? value.choices : [];
+  const choices = rawChoices
+    .map((choice: unknown) => {
+      if (typeof choice === 'string') {
+        c.repair();
+        return { text: choice.trim() };
+      }
+      return isObject(choice) && typeof choice.text === 'string' ? { text: choice.text.trim() } : null;
+    })
+    .filter((choice): choice is { text: string } => !!choice && choice.text.length > 0);
+  if (choices.length !== rawChoices.length) c.repair();
+  if (choices.length === 0) c.fail('scene.choices must contain at least one choice');
+
+  return c.result<Scene>({ scenario, choices, ...keepAccuracy(value, 'accuracy') });
+};
+
+const RESOURCE_KEYS: (keyof Resources)[] = ['health', 'food', 'money', 'influence'];
+
+export const validateOutcome: Validator<Outcome> = (value) => {
+  if (!isObject(value)) return notAnObject('Outcome');
+  const c = new Checker();
+
+  const outcomeText = c.requiredString(value, 'outcomeText', 'outcome');
+  const mentorInsight = c.optionalString(value, 'mentorInsight', '');
+
+  const resourceChanges: Partial<Resources> = {};
+  const rawChanges = isObject(value.resourceChanges) ? value.resourceChanges : {};
+  if (!isObject(value.resourceChanges)) c.repair();
+  for (const key of RESOURCE_KEYS) {
+    if (rawChanges[key] === undefined) continue;
+    const delta = c.number(rawChanges, key, 0);
+    if (delta !== 0) resourceChanges[key] = delta;
+  }
+
+  const question = validateQuestion(value.question);
+  if (!question.ok) question.errors.forEach(e => c.fail(`outcome.question: ${e}`));
+  else if (question.repaired) c.repair();
+
+  const nextScene = validateScene(value.nextScene);
+  if (!nextScene.ok) nextScene.errors.forEach(e => c.fail(`outcome.nextScene: ${e}`));
+  else if (nextScene.repaired) c.repair();
+
+  let isGameOver = value.isGameOver;
+  if (typeof isGameOver !== 'boolean') {
+    c.repair();
+    isGameOver = String(isGameOver).toLowerCase() === 'true';
+  }
+
+  return c.result<Outcome>({
+    outcomeText,
+    mentorInsight,
+    ...keepAccuracy(value, 'mentorInsightAccuracy'),
+    resourceChanges,
+    question: question.ok ? question.value : (undefined as unknown as Question),
+    nextScene: nextScene.ok ? nextScene.value : { scenario: '', choices: [] },
+    isGameOver,
+    ...(isGameOver ? { gameOverReason: c.optionalString(value, 'gameOverReason', 'Your journey has come to an end.') } : {}),
+  });
+};
+
+// ===== QUESTIONS =====
+
+function normalizeQuestionType(raw: unknown): QuestionType | null {
+  if (typeof raw !== 'string') return null;
+  const key = raw.trim().toUpperCase().replace(/[\s/-]+/g, '_');
+  const aliases: Record<string, QuestionType> = {
+    MCQ: QuestionType.MULTIPLE_CHOICE,
+    TRUE_OR_FALSE: QuestionType.TRUE_FALSE,
+    SHORT_ANSWER: QuestionType.SHORT_EXPLANATION,
+    CAUSE_EFFECT: QuestionType.CAUSE_AND_EFFECT,
+    FILL_IN_BLANK: QuestionType.FILL_IN_THE_BLANK,
+  };
+  return (Object.values(QuestionType) as string[]).includes(key) ? key as QuestionType : aliases[key] || null;
+}
+
+const FLASHCARD_KINDS: FlashcardKind[] = ['term', 'date', 'person'];
+
+function matchOption(options: string[], answer: unknown): string | undefined {
+  if (typeof answer !== 'string' && typeof answer !== 'number') return undefined;
+  const normalized = String(answer).trim().toLowerCase();
+  return options.find(option => option.toLowerCase() === normalized);
+}
+
+function itemList(c: Checker, raw: unknown, prefix: string, path: string): MatchingItem[] {
+  if (!Array.isArray(raw)) {
+    c.fail(`${path} must be an array`);
+    return [];
+  }
+  return raw.map((item, index) => {
+    if (typeof item === 'string') {
+      c.repair();
+      return { id: `${prefix}${index + 1}`, text: item };
+    }
+    if (isObject(item) && typeof item.text === 'string') {
+      if (typeof item.id !== 'string' || !item.id) {
+        c.repair();
+        return { id: `${prefix}${index + 1}`, text: item.text };
+      }
+      return { id: item.id, text: item.text };
+    }
+    c.fail(`${path}[${index}] must have text`);
+    return { id: `${prefix}${index + 1}`, text: '' };
+  });
+}
+
+export const validateQuestion: Validator<Question> = (value) => {
+  if (!isObject(value)) return notAnObject('Question');
+  const c = new Checker();
+
+  const type = normalizeQuestionType(value.type);
+  if (!type) return { ok: false, repaired: false, errors: [`question.type "${value.type}" is not a supported QuestionType`] };
+  if (type !== value.type) c.repair();
+
+  const base = {
+    questionText: c.requiredString(value, 'questionText', 'question'),
+    explanation: c.optionalString(value, 'explanation', ''),
+    ...keepAccuracy(value, 'accuracy'),
+  };
+
+  switch (type) {
+    case QuestionType.MULTIPLE_CHOICE:
+    case QuestionType.CAUSE_AND_EFFECT:
+    case QuestionType.IMAGE_RECOGNITION: {
+      const options = c.stringArray(value, 'options');
+      if (options.length < 2) c.fail('question.options must contain at least two options');
+      let correctAnswer = matchOption(options, value.correctAnswer);
+      if (correctAnswer === undefined) {
+        // Some models return the index of the correct option
+        const index = typeof value.correctAnswer === 'number' ? value.correctAnswer : NaN;
+        correctAnswer = options[index];
+      }
+      if (correctAnswer === undefined) c.fail('question.correctAnswer must be one of the options');
+      else if (correctAnswer !== value.correctAnswer) c.repair();
+
+      if (type === QuestionType.IMAGE_RECOGNITION) {
+        return c.result<Question>({
+          type,
+          ...base,
+          options,
+          correctAnswer: correctAnswer || '',
+          imagePrompt: c.optionalString(value, 'imagePrompt', base.questionText),
+          imageUrl: c.optionalString(value, 'imageUrl', ''),
+        });
+      }
+      return c.result<Question>({ type, ...base, options, correctAnswer: correctAnswer || '' });
+    }
+
+    case QuestionType.TRUE_FALSE: {
+      let correctAnswer = value.correctAnswer;
+      if (typeof correctAnswer !== 'boolean') {
+        const text = String(correctAnswer).trim().toLowerCase();
+        if (text === 'true' || text === 'false') {
+          c.repair();
+          correctAnswer = text === 'true';
+        } else {
+          c.fail('question.correctAnswer must be true or false');
+        }
+      }
+      return c.result<Question>({ type, ...base, correctAnswer: correctAnswer === true });
+    }
+
+    case QuestionType.MATCHING: {
+      const prompts = itemList(c, value.prompts, 'p', 'question.prompts');
+      const answers = itemList(c, value.answers, 'a', 'question.answers');
+      const rawPairs = Array.isArray(value.correctPairs) ? value.correctPairs : [];
+      const correctPairs = rawPairs
+        .filter(isObject)
+        .map(pair => ({ promptId: String(pair.promptId), answerId: String(pair.answerId) }))
+        .filter(pair => prompts.some(p => p.id === pair.promptId) && answers.some(a => a.id === pair.answerId));
+      if (correctPairs.length !== rawPairs.length) c.repair();
+      if (prompts.length === 0 || correctPairs.length !== prompts.length) {
+        c.fail('question.correctPairs must match every prompt to an answer');
+      }
+      return c.result<Question>({ type, ...base, prompts, answers, correctPairs });
+    }
+
+    case QuestionType.ORDERING: {
+      const items = itemList(c, value.items, 'i', 'question.items');
+      const correctOrder = c.stringArray(value, 'correctOrder');
+      const ids = new Set(items.map(item => item.id));
+      if (items.length < 2) c.fail('question.items must contain at least two items');
+      if (correctOrder.length !== items.length || !correctOrder.every(id => ids.has(id))) {
+        c.fail('question.correctOrder must list every item id exactly once');
+      }
+      return c.result<Question>({ type, ...base, items, correctOrder });
+    }
+
+    case QuestionType.FILL_IN_THE_BLANK: {
+      const correctAnswer = c.requiredString(value, 'correctAnswer', 'question');
+      return c.result<Question>({ type, ...base, correctAnswer });
+    }
+
+    case QuestionType.SHORT_EXPLANATION: {
+      let keyConcepts = c.stringArray(value, 'keyConcepts');
+      if (keyConcepts.length === 0 && typeof value.correctAnswer === 'string' && value.correctAnswer.trim()) {
+        c.repair();
+        keyConcepts = [value.correctAnswer.trim()];
+      }
+      if (keyConcepts.length === 0) c.fail('question.keyConcepts must contain at least one concept');
+      return c.result<Question>({ type, ...base, keyConcepts });
+    }
+
+    case QuestionType.FLASHCARD: {
+      let kind = typeof value.kind === 'string' ? value.kind.trim().toLowerCase() : '';
+      if (!FLASHCARD_KINDS.includes(kind as FlashcardKind)) {
+        c.repair();
+        kind = 'term';
+      }
+      // Some models name the two sides front and back
+      const useBack = typeof value.answer !== 'string' && typeof value.back === 'string';
+      if (useBack) c.repair();
+      const imagePrompt = c.optionalString(value, 'imagePrompt', '');
+      return c.result<Question>({
+        type,
+        ...base,
+        kind: kind as FlashcardKind,
+        answer: c.requiredString(useBack ? { answer: value.back } : value, 'answer', 'question'),
+        ...(imagePrompt ? { imagePrompt } : {}),
+      });
+    }
+  }
+};
+
+export const validateQuestions = arrayOf(validateQuestion, 'Questions');
+
+export const validateFlashcard: Validator<FlashcardQuestion> = (value) => {
+  if (!isObject(value)) return notAnObject('Flashcard');
+  // Flashcards are asked for without a type
+  const result = validateQuestion({ ...value, type: QuestionType.FLASHCARD });
+  const wrongType = value.type !== undefined && value.type !== QuestionType.FLASHCARD;
+  return { ...result, repaired: result.repaired || wrongType } as ValidationResult<FlashcardQuestion>;
+};
+
+export const validateFlashcards = arrayOf(validateFlashcard, 'Flashcards');
+
+// ===== CONTENT ANALYSIS =====
+
+export const validateSectionAnalysis: Validator<SectionAnalysis> = (value) => {
+  if (!isObject(value)) return notAnObject('SectionAnalysis');
+  const c = new Checker();
+  const startOffset = c.number(value, 'startOffset', 0);
+  const endOffset = c.number(value, 'endOffset', startOffset);
+  if (endOffset < startOffset) c.fail('section.endOffset must not be before startOffset');
+
+  return c.result<SectionAnalysis>({
+    title: c.requiredString(value, 'title', 'section'),
+    topics: c.stringArray(value, 'topics'),
+    keywords: c.stringArray(value, 'keywords'),
+    mainPoints: c.stringArray(value, 'mainPoints'),
+    summary: c.optionalString(value, 'summary', ''),
+    startOffset,
+    endOffset,
+  });
+};
+
+const validateSectionAnalyses = arrayOf(validateSectionAnalysis, 'sections');
+
+export const validateContentAnalysis: Validator<ContentAnalysis> = (value) => {
+  if (!isObject(value)) return notAnObject('ContentAnalysis');
+  const c = new Checker();
+
+  // Only long material has sections; they come back from the cache too
+  const sections = value.sections === undefined ? null : validateSectionAnalyses(value.sections);
+  if (sections && (!sections.ok || sections.repaired)) c.repair();
+
+  return c.result<ContentAnalysis>({
+    title: c.optionalString(value, 'title', 'Untitled Content') || 'Untitled Content',
+    topics: c.stringArray(value, 'topics'),
+    keywords: c.stringArray(value, 'keywords'),
+    difficulty: c.oneOf(value, 'difficulty', ['beginner', 'intermediate', 'advanced'] as const, 'intermediate'),
+    subject: c.optionalString(value, 'subject', 'General') || 'General',
+    mainPoints: c.stringArray(value, 'mainPoints'),
+    intent: c.oneOf(value, 'intent', ['study', 'assignment', 'essay', 'presentation', 'review'] as const, 'study'),
+    estimatedTime: Math.max(1, Math.round(c.number(value, 'estimatedTime', 30))),
+    suggestedJourneyType: c.oneOf(value, 'suggestedJourneyType', ['timeline', 'map', 'character', 'concept', 'mixed'] as const, 'mixed'),
+    summary: c.optionalString(value, 'summary', ''),
+    ...(sections?.ok ? { sections: sections.value } : {}),
+  });
+};
+
+// ===== TRANSCRIPTION =====
+
+/**
+ * Reads a timestamp given as seconds, or as "m:ss" / "h:mm:ss"
+ */
+function parseTimestamp(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return NaN;
+  const parts = value.trim().split(':').map(Number);
+  if (parts.length === 0 || parts.length > 3 || parts.some(part => !Number.isFinite(part))) return NaN;
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+export const validateTranscriptSegment: Validator<TranscriptSegment> = (value) => {
+  if (!isObject(value)) return notAnObject('TranscriptSegment');
+  const c = new Checker();
+  const text = c.requiredString(value, 'text', 'segment');
+  const start = parseTimestamp(value.start);
+  let end = parseTimestamp(value.end);
+  if (!Number.isFinite(start) || start < 0) c.fail('segment.start must be a time in seconds or m:ss');
+  if (typeof value.start !== 'number') c.repair();
+  if (!Number.isFinite(end) || end < start) {
+    c.repair();
+    end = start;
+  }
+  return c.result<TranscriptSegment>({ start, end, text });
+};
+
+const transcriptSegmentArray = arrayOf(validateTranscriptSegment, 'Transcript');
+
+/**
+ * Like arrayOf, but an empty array is a valid transcript (a silent stretch of audio)
+ */
+export const validateTranscriptSegments: Validator<TranscriptSegment[]> = (value) =>
+  Array.isArray(value) && value.length === 0
+    ? { ok: true, value: [], repaired: false, errors: [] }
+    : transcriptSegmentArray(value);
+
+// ===== MULTI-MATERIAL JOURNEYS =====
+
+export const validateSourceMerge: Validator<SourceMerge> = (value) => {
+  if (!isObject(value)) return notAnObject('SourceMerge');
+  const c = new Checker();
+
+  const rawPoints = Array.isArray(value.points) ? value.points : [];
+  const points = rawPoints.filter(isObject).map(point => ({
+    text: c.optionalString(point, 'text', ''),
+    sourceIds: c.stringArray(point, 'sourceIds'),
+  })).filter(point => point.text);
+  if (points.length !== rawPoints.length) c.repair();
+  if (points.length === 0) c.fail('merge.points must contain at least one point');
+
+  const rawConflicts = Array.isArray(value.conflicts) ? value.conflicts : [];
+  const conflicts = rawConflicts.filter(isObject).map(conflict => ({
+    topic: c.optionalString(conflict, 'topic', ''),
+    resolution: c.optionalString(conflict, 'resolution', ''),
+    sourceIds: c.stringArray(conflict, 'sourceIds'),
+  })).filter(conflict => conflict.resolution);
+  if (conflicts.length !== rawConflicts.length) c.repair();
+
+  return c.result<SourceMerge>({
+    title: c.optionalString(value, 'title', ''),
+    summary: c.optionalString(value, 'summary', ''),
+    points,
+    conflicts,
+  });
+};
+
+// ===== STUDY JOURNEYS =====
+
+export interface JourneyStructure {
+  sceneCount: number;
+  structure: string;
+}
+
+export const validateJourneyStructure: Validator<JourneyStructure> = (value) => {
+  if (!isObject(value)) return notAnObject('JourneyStructure');
+  const c = new Checker();
+  // The prompt asks for 3-8 scenes
+  const requested = Math.round(c.number(value, 'sceneCount', 5));
+  const sceneCount = Math.max(3, Math.min(8, requested));
+  if (sceneCount !== requested) c.repair();
+
+  return c.result({
+    sceneCount,
+    structure: c.optionalString(value, 'structure', ''),
+  });
+};
+
+// ===== ANSWER EVALUATION =====
+
+export interface ShortAnswerEvaluation {
+  isCorrect: boolean;
+  feedback: string;
+  coveredConcepts?: string[]; // Missing when the model only said right or wrong
+}
+
+export const validateShortAnswerEvaluation: Validator<ShortAnswerEvaluation> = (value) => {
+  if (!isObject(value)) return notAnObject('ShortAnswerEvaluation');
+  const c = new Checker();
+
+  let isCorrect = value.isCorrect;
+  if (typeof isCorrect !== 'boolean') {
+    const text = String(isCorrect).trim().toLowerCase();
+    if (text === 'true' || text === 'false') {
+      c.repair();
+      isCorrect = text === 'true';
+    } else {
+      c.fail('evaluation.isCorrect must be a boolean');
+    }
+  }
+
+  return c.result<ShortAnswerEvaluation>({
+    isCorrect: isCorrect === true,
+    feedback: c.requiredString(value, 'feedback', 'evaluation'),
+    ...(value.coveredConcepts !== undefined ? { coveredConcepts: c.stringArray(value, 'coveredConcepts') } : {}),
+  });
+};
+
+// ===== TODAY IN HISTORY =====
+
+export const validateTodayHistoryEvent: Validator<TodayHistoryEvent> = (value) => {
+  if (!isObject(value)) return notAnObject('TodayHistoryEvent');
+  const c = new Checker();
+
+  const year = Math.round(c.number(value, 'year', NaN));
+  if (!Number.isFinite(year)) c.fail('event.year must be a number');
+
+  const imageUrl = typeof value.imageUrl === 'string' && value.imageUrl.startsWith('http') ? value.imageUrl : undefined;
+
+  return c.result<TodayHistoryEvent>({
+    date: c.optionalString(value, 'date', ''),
+    year,
+    title: c.requiredString(value, 'title', 'event'),
+    summary: c.optionalString(value, 'summary', ''),
+    tags: c.stringArray(value, 'tags'),
+    ...(imageUrl ? { imageUrl } : {}),
+    isCompleted: false,
+  });
+};
+
+export const validateTodayHistoryEvents = arrayOf(validateTodayHistoryEvent, 'Events');
+
+// ===== ESSAYS =====
+
+export const validateEssayOutline: Validator<EssayOutline> = (value) => {
+  if (!isObject(value)) return notAnObject('EssayOutline');
+  const c = new Checker();
+
+  const rawParagraphs = Array.isArray(value.bodyParagraphs) ? value.bodyParagraphs : [];
+  const bodyParagraphs = rawParagraphs.filter(isObject).map(paragraph => ({
+    topic: c.optionalString(paragraph, 'topic', ''),
+    mainPoint: c.optionalString(paragraph, 'mainPoint', ''),
+    supportingEvidence: c.stringArray(paragraph, 'supportingEvidence'),
+  })).filter(paragraph => paragraph.topic || paragraph.mainPoint);
+  if (bodyParagraphs.length !== rawParagraphs.length) c.repair();
+  if (bodyParagraphs.length === 0) c.fail('outline.bodyParagraphs must contain at least one paragraph');
+
+  return c.result<EssayOutline>({
+    title: c.requiredString(value, 'title', 'outline'),
+    introduction: c.optionalString(value, 'introduction', ''),
+    bodyParagraphs,
+    conclusion: c.optionalString(value, 'conclusion', ''),
+    keyQuotes: c.stringArray(value, 'keyQuotes'),
+    suggestedExamples: c.stringArray(value, 'suggestedExamples'),
+  });
+};
+
+export interface EssaySuggestions {
+  ideas: string[];
+  examples: string[];
+  quotes: string[];
+}
+
+export const validateEssaySuggestions: Validator<EssaySuggestions> = (value) => {
+  if (!isObject(value)) return notAnObject('EssaySuggestions');
+  const c = new Checker();
+  const suggestions = {
+    ideas: c.stringArray(value, 'ideas'),
+    examples: c.stringArray(value, 'examples'),
+    quotes: c.stringArray(value, 'quotes'),
+  };
+  if (suggestions.ideas.length === 0 && suggestions.examples.length === 0) {
+    c.fail('suggestions must contain at least one idea or example');
+  }
+  return c.result(suggestions);
+};
+
+export interface EssayStoryMode {
+  scenario: string;
+  choices: Array<{ text: string; leadsTo: string }>;
+}
+
+export const validateEssayStoryMode: Validator<EssayStoryMode> = (value) => {
+  if (!isObject(value)) return notAnObject('EssayStoryMode');
+  const c = new Checker();
+
+  const rawChoices = Array.isArray(value.choices) ? value.choices : [];
+  const choices = rawChoices.filter(isObject).map(choice => ({
+    text: c.optionalString(choice, 'text', ''),
+    leadsTo: c.optionalString(choice, 'leadsTo', ''),
+  })).filter(choice => choice.text);
+  if (choices.length !== rawChoices.length) c.repair();
+  if (choices.length === 0) c.fail('storyMode.choices must contain at least one choice');
+
+  return c.result<EssayStoryMode>({
+    scenario: c.requiredString(value, 'scenario', 'storyMode'),
+    choices,
+  });
+};
+
+export const validateEssayFeedback: Validator<EssayFeedback> = (value) => {
+  if (!isObject(value)) return notAnObject('EssayFeedback');
+  const c = new Checker();
+  const score = (key: string) => Math.max(0, Math.min(100, Math.round(c.number(value, key, 0))));
+
+  const clarity = score('clarity');
+  const argument = score('argument');
+  const creativity = score('creativity');
+  const structure = score('structure');
+  const overallScore = value.overallScore === undefined
+    ? Math.round((clarity + argument + creativity + structure) / 4)
+    : score('overallScore');
+
+  const detailedFeedback = c.requiredString(value, 'detailedFeedback', 'feedback');
+
+  return c.result<EssayFeedback>({
+    clarity,
+    argument,
+    creativity,
+    structure,
+    overallScore,
+    strengths: c.stringArray(value, 'strengths'),
+    improvements: c.stringArray(value, 'improvements'),
+    detailedFeedback,
+  });
+};
+
+// ===== ASSIGNMENT HELPERS =====
+
+export const validateHintResponse: Validator<{ hint: string }> = (value) => {
+  if (typeof value === 'string' && value.trim()) {
+    return { ok: true, value: { hint: value.trim() }, repaired: true, errors: [] };
+  }
+  if (!isObject(value)) return notAnObject('Hint');
+  const c = new Checker();
+  return c.result({ hint: c.requiredString(value, 'hint', 'hint') });
+};
+
+export interface AssignmentOutline {
+  introduction: string;
+  body: string[];
+  conclusion: string;
+  keyPoints: string[];
+  structure: string;
+}
+
+export const validateAssignmentOutline: Validator<AssignmentOutline> = (value) => {
+  if (!isObject(value)) return notAnObject('Outline');
+  const c = new Checker();
+  const body = c.stringArray(value, 'body');
+  if (body.length === 0) c.fail('outline.body must contain at least one main point');
+
+  return c.result({
+    introduction: c.optionalString(value, 'introduction', 'Introduce your topic and thesis'),
+    body,
+    conclusion: c.optionalString(value, 'conclusion', 'Summarize your main points and restate thesis'),
+    keyPoints: c.stringArray(value, 'keyPoints'),
+    structure: c.optionalString(value, 'structure', ''),
+  });
+};
+
+export interface AssignmentSuggestions {
+  thesis: string;
+  keyPoints: string[];
+  writingTips: string[];
+}
+
+export const validateAssignmentSuggestions: Validator<AssignmentSuggestions> = (value) => {
+  if (!isObject(value)) return notAnObject('AssignmentSuggestions');
+  const c = new Checker();
+  return c.result({
+    thesis: c.requiredString(value, 'thesis', 'suggestions'),
+    keyPoints: c.stringArray(value, 'keyPoints'),
+    writingTips: c.stringArray(value, 'writingTips'),
+  });
+};
+
+export const validateThesisOptions: Validator<{ options: string[] }> = (value) => {
+  const c = new Checker();
+  const options = Array.isArray(value)
+    ? c.stringArray({ options: value }, 'options')
+    : isObject(value) ? c.stringArray(value, 'options') : [];
+  if (options.length === 0) c.fail('thesis.options must contain at least one thesis statement');
+  return c.result({ options });
+};
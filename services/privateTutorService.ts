@@ -1,8 +1,9 @@
 // services/privateTutorService.ts
 
-import { GoogleGenAI } from '@google/genai';
 import { getOrGenerate } from './cacheService';
-import { StudyMaterial } from './contentMemoryService';
+import { generateText } from './aiService';
+import { SourceCitation, StudyMaterial } from '../types';
+import { RetrievedPassage, searchMaterials } from './materialIndexService';
 
 export interface TutorMessage {
   role: 'user' | 'tutor';
@@ -34,30 +35,92 @@ const TUTOR_PERSONALITIES: Record<string, TutorPersonality> = {
   },
 };
 
+export interface TutorAnswer {
+  content: string; // Cites passages as [1], [2]... in the order of `citations`
+  citations: SourceCitation[]; // The passages of the student's materials the answer used
+}
+
+// Passages are offered to the model as [S1], [S2]..., so other bracketed
+// numbers in an answer (years, list items) are left alone
+const CITATION_MARKER = /\[S(\d+)\]/g;
+// 2: passages are marked [S1] instead of [1]
+const TUTOR_RESPONSE_GENERATOR_VERSION = 2;
+
+/**
+ * Keeps the passages an answer cites and renumbers its markers to [1], [2]...
+ * to match. Markers of passages that were not offered are dropped.
+ */
+function collectCitations(answer: string, passages: RetrievedPassage[]): TutorAnswer {
+  const used: number[] = [];
+  for (const match of answer.matchAll(CITATION_MARKER)) {
+    const number = Number(match[1]);
+    if (number >= 1 && number <= passages.length && !used.includes(number)) used.push(number);
+  }
+  return {
+    content: answer.replace(CITATION_MARKER, (marker, number) => {
+      const position = used.indexOf(Number(number));
+      return position === -1 ? '' : `[${position + 1}]`;
+    }).replace(/ +([.,;:!?])/g, '$1'),
+    citations: used.map(number => passages[number - 1].citation),
+  };
+}
+
+function buildPassagesPrompt(passages: RetrievedPassage[]): string {
+  if (passages.length === 0) return '';
+  const listed = passages.map((passage, index) => {
+    const page = passage.citation.pageNumber !== undefined ? ` (page ${passage.citation.pageNumber})` : '';
+    return `[S${index + 1}] From "${passage.citation.materialTitle}"${page}:\n"""\n${passage.text.trim()}\n"""`;
+  }).join('\n\n');
+
+  return `Passages from the student's own study materials that may help:
+
+${listed}
+
+If these passages answer the question, base your answer on them and cite every passage you use by its marker, like [S1].
+If they do not cover the question, say that the student's materials don't mention it, then answer from general knowledge without citing.`;
+}
+
 /**
- * Gets tutor response to student question
+ * Gets tutor response to student question. Passages from all of the
+ * student's materials are retrieved for the question, and the answer cites
+ * the ones it used.
  */
 export async function getTutorResponse(
   question: string,
   context: {
     material?: StudyMaterial;
+    materialId?: string; // The material being studied; its passages rank higher
     currentTopic?: string;
     difficulty?: string;
   },
   userId: string,
   personality: string = 'spark'
-): Promise<string> {
+): Promise<TutorAnswer> {
   const tutor = TUTOR_PERSONALITIES[personality] || TUTOR_PERSONALITIES.spark;
-  
-  return getOrGenerate<string>({
+
+  // The tutor still answers when the library cannot be searched
+  let passages: RetrievedPassage[] = [];
+  try {
+    passages = await searchMaterials(userId, question, { preferMaterialId: context.materialId || context.material?.uploadId });
+  } catch (error) {
+    console.warn('[Tutor] Could not search study materials:', error);
+  }
+
+  const answer = await getOrGenerate<string>({
     type: 'text',
     topic: 'tutor-response',
-    prompt: `${question} - ${context.currentTopic || ''}`,
+    prompt: question,
     userId: userId,
+    generatorVersion: TUTOR_RESPONSE_GENERATOR_VERSION,
+    keyParts: {
+      personality: tutor.name,
+      currentTopic: context.currentTopic,
+      difficulty: context.difficulty,
+      materialTitle: context.material?.analysis?.title,
+      materialTopics: context.material?.analysis?.topics,
+      passages: passages.map(passage => `${passage.citation.materialId}:${passage.citation.startOffset}-${passage.citation.endOffset}`),
+    },
     generatorFn: async () => {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || process.env.GEMINI_API_KEY || '' });
-      const model = ai.getGenerativeModel({ model: 'gemini-2.5-flash' });
-      
       const contextPrompt = context.material
         ? `Context: The student is studying "${context.material.analysis.title}" about ${context.material.analysis.topics.join(', ')}.`
         : '';
@@ -66,6 +129,8 @@ export async function getTutorResponse(
 
 ${contextPrompt}
 
+${buildPassagesPrompt(passages)}
+
 Student's question: ${question}
 
 Provide a helpful, engaging response that:
@@ -77,13 +142,15 @@ Provide a helpful, engaging response that:
 
 Response:`;
       
-      const response = await model.generateContent({
+      return generateText({
+        task: 'tutor.response',
         contents: prompt,
+        priority: 'interactive',
       });
-      
-      return response.text;
     },
   });
+
+  return collectCitations(answer, passages);
 }
 
 /**
@@ -100,9 +167,6 @@ export async function generateHint(
     prompt: question,
     userId: userId,
     generatorFn: async () => {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || process.env.GEMINI_API_KEY || '' });
-      const model = ai.getGenerativeModel({ model: 'gemini-2.5-flash' });
-      
       const prompt = `A student is stuck on this question: "${question}"
 
 Topic: ${topic}
@@ -115,11 +179,11 @@ Provide a helpful hint that:
 
 Hint:`;
       
-      const response = await model.generateContent({
+      return generateText({
+        task: 'tutor.hint',
         contents: prompt,
+        priority: 'interactive',
       });
-      
-      return response.text;
     },
   });
 }
@@ -137,10 +201,8 @@ export async function generateCreativeChallenge(
     topic: 'creative-challenge',
     prompt: topic,
     userId: userId,
+    keyParts: { difficulty },
     generatorFn: async () => {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || process.env.GEMINI_API_KEY || '' });
-      const model = ai.getGenerativeModel({ model: 'gemini-2.5-flash' });
-      
       const prompt = `Create a creative learning challenge about "${topic}" for a ${difficulty} level student.
 
 The challenge should:
@@ -157,11 +219,10 @@ Examples:
 
 Challenge:`;
       
-      const response = await model.generateContent({
+      return generateText({
+        task: 'tutor.challenge',
         contents: prompt,
       });
-      
-      return response.text;
     },
   });
 }
@@ -180,9 +241,6 @@ export async function explainWithStory(
     prompt: `${concept} - ${topic}`,
     userId: userId,
     generatorFn: async () => {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || process.env.GEMINI_API_KEY || '' });
-      const model = ai.getGenerativeModel({ model: 'gemini-2.5-flash' });
-      
       const prompt = `Explain "${concept}" related to "${topic}" using a story, analogy, or real-world example.
 
 Make it:
@@ -193,11 +251,10 @@ Make it:
 
 Explanation:`;
       
-      const response = await model.generateContent({
+      return generateText({
+        task: 'tutor.story',
         contents: prompt,
       });
-      
-      return response.text;
     },
   });
 }
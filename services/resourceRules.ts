@@ -0,0 +1,230 @@
+// services/resourceRules.ts
+
+import { Journey, JourneyCondition, Resources } from '../types';
+import { DEFAULT_LOSE_CONDITIONS, INITIAL_RESOURCES } from '../constants';
+
+/**
+ * Deterministic resource rule engine for the classic journey game
+ *
+ * The storyteller only proposes `resourceChanges`. resolveTurn decides what
+ * actually happens, in this order:
+ * 1. Sanitize the proposal: drop unknown or non-numeric keys, round, and cap
+ *    each change to the journey's `maxChangePerChoice`.
+ * 2. Apply it, clamping every resource to the journey's min/max.
+ * 3. Fire threshold events whose condition holds (e.g. food at 0 drains health).
+ * 4. Compute derived stats and check lose, then win, conditions.
+ * The same state and proposal always give the same result.
+ */
+
+export const RESOURCE_MIN = 0;
+export const RESOURCE_MAX = 100;
+export const DEFAULT_MAX_CHANGE_PER_CHOICE = 50;
+
+const RESOURCE_KEYS = Object.keys(INITIAL_RESOURCES) as Array<keyof Resources>;
+
+export type ResolvedResourceLimits = Record<keyof Resources, { min: number; max: number; maxChangePerChoice: number }>;
+
+/**
+ * The journey's limits for every resource, with defaults filled in
+ */
+export function getResourceLimits(journey?: Journey | null): ResolvedResourceLimits {
+  const limits = {} as ResolvedResourceLimits;
+  RESOURCE_KEYS.forEach(resource => {
+    const configured = journey?.resourceRules?.limits?.[resource] || {};
+    limits[resource] = {
+      min: configured.min ?? RESOURCE_MIN,
+      max: configured.max ?? RESOURCE_MAX,
+      maxChangePerChoice: configured.maxChangePerChoice ?? DEFAULT_MAX_CHANGE_PER_CHOICE,
+    };
+  });
+  return limits;
+}
+
+/**
+ * Applies resource changes, clamping every resource to its limits
+ * (RESOURCE_MIN..RESOURCE_MAX unless the journey sets its own)
+ */
+export function applyResourceDeltas(
+  resources: Resources,
+  changes: Partial<Resources>,
+  limits: ResolvedResourceLimits = getResourceLimits()
+): Resources {
+  const newResources = { ...resources };
+  for (const key in changes) {
+    const resource = key as keyof Resources;
+    if (!limits[resource]) continue;
+    const currentValue = newResources[resource] || 0;
+    const changeValue = changes[resource] || 0;
+    newResources[resource] = Math.max(limits[resource].min, Math.min(limits[resource].max, currentValue + changeValue));
+  }
+  return newResources;
+}
+
+/**
+ * Brings every resource within its limits
+ */
+export function clampResources(resources: Resources, limits: ResolvedResourceLimits): Resources {
+  const clamped = { ...resources };
+  RESOURCE_KEYS.forEach(resource => {
+    clamped[resource] = Math.max(limits[resource].min, Math.min(limits[resource].max, clamped[resource] ?? 0));
+  });
+  return clamped;
+}
+
+/**
+ * The change that was actually applied between two resource states (after clamping)
+ */
+export function diffResources(before: Resources, after: Resources): Partial<Resources> {
+  const diff: Partial<Resources> = {};
+  (Object.keys(after) as Array<keyof Resources>).forEach(resource => {
+    const delta = (after[resource] || 0) - (before[resource] || 0);
+    if (delta !== 0) diff[resource] = delta;
+  });
+  return diff;
+}
+
+/**
+ * Checks model-proposed changes against the journey's limits. Returns the
+ * changes that may be applied and a note for everything that was adjusted.
+ */
+export function sanitizeResourceChanges(
+  proposed: unknown,
+  limits: ResolvedResourceLimits
+): { changes: Partial<Resources>; adjustments: string[] } {
+  const changes: Partial<Resources> = {};
+  const adjustments: string[] = [];
+  if (typeof proposed !== 'object' || proposed === null) {
+    return { changes, adjustments: proposed === undefined ? [] : ['resourceChanges is not an object'] };
+  }
+
+  Object.entries(proposed as Record<string, unknown>).forEach(([key, value]) => {
+    const limit = limits[key as keyof Resources];
+    if (!limit) {
+      adjustments.push(`ignored unknown resource "${key}"`);
+      return;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      adjustments.push(`ignored non-numeric change for ${key}`);
+      return;
+    }
+    const rounded = Math.round(value);
+    const capped = Math.max(-limit.maxChangePerChoice, Math.min(limit.maxChangePerChoice, rounded));
+    if (capped !== rounded) {
+      adjustments.push(`capped ${key} change ${rounded} to ${capped}`);
+    }
+    if (capped !== 0) changes[key as keyof Resources] = capped;
+  });
+  return { changes, adjustments };
+}
+
+/**
+ * Values of the journey's derived stats, by stat id
+ */
+export function computeDerivedStats(resources: Resources, journey?: Journey | null): Record<string, number> {
+  const stats: Record<string, number> = {};
+  (journey?.resourceRules?.derivedStats || []).forEach(stat => {
+    const value = (Object.keys(stat.weights) as Array<keyof Resources>)
+      .reduce((sum, resource) => sum + (resources[resource] || 0) * (stat.weights[resource] || 0), 0);
+    stats[stat.id] = Math.round(value);
+  });
+  return stats;
+}
+
+/**
+ * Whether every part of a condition holds for the given state
+ */
+export function isConditionMet(
+  condition: JourneyCondition,
+  resources: Resources,
+  choicesMade: number,
+  derivedStats: Record<string, number> = {}
+): boolean {
+  if (condition.afterChoices !== undefined && choicesMade < condition.afterChoices) return false;
+  const subject = condition.resource ?? condition.stat;
+  if (subject) {
+    const value = condition.resource ? (resources[condition.resource] ?? 0) : (derivedStats[subject] ?? 0);
+    if (condition.atLeast !== undefined && value < condition.atLeast) return false;
+    if (condition.atMost !== undefined && value > condition.atMost) return false;
+  }
+  return true;
+}
+
+export interface JourneyEndCheck {
+  isGameOver: boolean;
+  hasWon: boolean;
+  reason: string;
+}
+
+/**
+ * Checks a journey's lose conditions, then its win conditions, after a choice.
+ * Losing takes precedence when both hold.
+ */
+export function checkJourneyEnd(
+  journey: Journey,
+  resources: Resources,
+  choicesMade: number,
+  derivedStats: Record<string, number> = computeDerivedStats(resources, journey)
+): JourneyEndCheck {
+  const loseConditions = journey.loseConditions?.length ? journey.loseConditions : DEFAULT_LOSE_CONDITIONS;
+  const lost = loseConditions.find(condition => isConditionMet(condition, resources, choicesMade, derivedStats));
+  if (lost) return { isGameOver: true, hasWon: false, reason: lost.message };
+
+  const won = (journey.winConditions || []).find(condition => isConditionMet(condition, resources, choicesMade, derivedStats));
+  if (won) return { isGameOver: true, hasWon: true, reason: won.message };
+
+  return { isGameOver: false, hasWon: false, reason: '' };
+}
+
+export interface TurnState {
+  resources: Resources;
+  choicesMade: number; // Including the choice being resolved
+  firedEventIds?: string[];
+}
+
+export interface TriggeredEvent {
+  id: string;
+  message: string;
+  effects: Partial<Resources>; // As applied, after clamping
+}
+
+export interface TurnResult {
+  resources: Resources;
+  appliedChanges: Partial<Resources>; // Total change this turn, including events
+  adjustments: string[]; // What was changed in the storyteller's proposal
+  events: TriggeredEvent[];
+  firedEventIds: string[];
+  derivedStats: Record<string, number>;
+  end: JourneyEndCheck;
+}
+
+/**
+ * Resolves one choice: the proposed resource changes, threshold events and end conditions
+ */
+export function resolveTurn(journey: Journey, state: TurnState, proposedChanges: unknown): TurnResult {
+  const limits = getResourceLimits(journey);
+  const { changes, adjustments } = sanitizeResourceChanges(proposedChanges, limits);
+  let resources = applyResourceDeltas(state.resources, changes, limits);
+
+  const events: TriggeredEvent[] = [];
+  const firedEventIds = [...(state.firedEventIds || [])];
+  (journey.resourceRules?.thresholdEvents || []).forEach(event => {
+    if (event.once && firedEventIds.includes(event.id)) return;
+    if (!isConditionMet(event, resources, state.choicesMade, computeDerivedStats(resources, journey))) return;
+
+    const before = resources;
+    resources = applyResourceDeltas(resources, event.effects, limits);
+    events.push({ id: event.id, message: event.message, effects: diffResources(before, resources) });
+    if (event.once) firedEventIds.push(event.id);
+  });
+
+  const derivedStats = computeDerivedStats(resources, journey);
+  return {
+    resources,
+    appliedChanges: diffResources(state.resources, resources),
+    adjustments,
+    events,
+    firedEventIds,
+    derivedStats,
+    end: checkJourneyEnd(journey, resources, state.choicesMade, derivedStats),
+  };
+}
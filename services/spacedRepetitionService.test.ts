@@ -0,0 +1,145 @@
+// services/spacedRepetitionService.test.ts
+
+import { describe, expect, it } from 'vitest';
+import { QuestionType, ReviewCard } from '../types';
+import { reviewCardId, scheduleReview } from './spacedRepetitionService';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const NOW = Date.UTC(2025, 0, 15, 9, 0);
+
+const NEW_CARD: ReviewCard = {
+  id: 'card-1',
+  question: {
+    type: QuestionType.FILL_IN_THE_BLANK,
+    questionText: 'The Bastille was stormed on 14 July ____.',
+    explanation: '',
+    correctAnswer: '1789',
+  },
+  sources: [],
+  state: 'new',
+  ease: 2.5,
+  intervalDays: 0,
+  step: 0,
+  repetitions: 0,
+  lapses: 0,
+  due: NOW,
+  lastReviewedAt: null,
+  createdAt: NOW - DAY_MS,
+  updatedAt: NOW - DAY_MS,
+};
+
+// Learned, last reviewed 10 days ago at a 10 day interval, so due today
+const REVIEW_CARD: ReviewCard = {
+  ...NEW_CARD,
+  state: 'review',
+  intervalDays: 10,
+  repetitions: 3,
+  lastReviewedAt: NOW - 10 * DAY_MS,
+};
+
+describe('scheduleReview', () => {
+  describe('new and learning cards', () => {
+    it('moves through the learning steps on good', () => {
+      const { card } = scheduleReview(NEW_CARD, 'good', NOW);
+      expect(card).toMatchObject({ state: 'learning', step: 1, due: NOW + 10 * MINUTE_MS, lastReviewedAt: NOW });
+    });
+
+    it('goes back to the first step on again', () => {
+      const { card } = scheduleReview({ ...NEW_CARD, state: 'learning', step: 1 }, 'again', NOW);
+      expect(card).toMatchObject({ state: 'learning', step: 0, due: NOW + MINUTE_MS });
+    });
+
+    it('graduates to a one day interval after the last step', () => {
+      const { card } = scheduleReview({ ...NEW_CARD, state: 'learning', step: 1 }, 'good', NOW);
+      expect(card).toMatchObject({ state: 'review', intervalDays: 1, repetitions: 1, due: NOW + DAY_MS });
+    });
+
+    it('graduates straight to four days on easy', () => {
+      const { card } = scheduleReview(NEW_CARD, 'easy', NOW);
+      expect(card).toMatchObject({ state: 'review', intervalDays: 4, due: NOW + 4 * DAY_MS });
+    });
+  });
+
+  describe('review cards', () => {
+    it('multiplies the interval by the ease on good', () => {
+      const { card } = scheduleReview(REVIEW_CARD, 'good', NOW);
+      expect(card).toMatchObject({ state: 'review', intervalDays: 25, ease: 2.5, repetitions: 4, due: NOW + 25 * DAY_MS });
+    });
+
+    it('grows the interval less and lowers the ease on hard', () => {
+      const { card } = scheduleReview(REVIEW_CARD, 'hard', NOW);
+      expect(card).toMatchObject({ intervalDays: 12, ease: 2.35 });
+    });
+
+    it('adds the easy bonus and raises the ease on easy', () => {
+      const { card } = scheduleReview(REVIEW_CARD, 'easy', NOW);
+      expect(card).toMatchObject({ intervalDays: 33, ease: 2.65 });
+    });
+
+    it('counts part of the extra time when reviewed late', () => {
+      const { card } = scheduleReview({ ...REVIEW_CARD, lastReviewedAt: NOW - 20 * DAY_MS }, 'good', NOW);
+      expect(card.intervalDays).toBe(38);
+    });
+
+    it('sends a forgotten card to relearning at half its interval', () => {
+      const { card } = scheduleReview(REVIEW_CARD, 'again', NOW);
+      expect(card).toMatchObject({
+        state: 'relearning',
+        step: 0,
+        ease: 2.3,
+        intervalDays: 5,
+        repetitions: 0,
+        lapses: 1,
+        due: NOW + 10 * MINUTE_MS,
+      });
+    });
+
+    it('returns a relearned card to reviews at the interval the lapse left it', () => {
+      const { card } = scheduleReview({ ...REVIEW_CARD, state: 'relearning', intervalDays: 5 }, 'good', NOW);
+      expect(card).toMatchObject({ state: 'review', intervalDays: 5, due: NOW + 5 * DAY_MS });
+    });
+
+    it('never lowers the ease below 1.3', () => {
+      const { card } = scheduleReview({ ...REVIEW_CARD, ease: 1.35 }, 'again', NOW);
+      expect(card.ease).toBe(1.3);
+    });
+  });
+
+  it('logs the review as it was scheduled', () => {
+    const { log } = scheduleReview(REVIEW_CARD, 'good', NOW);
+    expect(log).toEqual({
+      cardId: 'card-1',
+      rating: 'good',
+      state: 'review',
+      elapsedDays: 10,
+      scheduledDays: 25,
+      ease: 2.5,
+      reviewedAt: NOW,
+    });
+  });
+});
+
+describe('reviewCardId', () => {
+  const flashcard = (questionText: string, answer: string) => ({
+    type: QuestionType.FLASHCARD as const,
+    kind: 'term' as const,
+    questionText,
+    answer,
+    explanation: '',
+  });
+
+  it('ignores case, spacing and punctuation', async () => {
+    expect(await reviewCardId(NEW_CARD.question)).toBe(await reviewCardId({
+      ...NEW_CARD.question,
+      questionText: 'the Bastille was stormed on 14 July, ____ ',
+    }));
+  });
+
+  it('tells flashcards with the same front and different backs apart', async () => {
+    expect(await reviewCardId(flashcard('Estates-General', 'Assembly of the three estates')))
+      .not.toBe(await reviewCardId(flashcard('Estates-General', 'Convened in May 1789')));
+    expect(await reviewCardId(flashcard('Estates-General', 'Convened in May 1789')))
+      .toBe(await reviewCardId(flashcard('Estates General', 'convened in May 1789.')));
+  });
+});
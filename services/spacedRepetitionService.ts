@@ -0,0 +1,545 @@
+// services/spacedRepetitionService.ts
+
+import { db, toFirestoreData } from './firebase';
+import {
+  collection,
+  doc,
+  getDocs,
+  addDoc,
+  writeBatch,
+  serverTimestamp,
+} from 'firebase/firestore';
+import { Question, QuestionType, ReviewCard, ReviewCardSource, ReviewCardState, ReviewLog, ReviewRating } from '../types';
+import { clientCache } from './clientCacheService';
+import { addHardCards } from './contentMemoryService';
+import { canonicalize, sha256Hex } from './cacheKey';
+
+/**
+ * Spaced-repetition review deck, scheduled with SM-2
+ *
+ * New and forgotten cards go through short learning steps (minutes) before
+ * they are scheduled in days. Each review multiplies the interval by the
+ * card's ease factor, which the ratings nudge up or down. Forgetting a learned
+ * card (a lapse) lowers its ease and shortens its interval.
+ *
+ * Questions are enrolled automatically when a student misses one, answers it
+ * slowly or needs hints, in study journeys and in the classic game alike. The
+ * same question from different journeys is one card that lists every source.
+ * A card can be suspended (kept, but not reviewed) or buried until tomorrow.
+ *
+ * Cards live in Firestore under `users/{uid}/reviewCards` so the deck follows
+ * the student between devices, and are mirrored to IndexedDB for instant
+ * loading. Every review is logged to `users/{uid}/reviewLogs`. On load the
+ * more recently updated copy of each card wins; a removed card keeps a
+ * `removedAt` marker so the other device's copy does not bring it back.
+ */
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const LEARNING_STEPS_MINUTES = [1, 10];
+const RELEARNING_STEPS_MINUTES = [10];
+const GRADUATING_INTERVAL_DAYS = 1;
+const EASY_INTERVAL_DAYS = 4;
+const STARTING_EASE = 2.5;
+const MIN_EASE = 1.3;
+const EASE_CHANGES: Record<ReviewRating, number> = { again: -0.2, hard: -0.15, good: 0, easy: 0.15 };
+const HARD_INTERVAL_FACTOR = 1.2;
+const EASY_BONUS = 1.3;
+// A lapsed card comes back at this share of its old interval
+const LAPSE_INTERVAL_FACTOR = 0.5;
+const MAX_INTERVAL_DAYS = 365;
+const BATCH_SIZE = 500;
+// New cards first come up a day after they are added, not in the same session
+const FIRST_REVIEW_DELAY_MS = DAY_MS;
+// An answer slower than this is enrolled even when it was right
+const SLOW_ANSWER_MS = 30 * 1000;
+const SLOW_ANSWER_MS_BY_TYPE: Partial<Record<QuestionType, number>> = {
+  [QuestionType.MATCHING]: 60 * 1000,
+  [QuestionType.ORDERING]: 60 * 1000,
+  [QuestionType.SHORT_EXPLANATION]: 120 * 1000,
+};
+// More hints than this and the answer is enrolled even when it was right
+const MAX_UNAIDED_HINTS = 1;
+// The queue SpacedPracticeQueue kept in localStorage before this service
+const LEGACY_STORAGE_KEY = (userId: string) => `spaced_practice_${userId}`;
+
+const cardsCollection = (userId: string) => collection(db, `users/${userId}/reviewCards`);
+const logsCollection = (userId: string) => collection(db, `users/${userId}/reviewLogs`);
+
+/**
+ * A question a student just answered, from any mode
+ */
+export interface AnsweredQuestion {
+  question: Question;
+  correct: boolean;
+  timeMs?: number; // From showing the question to the answer
+  hintsUsed?: number;
+  source: ReviewCardSource;
+}
+
+// The latest deck of each user in this session, so every view shares one copy
+const decks = new Map<string, ReviewCard[]>();
+const deckListeners = new Set<(userId: string, deck: ReviewCard[]) => void>();
+
+function publishDeck(userId: string, deck: ReviewCard[]): void {
+  decks.set(userId, deck);
+  deckListeners.forEach(listener => listener(userId, deck));
+}
+
+/**
+ * Calls `listener` with the user's deck whenever it changes, e.g. after a
+ * question was enrolled from another view. Returns an unsubscribe function.
+ */
+export function subscribeToReviewDeck(userId: string, listener: (deck: ReviewCard[]) => void): () => void {
+  const forUser = (changedUserId: string, deck: ReviewCard[]) => {
+    if (changedUserId === userId) listener(deck);
+  };
+  deckListeners.add(forUser);
+  return () => {
+    deckListeners.delete(forUser);
+  };
+}
+
+const clampEase = (ease: number): number => Math.max(MIN_EASE, Math.round(ease * 100) / 100);
+const clampInterval = (days: number): number => Math.min(MAX_INTERVAL_DAYS, Math.max(1, Math.round(days)));
+
+const sameSource = (a: ReviewCardSource, b: ReviewCardSource): boolean =>
+  a.mode === b.mode && a.journeyId === b.journeyId && a.stepId === b.stepId && a.materialId === b.materialId;
+
+function startOfTomorrow(now: number): number {
+  const tomorrow = new Date(now);
+  tomorrow.setHours(24, 0, 0, 0);
+  return tomorrow.getTime();
+}
+
+/**
+ * Cards still in the deck, suspended ones included, soonest due first
+ */
+export function activeCards(deck: ReviewCard[]): ReviewCard[] {
+  return deck.filter(card => !card.removedAt).sort((a, b) => a.due - b.due);
+}
+
+export const isBuried = (card: ReviewCard, now: number = Date.now()): boolean => (card.buriedUntil ?? 0) > now;
+
+/**
+ * Cards to review now: due, and neither suspended nor buried
+ */
+export function dueCards(deck: ReviewCard[], now: number = Date.now()): ReviewCard[] {
+  return activeCards(deck).filter(card => card.due <= now && !card.suspended && !isBuried(card, now));
+}
+
+const normalizeCardText = (text: string): string => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+/**
+ * Same question, same card: a question asked in several journeys, or with
+ * different spacing or punctuation, is one card. Flashcards are told apart by
+ * their back too, since students write cards with the same front.
+ */
+export async function reviewCardId(question: Question): Promise<string> {
+  const hash = await sha256Hex(canonicalize({
+    type: question.type,
+    questionText: normalizeCardText(question.questionText),
+    ...(question.type === QuestionType.FLASHCARD ? { answer: normalizeCardText(question.answer) } : {}),
+  }));
+  return `card_${hash.slice(0, 32)}`;
+}
+
+/**
+ * Whether an answer shows the student needs to review the question: missed,
+ * slow, or only found with several hints
+ */
+export function needsReview(answer: Omit<AnsweredQuestion, 'source'>): boolean {
+  const slowAfter = SLOW_ANSWER_MS_BY_TYPE[answer.question.type] ?? SLOW_ANSWER_MS;
+  return !answer.correct || (answer.timeMs ?? 0) > slowAfter || (answer.hintsUsed ?? 0) > MAX_UNAIDED_HINTS;
+}
+
+// ===== SCHEDULING =====
+
+function learningStep(card: ReviewCard, rating: ReviewRating, steps: number[], now: number): Partial<ReviewCard> | null {
+  switch (rating) {
+    case 'again':
+      return { step: 0, due: now + steps[0] * MINUTE_MS };
+    case 'hard': {
+      // Between the first two steps on the first step, else the same step again
+      const minutes = card.step === 0 && steps.length > 1 ? (steps[0] + steps[1]) / 2 : steps[Math.min(card.step, steps.length - 1)];
+      return { due: now + minutes * MINUTE_MS };
+    }
+    case 'good':
+      if (card.step + 1 < steps.length) {
+        return { step: card.step + 1, due: now + steps[card.step + 1] * MINUTE_MS };
+      }
+      return null;
+    case 'easy':
+      return null;
+  }
+}
+
+/**
+ * The card after a review, and the log of that review. Pure; `now` is epoch ms.
+ */
+export function scheduleReview(card: ReviewCard, rating: ReviewRating, now: number = Date.now()): { card: ReviewCard; log: ReviewLog } {
+  const elapsedDays = card.lastReviewedAt ? Math.max(0, (now - card.lastReviewedAt) / DAY_MS) : 0;
+  let next: ReviewCard = { ...card, lastReviewedAt: now, updatedAt: now };
+
+  if (card.state === 'new' || card.state === 'learning') {
+    const stepped = learningStep(card, rating, LEARNING_STEPS_MINUTES, now);
+    if (stepped) {
+      next = { ...next, ...stepped, state: 'learning' };
+    } else {
+      // Graduates into daily reviews
+      const intervalDays = rating === 'easy' ? EASY_INTERVAL_DAYS : GRADUATING_INTERVAL_DAYS;
+      next = { ...next, state: 'review', step: 0, intervalDays, repetitions: 1, due: now + intervalDays * DAY_MS };
+    }
+  } else if (card.state === 'relearning') {
+    const stepped = learningStep(card, rating, RELEARNING_STEPS_MINUTES, now);
+    if (stepped) {
+      next = { ...next, ...stepped };
+    } else {
+      // Back to daily reviews at the interval the lapse left it
+      const intervalDays = clampInterval(card.intervalDays + (rating === 'easy' ? 1 : 0));
+      next = { ...next, state: 'review', step: 0, intervalDays, repetitions: 1, due: now + intervalDays * DAY_MS };
+    }
+  } else if (rating === 'again') {
+    // A lapse: the card was learned and has been forgotten
+    const intervalDays = clampInterval(card.intervalDays * LAPSE_INTERVAL_FACTOR);
+    next = {
+      ...next,
+      state: 'relearning',
+      step: 0,
+      ease: clampEase(card.ease + EASE_CHANGES.again),
+      intervalDays,
+      repetitions: 0,
+      lapses: card.lapses + 1,
+      due: now + RELEARNING_STEPS_MINUTES[0] * MINUTE_MS,
+    };
+  } else {
+    // Reviewing late and still remembering counts for part of the extra time
+    const overdueDays = Math.max(0, elapsedDays - card.intervalDays);
+    const ease = clampEase(card.ease + EASE_CHANGES[rating]);
+    const hardInterval = clampInterval(Math.max(card.intervalDays + 1, card.intervalDays * HARD_INTERVAL_FACTOR));
+    const goodInterval = clampInterval(Math.max(hardInterval + 1, (card.intervalDays + overdueDays / 2) * card.ease));
+    const intervalDays = rating === 'hard'
+      ? hardInterval
+      : rating === 'good'
+        ? goodInterval
+        : clampInterval(Math.max(goodInterval + 1, (card.intervalDays + overdueDays) * card.ease * EASY_BONUS));
+    next = { ...next, ease, intervalDays, repetitions: card.repetitions + 1, due: now + intervalDays * DAY_MS };
+  }
+
+  return {
+    card: next,
+    log: {
+      cardId: card.id,
+      rating,
+      state: card.state,
+      elapsedDays: Math.round(elapsedDays * 100) / 100,
+      scheduledDays: Math.round(((next.due - now) / DAY_MS) * 100) / 100,
+      ease: next.ease,
+      reviewedAt: now,
+    },
+  };
+}
+
+// ===== PERSISTENCE =====
+
+/**
+ * Merges local and remote cards by id, keeping the most recently updated copy
+ */
+function mergeCards(local: ReviewCard[], remote: ReviewCard[]): ReviewCard[] {
+  const merged = new Map<string, ReviewCard>();
+  [...local, ...remote].forEach(card => {
+    const existing = merged.get(card.id);
+    if (!existing || card.updatedAt > existing.updatedAt) {
+      merged.set(card.id, card);
+    }
+  });
+  return Array.from(merged.values());
+}
+
+function newCard(
+  id: string,
+  question: Question,
+  now: number,
+  sources: ReviewCardSource[] = [],
+  due: number = now + FIRST_REVIEW_DELAY_MS
+): ReviewCard {
+  return {
+    id,
+    question,
+    sources,
+    state: 'new',
+    ease: STARTING_EASE,
+    intervalDays: 0,
+    step: 0,
+    repetitions: 0,
+    lapses: 0,
+    due,
+    lastReviewedAt: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Cards from the old localStorage queue, with their next review kept. Its
+ * 1-5 difficulty becomes the ease factor.
+ */
+async function readLegacyQueue(userId: string): Promise<ReviewCard[]> {
+  const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(LEGACY_STORAGE_KEY(userId)) : null;
+  if (!saved) return [];
+  try {
+    const items: any[] = JSON.parse(saved);
+    const now = Date.now();
+    return await Promise.all(items.map(async item => {
+      const due = new Date(item.nextReview).getTime() || now;
+      const lastReviewedAt = item.lastReviewed ? new Date(item.lastReviewed).getTime() : null;
+      const card = newCard(await reviewCardId(item.question), item.question, now);
+      if (!item.timesReviewed || !lastReviewedAt) return { ...card, due };
+      return {
+        ...card,
+        state: 'review' as ReviewCardState,
+        ease: clampEase(STARTING_EASE - ((item.difficulty ?? 3) - 3) * 0.2),
+        intervalDays: clampInterval((due - lastReviewedAt) / DAY_MS),
+        repetitions: item.timesReviewed,
+        due,
+        lastReviewedAt,
+      };
+    }));
+  } catch (error) {
+    console.warn('[Reviews] Could not read the old practice queue:', error);
+    return [];
+  }
+}
+
+async function saveCards(userId: string, cards: ReviewCard[], deck: ReviewCard[]): Promise<void> {
+  await clientCache.setReviewDeck(userId, deck).catch(error =>
+    console.warn('[Reviews] Failed to save the deck locally:', error)
+  );
+  for (let i = 0; i < cards.length; i += BATCH_SIZE) {
+    const batch = writeBatch(db);
+    cards.slice(i, i + BATCH_SIZE).forEach(card =>
+      batch.set(doc(cardsCollection(userId), card.id), { ...toFirestoreData(card), savedAt: serverTimestamp() })
+    );
+    await batch.commit();
+  }
+}
+
+/**
+ * Loads the user's deck, local copy first, then merged with Firestore. Removed
+ * cards are included; see activeCards().
+ */
+export async function loadReviewDeck(userId: string): Promise<ReviewCard[]> {
+  const [localCards, legacyCards] = await Promise.all([
+    clientCache.getReviewDeck(userId).catch(() => null),
+    readLegacyQueue(userId),
+  ]);
+  const local = mergeCards(legacyCards, localCards || []);
+
+  let deck: ReviewCard[];
+  try {
+    const snapshot = await getDocs(cardsCollection(userId));
+    const remote = snapshot.docs.map(cardDoc => {
+      const { savedAt, ...card } = cardDoc.data();
+      return { ...card, id: cardDoc.id } as ReviewCard;
+    });
+    deck = mergeCards(local, remote);
+
+    // Cards this device has newer copies of, e.g. reviewed while offline
+    const remoteById = new Map(remote.map(card => [card.id, card]));
+    const newer = deck.filter(card => (remoteById.get(card.id)?.updatedAt ?? -1) < card.updatedAt);
+    if (newer.length) await saveCards(userId, newer, deck);
+  } catch (error) {
+    console.warn('[Reviews] Could not load the deck from Firestore. Using the local deck.', error);
+    publishDeck(userId, local);
+    return local;
+  }
+
+  await clientCache.setReviewDeck(userId, deck).catch(error =>
+    console.warn('[Reviews] Failed to update the local deck:', error)
+  );
+  if (legacyCards.length) {
+    localStorage.removeItem(LEGACY_STORAGE_KEY(userId));
+    console.log(`[Reviews] Moved ${legacyCards.length} cards from the old practice queue`);
+  }
+  publishDeck(userId, deck);
+  return deck;
+}
+
+/**
+ * Applies a change to one card and saves it. Returns the deck after the change.
+ */
+async function updateCard(
+  userId: string,
+  deck: ReviewCard[],
+  cardId: string,
+  change: (card: ReviewCard, now: number) => Partial<ReviewCard>
+): Promise<ReviewCard[]> {
+  const card = deck.find(other => other.id === cardId);
+  if (!card) throw new Error('This card is no longer in your deck.');
+
+  const now = Date.now();
+  const changed = { ...card, ...change(card, now), updatedAt: now };
+  const updated = deck.map(other => (other.id === cardId ? changed : other));
+  publishDeck(userId, updated);
+  await saveCards(userId, [changed], updated);
+  return updated;
+}
+
+/**
+ * Adds a question to the deck. A question already in it gains the source; a
+ * removed one comes back. Returns the deck after the change.
+ */
+export async function addReviewCard(
+  userId: string,
+  deck: ReviewCard[],
+  question: Question,
+  source?: ReviewCardSource
+): Promise<ReviewCard[]> {
+  return enrollCards(userId, deck, [{ id: await reviewCardId(question), question, source }]);
+}
+
+/**
+ * Adds questions the student has not been asked yet, e.g. flashcards, due
+ * right away. Returns the deck after the change.
+ */
+export async function addReviewCards(
+  userId: string,
+  deck: ReviewCard[],
+  questions: Question[],
+  source?: ReviewCardSource
+): Promise<ReviewCard[]> {
+  const ids = await Promise.all(questions.map(reviewCardId));
+  const now = Date.now();
+  return enrollCards(userId, deck, questions.map((question, index) => ({ id: ids[index], question, source, due: now })));
+}
+
+async function enrollCards(
+  userId: string,
+  deck: ReviewCard[],
+  enrolled: { id: string; question: Question; source?: ReviewCardSource; due?: number; missed?: boolean }[]
+): Promise<ReviewCard[]> {
+  const now = Date.now();
+  const byId = new Map(deck.map(card => [card.id, card]));
+  const changed = new Map<string, ReviewCard>();
+  const lapses: ReviewLog[] = [];
+
+  enrolled.forEach(({ id, question, source, due, missed }) => {
+    const existing = changed.get(id) || byId.get(id);
+    if (!existing || existing.removedAt) {
+      changed.set(id, newCard(id, question, now, source ? [source] : [], due));
+      return;
+    }
+    const sources = existing.sources || [];
+    const isNewSource = source && !sources.some(other => sameSource(other, source));
+    // Missing a card that was learned is a lapse, as if rated again. A slow or
+    // hinted answer that was right leaves the schedule alone.
+    const relapsed = missed && existing.state === 'review';
+    if (!isNewSource && !relapsed) return;
+    let card = existing;
+    if (relapsed) {
+      const review = scheduleReview(existing, 'again', now);
+      card = review.card;
+      lapses.push(review.log);
+    }
+    changed.set(id, {
+      ...card,
+      sources: isNewSource ? [...sources, source!] : sources,
+      updatedAt: now,
+    });
+  });
+
+  if (changed.size === 0) return deck;
+  const updated = [...deck.filter(card => !changed.has(card.id)), ...changed.values()];
+  publishDeck(userId, updated);
+  await saveCards(userId, Array.from(changed.values()), updated);
+  await Promise.all(lapses.map(log => addDoc(logsCollection(userId), { ...log, loggedAt: serverTimestamp() })));
+  return updated;
+}
+
+/**
+ * Enrolls the answers that show the student needs to review the question
+ * (see needsReview), from any mode. Loads the deck if this session has not yet.
+ */
+export async function enrollAnsweredQuestions(userId: string, answers: AnsweredQuestion[]): Promise<void> {
+  const toEnroll = answers.filter(needsReview);
+  if (toEnroll.length === 0) return;
+
+  const ids = await Promise.all(toEnroll.map(answer => reviewCardId(answer.question)));
+  const deck = decks.get(userId) || await loadReviewDeck(userId);
+  await enrollCards(userId, deck, toEnroll.map((answer, index) => ({
+    id: ids[index],
+    question: answer.question,
+    source: answer.source,
+    missed: !answer.correct,
+  })));
+  console.log(`[Reviews] Enrolled ${toEnroll.length} questions for review`);
+
+  // The journeys' analytics list the cards their students struggled with
+  const journeyIds = Array.from(new Set(toEnroll.map(answer => answer.source.journeyId).filter(Boolean)));
+  await Promise.all(journeyIds.map(journeyId =>
+    addHardCards(userId, journeyId, ids.filter((_, index) => toEnroll[index].source.journeyId === journeyId))
+      .catch(error => console.warn('[Reviews] Could not update the journey analytics:', error))
+  ));
+}
+
+/**
+ * Schedules a card after the student rated their recall, and logs the
+ * review. Returns the deck after the change.
+ */
+export async function recordReview(
+  userId: string,
+  deck: ReviewCard[],
+  cardId: string,
+  rating: ReviewRating
+): Promise<ReviewCard[]> {
+  const card = deck.find(other => other.id === cardId);
+  if (!card) throw new Error('This card is no longer in your deck.');
+
+  const { card: reviewed, log } = scheduleReview(card, rating);
+  const updated = deck.map(other => (other.id === cardId ? reviewed : other));
+  publishDeck(userId, updated);
+  await saveCards(userId, [reviewed], updated);
+  await addDoc(logsCollection(userId), { ...log, loggedAt: serverTimestamp() });
+  return updated;
+}
+
+/**
+ * Takes a card out of the deck. Returns the deck after the change.
+ */
+export async function removeReviewCard(userId: string, deck: ReviewCard[], cardId: string): Promise<ReviewCard[]> {
+  return updateCard(userId, deck, cardId, (_, now) => ({ removedAt: now }));
+}
+
+/**
+ * Replaces the question on a card, e.g. a flashcard the student reworded. The
+ * card keeps its id and schedule. Returns the deck after the change.
+ */
+export async function editReviewCardQuestion(
+  userId: string,
+  deck: ReviewCard[],
+  cardId: string,
+  question: Question
+): Promise<ReviewCard[]> {
+  return updateCard(userId, deck, cardId, () => ({ question }));
+}
+
+/**
+ * Suspends a card, keeping its schedule, or brings it back. Returns the deck
+ * after the change.
+ */
+export async function setReviewCardSuspended(
+  userId: string,
+  deck: ReviewCard[],
+  cardId: string,
+  suspended: boolean
+): Promise<ReviewCard[]> {
+  return updateCard(userId, deck, cardId, () => ({ suspended }));
+}
+
+/**
+ * Skips a card for the rest of the day. Returns the deck after the change.
+ */
+export async function buryReviewCard(userId: string, deck: ReviewCard[], cardId: string): Promise<ReviewCard[]> {
+  return updateCard(userId, deck, cardId, (_, now) => ({ buriedUntil: startOfTomorrow(now) }));
+}
@@ -0,0 +1,302 @@
+// services/storyGraphService.ts
+
+import { db, toFirestoreData } from './firebase';
+import {
+  collection,
+  doc,
+  setDoc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  serverTimestamp,
+} from 'firebase/firestore';
+import { Choice, Outcome, Question, Resources, Scene, StoryEdge, StoryNode, StoryRun } from '../types';
+import { ResolvedResourceLimits, applyResourceDeltas, diffResources } from './resourceRules';
+import { clientCache } from './clientCacheService';
+
+/**
+ * Story graph recorder for the classic journey game
+ *
+ * Each playthrough is a StoryRun: scenes are nodes, choices are edges, and
+ * every edge keeps its Outcome, the resource changes that were applied and the
+ * quiz result. Jumping back to an earlier node keeps the abandoned branch in
+ * the graph, so the story map can show every branch the student tried.
+ *
+ * The functions that change a run are pure (they return a new run); the
+ * caller persists it with saveStoryRun.
+ */
+
+function hashString(value: string): string {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) - hash) + value.charCodeAt(i);
+    hash = hash & hash; // Convert to 32-bit integer
+  }
+  return Math.abs(hash).toString(36);
+}
+
+/**
+ * Node id for a scene. Scenes are cached by prompt, so the same scene reached
+ * in two runs gets the same id, which is what makes runs comparable.
+ */
+export function getSceneNodeId(scene: Scene): string {
+  return `n_${hashString(scene.scenario)}`;
+}
+
+export function createStoryRun(runId: string, journeyId: string, scene: Scene, resources: Resources): StoryRun {
+  const rootNodeId = getSceneNodeId(scene);
+  const now = Date.now();
+  return {
+    runId,
+    journeyId,
+    rootNodeId,
+    currentNodeId: rootNodeId,
+    nodes: {
+      [rootNodeId]: { nodeId: rootNodeId, scene, resources, firedEventIds: [], depth: 0 },
+    },
+    edges: [],
+    pathEdgeIds: [],
+    isGameOver: false,
+    startedAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Edge ids from the root to a node. Prefers the run's current path when the
+ * node is on it; otherwise finds the first branch that reaches it.
+ */
+function findPathTo(run: StoryRun, nodeId: string): string[] {
+  if (nodeId === run.rootNodeId) return [];
+
+  const edgesById = new Map(run.edges.map(edge => [edge.edgeId, edge]));
+  const onPath = run.pathEdgeIds.findIndex(edgeId => edgesById.get(edgeId)?.toNodeId === nodeId);
+  if (onPath !== -1) return run.pathEdgeIds.slice(0, onPath + 1);
+
+  // Breadth-first search from the root
+  const visited = new Set<string>([run.rootNodeId]);
+  const queue: Array<{ nodeId: string; path: string[] }> = [{ nodeId: run.rootNodeId, path: [] }];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const edge of run.edges) {
+      if (edge.fromNodeId !== current.nodeId || !edge.toNodeId || visited.has(edge.toNodeId)) continue;
+      const path = [...current.path, edge.edgeId];
+      if (edge.toNodeId === nodeId) return path;
+      visited.add(edge.toNodeId);
+      queue.push({ nodeId: edge.toNodeId, path });
+    }
+  }
+  return [];
+}
+
+/**
+ * Records a choice made in `fromScene`, with the resources and fired
+ * threshold events after the rule engine resolved it. Choosing the same
+ * option from the same scene again (e.g. after a refresh) updates the
+ * existing edge instead of adding a duplicate.
+ */
+export function recordChoice(
+  run: StoryRun,
+  fromScene: Scene,
+  fromResources: Resources,
+  choice: Choice,
+  outcome: Outcome,
+  resourcesAfter: Resources,
+  isGameOver: boolean,
+  fromFiredEventIds: string[] = [],
+  firedEventIdsAfter: string[] = fromFiredEventIds
+): { run: StoryRun; edgeId: string } {
+  const nodes = { ...run.nodes };
+  const fromNodeId = getSceneNodeId(fromScene);
+  const fromNode: StoryNode = nodes[fromNodeId] || { nodeId: fromNodeId, scene: fromScene, resources: fromResources, depth: 0 };
+  nodes[fromNodeId] = { ...fromNode, resources: fromResources, firedEventIds: fromFiredEventIds };
+
+  let toNodeId: string | null = null;
+  if (!isGameOver && outcome.nextScene) {
+    toNodeId = getSceneNodeId(outcome.nextScene);
+    nodes[toNodeId] = {
+      nodeId: toNodeId,
+      scene: outcome.nextScene,
+      resources: resourcesAfter,
+      firedEventIds: firedEventIdsAfter,
+      depth: (nodes[toNodeId]?.depth ?? fromNode.depth + 1),
+    };
+  }
+
+  const existing = run.edges.find(edge => edge.fromNodeId === fromNodeId && edge.choice.text === choice.text);
+  const edge: StoryEdge = {
+    edgeId: existing?.edgeId || `e_${run.edges.length}_${hashString(`${fromNodeId}|${choice.text}`)}`,
+    fromNodeId,
+    toNodeId,
+    choice,
+    outcome,
+    resourceDeltas: diffResources(fromResources, resourcesAfter),
+    takenAt: Date.now(),
+  };
+  const edges = existing
+    ? run.edges.map(e => (e.edgeId === edge.edgeId ? edge : e))
+    : [...run.edges, edge];
+
+  const withNodes = { ...run, nodes, edges };
+  return {
+    edgeId: edge.edgeId,
+    run: {
+      ...withNodes,
+      currentNodeId: toNodeId || fromNodeId,
+      pathEdgeIds: [...findPathTo(withNodes, fromNodeId), edge.edgeId],
+      isGameOver,
+      updatedAt: Date.now(),
+    },
+  };
+}
+
+/**
+ * Attaches the quiz result to an edge. A penalty (for a wrong answer) is added to
+ * the edge's resource changes and to the resources on arrival at the next scene.
+ * Only the first answer is recorded as the result.
+ */
+export function recordQuizResult(
+  run: StoryRun,
+  edgeId: string,
+  question: Question,
+  isCorrect: boolean,
+  penalty?: Partial<Resources>,
+  limits?: ResolvedResourceLimits
+): StoryRun {
+  const edge = run.edges.find(e => e.edgeId === edgeId);
+  if (!edge) return run;
+
+  const nodes = { ...run.nodes };
+  let resourceDeltas = edge.resourceDeltas;
+  if (penalty && edge.toNodeId && nodes[edge.toNodeId]) {
+    const target = nodes[edge.toNodeId];
+    const resources = applyResourceDeltas(target.resources, penalty, limits);
+    nodes[edge.toNodeId] = { ...target, resources };
+    resourceDeltas = diffResources(nodes[edge.fromNodeId].resources, resources);
+  }
+
+  const updatedEdge: StoryEdge = {
+    ...edge,
+    resourceDeltas,
+    quizResult: edge.quizResult || { questionText: question.questionText, isCorrect },
+  };
+
+  return {
+    ...run,
+    nodes,
+    edges: run.edges.map(e => (e.edgeId === edgeId ? updatedEdge : e)),
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * Moves the run back to an earlier node so another choice can be tried
+ */
+export function jumpToNode(run: StoryRun, nodeId: string): StoryRun {
+  if (!run.nodes[nodeId]) return run;
+  return {
+    ...run,
+    currentNodeId: nodeId,
+    pathEdgeIds: findPathTo(run, nodeId),
+    isGameOver: false,
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * The edges on the run's current branch, in order
+ */
+export function getRunPath(run: StoryRun): StoryEdge[] {
+  const edgesById = new Map(run.edges.map(edge => [edge.edgeId, edge]));
+  return run.pathEdgeIds.map(edgeId => edgesById.get(edgeId)).filter(Boolean) as StoryEdge[];
+}
+
+export interface RunComparisonStep {
+  step: number;
+  a?: StoryEdge;
+  b?: StoryEdge;
+  sameScene: boolean;
+  sameChoice: boolean;
+}
+
+export interface RunComparison {
+  steps: RunComparisonStep[];
+  divergesAt: number | null; // First step where the runs made different choices
+  finalResources: { a: Resources; b: Resources };
+}
+
+/**
+ * Lines up the current branches of two runs of the same journey step by step
+ */
+export function compareRuns(a: StoryRun, b: StoryRun): RunComparison {
+  const pathA = getRunPath(a);
+  const pathB = getRunPath(b);
+  const steps: RunComparisonStep[] = [];
+  let divergesAt: number | null = null;
+
+  for (let i = 0; i < Math.max(pathA.length, pathB.length); i++) {
+    const edgeA = pathA[i];
+    const edgeB = pathB[i];
+    const sameScene = !!edgeA && !!edgeB && edgeA.fromNodeId === edgeB.fromNodeId;
+    const sameChoice = sameScene && edgeA.choice.text === edgeB.choice.text;
+    if (!sameChoice && divergesAt === null) divergesAt = i;
+    steps.push({ step: i + 1, a: edgeA, b: edgeB, sameScene, sameChoice });
+  }
+
+  return {
+    steps,
+    divergesAt,
+    finalResources: {
+      a: a.nodes[a.currentNodeId]?.resources,
+      b: b.nodes[b.currentNodeId]?.resources,
+    },
+  };
+}
+
+// ===== PERSISTENCE =====
+
+/**
+ * Saves a run locally and to Firestore (`users/{uid}/storyRuns/{runId}`)
+ */
+export async function saveStoryRun(userId: string, run: StoryRun): Promise<void> {
+  await clientCache.setStoryRun(userId, run).catch(error =>
+    console.warn('[Story] Failed to save run locally:', error)
+  );
+  await setDoc(doc(db, `users/${userId}/storyRuns`, run.runId), {
+    ...toFirestoreData(run),
+    savedAt: serverTimestamp(),
+  });
+}
+
+/**
+ * Loads a run, preferring whichever copy (local or Firestore) was updated last
+ */
+export async function loadStoryRun(userId: string, runId: string): Promise<StoryRun | null> {
+  const local = await clientCache.getStoryRun(userId, runId).catch(() => null);
+  try {
+    const snapshot = await getDoc(doc(db, `users/${userId}/storyRuns`, runId));
+    if (!snapshot.exists()) return local;
+    const { savedAt, ...remote } = snapshot.data();
+    return local && local.updatedAt > (remote as StoryRun).updatedAt ? local : (remote as StoryRun);
+  } catch (error) {
+    console.warn('[Story] Could not load run from Firestore. Using local copy.', error);
+    return local;
+  }
+}
+
+/**
+ * Loads every run of a journey, most recent first
+ */
+export async function loadStoryRuns(userId: string, journeyId: string): Promise<StoryRun[]> {
+  const snapshot = await getDocs(query(
+    collection(db, `users/${userId}/storyRuns`),
+    where('journeyId', '==', journeyId)
+  ));
+  return snapshot.docs
+    .map(runDoc => {
+      const { savedAt, ...run } = runDoc.data();
+      return run as StoryRun;
+    })
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
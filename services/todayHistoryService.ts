@@ -1,8 +1,9 @@
 // services/todayHistoryService.ts
 
 import { TodayHistoryEvent, TodayHistory } from '../types';
-import { GoogleGenAI } from '@google/genai';
 import { getOrGenerate } from './cacheService';
+import { generateStructured } from './aiService';
+import { validateTodayHistoryEvent, validateTodayHistoryEvents } from './outputValidators';
 
 export interface TodayHistoryConfig {
   userId: string;
@@ -11,10 +12,6 @@ export interface TodayHistoryConfig {
   streakCount?: number;
 }
 
-// Create a single instance of GoogleGenAI
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || process.env.GEMINI_API_KEY || '' });
-const model = 'gemini-2.5-flash';
-
 /**
  * Get today's historical events
  */
@@ -27,6 +24,7 @@ export async function getTodayHistory(config: TodayHistoryConfig): Promise<Today
     topic: 'today-history',
     prompt: `${dateKey}-${config.userId}`,
     userId: config.userId,
+    keyParts: { currentTopics: config.currentTopics, difficulty: config.preferredDifficulty },
     generatorFn: async () => {
       const events = await generateTodayEvents(dateKey, config);
 
@@ -75,18 +73,15 @@ Guidelines:
 - Ensure educational value and accuracy`;
 
   try {
-    const response = await ai.models.generateContent({
-      model: model,
+    const events = await generateStructured<TodayHistoryEvent[]>({
+      task: 'today.events',
       contents: prompt,
-      config: {
-        responseMimeType: 'application/json',
-      },
-    });
-
-    const events = JSON.parse(response.text) as Omit<TodayHistoryEvent, 'miniJourneyId'>[];
+      priority: 'background',
+    }, validateTodayHistoryEvents);
 
     return events.map(event => ({
       ...event,
+      date: dateKey,
       miniJourneyId: undefined,
     }));
   } catch (error) {
@@ -94,6 +89,7 @@ Guidelines:
     // Return fallback events
     return [
       {
+        date: dateKey,
         year: new Date().getFullYear() - 100,
         title: 'Historical Event',
         summary: 'A significant historical event occurred on this date.',
@@ -166,19 +162,15 @@ Return JSON object:
 }`;
 
   try {
-    const response = await ai.models.generateContent({
-      model: model,
+    return await generateStructured<TodayHistoryEvent>({
+      task: 'today.surprise',
       contents: prompt,
-      config: {
-        responseMimeType: 'application/json',
-      },
-    });
-
-    return JSON.parse(response.text) as TodayHistoryEvent;
+    }, validateTodayHistoryEvent);
   } catch (error) {
     console.error('Failed to generate surprise event:', error);
     // Return fallback event
     return {
+      date: '1492-10-12',
       year: 1492,
       title: 'Discovery of the New World',
       summary: 'Christopher Columbus reaches the Americas, opening the Age of Exploration',
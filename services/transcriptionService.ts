@@ -0,0 +1,322 @@
+// services/transcriptionService.ts
+
+import { SourceMoment, TranscriptSegment } from '../types';
+import { getOrGenerate } from './cacheService';
+import { generateStructured } from './aiService';
+import { validateTranscriptSegments } from './outputValidators';
+import { significantWords } from './citationService';
+
+/**
+ * Chunked transcription of uploaded audio lectures
+ *
+ * The recording's length is read from its metadata first, so one that is too
+ * long is refused before anything is decoded. It is then decoded in the
+ * browser, mixed down to 16 kHz mono and cut into TRANSCRIPTION_CHUNK_SECONDS
+ * chunks, each small enough to send inline. MP3 recordings are decoded one
+ * chunk at a time, so a long lecture never sits in memory whole; other formats
+ * are decoded in one go. Every chunk is transcribed and cached on its own,
+ * with timestamps relative to the chunk that are then shifted onto the
+ * recording's timeline. A long recording that fails halfway resumes from the
+ * cached chunks on retry.
+ */
+
+export const TRANSCRIPTION_CHUNK_SECONDS = 5 * 60;
+export const MAX_RECORDING_SECONDS = 2 * 60 * 60;
+const TRANSCRIPTION_SAMPLE_RATE = 16000;
+// Recordings the browser cannot decode are sent whole, up to this size
+const MAX_UNDECODED_BYTES = 15 * 1024 * 1024;
+// How long to wait for the browser to read a recording's length
+const METADATA_TIMEOUT_MS = 10 * 1000;
+// Formats made of independent frames, so any byte range of them decodes on its own
+const FRAMED_AUDIO_TYPES = ['audio/mpeg', 'audio/mp3'];
+
+export interface Transcript {
+  segments: TranscriptSegment[];
+  durationSeconds: number;
+}
+
+export type TranscriptionProgress = (message: string) => void;
+
+/**
+ * "m:ss", or "h:mm:ss" from an hour on
+ */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+/**
+ * The transcript as text with a "[m:ss]" marker on every segment, for the
+ * analyzer and generators
+ */
+export function formatTranscript(segments: TranscriptSegment[]): string {
+  return segments.map(segment => `[${formatTimestamp(segment.start)}] ${segment.text}`).join('\n');
+}
+
+// ===== AUDIO =====
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked, since String.fromCharCode cannot take millions of arguments
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+const unreadable = () => new Error('This recording could not be read. Convert it to MP3 or WAV and upload it again.');
+const tooLong = () => new Error(`Recordings can be at most ${MAX_RECORDING_SECONDS / 3600} hours long.`);
+
+/**
+ * The recording's length from its metadata, read by an <audio> element
+ * without decoding the audio. Null when the browser cannot tell.
+ */
+function readDuration(audio: Blob): Promise<number | null> {
+  return new Promise(resolve => {
+    const element = document.createElement('audio');
+    const url = URL.createObjectURL(audio);
+    let timer: ReturnType<typeof setTimeout>;
+    const finish = (duration: number | null) => {
+      clearTimeout(timer);
+      element.onloadedmetadata = null;
+      element.onerror = null;
+      element.removeAttribute('src');
+      URL.revokeObjectURL(url);
+      resolve(duration);
+    };
+    timer = setTimeout(() => finish(null), METADATA_TIMEOUT_MS);
+    element.preload = 'metadata';
+    element.onloadedmetadata = () => finish(Number.isFinite(element.duration) ? element.duration : null);
+    element.onerror = () => finish(null);
+    element.src = url;
+  });
+}
+
+/**
+ * Decodes audio, taking ownership of `data`
+ */
+async function decodeAudio(data: ArrayBuffer): Promise<AudioBuffer | null> {
+  const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  if (!AudioContextClass) return null;
+  // Decoding resamples to the context's rate, which keeps long lectures small in memory
+  const context: AudioContext = new AudioContextClass({ sampleRate: TRANSCRIPTION_SAMPLE_RATE });
+  try {
+    return await context.decodeAudioData(data);
+  } catch (error) {
+    console.warn('[Transcription] The browser could not decode the recording:', error);
+    return null;
+  } finally {
+    context.close();
+  }
+}
+
+/**
+ * A span of the recording as a 16-bit mono WAV file, base64 encoded
+ */
+function encodeWavChunk(audio: AudioBuffer, startSeconds: number, endSeconds: number): string {
+  const startFrame = Math.floor(startSeconds * audio.sampleRate);
+  const endFrame = Math.min(audio.length, Math.floor(endSeconds * audio.sampleRate));
+  const frames = Math.max(0, endFrame - startFrame);
+  const channels = Array.from({ length: audio.numberOfChannels }, (_, channel) => audio.getChannelData(channel));
+
+  const view = new DataView(new ArrayBuffer(44 + frames * 2));
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + frames * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // PCM header size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, audio.sampleRate, true);
+  view.setUint32(28, audio.sampleRate * 2, true); // Byte rate
+  view.setUint16(32, 2, true); // Block align
+  view.setUint16(34, 16, true); // Bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, frames * 2, true);
+
+  for (let frame = 0; frame < frames; frame++) {
+    let sample = 0;
+    channels.forEach(data => {
+      sample += data[startFrame + frame];
+    });
+    sample = Math.max(-1, Math.min(1, sample / channels.length));
+    view.setInt16(44 + frame * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+  return toBase64(new Uint8Array(view.buffer));
+}
+
+// ===== TRANSCRIPTION =====
+
+async function transcribeChunk(
+  base64Audio: string,
+  mimeType: string,
+  cacheId: string,
+  userId: string,
+  signal?: AbortSignal
+): Promise<TranscriptSegment[]> {
+  const prompt = `Transcribe this recording of a lesson or lecture.
+Split the transcript into segments of one or two sentences each.
+Return a JSON array:
+[{ "start": 0, "end": 7.5, "text": "What the speaker says" }]
+"start" and "end" are seconds from the start of this recording.
+Write what is said in the language it is spoken in. Leave out filler words and background noise.
+If nobody speaks, return an empty array.`;
+
+  return getOrGenerate<TranscriptSegment[]>({
+    type: 'text',
+    topic: 'audio-transcription',
+    prompt: cacheId,
+    userId: userId,
+    validate: validateTranscriptSegments,
+    generatorFn: () => generateStructured<TranscriptSegment[]>({
+      task: 'content.transcribe',
+      contents: [
+        { text: prompt },
+        { inlineData: { data: base64Audio, mimeType } },
+      ],
+      signal,
+    }, validateTranscriptSegments),
+  });
+}
+
+/**
+ * Moves a chunk's segments onto the recording's timeline, keeping them inside the chunk
+ */
+function shiftSegments(segments: TranscriptSegment[], offsetSeconds: number, chunkSeconds: number): TranscriptSegment[] {
+  const clamp = (seconds: number) => Math.max(0, Math.min(chunkSeconds, seconds));
+  return [...segments]
+    .sort((a, b) => a.start - b.start)
+    .map((segment, index, sorted) => {
+      const start = clamp(segment.start);
+      // A missing end runs to the next segment
+      const end = segment.end > segment.start ? clamp(segment.end) : clamp(sorted[index + 1]?.start ?? chunkSeconds);
+      return { start: offsetSeconds + start, end: offsetSeconds + Math.max(start, end), text: segment.text };
+    });
+}
+
+const chunkProgress = (index: number, chunkCount: number) =>
+  chunkCount > 1 ? `Transcribing part ${index + 1} of ${chunkCount}...` : 'Transcribing the recording...';
+
+/**
+ * Transcribes a framed recording (MP3) by byte range, decoding one chunk at a
+ * time. Chunks are cut by byte, so for variable bitrate recordings their
+ * timestamps are approximate.
+ */
+async function transcribeByteRanges(
+  audio: Blob,
+  durationSeconds: number,
+  sourceId: string,
+  userId: string,
+  onProgress?: TranscriptionProgress,
+  signal?: AbortSignal
+): Promise<Transcript> {
+  const chunkCount = Math.max(1, Math.ceil(durationSeconds / TRANSCRIPTION_CHUNK_SECONDS));
+  const bytesPerChunk = Math.ceil(audio.size * TRANSCRIPTION_CHUNK_SECONDS / durationSeconds);
+  const segments: TranscriptSegment[] = [];
+  for (let index = 0; index < chunkCount; index++) {
+    const start = index * TRANSCRIPTION_CHUNK_SECONDS;
+    const end = Math.min(durationSeconds, start + TRANSCRIPTION_CHUNK_SECONDS);
+    signal?.throwIfAborted();
+    onProgress?.(chunkProgress(index, chunkCount));
+    const decoded = await decodeAudio(await audio.slice(index * bytesPerChunk, (index + 1) * bytesPerChunk).arrayBuffer());
+    if (!decoded) throw unreadable();
+    const chunk = await transcribeChunk(encodeWavChunk(decoded, 0, decoded.duration), 'audio/wav', `${sourceId}#t=${start},${end}`, userId, signal);
+    segments.push(...shiftSegments(chunk, start, end - start));
+  }
+
+  console.log(`[Transcription] ${segments.length} segments from ${formatTimestamp(durationSeconds)} of audio`);
+  return { segments, durationSeconds };
+}
+
+/**
+ * Transcribes an audio recording with timestamps. `sourceId` identifies the
+ * recording in the cache, e.g. its download URL.
+ */
+export async function transcribeRecording(
+  audio: Blob,
+  sourceId: string,
+  userId: string,
+  onProgress?: TranscriptionProgress,
+  signal?: AbortSignal
+): Promise<Transcript> {
+  onProgress?.('Preparing the recording...');
+  const knownDuration = await readDuration(audio);
+  if (knownDuration !== null && knownDuration > MAX_RECORDING_SECONDS) throw tooLong();
+  if (knownDuration && FRAMED_AUDIO_TYPES.includes(audio.type)) {
+    return transcribeByteRanges(audio, knownDuration, sourceId, userId, onProgress, signal);
+  }
+
+  const decoded = await decodeAudio(await audio.arrayBuffer());
+  if (!decoded) {
+    if (audio.size > MAX_UNDECODED_BYTES) throw unreadable();
+    onProgress?.('Transcribing the recording...');
+    const data = new Uint8Array(await audio.arrayBuffer());
+    const segments = await transcribeChunk(toBase64(data), audio.type || 'audio/mpeg', `${sourceId}#t=all`, userId, signal);
+    const durationSeconds = segments.reduce((latest, segment) => Math.max(latest, segment.end), 0);
+    return { segments: shiftSegments(segments, 0, durationSeconds), durationSeconds };
+  }
+
+  // Recordings whose metadata has no length are only checked once decoded
+  if (decoded.duration > MAX_RECORDING_SECONDS) throw tooLong();
+
+  const chunkCount = Math.max(1, Math.ceil(decoded.duration / TRANSCRIPTION_CHUNK_SECONDS));
+  const segments: TranscriptSegment[] = [];
+  for (let index = 0; index < chunkCount; index++) {
+    const start = index * TRANSCRIPTION_CHUNK_SECONDS;
+    const end = Math.min(decoded.duration, start + TRANSCRIPTION_CHUNK_SECONDS);
+    signal?.throwIfAborted();
+    onProgress?.(chunkProgress(index, chunkCount));
+    const chunk = await transcribeChunk(encodeWavChunk(decoded, start, end), 'audio/wav', `${sourceId}#t=${start},${end}`, userId, signal);
+    segments.push(...shiftSegments(chunk, start, end - start));
+  }
+
+  console.log(`[Transcription] ${segments.length} segments from ${formatTimestamp(decoded.duration)} of audio`);
+  return { segments, durationSeconds: decoded.duration };
+}
+
+// ===== SOURCE LINKS =====
+
+/**
+ * The part of a transcript that best matches a piece of generated text (a
+ * scene or step built from it), found by word overlap over a few consecutive
+ * segments. Returns null when nothing matches.
+ */
+export function findSourceMoment(
+  segments: TranscriptSegment[],
+  text: string,
+  mediaUrl?: string,
+  windowSize: number = 3
+): SourceMoment | null {
+  const words = significantWords(text);
+  if (words.size === 0 || segments.length === 0) return null;
+
+  const segmentWords = segments.map(segment => significantWords(segment.text));
+  let bestScore = 0;
+  let bestIndex = -1;
+  for (let index = 0; index < segments.length; index++) {
+    const window = new Set<string>();
+    segmentWords.slice(index, index + windowSize).forEach(set => set.forEach(word => window.add(word)));
+    let score = 0;
+    words.forEach(word => {
+      if (window.has(word)) score++;
+    });
+    if (score > bestScore) {
+      bestScore = score;
+      bestIndex = index;
+    }
+  }
+  if (bestIndex === -1) return null;
+
+  const last = segments[Math.min(segments.length, bestIndex + windowSize) - 1];
+  return {
+    startSeconds: segments[bestIndex].start,
+    endSeconds: last.end,
+    ...(mediaUrl ? { mediaUrl } : {}),
+  };
+}
@@ -2,25 +2,11 @@ import { generateGoogleCloudTTS } from './googleCloudTtsService';
 import { generateOpenAITTS, generateAndSpeak } from './openaiTtsService';
 import { generateTtsAudio } from './geminiService';
 
-interface TtsRequest {
-  text: string;
-  userId: string;
-  resolve: (value: string | null) => void;
-  reject: (reason?: any) => void;
-  options?: {
-    refineWithGemini?: boolean;
-    useOpenAI?: boolean;
-  };
+interface TtsOptions {
+  refineWithGemini?: boolean;
+  useOpenAI?: boolean;
 }
 
-const queue: TtsRequest[] = [];
-let isProcessing = false;
-
-// Google Cloud TTS has higher rate limits, but we'll use a conservative interval
-// Gemini API TTS has a rate limit of 10 requests per minute.
-// Processing one request every 7 seconds (60s / 10 = 6s base) provides a safe buffer.
-const REQUEST_INTERVAL = 7000; 
-
 // Check if various TTS services are available
 const isGoogleCloudTTSAvailable = (): boolean => {
   return !!process.env.GOOGLE_CLOUD_TTS_API_KEY;
@@ -30,66 +16,54 @@ const isOpenAITTSAvailable = (): boolean => {
   return !!process.env.OPENAI_API_KEY;
 };
 
-const processQueue = async () => {
-  if (queue.length === 0) {
-    isProcessing = false;
-    return;
-  }
-
-  isProcessing = true;
-  const { text, userId, resolve, reject, options = {} } = queue.shift()!;
-
-  try {
-    let audioData: string | null = null;
-    
-    // If OpenAI is explicitly requested or refineWithGemini is true, use enhanced OpenAI TTS
-    if (options.useOpenAI || options.refineWithGemini) {
-      if (isOpenAITTSAvailable()) {
-        audioData = await generateAndSpeak(text, userId, {
-          refineWithGemini: options.refineWithGemini,
-          openaiConfig: {},
-        });
-      }
-    }
-    
-    // Try Google Cloud TTS (higher quality, more stable)
-    if (!audioData && isGoogleCloudTTSAvailable()) {
-      audioData = await generateGoogleCloudTTS(text, userId);
-    }
-    
-    // Try OpenAI TTS (if not already tried)
-    if (!audioData && isOpenAITTSAvailable() && !options.useOpenAI && !options.refineWithGemini) {
-      audioData = await generateOpenAITTS(text, userId);
+/**
+ * Synthesizes speech with the first available TTS backend
+ */
+const synthesize = async (text: string, userId: string, options: TtsOptions = {}): Promise<string | null> => {
+  let audioData: string | null = null;
+  
+  // If OpenAI is explicitly requested or refineWithGemini is true, use enhanced OpenAI TTS
+  if (options.useOpenAI || options.refineWithGemini) {
+    if (isOpenAITTSAvailable()) {
+      audioData = await generateAndSpeak(text, userId, {
+        refineWithGemini: options.refineWithGemini,
+        openaiConfig: {},
+      });
     }
+  }
+  
+  // Try Google Cloud TTS (higher quality, more stable)
+  if (!audioData && isGoogleCloudTTSAvailable()) {
+    audioData = await generateGoogleCloudTTS(text, userId);
+  }
+  
+  // Try OpenAI TTS (if not already tried)
+  if (!audioData && isOpenAITTSAvailable() && !options.useOpenAI && !options.refineWithGemini) {
+    audioData = await generateOpenAITTS(text, userId);
+  }
+  
+  // Gemini TTS is disabled - it's not reliably supported
+  // If no TTS service is available, log a helpful message
+  if (!audioData) {
+    const availableServices = [];
+    if (isOpenAITTSAvailable()) availableServices.push('OpenAI TTS');
+    if (isGoogleCloudTTSAvailable()) availableServices.push('Google Cloud TTS');
     
-    // Gemini TTS is disabled - it's not reliably supported
-    // If no TTS service is available, log a helpful message
-    if (!audioData) {
-      const availableServices = [];
-      if (isOpenAITTSAvailable()) availableServices.push('OpenAI TTS');
-      if (isGoogleCloudTTSAvailable()) availableServices.push('Google Cloud TTS');
-      
-      if (availableServices.length === 0) {
-        console.warn('[TTS] No TTS service available. Please configure OPENAI_API_KEY or GOOGLE_CLOUD_TTS_API_KEY in .env.local');
-      } else {
-        console.warn(`[TTS] TTS generation failed. Available services: ${availableServices.join(', ')}`);
-      }
+    if (availableServices.length === 0) {
+      console.warn('[TTS] No TTS service available. Please configure OPENAI_API_KEY or GOOGLE_CLOUD_TTS_API_KEY in .env.local');
+    } else {
+      console.warn(`[TTS] TTS generation failed. Available services: ${availableServices.join(', ')}`);
     }
-    
-    resolve(audioData);
-  } catch (error) {
-    console.error(`TTS Service failed for text: "${text}"`, error);
-    reject(error);
-  } finally {
-    // Wait for the interval before processing the next item in the queue.
-    setTimeout(processQueue, REQUEST_INTERVAL);
   }
+  
+  return audioData;
 };
 
 export const ttsService = {
   /**
-   * Adds a text-to-speech request to a queue to be processed sequentially.
-   * This prevents API rate limit errors by avoiding bursts of concurrent requests.
+   * Returns cached audio right away. New audio is synthesized through the AI
+   * governor, which processes TTS sequentially within its rate limit to avoid
+   * bursts of concurrent requests.
    * 
    * Priority order:
    * 1. OpenAI TTS (if explicitly requested or refineWithGemini is true)
@@ -109,25 +83,18 @@ export const ttsService = {
   requestTts: (
     text: string,
     userId: string,
-    options?: {
-      refineWithGemini?: boolean;
-      useOpenAI?: boolean;
-    }
+    options?: TtsOptions
   ): Promise<string | null> => {
-    return new Promise((resolve, reject) => {
-      // Immediately resolve with null for empty text to avoid unnecessary API calls.
-      if (!text || text.trim().length === 0) {
-        resolve(null);
-        return;
-      }
-      
-      queue.push({ text, userId, resolve, reject, options });
+    // Immediately resolve with null for empty text to avoid unnecessary API calls.
+    if (!text || text.trim().length === 0) {
+      return Promise.resolve(null);
+    }
 
-      // If the queue is not currently being processed, start it.
-      if (!isProcessing) {
-        processQueue();
-      }
-    });
+    return synthesize(text, userId, options)
+      .catch(error => {
+        console.error(`TTS Service failed for text: "${text}"`, error);
+        throw error;
+      });
   },
   
   /**
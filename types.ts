@@ -1,7 +1,11 @@
+// From the user's `role` custom claim; users without one are students
+export type UserRole = 'student' | 'teacher' | 'admin';
+
 export interface User {
   uid: string;
   displayName: string;
   photoURL: string;
+  role: UserRole;
 }
 
 export interface Journey {
@@ -10,6 +14,71 @@ export interface Journey {
   description: string;
   cardImage: string;
   startingPrompt: string;
+  // Optional authoring metadata (see services/journeyDefinitionService.ts)
+  era?: string; // e.g. "1789" or "Late Bronze Age"
+  region?: string;
+  gradeLevel?: GradeRange;
+  startingResources?: Resources; // Defaults to INITIAL_RESOURCES
+  resourceLabels?: Partial<Record<keyof Resources, ResourceLabel>>;
+  resourceRules?: ResourceRuleSet;
+  winConditions?: JourneyCondition[];
+  loseConditions?: JourneyCondition[]; // Defaults to DEFAULT_LOSE_CONDITIONS
+  factSheet?: string[]; // Curated facts generated scenes and questions are checked against
+  source?: JourneySource;
+}
+
+export type JourneySource = 'builtin' | 'file' | 'firestore';
+
+export interface GradeRange {
+  min: number; // 0 = kindergarten
+  max: number;
+}
+
+// Display name for a resource, e.g. "Honor" instead of "Influence"
+export interface ResourceLabel {
+  name: string;
+  icon: string;
+}
+
+/**
+ * A win or lose condition. Every field that is set must hold: e.g.
+ * { resource: 'food', atMost: 0 } or { afterChoices: 8, resource: 'influence', atLeast: 60 }.
+ */
+export interface JourneyCondition {
+  resource?: keyof Resources;
+  stat?: string; // Id of a DerivedStat, compared with atLeast/atMost like a resource
+  atLeast?: number;
+  atMost?: number;
+  afterChoices?: number; // Holds once the player has made this many choices
+  message: string; // Shown on the end screen
+}
+
+// Per-journey resource rules, applied by services/resourceRules.ts
+export interface ResourceRuleSet {
+  limits?: Partial<Record<keyof Resources, ResourceLimit>>;
+  derivedStats?: DerivedStat[];
+  thresholdEvents?: ThresholdEvent[];
+}
+
+export interface ResourceLimit {
+  min?: number; // Defaults to RESOURCE_MIN
+  max?: number; // Defaults to RESOURCE_MAX
+  maxChangePerChoice?: number; // Largest change a single outcome may apply
+}
+
+// A read-only stat computed from resources, e.g. morale = 0.5 * food + 0.5 * health
+export interface DerivedStat {
+  id: string;
+  name: string;
+  icon: string;
+  weights: Partial<Record<keyof Resources, number>>;
+}
+
+// Effects applied after every choice while the condition holds (e.g. food at 0 drains health)
+export interface ThresholdEvent extends JourneyCondition {
+  id: string;
+  effects: Partial<Resources>;
+  once?: boolean; // Fire only the first time the condition holds
 }
 
 export interface Choice {
@@ -19,11 +88,15 @@ export interface Choice {
 export interface Scene {
   scenario: string;
   choices: Choice[];
+  accuracy?: AccuracyReport; // For the scenario
+  sourceMoment?: SourceMoment; // Study scenes built from a recording
+  citations?: SourceCitation[]; // Study scenes: the passages of the material they teach
 }
 
 export interface Outcome {
   outcomeText: string;
   mentorInsight: string;
+  mentorInsightAccuracy?: AccuracyReport;
   resourceChanges: Partial<Resources>;
   question: Question;
   nextScene: Scene;
@@ -31,6 +104,31 @@ export interface Outcome {
   gameOverReason?: string;
 }
 
+/**
+ * Result of the historical accuracy check (services/factCheckService.ts) on a
+ * piece of generated text:
+ * - verified: every claim is backed by the reference
+ * - likely: nothing contradicts it, but some claims are not in the reference
+ * - unverified: the checker could not decide, or the check did not run
+ * - disputed: a claim contradicts the reference and could not be fixed
+ */
+export type AccuracyConfidence = 'verified' | 'likely' | 'unverified' | 'disputed';
+
+export type ClaimVerdict = 'supported' | 'consistent' | 'contradicted' | 'uncertain';
+
+export interface ClaimCheck {
+  claim: string;
+  verdict: ClaimVerdict;
+  note?: string; // Why, or what the reference says instead
+}
+
+export interface AccuracyReport {
+  confidence: AccuracyConfidence;
+  claims: ClaimCheck[];
+  checkedAgainst: 'source' | 'factSheet' | 'general'; // Uploaded material, the journey's fact sheet, or neither
+  corrected?: boolean; // The text was rewritten to fix a contradicted claim
+}
+
 export interface Resources {
   health: number;
   food: number;
@@ -44,6 +142,46 @@ export interface GameState {
   resources: Resources;
   isGameOver: boolean;
   gameOverReason?: string;
+  storyRunId?: string; // The StoryRun recording this playthrough
+  choicesMade?: number;
+  firedEventIds?: string[]; // ThresholdEvents with `once` that already fired
+  hasWon?: boolean; // Set with isGameOver when a win condition was met
+}
+
+// Story graph (one per playthrough): scenes are nodes, choices are edges
+export interface StoryNode {
+  nodeId: string; // Derived from the scenario text, so the same scene has the same id in every run
+  scene: Scene;
+  resources: Resources; // On arrival, after the previous choice and quiz
+  firedEventIds?: string[]; // On arrival; missing in runs saved before it was recorded
+  depth: number;
+}
+
+export interface StoryEdge {
+  edgeId: string;
+  fromNodeId: string;
+  toNodeId: string | null; // null when the choice ended the game
+  choice: Choice;
+  outcome: Outcome;
+  resourceDeltas: Partial<Resources>; // What was actually applied, after clamping
+  quizResult?: {
+    questionText: string;
+    isCorrect: boolean;
+  };
+  takenAt: number; // epoch ms
+}
+
+export interface StoryRun {
+  runId: string;
+  journeyId: string;
+  rootNodeId: string;
+  currentNodeId: string;
+  nodes: Record<string, StoryNode>;
+  edges: StoryEdge[]; // Every branch ever taken, including abandoned ones
+  pathEdgeIds: string[]; // The branch from the root to the current node
+  isGameOver: boolean;
+  startedAt: number;
+  updatedAt: number;
 }
 
 export interface Progress {
@@ -57,6 +195,67 @@ export interface Progress {
   };
 }
 
+/**
+ * A saved run of a classic journey. A journey can have several slots.
+ */
+export interface SaveSlot {
+  slotId: string;
+  journeyId: string;
+  gameState: GameState;
+  scenesPlayed: number;
+  createdAt: number; // epoch ms
+  updatedAt: number; // epoch ms
+  deletedAt?: number; // epoch ms; a deleted slot is kept so other devices' copies do not bring it back
+}
+
+// How a student rated recalling a review card (services/spacedRepetitionService.ts)
+export type ReviewRating = 'again' | 'hard' | 'good' | 'easy';
+
+export type ReviewCardState = 'new' | 'learning' | 'review' | 'relearning';
+
+// Where a question in the review deck was answered, or the material a flashcard was made from
+export interface ReviewCardSource {
+  mode: 'study' | 'classic' | 'flashcards';
+  journeyId?: string; // Not set for flashcards
+  stepId?: string; // Study journeys: the JourneyStep; classic journeys: the story node
+  materialId?: string;
+}
+
+/**
+ * A question in the student's spaced-repetition deck, scheduled with SM-2
+ */
+export interface ReviewCard {
+  id: string;
+  question: Question;
+  sources: ReviewCardSource[]; // Every journey and step it was enrolled from
+  state: ReviewCardState;
+  ease: number; // SM-2 ease factor, 1.3 and up
+  intervalDays: number; // Since the last review; 0 while learning
+  step: number; // Learning or relearning step the card is at
+  repetitions: number; // Successful reviews in a row
+  lapses: number; // Times a learned card was forgotten
+  due: number; // epoch ms
+  lastReviewedAt: number | null; // epoch ms
+  createdAt: number; // epoch ms
+  updatedAt: number; // epoch ms
+  removedAt?: number; // Removed from the deck; kept so other devices drop it too
+  suspended?: boolean; // Kept with its schedule, but not reviewed until unsuspended
+  buriedUntil?: number; // epoch ms; skipped for the rest of the day
+}
+
+/**
+ * One review of a card, as it was scheduled
+ */
+export interface ReviewLog {
+  cardId: string;
+  rating: ReviewRating;
+  state: ReviewCardState; // Before the review
+  elapsedDays: number; // Since the previous review
+  scheduledDays: number; // Until the next review
+  ease: number; // After the review
+  reviewedAt: number; // epoch ms
+}
+
 export type TutorMood = 'happy' | 'sad' | 'neutral' | 'wise';
 
 // FIX: Added missing type definitions and exports
@@ -69,12 +268,15 @@ export enum QuestionType {
   FILL_IN_THE_BLANK = 'FILL_IN_THE_BLANK',
   CAUSE_AND_EFFECT = 'CAUSE_AND_EFFECT',
   SHORT_EXPLANATION = 'SHORT_EXPLANATION',
+  FLASHCARD = 'FLASHCARD',
 }
 
 export interface BaseQuestion {
   type: QuestionType;
   questionText: string;
   explanation: string;
+  accuracy?: AccuracyReport; // For the explanation
+  citations?: SourceCitation[]; // Study questions: the passages they ask about
 }
 
 export interface MultipleChoiceQuestion extends BaseQuestion {
@@ -140,6 +342,44 @@ export interface ShortExplanationQuestion extends BaseQuestion {
   keyConcepts: string[];
 }
 
+// What a flashcard pairs: a term and its definition, a date and its event, a person and their role
+export type FlashcardKind = 'term' | 'date' | 'person';
+
+/**
+ * A flashcard from a study material (services/flashcardService.ts). The
+ * questionText is the front; the student recalls the answer on the back.
+ */
+export interface FlashcardQuestion extends BaseQuestion {
+  type: QuestionType.FLASHCARD;
+  kind: FlashcardKind;
+  answer: string;
+  imagePrompt?: string; // Only where a picture helps recall
+  imageUrl?: string;
+}
+
+// One part of a question an answer is marked on, e.g. a matching pair or an ordered item
+export interface AnswerPart {
+  id: string; // The prompt id, item id or key concept; 'answer' for single-answer questions
+  correct: boolean;
+}
+
+/**
+ * How well a student answered a question (services/answerScoring.ts)
+ */
+export interface AnswerScore {
+  score: number; // 0-1, the share of parts right
+  isCorrect: boolean; // Full marks
+  parts: AnswerPart[];
+  response: unknown; // The student's answer as given: an option, the pairs, the order or the text
+}
+
+// How the student got to an answer, measured from when the question was shown
+export interface AnswerTelemetry {
+  firstInteractionMs: number | null; // First click or key press in the question; null if they never touched it
+  answerMs: number;
+  hintsViewed: number;
+}
+
 export type Question =
   | MultipleChoiceQuestion
   | TrueFalseQuestion
@@ -148,11 +388,13 @@ export type Question =
   | ImageRecognitionQuestion
   | FillInTheBlankQuestion
   | CauseAndEffectQuestion
-  | ShortExplanationQuestion;
+  | ShortExplanationQuestion
+  | FlashcardQuestion;
 
 export interface TimelineEvent {
   date: string;
   description: string;
+  accuracy?: AccuracyReport;
 }
 
 export interface Lesson {
@@ -204,7 +446,9 @@ export interface StudyMaterial {
   userId: string;
   type: 'pdf' | 'image' | 'text' | 'audio' | 'word';
   title: string;
-  rawText: string;
+  rawText?: string; // Materials saved before textPath: the analyzed text itself
+  textPath?: string; // Storage file with the analyzed text and transcript (services/materialTextService.ts)
+  textLength?: number;
   topics: string[];
   terms: string[];
   gradeLevel: string;
@@ -217,6 +461,44 @@ export interface StudyMaterial {
   tags?: string[];
   difficulty?: 'beginner' | 'intermediate' | 'advanced';
   subject?: string;
+  transcript?: TranscriptSegment[]; // Audio uploads saved before textPath (services/transcriptionService.ts)
+  durationSeconds?: number;
+  pageURLs?: string[]; // Scan sessions: the photo of each page, in order; downloadURL is the first
+  folderId?: string | null; // MaterialFolder in the student's library; unfiled when missing
+  userTags?: string[]; // The student's own tags, next to the AI `tags`
+}
+
+// A folder (e.g. a unit or a course) in the student's material library
+export interface MaterialFolder {
+  id: string;
+  userId: string;
+  name: string;
+  createdAt: any; // Firestore Timestamp
+}
+
+// A timed piece of a transcribed recording, in seconds from its start
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// A span of a recording that a scene or journey step was built from
+export interface SourceMoment {
+  startSeconds: number;
+  endSeconds: number;
+  mediaUrl?: string;
+}
+
+// A passage of a StudyMaterial's text that generated content is based on
+export interface SourceCitation {
+  materialId: string;
+  materialTitle?: string; // Set where citations can come from several materials
+  startOffset: number; // Character offsets into the material's text
+  endOffset: number;
+  pageNumber?: number; // PDFs, from the "[Page N]" markers in the extracted text
+  section?: string; // Title of the analyzed section, for long material
+  quote: string; // The start of the passage, shown when the material cannot be loaded
 }
 
 export interface ContentAnalysis {
@@ -230,6 +512,18 @@ export interface ContentAnalysis {
   estimatedTime: number;
   suggestedJourneyType: 'timeline' | 'map' | 'character' | 'concept' | 'mixed';
   summary: string;
+  sections?: SectionAnalysis[]; // Long material only, in document order
+}
+
+// The analysis of one section of long study material
+export interface SectionAnalysis {
+  title: string;
+  topics: string[];
+  keywords: string[];
+  mainPoints: string[];
+  summary: string;
+  startOffset: number; // Where the section starts in the analyzed text
+  endOffset: number;
 }
 
 // Updated Journey model as per spec
@@ -243,7 +537,8 @@ export interface PersonalJourney {
   estMinutes: number;
   assets: JourneyAsset[];
   createdAt: any; // Firestore Timestamp
-  sourceMaterialId?: string;
+  sourceMaterialId?: string; // The first of sourceMaterialIds
+  sourceMaterialIds?: string[]; // Journeys built from several materials
   analysis?: ContentAnalysis;
   progress?: {
     completedScenes: number;
@@ -272,6 +567,8 @@ export interface JourneyStep {
   ttsAudioUrl?: string;
   questions?: Question[];
   xpValue?: number;
+  sourceMoment?: SourceMoment; // Where in the source recording this step came from
+  citations?: SourceCitation[]; // The passages of the source material this step came from
 }
 
 export interface JourneyAsset {
@@ -315,7 +612,7 @@ export interface JourneyProgress {
   userId: string;
   step: number;
   xpEarned: number;
-  accuracy: number[];
+  accuracy: number[]; // 0-1 score of each question in the latest step
   reviewedAt: any; // Firestore Timestamp
   timeSpent: number;
   completed: boolean;
@@ -326,6 +623,81 @@ export interface JourneyProgress {
   completedAt?: any;
 }
 
+/**
+ * One answer to one question, from the attempt log (services/attemptLogService.ts)
+ */
+export interface QuestionAttempt {
+  userId: string;
+  questionId: string; // The question's reviewCardId, the same across journeys
+  questionType: QuestionType;
+  questionText: string;
+  options?: string[]; // Multiple choice and cause and effect
+  correctAnswer?: string; // Multiple choice and cause and effect
+  source: ReviewCardSource;
+  response: unknown; // The chosen option or text, the pairs or the order
+  score: number;
+  isCorrect: boolean;
+  firstInteractionMs: number | null;
+  answerMs: number;
+  hintsViewed: number;
+  attemptNumber: number; // 1 for the student's first answer to this question
+  answeredAt: any; // Firestore Timestamp
+}
+
+/**
+ * Running totals for one multiple choice or cause and effect question in one
+ * journey, updated as attempts are logged. A question whose options or
+ * correct answer change gets new totals.
+ */
+export interface QuestionStats {
+  statsId: string; // The document id
+  journeyId: string;
+  questionId: string;
+  questionType: QuestionType.MULTIPLE_CHOICE | QuestionType.CAUSE_AND_EFFECT;
+  questionText: string;
+  options: string[]; // Sorted
+  correctAnswer: string;
+  attempts: number;
+  students: number; // Counted on each student's first attempt
+  firstInteractionMsTotal: number;
+  firstInteractionCount: number; // Attempts with a first interaction
+  updatedAt: any; // Firestore Timestamp
+}
+
+// Running totals for one option of a QuestionStats, once someone picked it
+export interface QuestionOptionStats {
+  journeyId: string;
+  statsId: string;
+  option: string;
+  picks: number; // Attempts that chose it
+  firstPicks: number; // Students who chose it on their first attempt
+  updatedAt: any; // Firestore Timestamp
+}
+
+// How many students picked one option of a question
+export interface DistractorOption {
+  option: string;
+  isCorrect: boolean;
+  picks: number; // Attempts that chose it
+  students: number; // Students who chose it on their first attempt
+}
+
+/**
+ * Which options of a multiple choice or cause and effect question students
+ * pick, most attractive wrong option first
+ */
+export interface DistractorReport {
+  statsId: string;
+  questionId: string;
+  questionType: QuestionType.MULTIPLE_CHOICE | QuestionType.CAUSE_AND_EFFECT;
+  questionText: string;
+  correctAnswer: string;
+  attempts: number;
+  students: number;
+  averageFirstInteractionMs: number | null;
+  options: DistractorOption[];
+}
+
 export interface TutorSession {
   sessionId: string;
   userId: string;
@@ -356,16 +728,20 @@ export interface ProgressAnalytics {
 }
 
 // Caching System Types
-export type CacheContentType = 'scene' | 'outcome' | 'video' | 'hint' | 'feedback' | 'tts' | 'text' | 'image' | 'quiz';
+export type CacheContentType = 'scene' | 'outcome' | 'video' | 'hint' | 'feedback' | 'tts' | 'text' | 'image' | 'quiz' | 'question';
 
 export interface CachedContent<T> {
   id?: string;
   type: CacheContentType;
   topic: string; 
-  prompt: string;
+  prompt: string; // May be truncated; the document ID is the content-addressed cache key
+  model?: string;
+  schemaVersion?: number;
+  generatorVersion?: number; // Entries from a different generator version are stale
   content?: T;
   url?: string;
   createdAt: any; // Firestore Timestamp
+  expiresAt?: any; // Firestore Timestamp, pushed out as the entry gets popular
   createdBy: string;
   views: number;
   likedBy: string[];
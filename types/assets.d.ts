@@ -0,0 +1,5 @@
+// Vite asset imports, e.g. import workerUrl from 'some-package/worker.js?url'
+declare module '*?url' {
+  const url: string;
+  export default url;
+}